@@ -2,11 +2,7 @@
  * Shared document generator for chat integrations
  */
 
-import {
-  generateAllDocuments,
-  writeDocuments,
-  type TemplateContext,
-} from '@intentsolutions/blueprint';
+import { Blueprint } from '@intentsolutions/blueprint';
 import * as fs from 'fs';
 import * as path from 'path';
 import archiver from 'archiver';
@@ -27,6 +23,7 @@ export interface GeneratedDocs {
 
 export class DocGenerator {
   private tempDir: string;
+  private blueprint = new Blueprint();
 
   constructor(tempDir: string = '/tmp/blueprint-docs') {
     this.tempDir = tempDir;
@@ -43,23 +40,19 @@ export class DocGenerator {
       audience = 'business',
     } = options;
 
-    const context: TemplateContext = {
-      projectName,
-      projectDescription,
-      scope,
-      audience,
-    };
-
-    // Generate documents
-    const docs = generateAllDocuments(context);
-
     // Create unique output directory
     const timestamp = Date.now();
     const safeName = projectName.toLowerCase().replace(/[^a-z0-9]/g, '-');
     const outputDir = path.join(this.tempDir, `${safeName}-${timestamp}`);
 
-    // Write documents
-    const files = writeDocuments(docs, outputDir);
+    // Generate and write documents
+    const { files } = await this.blueprint.generate({
+      projectName,
+      projectDescription,
+      scope,
+      audience,
+      outputDir,
+    });
 
     // Create zip archive
     const zipPath = await this.createZip(outputDir, safeName);
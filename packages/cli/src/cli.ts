@@ -13,17 +13,41 @@ import {
   generateAllDocuments,
   writeDocuments,
   getTemplatesForScope,
+  resolveTemplateScope,
+  loadScopeProfiles,
+  listScopeNames,
+  BUILTIN_SCOPES,
+  LOCALES,
+  resolveLocale,
   type TemplateContext,
   SCOPES,
   AUDIENCES,
 } from './core/index.js';
+import { streamAllDocumentsWithModel } from './core/ai.js';
+import {
+  streamDocumentsToDisk,
+  printMergeSummary,
+  printValidationReport,
+  writeFormattedDocuments,
+} from './commands/generate.js';
+import type { MergeResult } from './core/merge.js';
+import type { InterviewEngine, IntakeRecord } from './interview/index.js';
+import type { PluginPipeline } from './plugins/index.js';
 
 const program = new Command();
 
 program
   .name('blueprint')
   .description('Intent Blueprint - Enterprise AI Documentation Generator')
-  .version('2.7.0');
+  .version('2.7.0')
+  .option('--verbose', 'Show debug output from plugins')
+  .option('--quiet', 'Only show plugin errors')
+  .hook('preAction', () => {
+    // Plugin loggers read the level from the environment
+    const { verbose, quiet } = program.opts();
+    if (verbose) process.env.BLUEPRINT_LOG_LEVEL = 'debug';
+    else if (quiet) process.env.BLUEPRINT_LOG_LEVEL = 'error';
+  });
 
 // Init command
 program
@@ -32,6 +56,11 @@ program
   .action(async () => {
     console.log(chalk.blue('\n🚀 Intent Blueprint - Project Initialization\n'));
 
+    const profiles = loadScopeProfiles();
+    const customScopes = listScopeNames({ builtins: BUILTIN_SCOPES, profiles })
+      .filter(s => s.source !== 'builtin')
+      .map(s => ({ name: `${s.name} (${s.source} profile)`, value: s.name }));
+
     const answers = await inquirer.prompt([
       {
         type: 'input',
@@ -53,8 +82,9 @@ program
           { name: 'MVP (4 essential docs)', value: 'mvp' },
           { name: 'Standard (12 core docs)', value: 'standard' },
           { name: 'Comprehensive (22 docs)', value: 'comprehensive' },
+          ...customScopes,
         ],
-        default: 'standard',
+        default: profiles.defaultScope || 'standard',
       },
       {
         type: 'list',
@@ -79,13 +109,15 @@ program
         audience: answers.audience,
       };
 
-      const docs = generateAllDocuments(context);
       const outputDir = `./docs/${answers.projectName.toLowerCase().replace(/\s+/g, '-')}`;
-      const files = writeDocuments(docs, outputDir);
+      const pipeline = await loadPluginPipeline(outputDir);
+      const { documents: docs, validations } = await pipeline.generate(context, generateAllDocuments);
+      const files = writeDocuments(docs, outputDir, { context });
 
       spinner.succeed(chalk.green(`Generated ${docs.length} documents!`));
       console.log(chalk.dim(`\nOutput: ${outputDir}`));
       console.log(chalk.dim(`Files: ${files.length}`));
+      printValidationReport(validations);
     } catch (error) {
       spinner.fail(chalk.red('Failed to generate documentation'));
       console.error(error);
@@ -99,13 +131,31 @@ program
   .description('Generate documentation with options')
   .option('-n, --name <name>', 'Project name')
   .option('-d, --description <desc>', 'Project description')
-  .option('-s, --scope <scope>', 'Scope: mvp, standard, comprehensive', 'standard')
+  .option('-s, --scope <scope>', 'Scope: mvp, standard, comprehensive, or a scope profile (default: standard)')
   .option('-a, --audience <audience>', 'Audience: startup, business, enterprise', 'business')
   .option('-o, --output <dir>', 'Output directory')
+  .option('-m, --model <alias>', 'Author each section with an AI model (e.g. claude, gpt-4o, llama)')
+  .option('-l, --locale <locale>', `Output language: ${LOCALES.join(', ')}`)
+  .option('--merge', 'Regenerate in place, keeping sections you edited by hand')
+  .option('--from-intake <file>', 'Regenerate from the intake.yaml an interview saved with its documents')
+  .option('-f, --format <ext>', 'Also write each document with a formatter plugin (e.g. html)')
   .action(async (options) => {
     let projectName = options.name;
     let projectDescription = options.description;
 
+    let intake: IntakeRecord | undefined;
+    if (options.fromIntake) {
+      try {
+        const { readIntake } = await import('./interview/index.js');
+        intake = readIntake(options.fromIntake);
+      } catch (error) {
+        console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
+      }
+      projectName = intake.context.projectName;
+      projectDescription = intake.context.projectDescription;
+    }
+
     if (!projectName || !projectDescription) {
       const answers = await inquirer.prompt([
         {
@@ -127,22 +177,73 @@ program
       projectDescription = projectDescription || answers.projectDescription;
     }
 
+    let locale;
+    try {
+      locale = resolveLocale(intake ? intake.context.locale : options.locale);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    // An intake's context is used as recorded, so the suite comes out the same
+    const requested: TemplateContext = intake?.context ?? {
+      projectName,
+      projectDescription,
+      scope: options.scope || loadScopeProfiles().defaultScope || 'standard',
+      audience: options.audience as 'startup' | 'business' | 'enterprise',
+      locale,
+    };
+    const outputDir = options.output || `./docs/${projectName.toLowerCase().replace(/\s+/g, '-')}`;
+    const pipeline = await loadPluginPipeline(outputDir);
+    const mergeResults: MergeResult[] = [];
+    const writeOptions = {
+      merge: Boolean(options.merge),
+      onMerge: (result: MergeResult) => mergeResults.push(result),
+    };
+
+    if (options.model) {
+      try {
+        const { documents: docs, context, validations } = await pipeline.generate(requested, (context) =>
+          streamDocumentsToDisk(
+            streamAllDocumentsWithModel(context, { model: options.model, answers: intake?.answers }),
+            outputDir,
+            { write: !options.merge }
+          )
+        );
+        writeDocuments(docs, outputDir, { ...writeOptions, context });
+        if (options.format) await writeFormattedDocuments(pipeline, docs, options.format, outputDir);
+        if (intake) await rewriteIntake(intake, outputDir);
+
+        console.log(chalk.green(`\n✔ Generated ${docs.length} documents!`));
+        if (options.merge) printMergeSummary(mergeResults);
+        console.log(chalk.dim(`\nOutput: ${outputDir}`));
+        printValidationReport(validations);
+      } catch (error) {
+        console.error(chalk.red('\n✖ Generation failed'));
+        console.error(error);
+        process.exit(1);
+      }
+      return;
+    }
+
     const spinner = ora('Generating documentation...').start();
 
     try {
-      const context: TemplateContext = {
-        projectName,
-        projectDescription,
-        scope: options.scope as 'mvp' | 'standard' | 'comprehensive',
-        audience: options.audience as 'startup' | 'business' | 'enterprise',
-      };
-
-      const docs = generateAllDocuments(context);
-      const outputDir = options.output || `./docs/${projectName.toLowerCase().replace(/\s+/g, '-')}`;
-      const files = writeDocuments(docs, outputDir);
+      const { documents: docs, context, validations } = await pipeline.generate(requested, generateAllDocuments);
+      const files = writeDocuments(docs, outputDir, { ...writeOptions, context });
+      if (options.format) await writeFormattedDocuments(pipeline, docs, options.format, outputDir);
+      if (intake) await rewriteIntake(intake, outputDir);
 
       spinner.succeed(chalk.green(`Generated ${docs.length} documents!`));
+      if (options.merge) printMergeSummary(mergeResults);
       console.log(chalk.dim(`\nOutput: ${outputDir}`));
+      printValidationReport(validations);
+
+      const untranslated = docs.filter(d => d.locale !== locale).length;
+      if (untranslated > 0) {
+        console.log(chalk.yellow(`\n⚠ ${untranslated} documents have no ${locale} template and were written in English.`));
+        console.log(chalk.dim(`  Translate them with: blueprint translate ${outputDir} --locale ${locale} --model <alias>`));
+      }
     } catch (error) {
       spinner.fail(chalk.red('Generation failed'));
       console.error(error);
@@ -155,89 +256,228 @@ program
   .command('interview')
   .description('Adaptive AI-guided documentation interview with smart detection')
   .option('-q, --quick', 'Quick mode - just name and description')
+  .option('-m, --model <alias>', 'Author each section with an AI model (e.g. claude, gpt-4o, llama)')
+  .option('-l, --locale <locale>', `Interview and output language: ${LOCALES.join(', ')}`)
+  .option('-r, --resume <id>', 'Resume a saved interview session')
+  .option('--scan [dir]', 'Pre-fill answers by scanning a repository (default: current directory)')
+  .option('--follow-ups [max]', 'After each group, let the model (--model) ask up to max follow-up questions (default: 3)')
+  .option('-a, --answers <file>', 'Answer from a YAML or JSON file ("-" for stdin) instead of prompting')
+  .option('--check', 'With --answers: report on the answers without generating')
+  .option('--json', 'With --answers: print the report as JSON (implies --check)')
+  .option('--answers-template [projectType]', 'Print a blank answers file, optionally for a project type')
   .action(async (options) => {
+    if (options.answersTemplate) {
+      const { answersTemplate } = await import('./interview/index.js');
+      const projectType = options.answersTemplate === true ? undefined : options.answersTemplate;
+      process.stdout.write(answersTemplate({ projectType, locale: options.locale }));
+      return;
+    }
+
+    if (options.answers) {
+      const { InterviewEngine, readAnswersFile, applyAnswers } = await import('./interview/index.js');
+      const { printAnswersReport } = await import('./commands/interview.js');
+
+      let report;
+      let engine;
+      try {
+        engine = new InterviewEngine({ locale: options.locale });
+        report = applyAnswers(engine, readAnswersFile(options.answers));
+      } catch (error) {
+        console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        console.log(chalk.blue(`\n🎤 Checking interview answers from ${options.answers === '-' ? 'stdin' : options.answers}\n`));
+        printAnswersReport(report);
+      }
+
+      if (!report.valid) process.exit(1);
+      if (!options.check && !options.json) {
+        await generateInterviewDocs(engine, options.model);
+      }
+      return;
+    }
+
     console.log(chalk.blue('\n🎤 Intent Blueprint - Adaptive Interview\n'));
     console.log(chalk.dim('Answer questions to generate tailored documentation.'));
     console.log(chalk.dim('Questions adapt based on your answers.\n'));
 
-    const { InterviewEngine } = await import('./interview/index.js');
-    const engine = new InterviewEngine();
+    if (options.followUps && !options.model) {
+      console.error(chalk.red('❌ --follow-ups needs a model to ask them: add --model <alias>'));
+      process.exit(1);
+    }
+    const followUpLimit = typeof options.followUps === 'string' ? Number(options.followUps) : undefined;
+    if (followUpLimit !== undefined && !(followUpLimit >= 0)) {
+      console.error(chalk.red(`❌ --follow-ups expects a number, got "${options.followUps}"`));
+      process.exit(1);
+    }
+
+    const { createSessionStore, getFollowUpQuestions } = await import('./interview/index.js');
+    const sessions = createSessionStore();
+    let opened: ReturnType<typeof sessions.start>;
+    try {
+      opened = options.resume ? sessions.resume(options.resume) : sessions.start({ locale: options.locale });
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+    const { engine, session } = opened;
+
+    if (options.resume) {
+      const { progress } = engine.getState();
+      console.log(chalk.dim(`Resuming session ${session.id} (${progress.answered}/${progress.total} answered)\n`));
+    } else {
+      console.log(chalk.dim(`Session ${session.id} - progress is saved; resume with: blueprint interview --resume ${session.id}\n`));
+    }
+
+    if (options.scan) {
+      const { scanRepository, answersFromScan, DEFAULT_SCAN_CONFIDENCE } = await import('./interview/index.js');
+      const scan = scanRepository(options.scan === true ? process.cwd() : options.scan);
+      const { answers } = engine.getState();
+
+      console.log(chalk.yellow(`━━━ Detected from ${scan.files.length} repository files ━━━`));
+      for (const finding of scan.findings) {
+        const value = Array.isArray(finding.value) ? finding.value.join(', ') : String(finding.value);
+        const applied = finding.confidence >= DEFAULT_SCAN_CONFIDENCE && answers[finding.field] === undefined;
+        const line = `  ${finding.field}: ${value.length > 60 ? value.slice(0, 57) + '...' : value} (${finding.confidence}%)`;
+        console.log(applied ? line : chalk.dim(`${line} - will ask`));
+      }
+      if (scan.findings.length === 0) {
+        console.log(chalk.dim('  Nothing detected'));
+      }
+      console.log();
+
+      // Answers already given, e.g. in a resumed session, win over detected ones
+      const detected = answersFromScan(scan);
+      engine.setAnswers(Object.fromEntries(Object.entries(detected).filter(([field]) => answers[field] === undefined)));
+    }
 
     if (options.quick) {
       // Quick mode - just essentials
+      const { answers } = engine.getState();
       const basicAnswers = await inquirer.prompt([
         {
           type: 'input',
           name: 'projectName',
           message: chalk.cyan('Project name:'),
           validate: (input: string) => input.length > 0 || 'Required',
+          when: answers.projectName === undefined,
         },
         {
           type: 'editor',
           name: 'projectDescription',
           message: chalk.cyan('Describe your project (opens editor):'),
+          when: answers.projectDescription === undefined,
         },
       ]);
 
       engine.setAnswers(basicAnswers);
     } else {
-      // Full adaptive interview
-      const groups = engine.getQuestionGroups();
+      // Full adaptive interview: walk the active questions with back/skip, then review
+      const { askQuestion, printReview } = await import('./commands/interview.js');
+      const activeQuestions = () =>
+        engine
+          .getQuestionGroups()
+          .filter((group) => group.isActive)
+          .flatMap((group) => group.questions.map((question) => ({ group, question })));
+      const firstUnanswered = () => {
+        const { answers } = engine.getState();
+        return activeQuestions().findIndex(({ question }) => answers[question.id] === undefined);
+      };
 
-      for (const group of groups) {
-        if (!group.isActive || group.questions.length === 0) continue;
+      let index = firstUnanswered();
+      // Editing from the review screen returns there once nothing is left unanswered
+      let reviewing = false;
+      let shownGroup: string | undefined;
+      const proposedFor = new Set<string>();
 
-        console.log(chalk.yellow(`\n━━━ ${group.name} ━━━`));
-        console.log(chalk.dim(group.description + '\n'));
+      for (;;) {
+        const items = activeQuestions();
 
-        for (const question of group.questions) {
-          // Skip if already answered or condition not met
-          const state = engine.getState();
-          if (state.answers[question.id] !== undefined) continue;
+        if (index < 0 || index >= items.length) {
+          printReview(engine.getReview());
+          try {
+            const { next } = await inquirer.prompt([{
+              type: 'list',
+              name: 'next',
+              message: 'Review your answers',
+              choices: [{ name: 'Finish', value: 'finish' }, { name: 'Edit an answer', value: 'edit' }],
+            }]);
+            if (next === 'finish') break;
+
+            const { id } = await inquirer.prompt([{
+              type: 'list',
+              name: 'id',
+              message: 'Which answer?',
+              choices: items.map(({ question }) => ({ name: question.text, value: question.id })),
+              pageSize: 15,
+            }]);
+            index = items.findIndex(({ question }) => question.id === id);
+          } catch {
+            // User cancelled
+            break;
+          }
+          reviewing = true;
+          shownGroup = undefined;
+          continue;
+        }
 
-          const promptConfig: Record<string, unknown> = {
-            name: 'answer',
-            message: chalk.cyan(question.text),
-          };
+        const { group, question } = items[index];
+        if (group.id !== shownGroup) {
+          console.log(chalk.yellow(`\n━━━ ${group.name} ━━━`));
+          console.log(chalk.dim(group.description + '\n'));
+          shownGroup = group.id;
+        }
 
-          if (question.hint) {
-            promptConfig.message += chalk.dim(` (${question.hint})`);
-          }
+        let action;
+        try {
+          action = await askQuestion(question, engine.getState().answers[question.id], { canGoBack: index > 0 });
+        } catch {
+          // User cancelled
+          break;
+        }
 
-          switch (question.type) {
-            case 'text':
-              promptConfig.type = 'input';
-              if (question.default) promptConfig.default = question.default;
-              break;
-            case 'editor':
-              promptConfig.type = 'editor';
-              break;
-            case 'select':
-              promptConfig.type = 'list';
-              promptConfig.choices = question.options || [];
-              break;
-            case 'multiselect':
-              promptConfig.type = 'checkbox';
-              promptConfig.choices = question.options || [];
-              break;
-            case 'confirm':
-              promptConfig.type = 'confirm';
-              promptConfig.default = question.default ?? false;
-              break;
-            case 'number':
-              promptConfig.type = 'number';
-              if (question.default) promptConfig.default = question.default;
-              break;
+        if (action.type === 'back') {
+          index -= 1;
+          continue;
+        }
+
+        try {
+          const state = action.type === 'skip' ? engine.skip(question.id) : engine.answer(question.id, action.value);
+          if (state.invalidated) {
+            console.log(chalk.dim(`  Cleared answers that no longer apply: ${state.invalidated.join(', ')}`));
           }
+        } catch (error) {
+          // Ask again
+          console.log(chalk.red(`  ${error instanceof Error ? error.message : error}`));
+          continue;
+        }
 
+        const after = activeQuestions();
+        const position = after.findIndex((item) => item.question.id === question.id);
+        const leavingGroup = after[position + 1]?.group.id !== group.id;
+
+        // Follow-ups already proposed for this group (e.g. in a resumed session) are asked like any question
+        if (
+          options.followUps &&
+          leavingGroup &&
+          !proposedFor.has(group.id) &&
+          getFollowUpQuestions(engine.getState().answers, group.id).length === 0
+        ) {
+          proposedFor.add(group.id);
+          const spinner = ora('Reviewing your answers...').start();
           try {
-            const { answer } = await inquirer.prompt([promptConfig]);
-            engine.answer(question.id, answer);
-          } catch {
-            // User cancelled
-            break;
+            await engine.proposeFollowUps(group.id, { model: options.model, max: followUpLimit });
+            spinner.stop();
+          } catch (error) {
+            spinner.warn(chalk.yellow(`Skipped follow-up questions: ${error instanceof Error ? error.message : error}`));
           }
         }
+
+        index = reviewing ? firstUnanswered() : position + 1;
       }
     }
 
@@ -282,28 +522,96 @@ program
     ]);
 
     if (proceed) {
-      const spinner = ora('Generating documentation...').start();
+      await generateInterviewDocs(engine, options.model);
+    }
+  });
 
-      try {
-        const context = engine.toTemplateContext();
-        const docs = generateAllDocuments(context);
-        const outputDir = `./docs/${context.projectName.toLowerCase().replace(/\s+/g, '-')}`;
-        const files = writeDocuments(docs, outputDir);
+// Interview sessions
+program
+  .command('session <action> [id]')
+  .description('Manage saved interview sessions (list, show, delete)')
+  .action(async (action, id) => {
+    const { createSessionStore, summarizeSession } = await import('./interview/index.js');
+    const sessions = createSessionStore();
 
-        spinner.succeed(chalk.green(`Generated ${docs.length} documents!`));
-        console.log(chalk.dim(`\nOutput: ${outputDir}`));
-        console.log(chalk.dim(`Files: ${files.length}`));
+    try {
+      switch (action) {
+        case 'list': {
+          console.log(chalk.blue('\n🎤 Interview Sessions\n'));
+          const summaries = sessions.list();
+          if (summaries.length === 0) {
+            console.log(chalk.dim('No saved sessions. Start one with: blueprint interview'));
+            return;
+          }
 
-        // Show what was generated
-        console.log(chalk.yellow('\n━━━ Documents Generated ━━━'));
-        for (const doc of docs) {
-          console.log(`  ${chalk.dim('•')} ${doc.name} (${doc.category})`);
+          for (const s of summaries) {
+            const status = s.isComplete ? chalk.green('complete') : chalk.yellow(`${s.progress.percentage}%`);
+            console.log(`  ${chalk.cyan(s.id.padEnd(10))} ${(s.projectName || chalk.dim('(unnamed)')).padEnd(30)} ${status}`);
+            console.log(chalk.dim(`    Updated ${new Date(s.updatedAt).toLocaleString()}`));
+          }
+          console.log(chalk.dim(`\nTotal: ${summaries.length} sessions`));
+          break;
         }
-      } catch (error) {
-        spinner.fail(chalk.red('Generation failed'));
-        console.error(error);
-        process.exit(1);
+
+        case 'show': {
+          const session = id && sessions.get(id);
+          if (!session) {
+            console.error(chalk.red(`❌ Interview session not found: ${id ?? '(missing ID)'}`));
+            process.exit(1);
+          }
+
+          const summary = summarizeSession(session);
+          console.log(chalk.blue(`\n🎤 Session ${session.id}\n`));
+          console.log(`  Project: ${chalk.cyan(summary.projectName || '(unnamed)')}`);
+          console.log(`  Progress: ${chalk.cyan(`${summary.progress.answered}/${summary.progress.total}`)}${summary.isComplete ? chalk.green(' (complete)') : ''}`);
+          if (session.locale) console.log(`  Locale: ${chalk.cyan(session.locale)}`);
+
+          console.log(chalk.yellow('\n━━━ Answers ━━━'));
+          for (const [question, answer] of Object.entries(session.answers)) {
+            const value = Array.isArray(answer) ? answer.join(', ') : String(answer);
+            console.log(`  ${chalk.dim(question + ':')} ${value.split('\n')[0]}`);
+          }
+          if (!summary.isComplete) {
+            console.log(chalk.dim(`\nResume with: blueprint interview --resume ${session.id}`));
+          }
+          break;
+        }
+
+        case 'delete': {
+          if (!id || !sessions.delete(id)) {
+            console.error(chalk.red(`❌ Interview session not found: ${id ?? '(missing ID)'}`));
+            process.exit(1);
+          }
+          console.log(chalk.green(`Deleted session ${id}`));
+          break;
+        }
+
+        default:
+          console.log(chalk.yellow(`Unknown action: ${action}`));
+          console.log(chalk.dim('Available actions: list, show, delete'));
       }
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+// Plugin command - manage the plugins in .intent/plugins
+program
+  .command('plugin <action> [args...]')
+  .description('Manage plugins (list, info, enable, disable, config, install, uninstall, new)')
+  .option('-t, --type <type>', 'Plugin type for new: formatter, validator, processor, integration, template, hook')
+  .option('--dir <dir>', 'Directory for new (default: ./<name>)')
+  .option('--force', 'Replace a plugin that is already installed')
+  .option('--sandbox', 'Run an installed plugin in a sandbox with limited file, network, time and memory access')
+  .action(async (action, args: string[], options) => {
+    const { handlePluginCommand } = await import('./commands/plugin.js');
+
+    try {
+      await handlePluginCommand([action, ...args], options);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
     }
   });
 
@@ -311,11 +619,17 @@ program
 program
   .command('list')
   .description('List available templates')
-  .option('-s, --scope <scope>', 'Filter by scope: mvp, standard, comprehensive')
+  .option('-s, --scope <scope>', 'Filter by scope: mvp, standard, comprehensive, or a scope profile')
   .action((options) => {
     console.log(chalk.blue('\n📚 Available Templates\n'));
 
-    const templates = options.scope ? getTemplatesForScope(options.scope) : listTemplates();
+    let templates;
+    try {
+      templates = options.scope ? getTemplatesForScope(options.scope) : listTemplates();
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
 
     const grouped = templates.reduce((acc, t) => {
       if (!acc[t.category]) acc[t.category] = [];
@@ -333,6 +647,182 @@ program
     console.log(chalk.dim(`\nTotal: ${templates.length} templates`));
   });
 
+// Scopes command - built-in scopes and configured profiles
+program
+  .command('scopes')
+  .description('List built-in scopes and scope profiles from .intent/config.yaml and team config')
+  .action(() => {
+    console.log(chalk.blue('\n🎯 Documentation Scopes\n'));
+
+    const profiles = loadScopeProfiles();
+
+    for (const { name, source } of listScopeNames({ builtins: BUILTIN_SCOPES, profiles })) {
+      const marker = name === (profiles.defaultScope || 'standard') ? chalk.green(' (default)') : '';
+      try {
+        const scope = resolveTemplateScope(name, profiles);
+        const count = scope.templates.length + scope.packTemplates.length;
+        console.log(`  ${chalk.cyan(name.padEnd(20))} ${String(count).padStart(2)} docs  ${chalk.dim(source)}${marker}`);
+        if (scope.description) console.log(chalk.dim(`  ${''.padEnd(20)} ${scope.description}`));
+      } catch (error) {
+        console.log(`  ${chalk.cyan(name.padEnd(20))} ${chalk.red(error instanceof Error ? error.message : String(error))}`);
+      }
+    }
+
+    console.log(chalk.dim('\nDefine profiles under `scopes:` in .intent/config.yaml, then use --scope <name>.'));
+  });
+
+// Graph command - document dependency DAG
+program
+  .command('graph')
+  .description('Render the document dependency graph as Mermaid')
+  .option('-s, --scope <scope>', 'Only include templates in this scope or scope profile')
+  .option('-d, --direction <direction>', 'Flowchart direction: TD or LR', 'TD')
+  .option('-o, --output <file>', 'Write to a file instead of stdout (.md files get a mermaid code fence)')
+  .action(async (options) => {
+    const { getDocumentGraph, renderMermaid } = await import('./core/index.js');
+
+    try {
+      const direction = options.direction.toUpperCase();
+      if (direction !== 'TD' && direction !== 'LR') {
+        throw new Error(`Unknown direction: ${options.direction} (use TD or LR)`);
+      }
+
+      const graph = getDocumentGraph();
+      const templates = options.scope ? resolveTemplateScope(options.scope).templates : undefined;
+      const mermaid = renderMermaid(graph, { templates, direction });
+
+      if (!options.output) {
+        process.stdout.write(mermaid);
+        return;
+      }
+
+      const { writeFileSync } = await import('fs');
+      writeFileSync(options.output, options.output.endsWith('.md') ? `\`\`\`mermaid\n${mermaid}\`\`\`\n` : mermaid);
+      console.log(chalk.green(`✓ Dependency graph written to ${options.output}`));
+    } catch (error) {
+      console.error(chalk.red(`\n❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+// Translate command - model translation of a generated suite
+program
+  .command('translate <dir>')
+  .description('Translate a generated doc suite section by section with an AI model')
+  .requiredOption('-l, --locale <locale>', `Target language: ${LOCALES.join(', ')}`)
+  .requiredOption('-m, --model <alias>', 'Model to translate with (e.g. claude, gpt-4o, llama)')
+  .option('-o, --output <dir>', 'Output directory (default: <dir>-<locale>)')
+  .action(async (dir, options) => {
+    const { loadSuite } = await import('./suite/index.js');
+    const { translateDocumentsWithModel } = await import('./core/ai.js');
+    const { readManifest } = await import('./core/merge.js');
+
+    try {
+      const locale = resolveLocale(options.locale);
+      const suite = loadSuite(dir);
+      const manifest = readManifest(dir);
+      const templates = listTemplates();
+      const outputDir = options.output || `${dir.replace(/[\\/]+$/, '')}-${locale}`;
+
+      const docs = suite.documents.map(d => {
+        const info = templates.find(t => t.id === d.kind);
+        return {
+          name: info?.name || d.filename.replace(/\.md$/, ''),
+          filename: d.filename,
+          content: d.content,
+          category: info?.category || 'Other',
+          template: manifest?.documents[d.filename]?.template ?? info?.filename,
+          templateVersion: manifest?.documents[d.filename]?.templateVersion,
+        };
+      });
+
+      console.log(chalk.blue(`\n🌐 Translating ${docs.length} documents to ${locale}\n`));
+
+      const translated = await translateDocumentsWithModel(docs, locale, {
+        model: options.model,
+        onSection: ({ document, index, total }) => {
+          if (index === 0) console.log(chalk.cyan(`  ${document}`) + chalk.dim(` (${total} parts)`));
+        },
+        onWarning: message => console.log(chalk.yellow(`  ⚠ ${message}`)),
+      });
+      writeDocuments(translated, outputDir, { locale });
+
+      console.log(chalk.green(`\n✔ Translated ${translated.length} documents`));
+      console.log(chalk.dim(`\nOutput: ${outputDir}`));
+    } catch (error) {
+      console.error(chalk.red(`\n❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+// Check command - offline cross-document consistency
+program
+  .command('check <dir>')
+  .description('Check a generated doc suite for cross-document consistency')
+  .option('-c, --only <checks>', 'Comma-separated checks: personas, risks, adrs, features')
+  .option('--json', 'Output the report as JSON')
+  .action(async (dir, options) => {
+    const { checkSuite } = await import('./suite/index.js');
+    const { printCheckReport } = await import('./commands/check.js');
+
+    try {
+      const only = options.only?.split(',').map((c: string) => c.trim());
+      const report = checkSuite(dir, only);
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        console.log(chalk.blue('\n🔎 Checking documentation suite\n'));
+        printCheckReport(report);
+      }
+
+      if (!report.passed) process.exit(1);
+    } catch (error) {
+      console.error(chalk.red(`\n❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
+// Trace command - requirements traceability matrix
+program
+  .command('trace <dir>')
+  .description('Generate a requirements traceability matrix for a doc suite')
+  .option('-o, --output <dir>', 'Output directory (default: the suite directory)')
+  .option('-f, --format <formats>', 'Comma-separated formats: md, csv, json', 'md,csv,json')
+  .option('--strict', 'Exit with an error when coverage gaps are found')
+  .action(async (dir, options) => {
+    const { buildTraceabilityMatrix, writeTraceability, TRACEABILITY_FORMATS } = await import('./suite/index.js');
+
+    try {
+      const formats = options.format.split(',').map((f: string) => f.trim());
+      const unknown = formats.filter((f: string) => !(TRACEABILITY_FORMATS as string[]).includes(f));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown format: ${unknown.join(', ')} (use ${TRACEABILITY_FORMATS.join(', ')})`);
+      }
+
+      const matrix = buildTraceabilityMatrix(dir);
+      const written = writeTraceability(matrix, options.output, formats);
+      const { requirements, stories, criteria } = matrix.coverage;
+
+      console.log(chalk.blue('\n🔗 Requirements Traceability\n'));
+      console.log(`  Requirements → stories:  ${requirements.covered}/${requirements.total}`);
+      console.log(`  Stories → criteria:      ${stories.covered}/${stories.total}`);
+      console.log(`  Criteria → tests:        ${criteria.covered}/${criteria.total}`);
+      console.log(matrix.gaps.length > 0
+        ? chalk.yellow(`\n⚠ ${matrix.gaps.length} coverage gaps`)
+        : chalk.green('\n✓ No coverage gaps'));
+
+      for (const path of written) {
+        console.log(chalk.dim(`  ${path}`));
+      }
+
+      if (options.strict && matrix.gaps.length > 0) process.exit(1);
+    } catch (error) {
+      console.error(chalk.red(`\n❌ ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+  });
+
 // Export command - GitHub, Linear, Jira, and Notion integration
 program
   .command('export <target>')
@@ -364,21 +854,24 @@ program
       return;
     }
 
+    // Exports run between the plugins' beforeExport and afterExport hooks
+    const pipeline = await loadPluginPipeline(options.docs || './docs', { dryRun: options.dryRun });
+
     // Handle Linear export
     if (target === 'linear') {
-      await handleLinearExport(options);
+      await handleLinearExport(options, pipeline);
       return;
     }
 
     // Handle Jira export
     if (target === 'jira') {
-      await handleJiraExport(options);
+      await handleJiraExport(options, pipeline);
       return;
     }
 
     // Handle Notion export
     if (target === 'notion') {
-      await handleNotionExport(options);
+      await handleNotionExport(options, pipeline);
       return;
     }
 
@@ -512,12 +1005,14 @@ program
     const spinner = ora('Exporting to GitHub...').start();
 
     try {
-      const result = await exporter.export(documents, {
-        projectName: projectDir,
-        projectDescription: '',
-        scope: 'standard',
-        audience: 'business',
-      });
+      const result = await pipeline.export('github', documents, (documents) =>
+        exporter.export(documents, {
+          projectName: projectDir,
+          projectDescription: '',
+          scope: 'standard',
+          audience: 'business',
+        })
+      );
 
       if (result.success) {
         spinner.succeed(chalk.green('Export complete!'));
@@ -594,7 +1089,7 @@ program
 // Enterprise: API Server command
 program
   .command('serve')
-  .description('Start the Blueprint REST API server')
+  .description('Start the Blueprint REST API server and the interview web UI')
   .option('-p, --port <port>', 'Port to listen on', '3456')
   .option('-h, --host <host>', 'Host to bind to', 'localhost')
   .option('-k, --api-key <key>', 'API key for authentication')
@@ -631,6 +1126,7 @@ program
 
     try {
       await server.start();
+      console.log(chalk.green(`Interview web UI: http://${options.host}:${options.port}/`));
       console.log(chalk.dim('Press Ctrl+C to stop\n'));
 
       // Handle shutdown
@@ -1000,10 +1496,77 @@ program
     }
   });
 
+/**
+ * Generate the suite for a finished interview into ./docs/<project>
+ */
+async function generateInterviewDocs(engine: InterviewEngine, model?: string) {
+  const requested = engine.toTemplateContext();
+  const outputDir = `./docs/${requested.projectName.toLowerCase().replace(/\s+/g, '-')}`;
+  const pipeline = await loadPluginPipeline(outputDir);
+  const spinner = model ? null : ora('Generating documentation...').start();
+
+  try {
+    const { documents: docs, context, validations } = await pipeline.generate(requested, (context) =>
+      model
+        ? streamDocumentsToDisk(
+            streamAllDocumentsWithModel(context, { model, answers: engine.getState().answers }),
+            outputDir
+          )
+        : generateAllDocuments(context)
+    );
+    const files = writeDocuments(docs, outputDir, { context });
+
+    const { createIntake, writeIntake } = await import('./interview/index.js');
+    files.push(...writeIntake(createIntake(engine, context), outputDir));
+
+    if (spinner) {
+      spinner.succeed(chalk.green(`Generated ${docs.length} documents!`));
+    } else {
+      console.log(chalk.green(`\n✔ Generated ${docs.length} documents!`));
+    }
+    console.log(chalk.dim(`\nOutput: ${outputDir}`));
+    console.log(chalk.dim(`Files: ${files.length}`));
+
+    // Show what was generated
+    console.log(chalk.yellow('\n━━━ Documents Generated ━━━'));
+    for (const doc of docs) {
+      console.log(`  ${chalk.dim('•')} ${doc.name} (${doc.category})`);
+    }
+    printValidationReport(validations);
+  } catch (error) {
+    if (spinner) {
+      spinner.fail(chalk.red('Generation failed'));
+    } else {
+      console.error(chalk.red('\n✖ Generation failed'));
+    }
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Plugins for a generate or export run: the built-ins plus any in .intent/plugins.
+ * In a dry run, plugin file writes are logged instead of made.
+ */
+async function loadPluginPipeline(outputDir: string, options: { dryRun?: boolean } = {}) {
+  const { createPluginSystem, createPluginPipeline } = await import('./plugins/index.js');
+  const plugins = createPluginSystem();
+  await plugins.init(process.cwd(), outputDir, { dryRun: options.dryRun });
+  return createPluginPipeline(plugins);
+}
+
+/**
+ * Keep the intake alongside documents regenerated from it
+ */
+async function rewriteIntake(intake: IntakeRecord, outputDir: string) {
+  const { writeIntake } = await import('./interview/index.js');
+  writeIntake(intake, outputDir);
+}
+
 /**
  * Handle Linear export
  */
-async function handleLinearExport(options: Record<string, unknown>) {
+async function handleLinearExport(options: Record<string, unknown>, pipeline: PluginPipeline) {
   console.log(chalk.blue('\n📋 Intent Blueprint - Linear Export\n'));
 
   const { LinearExporter } = await import('./integrations/linear/index.js');
@@ -1136,13 +1699,15 @@ async function handleLinearExport(options: Record<string, unknown>) {
   const spinner = ora('Exporting to Linear...').start();
 
   try {
-    const result = await exporter.export(documents, {
-      createProject: options.createProject as boolean,
-      projectName: projectDir,
-      createCycles: options.milestones !== false,
-      syncLabels: options.labels !== false,
-      dryRun: false,
-    });
+    const result = await pipeline.export('linear', documents, (documents) =>
+      exporter.export(documents, {
+        createProject: options.createProject as boolean,
+        projectName: projectDir,
+        createCycles: options.milestones !== false,
+        syncLabels: options.labels !== false,
+        dryRun: false,
+      })
+    );
 
     if (result.errors.length === 0) {
       spinner.succeed(chalk.green('Export complete!'));
@@ -1183,7 +1748,7 @@ async function handleLinearExport(options: Record<string, unknown>) {
 /**
  * Handle Jira export
  */
-async function handleJiraExport(options: Record<string, unknown>) {
+async function handleJiraExport(options: Record<string, unknown>, pipeline: PluginPipeline) {
   console.log(chalk.blue('\n🎫 Intent Blueprint - Jira Export\n'));
 
   const { JiraExporter, JiraClient } = await import('./integrations/jira/index.js');
@@ -1329,15 +1894,17 @@ async function handleJiraExport(options: Record<string, unknown>) {
   const spinner = ora('Exporting to Jira...').start();
 
   try {
-    const result = await exporter.export(documents, {
-      createEpic: options.createEpic as boolean,
-      epicName: projectDir,
-      createSprints: options.milestones !== false,
-      createVersions: options.createVersions as boolean,
-      syncComponents: options.labels !== false,
-      addLabels: options.labels !== false,
-      dryRun: false,
-    });
+    const result = await pipeline.export('jira', documents, (documents) =>
+      exporter.export(documents, {
+        createEpic: options.createEpic as boolean,
+        epicName: projectDir,
+        createSprints: options.milestones !== false,
+        createVersions: options.createVersions as boolean,
+        syncComponents: options.labels !== false,
+        addLabels: options.labels !== false,
+        dryRun: false,
+      })
+    );
 
     if (result.errors.length === 0) {
       spinner.succeed(chalk.green('Export complete!'));
@@ -1378,7 +1945,7 @@ async function handleJiraExport(options: Record<string, unknown>) {
 /**
  * Handle Notion export
  */
-async function handleNotionExport(options: Record<string, unknown>) {
+async function handleNotionExport(options: Record<string, unknown>, pipeline: PluginPipeline) {
   console.log(chalk.blue('\n📝 Intent Blueprint - Notion Export\n'));
 
   const { NotionExporter, NotionClient } = await import('./integrations/notion/index.js');
@@ -1542,15 +2109,17 @@ async function handleNotionExport(options: Record<string, unknown>) {
   const spinner = ora('Exporting to Notion...').start();
 
   try {
-    const result = await exporter.export(documents, {
-      createDatabase: options.createDatabase as boolean,
-      databaseTitle: projectDir,
-      parentPageId,
-      addCategory: true,
-      addStatus: true,
-      convertContent: true,
-      dryRun: false,
-    });
+    const result = await pipeline.export('notion', documents, (documents) =>
+      exporter.export(documents, {
+        createDatabase: options.createDatabase as boolean,
+        databaseTitle: projectDir,
+        parentPageId,
+        addCategory: true,
+        addStatus: true,
+        convertContent: true,
+        dryRun: false,
+      })
+    );
 
     if (result.errors.length === 0) {
       spinner.succeed(chalk.green('Export complete!'));
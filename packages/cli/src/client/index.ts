@@ -0,0 +1,398 @@
+/**
+ * Blueprint Client
+ * One entry point for generating, validating, formatting and exporting documentation
+ */
+
+import { writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import {
+  generateAllDocuments,
+  getTemplatesForScope,
+  listTemplates,
+  loadScopeProfiles,
+  writeDocuments,
+  type GeneratedDocument,
+  type TemplateContext,
+  type TemplateInfo,
+} from '../core/index.js';
+import { streamAllDocumentsWithModel, type GenerationEvent } from '../core/ai.js';
+import type { MergeResult } from '../core/merge.js';
+import type { ModelRegistry } from '../enterprise/models/registry.js';
+import { checkSuite, loadSuite, suiteFromDocuments } from '../suite/index.js';
+import type { DocumentSuite } from '../suite/types.js';
+import {
+  InterviewEngine,
+  answersFromScan,
+  createSessionStore,
+  scanRepository,
+  type InterviewAnswers,
+  type InterviewSessionSummary,
+  type OpenSession,
+  type SessionStore,
+} from '../interview/index.js';
+import { createPluginPipeline, createPluginSystem, type PluginPipeline, type PluginSystem } from '../plugins/index.js';
+import { createPackManager, type PackManager } from '../marketplace/manager.js';
+import type { InstallOptions, InstallResult, InstalledPack, SearchFilters, SearchResults } from '../marketplace/types.js';
+import { exportToGitHub } from '../integrations/github/index.js';
+import { exportToLinear } from '../integrations/linear/index.js';
+import { exportToJira } from '../integrations/jira/index.js';
+import { exportToNotion } from '../integrations/notion/index.js';
+import type {
+  BlueprintEvent,
+  BlueprintHooks,
+  BlueprintOptions,
+  DocumentValidation,
+  ExportOutcome,
+  ExportRequest,
+  FormatOptions,
+  GenerateOptions,
+  GenerateResult,
+  InterviewOptions,
+  ValidateOptions,
+  ValidateResult,
+} from './types.js';
+
+export * from './types.js';
+
+/** Generation settings that are not part of the template context */
+const GENERATION_SETTINGS = ['model', 'answers', 'prompts', 'outputDir', 'merge', 'format', 'signal'] as const;
+
+export class Blueprint {
+  private model?: string;
+  private registry?: ModelRegistry;
+  private locale?: string;
+  private projectPath: string;
+  private plugins?: PluginSystem;
+  /** Whether the plugins were created here rather than passed in */
+  private ownsPlugins: boolean;
+  private packs?: PackManager;
+  private sessions?: SessionStore;
+  private listeners: { [E in BlueprintEvent]: Set<BlueprintHooks[E]> } = {
+    event: new Set(),
+    document: new Set(),
+    merge: new Set(),
+    warning: new Set(),
+  };
+
+  constructor(options: BlueprintOptions = {}) {
+    this.model = options.model;
+    this.registry = options.registry;
+    this.locale = options.locale;
+    this.projectPath = options.projectPath ?? process.cwd();
+    this.plugins = options.plugins;
+    this.ownsPlugins = !options.plugins;
+    this.packs = options.packs;
+    this.sessions = options.sessions;
+
+    for (const [event, listener] of Object.entries(options.hooks || {})) {
+      this.on(event as BlueprintEvent, listener as never);
+    }
+  }
+
+  /**
+   * Listen for an event; returns a function that removes the listener
+   */
+  on<E extends BlueprintEvent>(event: E, listener: BlueprintHooks[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => this.listeners[event].delete(listener);
+  }
+
+  private emit<E extends BlueprintEvent>(event: E, ...args: Parameters<BlueprintHooks[E]>): void {
+    for (const listener of this.listeners[event]) {
+      (listener as (...a: Parameters<BlueprintHooks[E]>) => void)(...args);
+    }
+  }
+
+  /**
+   * Template context for a request, with scope, audience and locale defaults filled in
+   */
+  context(options: GenerateOptions): TemplateContext {
+    const fields: Record<string, unknown> = { ...options };
+    for (const key of GENERATION_SETTINGS) delete fields[key];
+
+    return {
+      ...(fields as Partial<TemplateContext>),
+      projectName: options.projectName,
+      projectDescription: options.projectDescription,
+      scope: options.scope || loadScopeProfiles().defaultScope || 'standard',
+      audience: options.audience || 'business',
+      locale: options.locale ?? this.locale,
+    };
+  }
+
+  /**
+   * Templates a scope selects, or every core template
+   */
+  templates(scope?: string): TemplateInfo[] {
+    return scope ? getTemplatesForScope(scope) : listTemplates();
+  }
+
+  /**
+   * Generate a documentation suite. Documents are returned in memory and
+   * written to disk only when outputDir is given. With a model, each section is
+   * authored by the model; otherwise templates are rendered directly. Either
+   * way the suite runs through the plugin hooks, processors and validators.
+   */
+  async generate(options: GenerateOptions): Promise<GenerateResult> {
+    options.signal?.throwIfAborted();
+    const model = options.model ?? this.model;
+    const { pipeline, release } = await this.outputPipeline(options.outputDir);
+
+    try {
+      const context = await pipeline.beforeGenerate(this.context(options));
+
+      let documents: GeneratedDocument[];
+      if (model) {
+        documents = [];
+        for await (const event of this.events(context, { ...options, model }, pipeline)) {
+          if (event.type === 'document-end') documents.push(event.document);
+        }
+        // Documents stream upstream-first; hand them back in template order
+        const order = this.templates(context.scope).map(t => t.pack ? t.id : t.filename);
+        documents.sort((a, b) => order.indexOf(a.template ?? '') - order.indexOf(b.template ?? ''));
+      } else {
+        documents = await pipeline.processDocuments(generateAllDocuments(context), context);
+        documents.forEach((document, index) => this.emit('document', document, { index, total: documents.length }));
+      }
+
+      options.signal?.throwIfAborted();
+
+      const merges: MergeResult[] = [];
+      const files = options.outputDir
+        ? writeDocuments(documents, options.outputDir, {
+            context,
+            merge: options.merge,
+            onMerge: result => {
+              merges.push(result);
+              this.emit('merge', result);
+            },
+          })
+        : [];
+
+      const formatted = options.format ? await pipeline.formatDocuments(documents, options.format) : [];
+      if (options.outputDir) {
+        for (const document of formatted) {
+          const path = join(options.outputDir, document.filename);
+          writeFileSync(path, document.content);
+          files.push(path);
+        }
+      }
+
+      const validations = await pipeline.validateDocuments(documents);
+      return { documents, context, files, merges, validations, formatted };
+    } catch (error) {
+      await pipeline.onError(error, 'generate');
+      throw error;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Stream AI-authored generation event by event. Requires a model.
+   * Documents in document-end events have been through the plugin processors.
+   */
+  async *stream(options: GenerateOptions): AsyncGenerator<GenerationEvent> {
+    const model = options.model ?? this.model;
+    if (!model) {
+      throw new Error('Streaming generation needs a model: pass `model` to stream() or the Blueprint constructor');
+    }
+
+    options.signal?.throwIfAborted();
+    const pipeline = await this.pipeline();
+    try {
+      const context = await pipeline.beforeGenerate(this.context(options));
+      yield* this.events(context, { ...options, model }, pipeline);
+    } catch (error) {
+      await pipeline.onError(error, 'generate');
+      throw error;
+    }
+  }
+
+  private async *events(
+    context: TemplateContext,
+    options: GenerateOptions & { model: string },
+    pipeline: PluginPipeline
+  ): AsyncGenerator<GenerationEvent> {
+    const events = streamAllDocumentsWithModel(context, {
+      model: options.model,
+      registry: this.registry,
+      answers: options.answers,
+      prompts: options.prompts,
+      onWarning: message => this.emit('warning', message),
+    });
+
+    for await (let event of events) {
+      // Returning from here closes the model stream, so an abort stops token usage
+      options.signal?.throwIfAborted();
+      if (event.type === 'document-end') {
+        event = { ...event, document: await pipeline.processDocument(event.document, context) };
+      }
+      this.emit('event', event);
+      if (event.type === 'document-end') {
+        this.emit('document', event.document, { index: event.index, total: event.total });
+      }
+      yield event;
+    }
+  }
+
+  /**
+   * Start an interview, optionally with answers already known
+   */
+  interview(answers: InterviewAnswers = {}, options: InterviewOptions = {}): InterviewEngine {
+    const engine = new InterviewEngine({ locale: options.locale ?? this.locale });
+    engine.setAnswers(this.prefill(answers, options.repository));
+    return engine;
+  }
+
+  /**
+   * Start an interview that is saved after every answer and can be resumed by ID
+   */
+  startInterview(options: InterviewOptions & { answers?: InterviewAnswers } = {}): OpenSession {
+    return this.sessionStore().start({
+      answers: this.prefill(options.answers || {}, options.repository),
+      locale: options.locale ?? this.locale,
+    });
+  }
+
+  /**
+   * Pick up a saved interview where it left off
+   */
+  resumeInterview(id: string): OpenSession {
+    return this.sessionStore().resume(id);
+  }
+
+  listInterviews(): InterviewSessionSummary[] {
+    return this.sessionStore().list();
+  }
+
+  deleteInterview(id: string): boolean {
+    return this.sessionStore().delete(id);
+  }
+
+  /**
+   * Check a suite (a directory, a loaded suite, or generated documents) for
+   * cross-document consistency and run each document through the plugin validators
+   */
+  async validate(input: string | DocumentSuite | GeneratedDocument[], options: ValidateOptions = {}): Promise<ValidateResult> {
+    const suite = typeof input === 'string'
+      ? loadSuite(input)
+      : Array.isArray(input) ? suiteFromDocuments(input) : input;
+    const consistency = checkSuite(suite, options.checks);
+
+    const documents: DocumentValidation[] = options.plugins === false
+      ? []
+      : await (await this.pipeline()).validateDocuments(suite.documents);
+
+    return {
+      passed: consistency.passed && documents.every(d => d.result.valid),
+      consistency,
+      documents,
+    };
+  }
+
+  /**
+   * Convert a document to another format (e.g. 'html') with a formatter plugin
+   */
+  async format(document: string | GeneratedDocument, format: string, options: FormatOptions = {}): Promise<string> {
+    const plugins = await this.pluginSystem();
+    return typeof document === 'string'
+      ? plugins.format(document, format, { ...options })
+      : plugins.format(document.content, format, { title: document.name, ...options });
+  }
+
+  /**
+   * Export documents to GitHub, Linear, Jira or Notion, between the plugin export hooks
+   */
+  async export(documents: GeneratedDocument[], request: ExportRequest): Promise<ExportOutcome> {
+    const pipeline = await this.pipeline();
+    return pipeline.export(request.target, documents, async (documents): Promise<ExportOutcome> => {
+      switch (request.target) {
+        case 'github':
+          return exportToGitHub(request.config, documents, request.context, request.options);
+        case 'linear':
+          return exportToLinear(request.config, documents, request.options);
+        case 'jira':
+          return exportToJira(request.config, documents, request.options);
+        case 'notion':
+          return exportToNotion(request.config, documents, request.options);
+      }
+    });
+  }
+
+  /**
+   * Search the template pack marketplace
+   */
+  async searchPacks(filters: SearchFilters = {}): Promise<SearchResults> {
+    return this.packManager().getRegistry().search(filters);
+  }
+
+  /**
+   * Install a template pack; its templates become available to scope profiles
+   */
+  async installPack(id: string, options: InstallOptions = {}): Promise<InstallResult> {
+    return this.packManager().install(id, options);
+  }
+
+  async uninstallPack(id: string): Promise<{ success: boolean; error?: string }> {
+    return this.packManager().uninstall(id);
+  }
+
+  async updatePack(id: string): Promise<InstallResult> {
+    return this.packManager().update(id);
+  }
+
+  listPacks(): InstalledPack[] {
+    return this.packManager().list();
+  }
+
+  /**
+   * Plugins for calls that write nothing, with the project as their output path
+   */
+  private async pluginSystem(outputPath: string = this.projectPath): Promise<PluginSystem> {
+    this.plugins ??= createPluginSystem();
+    await this.plugins.init(this.projectPath, outputPath);
+    return this.plugins;
+  }
+
+  private async pipeline(): Promise<PluginPipeline> {
+    return createPluginPipeline(await this.pluginSystem());
+  }
+
+  /**
+   * Pipeline for a call that writes to outputDir. Plugins keep the paths they
+   * were initialized with, so the client's own plugins are started for the
+   * call and destroyed by `release`; plugins passed in are initialized once.
+   */
+  private async outputPipeline(outputDir?: string): Promise<{ pipeline: PluginPipeline; release: () => Promise<void> }> {
+    if (!outputDir || resolve(outputDir) === resolve(this.projectPath) || !this.ownsPlugins) {
+      return { pipeline: createPluginPipeline(await this.pluginSystem(outputDir)), release: async () => {} };
+    }
+
+    const plugins = createPluginSystem();
+    await plugins.init(this.projectPath, outputDir);
+    return { pipeline: createPluginPipeline(plugins), release: () => plugins.destroy() };
+  }
+
+  private packManager(): PackManager {
+    return (this.packs ??= createPackManager());
+  }
+
+  /**
+   * Answers inferred from a repository, overridden by the answers given
+   */
+  private prefill(answers: InterviewAnswers, repository?: string): InterviewAnswers {
+    return repository ? { ...answersFromScan(scanRepository(repository)), ...answers } : answers;
+  }
+
+  private sessionStore(): SessionStore {
+    return (this.sessions ??= createSessionStore());
+  }
+}
+
+/**
+ * Create a Blueprint client
+ */
+export function createBlueprint(options?: BlueprintOptions): Blueprint {
+  return new Blueprint(options);
+}
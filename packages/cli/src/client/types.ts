@@ -0,0 +1,131 @@
+/**
+ * Blueprint Client Types
+ */
+
+import type { GeneratedDocument, TemplateContext } from '../core/index.js';
+import type { GenerationEvent } from '../core/ai.js';
+import type { MergeResult } from '../core/merge.js';
+import type { ModelRegistry } from '../enterprise/models/registry.js';
+import type { TemplatePrompt } from '../enterprise/templates/types.js';
+import type { CheckId, CheckReport } from '../suite/types.js';
+import type { PluginSystem } from '../plugins/index.js';
+import type { FormatterOptions } from '../plugins/types.js';
+import type { DocumentValidation } from '../plugins/pipeline.js';
+import type { PackManager } from '../marketplace/manager.js';
+import type { SessionStore } from '../interview/sessions.js';
+import type { GitHubConfig, ExportOptions, ExportResult } from '../integrations/github/types.js';
+import type { LinearConfig, LinearExportOptions, LinearExportResult } from '../integrations/linear/types.js';
+import type { JiraConfig, JiraExportOptions, JiraExportResult } from '../integrations/jira/types.js';
+import type { NotionConfig, NotionExportOptions, NotionExportResult } from '../integrations/notion/types.js';
+
+export interface BlueprintOptions {
+  /** Default model for AI-authored generation; omit for template-only output */
+  model?: string;
+  /** Registry to route model calls through */
+  registry?: ModelRegistry;
+  /** Default output language */
+  locale?: string;
+  /** Project directory plugins are discovered in and work against (default: the working directory) */
+  projectPath?: string;
+  /**
+   * Plugins every generate and export runs through, also used by validate() and format(); built-in
+   * and discovered plugins when omitted. Plugins passed in keep the output path of their first use.
+   */
+  plugins?: PluginSystem;
+  /** Pack manager used by the pack operations */
+  packs?: PackManager;
+  /** Where interview sessions are saved (default: .intent/sessions) */
+  sessions?: SessionStore;
+  /** Listeners registered up front; see Blueprint.on() */
+  hooks?: Partial<BlueprintHooks>;
+}
+
+/**
+ * Events a Blueprint instance emits while it works
+ */
+export interface BlueprintHooks {
+  /** Every streaming event during AI-authored generation */
+  event: (event: GenerationEvent) => void;
+  /** A finished document */
+  document: (document: GeneratedDocument, progress: { index: number; total: number }) => void;
+  /** Outcome of merging a document with hand edits on disk */
+  merge: (result: MergeResult) => void;
+  /** A recoverable problem, e.g. a section kept untranslated */
+  warning: (message: string) => void;
+}
+
+export type BlueprintEvent = keyof BlueprintHooks;
+
+/**
+ * Project details and generation settings. Anything a template binds to can be passed through.
+ */
+export interface GenerateOptions extends Partial<TemplateContext> {
+  projectName: string;
+  projectDescription: string;
+  /** Author each section with this model (default: the client's model) */
+  model?: string;
+  /** Raw interview answers to ground AI-authored prose in */
+  answers?: Record<string, unknown>;
+  /** Prompt overrides for AI-authored generation */
+  prompts?: TemplatePrompt[];
+  /** Also write the suite, manifest and index here; results stay in memory when omitted */
+  outputDir?: string;
+  /** Merge with hand edits already in outputDir */
+  merge?: boolean;
+  /** Also produce a copy of each document with this formatter plugin (e.g. 'html'), written next to the markdown */
+  format?: string;
+  /** Cancels generation between sections and documents */
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+  documents: GeneratedDocument[];
+  /** The context the documents were rendered from, defaults filled in */
+  context: TemplateContext;
+  /** Files written, when outputDir was given */
+  files: string[];
+  /** Merge outcomes, when merge was requested */
+  merges: MergeResult[];
+  /** Plugin validator results for each document */
+  validations: DocumentValidation[];
+  /** Copies in the requested format, when format was given */
+  formatted: GeneratedDocument[];
+}
+
+export interface InterviewOptions {
+  /** Question language (default: the client's locale) */
+  locale?: string;
+  /** Pre-fill what can be inferred from this repository's manifests, CI files and README */
+  repository?: string;
+}
+
+export interface ValidateOptions {
+  /** Cross-document checks to run (default: all) */
+  checks?: CheckId[];
+  /** Also run each document through the plugin validators (default: true) */
+  plugins?: boolean;
+}
+
+export type { DocumentValidation };
+
+export interface ValidateResult {
+  /** True when no consistency errors and no failed plugin validations were found */
+  passed: boolean;
+  consistency: CheckReport;
+  documents: DocumentValidation[];
+}
+
+/**
+ * Export target and its settings
+ */
+export type ExportRequest =
+  | { target: 'github'; config: GitHubConfig; context: TemplateContext; options?: ExportOptions }
+  | { target: 'linear'; config: LinearConfig; options?: LinearExportOptions }
+  | { target: 'jira'; config: JiraConfig; options?: JiraExportOptions }
+  | { target: 'notion'; config: NotionConfig; options?: NotionExportOptions };
+
+export type ExportTarget = ExportRequest['target'];
+
+export type ExportOutcome = ExportResult | LinearExportResult | JiraExportResult | NotionExportResult;
+
+export type FormatOptions = FormatterOptions;
@@ -0,0 +1,41 @@
+/**
+ * Suite Check Output
+ * Renders a cross-document consistency report to the terminal
+ */
+
+import chalk from 'chalk';
+import type { CheckReport } from '../suite/types.js';
+
+/**
+ * Print check results grouped by check, with file:line locations
+ */
+export function printCheckReport(report: CheckReport): void {
+  console.log(chalk.dim(`${report.documents.length} documents in ${report.dir}\n`));
+
+  for (const check of report.checks) {
+    const issues = report.issues.filter(i => i.check === check.id);
+    const errors = issues.filter(i => i.severity === 'error').length;
+
+    if (check.skipped) {
+      console.log(chalk.dim(`○ ${check.name} — skipped: ${check.skipped}`));
+    } else if (issues.length === 0) {
+      console.log(chalk.green(`✓ ${check.name}`));
+    } else if (errors > 0) {
+      console.log(chalk.red(`✗ ${check.name}`) + chalk.dim(` (${issues.length})`));
+    } else {
+      console.log(chalk.yellow(`⚠ ${check.name}`) + chalk.dim(` (${issues.length})`));
+    }
+
+    for (const issue of issues) {
+      const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+      const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+      console.log(`  ${color(issue.severity.padEnd(7))} ${issue.message}`);
+      console.log(chalk.dim(`          ${location}`));
+    }
+  }
+
+  const errors = report.issues.filter(i => i.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+  const summary = `\n${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`;
+  console.log(report.passed ? chalk.green(summary) : chalk.red(summary));
+}
@@ -0,0 +1,164 @@
+/**
+ * Streaming Generation Output
+ * Renders AI generation events to the terminal and to disk as they arrive
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import type { GeneratedDocument } from '../core/index.js';
+import type { GenerationEvent } from '../core/ai.js';
+import type { MergeResult } from '../core/merge.js';
+import type { DocumentValidation, PluginPipeline } from '../plugins/index.js';
+
+const BAR_WIDTH = 20;
+
+export interface StreamOutputOptions {
+  /** Echo section text to the terminal as it streams (default: true) */
+  echo?: boolean;
+  /** Append sections to files as they stream (default: true). Disable when merging. */
+  write?: boolean;
+}
+
+/**
+ * Render a fixed-width progress bar
+ */
+export function renderProgressBar(done: number, total: number, width: number = BAR_WIDTH): string {
+  const ratio = total === 0 ? 1 : Math.min(done / total, 1);
+  const filled = Math.round(ratio * width);
+  return `[${'█'.repeat(filled)}${'░'.repeat(width - filled)}]`;
+}
+
+/**
+ * Consume generation events, appending each section to its file as it streams
+ * and printing a per-document progress bar. Returns the finished documents.
+ */
+export async function streamDocumentsToDisk(
+  events: AsyncIterable<GenerationEvent>,
+  outputDir: string,
+  options: StreamOutputOptions = {}
+): Promise<GeneratedDocument[]> {
+  const echo = options.echo ?? true;
+  const write = options.write ?? true;
+  const docs: GeneratedDocument[] = [];
+  let filePath = '';
+
+  if (write) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'document-start':
+        filePath = path.join(outputDir, event.filename);
+        if (write) fs.writeFileSync(filePath, event.preamble);
+        console.log(chalk.blue(`\n📄 ${event.document}`) + chalk.dim(` (${event.index + 1}/${event.total})`));
+        break;
+
+      case 'section-start':
+        if (write) fs.appendFileSync(filePath, '\n\n');
+        console.log(
+          chalk.cyan(renderProgressBar(event.index, event.total)) +
+          chalk.dim(` ${event.index}/${event.total} `) +
+          event.section
+        );
+        break;
+
+      case 'chunk':
+        if (write) fs.appendFileSync(filePath, event.content);
+        if (echo) process.stdout.write(chalk.dim(event.content));
+        break;
+
+      case 'section-end':
+        if (echo) process.stdout.write('\n');
+        break;
+
+      case 'document-end':
+        // Rewrite with the trimmed, assembled document
+        if (write) fs.writeFileSync(filePath, event.document.content);
+        docs.push(event.document);
+        console.log(
+          chalk.green(renderProgressBar(1, 1)) +
+          chalk.green(` ✓ ${event.document.name}`)
+        );
+        break;
+    }
+  }
+
+  return docs;
+}
+
+/**
+ * Print what a merge regeneration kept, refreshed and could not reconcile
+ */
+export function printMergeSummary(results: MergeResult[]): void {
+  const counts = { created: 0, updated: 0, unchanged: 0, merged: 0, conflict: 0 };
+  for (const result of results) counts[result.status]++;
+
+  console.log(chalk.dim(
+    `\n${counts.updated} updated, ${counts.created} created, ${counts.unchanged} unchanged, ` +
+    `${counts.merged} merged, ${counts.conflict} with conflicts`
+  ));
+
+  for (const result of results) {
+    if (result.preserved.length > 0) {
+      console.log(chalk.green(`  ✓ ${result.filename}`) + chalk.dim(` kept edits: ${result.preserved.join(', ')}`));
+    }
+    if (result.conflicts.length > 0) {
+      console.log(chalk.yellow(`  ⚠ ${result.filename}`) + chalk.dim(` conflicts: ${result.conflicts.join(', ')}`));
+    }
+  }
+
+  if (counts.conflict > 0) {
+    console.log(chalk.yellow('\nResolve the <<<<<<< edited / >>>>>>> generated markers, then re-run.'));
+  }
+}
+
+/**
+ * Print what the plugin validators found in a generated suite
+ */
+export function printValidationReport(validations: DocumentValidation[]): void {
+  if (validations.length === 0) return;
+
+  const byFile = new Map<string, { errors: string[]; warnings: number }>();
+  for (const { filename, result } of validations) {
+    const entry = byFile.get(filename) ?? { errors: [], warnings: 0 };
+    entry.errors.push(...result.errors.map(e => e.message));
+    entry.warnings += result.warnings.length;
+    byFile.set(filename, entry);
+  }
+
+  const entries = [...byFile.values()];
+  const errors = entries.reduce((n, e) => n + e.errors.length, 0);
+  const warnings = entries.reduce((n, e) => n + e.warnings, 0);
+  console.log(chalk.dim(`
+Plugin checks: ${byFile.size} documents, ${errors} errors, ${warnings} warnings`));
+
+  for (const [filename, entry] of byFile) {
+    for (const message of entry.errors) {
+      console.log(chalk.red(`  ✖ ${filename}`) + chalk.dim(` ${message}`));
+    }
+    if (entry.warnings > 0) {
+      console.log(chalk.yellow(`  ⚠ ${filename}`) + chalk.dim(` ${entry.warnings} warning${entry.warnings === 1 ? '' : 's'}`));
+    }
+  }
+}
+
+/**
+ * Write a copy of each document in another format (e.g. html) with the
+ * formatter plugin for it. Returns the files written.
+ */
+export async function writeFormattedDocuments(
+  pipeline: PluginPipeline,
+  documents: GeneratedDocument[],
+  format: string,
+  outputDir: string
+): Promise<string[]> {
+  const files: string[] = [];
+  for (const document of await pipeline.formatDocuments(documents, format)) {
+    const filePath = path.join(outputDir, document.filename);
+    fs.writeFileSync(filePath, document.content);
+    files.push(filePath);
+  }
+  return files;
+}
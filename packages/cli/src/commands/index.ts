@@ -5,9 +5,13 @@
 
 export * from './marketplace.js';
 export * from './analytics.js';
+export * from './generate.js';
+export * from './check.js';
+export * from './plugin.js';
 
 import { handleMarketplaceCommand } from './marketplace.js';
 import { handleAnalyticsCommand } from './analytics.js';
+import { handlePluginCommand } from './plugin.js';
 
 /**
  * Command registry
@@ -17,6 +21,7 @@ export const commands = {
   marketplace: handleMarketplaceCommand,
   analytics: handleAnalyticsCommand,
   stats: handleAnalyticsCommand,
+  plugin: handlePluginCommand,
 };
 
 /**
@@ -29,8 +34,13 @@ export const commandHelp = `
 
 COMMANDS
 
-  generate         Generate documentation from templates
-  interview        Start AI-guided intake interview
+  generate         Generate documentation from templates (--from-intake <file>, --format <ext>)
+  interview        Start AI-guided intake interview (--resume <id>, --scan [dir], --answers <file>)
+  session          Manage saved interview sessions (list, show, delete)
+  check            Check a generated doc suite for consistency
+  trace            Generate a requirements traceability matrix
+  graph            Render the document dependency graph (Mermaid)
+  translate        Translate a generated doc suite with a model
   export           Export documents to external services
 
   pack             Manage template packs (marketplace)
@@ -54,8 +64,13 @@ COMMANDS
 
   plugin           Manage plugins
     list           List installed plugins
+    info           Show plugin details and settings
     enable         Enable a plugin
     disable        Disable a plugin
+    config         Show or set plugin settings (key=value)
+    install        Install from a path, tarball or npm (--sandbox to isolate it)
+    uninstall      Remove an installed plugin
+    new            Scaffold a plugin project (--type)
 
   config           Configuration management
     init           Initialize project config
@@ -0,0 +1,165 @@
+/**
+ * Interview Output
+ * Asks interview questions with back/skip navigation and renders review and
+ * answers-file reports to the terminal
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { optionValues, type AnswersReport } from '../interview/answers.js';
+import type { ReviewItem } from '../interview/engine.js';
+import type { Question } from '../interview/types.js';
+
+/**
+ * Print invalid and missing answers, then the gap analysis
+ */
+export function printAnswersReport(report: AnswersReport): void {
+  const answered = Object.keys(report.answers).length;
+  console.log(chalk.dim(`${answered} answers stored, ${report.defaulted.length} from defaults\n`));
+
+  for (const error of report.errors) {
+    console.log(`  ${chalk.red('invalid'.padEnd(8))} ${error.questionId}: ${error.message}`);
+  }
+  for (const id of report.missingRequired) {
+    console.log(`  ${chalk.red('missing'.padEnd(8))} ${id} is required`);
+  }
+  for (const id of report.ignored) {
+    console.log(`  ${chalk.yellow('ignored'.padEnd(8))} ${id} is not asked for these answers`);
+  }
+
+  const { gaps } = report;
+  if (gaps.missingRecommended.length > 0 || gaps.assumptions.length > 0) {
+    console.log(chalk.yellow('\n━━━ Gaps ━━━'));
+    for (const missing of gaps.missingRecommended) {
+      console.log(`  ${chalk.dim('•')} Consider adding: ${missing}`);
+    }
+    for (const assumption of gaps.assumptions) {
+      console.log(`  ${chalk.dim('•')} Assuming ${assumption.assumption} (${assumption.confidence}%)`);
+    }
+  }
+  console.log(chalk.dim(`\nCompleteness: ${gaps.completenessScore}%`));
+
+  const summary = `\n${report.errors.length} invalid, ${report.missingRequired.length} missing`;
+  console.log(report.valid ? chalk.green(summary) : chalk.red(summary));
+}
+
+/**
+ * What the user did at a question
+ */
+export type QuestionAction =
+  | { type: 'answer'; value: unknown }
+  | { type: 'back' }
+  | { type: 'skip' };
+
+const BACK = '\0back';
+const SKIP = '\0skip';
+
+/**
+ * Ask one question, offering the current answer as the default. Choice prompts
+ * get Back and Skip entries; typed prompts accept :back and :skip.
+ */
+export async function askQuestion(
+  question: Question,
+  current: unknown,
+  options: { canGoBack: boolean }
+): Promise<QuestionAction> {
+  const canSkip = !question.required;
+  const previous = current ?? question.default;
+  const values = optionValues(question);
+  const isOption = (i: number, value: unknown) => question.options![i] === value || values[i] === value;
+
+  const navigation = [
+    ...(options.canGoBack ? [{ name: chalk.dim('← Back'), value: BACK }] : []),
+    ...(canSkip ? [{ name: chalk.dim('Skip'), value: SKIP }] : []),
+  ];
+  const choices = [
+    ...(question.options || []).map((value, i) => ({
+      name: question.optionLabels?.[i] ?? value,
+      value,
+      checked: question.type === 'multiselect' && Array.isArray(previous) && previous.some((p) => isOption(i, p)),
+    })),
+    ...(navigation.length > 0 ? [new inquirer.Separator(), ...navigation] : []),
+  ];
+
+  let message = chalk.cyan(question.text);
+  if (question.hint) message += chalk.dim(` (${question.hint})`);
+
+  switch (question.type) {
+    case 'select': {
+      const index = (question.options || []).findIndex((_, i) => isOption(i, previous));
+      const { answer } = await inquirer.prompt([
+        { type: 'list', name: 'answer', message, choices, default: index >= 0 ? index : undefined },
+      ]);
+      return toAction(answer);
+    }
+
+    case 'multiselect': {
+      const { answer } = await inquirer.prompt([{ type: 'checkbox', name: 'answer', message, choices }]);
+      if (answer.includes(BACK)) return { type: 'back' };
+      if (answer.includes(SKIP)) return { type: 'skip' };
+      return { type: 'answer', value: answer };
+    }
+
+    case 'confirm': {
+      const { answer } = await inquirer.prompt([{
+        type: 'list',
+        name: 'answer',
+        message,
+        choices: [{ name: 'Yes', value: true }, { name: 'No', value: false }, ...choices],
+        default: previous === true ? 0 : previous === false ? 1 : undefined,
+      }]);
+      return toAction(answer);
+    }
+
+    default: {
+      const commands = [options.canGoBack && ':back', canSkip && ':skip'].filter(Boolean).join(', ');
+      const text = Array.isArray(previous) ? previous.join(', ') : previous;
+      const { answer } = await inquirer.prompt([{
+        type: question.type === 'editor' ? 'editor' : 'input',
+        name: 'answer',
+        message: commands ? `${message}${chalk.dim(` [${commands}]`)}` : message,
+        default: text === undefined || text === null ? undefined : String(text),
+        validate: (input: string) => {
+          if (input.trim() === ':back' || input.trim() === ':skip') return true;
+          if (question.type === 'number' && (input.trim() === '' || Number.isNaN(Number(input)))) return 'Enter a number';
+          return true;
+        },
+      }]);
+
+      const command = String(answer).trim();
+      if (command === ':back' && options.canGoBack) return { type: 'back' };
+      if (command === ':skip' && canSkip) return { type: 'skip' };
+      return { type: 'answer', value: question.type === 'number' ? Number(answer) : answer };
+    }
+  }
+}
+
+function toAction(answer: unknown): QuestionAction {
+  if (answer === BACK) return { type: 'back' };
+  if (answer === SKIP) return { type: 'skip' };
+  return { type: 'answer', value: answer };
+}
+
+/**
+ * Print answers grouped as they were asked
+ */
+export function printReview(items: ReviewItem[]): void {
+  console.log(chalk.yellow('\n━━━ Review ━━━'));
+
+  let group = '';
+  for (const item of items) {
+    if (item.groupName !== group) {
+      group = item.groupName;
+      console.log(chalk.bold(`\n  ${group}`));
+    }
+
+    const answer = item.answer === null
+      ? chalk.dim('(skipped)')
+      : Array.isArray(item.answer)
+        ? item.answer.join(', ')
+        : String(item.answer);
+    const text = item.text.length > 60 ? item.text.slice(0, 57) + '...' : item.text;
+    console.log(`    ${chalk.dim(text)} ${answer.length > 60 ? answer.slice(0, 57) + '...' : answer}`);
+  }
+  console.log();
+}
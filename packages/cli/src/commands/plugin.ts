@@ -0,0 +1,291 @@
+/**
+ * Plugin CLI Commands
+ * List, configure, install and scaffold the plugins in .intent/plugins
+ */
+
+import { basename, relative } from 'path';
+import chalk from 'chalk';
+import {
+  createPluginSystem,
+  installPlugin,
+  parseConfigValue,
+  readPluginSettings,
+  scaffoldPlugin,
+  uninstallPlugin,
+  updatePluginSettings,
+  validatePluginConfig,
+  PLUGIN_TYPES,
+  type PluginEntry,
+  type PluginSystem,
+  type PluginType,
+} from '../plugins/index.js';
+
+export interface PluginCommandOptions {
+  /** Plugin type for `new` */
+  type?: string;
+  /** Target directory for `new` */
+  dir?: string;
+  /** Replace an installed plugin on `install` */
+  force?: boolean;
+  /** Run the plugin in a sandbox, set on `install` */
+  sandbox?: boolean;
+}
+
+/**
+ * Plugins for the current project, built-ins included
+ */
+async function loadPlugins(): Promise<PluginSystem> {
+  const plugins = createPluginSystem();
+  await plugins.init(process.cwd(), process.cwd());
+  return plugins;
+}
+
+function requireEntry(plugins: PluginSystem, id: string | undefined): PluginEntry & { id: string } {
+  const entry = id ? plugins.getManager().getEntry(id) : undefined;
+  if (!id || !entry) {
+    throw new Error(`Plugin not found: ${id ?? '(missing ID)'}. See installed plugins with: blueprint plugin list`);
+  }
+  return { ...entry, id };
+}
+
+function origin(entry: PluginEntry): string {
+  return entry.path ? relative(process.cwd(), entry.path) || entry.path : 'built-in';
+}
+
+function state(entry: PluginEntry): string {
+  if (entry.error) return chalk.red('failed');
+  return entry.enabled ? chalk.green('enabled') : chalk.yellow('disabled');
+}
+
+/**
+ * List every plugin with its type, version and state
+ */
+export async function listPlugins(): Promise<void> {
+  const plugins = await loadPlugins();
+  const manager = plugins.getManager();
+
+  console.log(chalk.blue('\n🧩 Plugins\n'));
+  for (const plugin of plugins.list()) {
+    const entry = manager.getEntry(plugin.id)!;
+    console.log(`  ${chalk.cyan(plugin.id.padEnd(28))} ${plugin.type.padEnd(12)} v${plugin.version.padEnd(9)} ${state(entry)}`);
+    console.log(chalk.dim(`    ${plugin.name} - ${origin(entry)}${entry.sandbox ? ' (sandboxed)' : ''}`));
+    if (entry.error) console.log(chalk.red(`    ${entry.error}`));
+  }
+  console.log(chalk.dim(`\nAdd plugins to ${relative(process.cwd(), manager.getPluginDir())} or run: blueprint plugin install <path|package>`));
+}
+
+/**
+ * Show a plugin's metadata and its settings
+ */
+export async function showPluginInfo(id?: string): Promise<void> {
+  const plugins = await loadPlugins();
+  const entry = requireEntry(plugins, id);
+  const { meta } = entry.plugin;
+
+  console.log(chalk.blue(`\n🧩 ${meta.name}`) + chalk.dim(` (${meta.id} v${meta.version})\n`));
+  console.log(`  ${meta.description}`);
+  console.log(`\n  Type: ${chalk.cyan(meta.type)}`);
+  console.log(`  State: ${state(entry)}`);
+  if (entry.error) console.log(chalk.red(`  ${entry.error}`));
+  console.log(`  Source: ${origin(entry)}`);
+  if (entry.sandbox) {
+    const { allowedHosts, timeLimitMs, memoryLimitMb } = entry.sandbox;
+    console.log(`  Sandbox: ${timeLimitMs} ms per call, ${memoryLimitMb} MB, hosts: ${allowedHosts.join(', ') || 'none'}`);
+  }
+  console.log(`  Author: ${meta.author.name}${meta.author.email ? ` <${meta.author.email}>` : ''}`);
+  if (meta.events?.length) console.log(`  Events: ${meta.events.join(', ')}`);
+  if (meta.dependencies?.length) console.log(`  Depends on: ${meta.dependencies.join(', ')}`);
+  if (meta.license) console.log(`  License: ${meta.license}`);
+  if (meta.repository) console.log(`  Repository: ${meta.repository}`);
+
+  printConfig(entry);
+}
+
+function printConfig(entry: PluginEntry): void {
+  const properties = Object.entries(entry.plugin.meta.config?.properties || {});
+  const unknown = Object.keys(entry.config).filter(key => !properties.some(([name]) => name === key));
+
+  if (properties.length === 0 && unknown.length === 0) {
+    console.log(chalk.dim('\n  This plugin has no settings.'));
+    return;
+  }
+
+  console.log(chalk.yellow('\n━━━ Settings ━━━'));
+  for (const [key, property] of properties) {
+    const value = entry.config[key] ?? property.default;
+    const shown = value === undefined ? chalk.dim('(not set)') : chalk.cyan(JSON.stringify(value));
+    const choices = property.enum ? chalk.dim(` one of ${property.enum.map(o => JSON.stringify(o)).join(', ')}`) : '';
+    console.log(`  ${key} ${chalk.dim(`<${property.type}>`)} = ${shown}${choices}`);
+    if (property.description) console.log(chalk.dim(`    ${property.description}`));
+  }
+  for (const key of unknown) {
+    console.log(`  ${key} = ${chalk.cyan(JSON.stringify(entry.config[key]))}`);
+  }
+}
+
+/**
+ * Turn a plugin on or off for this project
+ */
+export async function setPluginEnabled(id: string | undefined, enabled: boolean): Promise<void> {
+  const plugins = await loadPlugins();
+  const entry = requireEntry(plugins, id);
+
+  updatePluginSettings(plugins.getManager().getSettingsFile(), entry.id, { enabled });
+  console.log(chalk.green(`${enabled ? 'Enabled' : 'Disabled'} ${entry.id}`));
+}
+
+/**
+ * Show a plugin's settings, or set them from key=value pairs (`key=` clears one).
+ * Values are checked against the plugin's config schema before they are saved.
+ */
+export async function configurePlugin(id: string | undefined, assignments: string[]): Promise<void> {
+  const plugins = await loadPlugins();
+  const entry = requireEntry(plugins, id);
+  const schema = entry.plugin.meta.config;
+
+  if (assignments.length === 0) {
+    console.log(chalk.blue(`\n🧩 ${entry.id} settings`));
+    printConfig(entry);
+    return;
+  }
+
+  const settingsFile = plugins.getManager().getSettingsFile();
+  const saved = { ...readPluginSettings(settingsFile)[entry.id]?.config };
+  const effective = { ...entry.config };
+
+  for (const assignment of assignments) {
+    const at = assignment.indexOf('=');
+    if (at <= 0) {
+      throw new Error(`Expected key=value, got "${assignment}"`);
+    }
+    const key = assignment.slice(0, at);
+    const raw = assignment.slice(at + 1);
+    if (raw === '') {
+      delete saved[key];
+      delete effective[key];
+    } else {
+      saved[key] = effective[key] = parseConfigValue(raw, schema?.properties[key]?.type);
+    }
+  }
+
+  const errors = validatePluginConfig(schema, effective);
+  if (errors.length > 0) {
+    throw new Error(`Invalid settings for ${entry.id}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+
+  updatePluginSettings(settingsFile, entry.id, { config: saved });
+  console.log(chalk.green(`Saved settings for ${entry.id}`));
+  printConfig({ ...entry, config: effective });
+}
+
+/**
+ * Install a plugin from a path, a tarball or npm
+ */
+export async function installPluginFrom(source: string | undefined, options: PluginCommandOptions = {}): Promise<void> {
+  if (!source) {
+    throw new Error('Usage: blueprint plugin install <file|folder|tarball|npm-package>');
+  }
+
+  const manager = (await loadPlugins()).getManager();
+  const { meta, path } = await installPlugin(source, manager.getPluginDir(), {
+    force: options.force,
+    sandbox: options.sandbox,
+  });
+  updatePluginSettings(manager.getSettingsFile(), meta.id, {
+    source,
+    path: basename(path),
+    installedAt: new Date().toISOString(),
+    ...(options.sandbox ? { sandbox: true } : {}),
+  });
+
+  console.log(chalk.green(`Installed ${meta.name} (${meta.id} v${meta.version})`));
+  console.log(chalk.dim(`  ${meta.type} plugin in ${relative(process.cwd(), path)}${options.sandbox ? ', sandboxed' : ''}`));
+}
+
+/**
+ * Remove an installed plugin and its settings
+ */
+export async function uninstallPluginById(id: string | undefined): Promise<void> {
+  const plugins = await loadPlugins();
+  const entry = requireEntry(plugins, id);
+  const manager = plugins.getManager();
+
+  if (!entry.path) {
+    throw new Error(`${entry.id} is built in and cannot be uninstalled; disable it with: blueprint plugin disable ${entry.id}`);
+  }
+
+  uninstallPlugin(entry.path, manager.getPluginDir());
+  updatePluginSettings(manager.getSettingsFile(), entry.id, null);
+  console.log(chalk.green(`Uninstalled ${entry.id}`));
+}
+
+/**
+ * Scaffold a TypeScript plugin project
+ */
+export function createPluginProject(name: string | undefined, options: PluginCommandOptions = {}): void {
+  if (!name) {
+    throw new Error('Usage: blueprint plugin new <name> --type <type>');
+  }
+  if (!options.type) {
+    throw new Error(`Choose a plugin type with --type: ${PLUGIN_TYPES.join(', ')}`);
+  }
+
+  const dir = options.dir || name.replace(/^@[^/]+\//, '');
+  const files = scaffoldPlugin(name, options.type as PluginType, dir);
+
+  console.log(chalk.green(`Created ${options.type} plugin ${name} in ${dir}`));
+  for (const file of files) {
+    console.log(chalk.dim(`  ${relative(process.cwd(), file)}`));
+  }
+  console.log(chalk.dim(`\nBuild and install it with: cd ${dir} && npm install && npm run build && blueprint plugin install .`));
+}
+
+/**
+ * Main plugin command handler
+ */
+export async function handlePluginCommand(args: string[], options: PluginCommandOptions = {}): Promise<void> {
+  const [subcommand, ...rest] = args;
+
+  switch (subcommand) {
+    case 'list':
+      await listPlugins();
+      break;
+
+    case 'info':
+      await showPluginInfo(rest[0]);
+      break;
+
+    case 'enable':
+    case 'disable':
+      await setPluginEnabled(rest[0], subcommand === 'enable');
+      break;
+
+    case 'config':
+      await configurePlugin(rest[0], rest.slice(1));
+      break;
+
+    case 'install':
+      await installPluginFrom(rest[0], options);
+      break;
+
+    case 'uninstall':
+      await uninstallPluginById(rest[0]);
+      break;
+
+    case 'new':
+      createPluginProject(rest[0], options);
+      break;
+
+    default:
+      console.log(`
+  blueprint plugin list                          List plugins and whether they are enabled
+  blueprint plugin info <id>                     Show a plugin's details and settings
+  blueprint plugin enable <id>                   Enable a plugin
+  blueprint plugin disable <id>                  Disable a plugin
+  blueprint plugin config <id> [key=value...]    Show or change a plugin's settings (key= clears one)
+  blueprint plugin install <source> [--sandbox]  Install from a file, folder, .tgz or npm package
+  blueprint plugin uninstall <id>                Remove an installed plugin
+  blueprint plugin new <name> --type <type>      Scaffold a TypeScript plugin (${PLUGIN_TYPES.join(', ')})
+`);
+  }
+}
@@ -0,0 +1,599 @@
+/**
+ * AI-Authored Generation
+ * Routes template sections through a model to replace placeholders with project-specific prose
+ */
+
+import Handlebars from 'handlebars';
+import { ModelRegistry } from '../enterprise/models/registry.js';
+import type { CompletionRequest } from '../enterprise/models/types.js';
+import { TemplateEngine } from '../enterprise/templates/engine.js';
+import type {
+  CustomTemplate,
+  TemplatePrompt,
+  TemplateSection,
+  CompiledSection,
+} from '../enterprise/templates/types.js';
+import {
+  compileTemplate,
+  generatePackDocument,
+  getDocumentGraph,
+  getTemplateLocale,
+  getTemplateVersion,
+  listTemplates,
+  getTemplatesForScope,
+  loadPackTemplate,
+  packTemplateVariables,
+  type TemplateContext,
+  type TemplateInfo,
+  type GeneratedDocument,
+} from './index.js';
+import { splitSections } from './sections.js';
+import { describeUpstream, orderTemplates, summarizeDocument, upstreamOf, type UpstreamSummary } from './graph.js';
+import { DEFAULT_LOCALE, LANGUAGE_NAMES, resolveLocale, type Locale } from './locales.js';
+
+export { sectionId, splitSections, type MarkdownSection } from './sections.js';
+
+export interface AiGenerationOptions {
+  /** Model alias or full model ID (see MODEL_ALIASES) */
+  model: string;
+  /** Registry to route completions through (defaults to a fresh registry) */
+  registry?: ModelRegistry;
+  /** Raw interview answers to ground the prose in */
+  answers?: Record<string, unknown>;
+  /** Prompt overrides, matched by section ID ('*' matches every section) */
+  prompts?: TemplatePrompt[];
+  /** Default temperature when a prompt does not set one */
+  temperature?: number;
+  /** Default max tokens per section when a prompt does not set one */
+  maxTokens?: number;
+  /** Called before each section is sent to the model */
+  onSection?: (event: { document: string; section: string; index: number; total: number }) => void;
+  /** Called when a translated section is discarded because it lost markdown structure */
+  onWarning?: (message: string) => void;
+}
+
+const DEFAULT_SYSTEM_PROMPT =
+  'You are a senior product and engineering writer producing the "{{document}}" for {{projectName}}. ' +
+  'Write concrete, specific prose grounded only in the project context you are given. ' +
+  'When a detail is genuinely unknown, state a sensible assumption explicitly instead of inventing facts.' +
+  '{{#if language}} Write in {{language}}.{{/if}}';
+
+const DEFAULT_USER_PROMPT = `Project context:
+{{contextBlock}}
+{{#if upstreamBlock}}
+
+Upstream documents already written for this project. Stay consistent with them and derive from them where relevant:
+{{upstreamBlock}}
+{{/if}}
+
+Rewrite the following section of the {{document}}. Replace every placeholder (text such as _[...]_, {...}, or generic example values) with content specific to this project. Keep the heading, numbering, tables, checklists and code blocks intact. Return only the markdown for this section.
+
+{{section.content}}`;
+
+/**
+ * Default prompt applied to every core template section
+ */
+export const DEFAULT_SECTION_PROMPT: TemplatePrompt = {
+  id: 'default',
+  section: '*',
+  system: DEFAULT_SYSTEM_PROMPT,
+  user: DEFAULT_USER_PROMPT,
+  model: 'auto',
+  temperature: 0.4,
+  maxTokens: 2048,
+};
+
+/**
+ * Prompt used to translate a rendered section into the output locale
+ */
+export const DEFAULT_TRANSLATION_PROMPT: TemplatePrompt = {
+  id: 'translate',
+  section: '*',
+  system:
+    'You are a professional technical translator. Translate product and engineering documentation into {{language}} ' +
+    'using the terminology a {{language}}-speaking engineering team would expect.',
+  user: `Translate the following part of the {{document}} into {{language}}.
+
+Keep the markdown structure exactly as it is: the same headings and numbering, the same table rows and columns (translate cell text only), the same checklist items, list markers and links. Do not translate identifiers such as US-AUTH-001, RISK-PAY or ADR-001, file names, or tokens such as ⟦CODE-1⟧. Return only the translated markdown.
+
+{{section.content}}`,
+  model: 'auto',
+  temperature: 0.2,
+  maxTokens: 4096,
+};
+
+/**
+ * Find the prompt for a section: exact ID match first, then the wildcard
+ */
+export function findPrompt(prompts: TemplatePrompt[], section: string): TemplatePrompt | undefined {
+  return prompts.find(p => p.section === section) || prompts.find(p => p.section === '*');
+}
+
+/**
+ * Resolve the model alias a prompt should run against
+ */
+export function resolvePromptModel(prompt: TemplatePrompt | undefined, fallback: string): string {
+  if (!prompt?.model || prompt.model === 'auto') return fallback;
+  // 'ollama' is a provider, not an alias - use its default local model
+  if (prompt.model === 'ollama') return 'llama';
+  return prompt.model;
+}
+
+/**
+ * Render a bullet list describing the project for the model
+ */
+export function describeContext(
+  context: Record<string, unknown>,
+  answers: Record<string, unknown> = {}
+): string {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+
+  const push = (key: string, value: unknown) => {
+    if (seen.has(key) || value === undefined || value === null || value === '') return;
+    if (Array.isArray(value) && value.length === 0) return;
+    if (typeof value === 'object' && !Array.isArray(value)) return;
+    if (Array.isArray(value) && value.some(item => typeof item === 'object')) return;
+    seen.add(key);
+    lines.push(`- ${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`);
+  };
+
+  for (const [key, value] of Object.entries(context)) push(key, value);
+  for (const [key, value] of Object.entries(answers)) push(key, value);
+
+  return lines.join('\n');
+}
+
+/**
+ * Build a completion request for one section
+ */
+export function buildSectionRequest(
+  prompt: TemplatePrompt,
+  variables: Record<string, unknown>,
+  options: Pick<AiGenerationOptions, 'temperature' | 'maxTokens'> = {}
+): CompletionRequest {
+  const render = (text: string) => Handlebars.compile(text, { noEscape: true })(variables);
+
+  return {
+    system: prompt.system ? render(prompt.system) : undefined,
+    messages: [{ role: 'user', content: render(prompt.user) }],
+    temperature: prompt.temperature ?? options.temperature,
+    maxTokens: prompt.maxTokens ?? options.maxTokens,
+  };
+}
+
+/**
+ * Streaming generation events, in the order they are emitted
+ */
+export type GenerationEvent =
+  | { type: 'document-start'; document: string; filename: string; index: number; total: number; sections: number; preamble: string }
+  | { type: 'section-start'; document: string; section: string; index: number; total: number }
+  | { type: 'chunk'; document: string; section: string; content: string }
+  | { type: 'section-end'; document: string; section: string; index: number; total: number }
+  | { type: 'document-end'; document: GeneratedDocument; index: number; total: number };
+
+interface PlannedDocument {
+  name: string;
+  filename: string;
+  category: string;
+  template: string;
+  templateVersion: string;
+  locale: Locale;
+  /** Whether the preamble still needs translating into the output locale */
+  translatePreamble: boolean;
+  preamble: string;
+  sections: Array<{ title: string; model: string; request: CompletionRequest }>;
+}
+
+/**
+ * Compile a core template and build one completion request per section
+ */
+function planDocument(
+  templateName: string,
+  context: TemplateContext,
+  options: AiGenerationOptions
+): PlannedDocument {
+  const info = listTemplates().find(t => t.filename === templateName || t.id === templateName);
+  const documentName = info?.name || templateName;
+  const locale = resolveLocale(context.locale);
+  const skeleton = compileTemplate(templateName, locale)(context);
+  const { preamble, sections } = splitSections(skeleton);
+  const prompts = [...(options.prompts || []), DEFAULT_SECTION_PROMPT];
+  const contextBlock = describeContext(context, options.answers);
+  const upstreamBlock = describeUpstream(context.upstream);
+  const language = locale === DEFAULT_LOCALE ? undefined : LANGUAGE_NAMES[locale];
+
+  return {
+    name: documentName,
+    filename: `${context.projectName.toLowerCase().replace(/\s+/g, '-')}-${info?.filename || templateName}`,
+    category: info?.category || 'Other',
+    template: info?.filename || templateName,
+    templateVersion: getTemplateVersion(templateName, locale),
+    locale,
+    translatePreamble: getTemplateLocale(templateName, locale) !== locale,
+    preamble: preamble.trimEnd(),
+    sections: sections.map(section => {
+      const prompt = findPrompt(prompts, section.id)!;
+      return {
+        title: section.title,
+        model: resolvePromptModel(prompt, options.model),
+        request: buildSectionRequest(
+          prompt,
+          { ...context, answers: options.answers || {}, document: documentName, section, contextBlock, upstreamBlock, language },
+          options
+        ),
+      };
+    }),
+  };
+}
+
+function assemble(preamble: string, sections: string[]): string {
+  return [preamble, ...sections].join('\n\n') + '\n';
+}
+
+/**
+ * Preamble of a planned document in its output locale. Sections are authored
+ * in the output language; the preamble is translated when the template has no
+ * localized variant.
+ */
+async function plannedPreamble(plan: PlannedDocument, registry: ModelRegistry, options: AiGenerationOptions): Promise<string> {
+  if (!plan.translatePreamble || !plan.preamble.trim()) return plan.preamble;
+  return translateMarkdown(plan.preamble, plan.name, plan.locale, registry, options);
+}
+
+/**
+ * Generate a single core document, authoring each section with a model
+ */
+export async function generateDocumentWithModel(
+  templateName: string,
+  context: TemplateContext,
+  options: AiGenerationOptions
+): Promise<GeneratedDocument> {
+  const registry = options.registry || new ModelRegistry();
+  const plan = planDocument(templateName, context, options);
+  const preamble = await plannedPreamble(plan, registry, options);
+
+  const authored: string[] = [];
+  for (let i = 0; i < plan.sections.length; i++) {
+    const section = plan.sections[i];
+    options.onSection?.({ document: plan.name, section: section.title, index: i, total: plan.sections.length });
+    const response = await registry.completeWithAlias(section.model, section.request);
+    authored.push(response.content.trim());
+  }
+
+  return {
+    name: plan.name,
+    filename: plan.filename,
+    content: assemble(preamble, authored),
+    category: plan.category,
+    template: plan.template,
+    templateVersion: plan.templateVersion,
+    locale: plan.locale,
+  };
+}
+
+/**
+ * Templates for a scope in generation order, with a lookup for the upstream
+ * summaries each core document should be written from
+ */
+function planScope(context: TemplateContext) {
+  const templates = getTemplatesForScope(context.scope);
+  const graph = getDocumentGraph();
+  const selected = new Set(templates.map(t => t.filename));
+  const summaries = new Map<string, UpstreamSummary>();
+
+  return {
+    templates,
+    ordered: orderTemplates(graph, templates),
+    contextFor: (template: TemplateInfo): TemplateContext => ({
+      ...context,
+      upstream: upstreamOf(graph, template.filename, selected).flatMap(u => summaries.get(u) ?? []),
+    }),
+    record: (document: GeneratedDocument) => {
+      if (document.template) summaries.set(document.template, summarizeDocument(document));
+    },
+  };
+}
+
+/**
+ * Generate all documents for a scope, authoring each section with a model.
+ * Upstream documents are written first and summarised into the context of
+ * the documents derived from them.
+ */
+export async function generateAllDocumentsWithModel(
+  context: TemplateContext,
+  options: AiGenerationOptions
+): Promise<GeneratedDocument[]> {
+  const registry = options.registry || new ModelRegistry();
+  const scope = planScope(context);
+  const generated = new Map<string, GeneratedDocument>();
+
+  for (const template of scope.ordered) {
+    const document = template.pack
+      ? await generatePackDocumentWithModel(template, context, { ...options, registry })
+      : await generateDocumentWithModel(template.filename, scope.contextFor(template), { ...options, registry });
+    scope.record(document);
+    generated.set(template.id, document);
+  }
+
+  return scope.templates.map(t => generated.get(t.id)!);
+}
+
+/**
+ * Generate a marketplace pack document, authoring its prompted sections with a model
+ */
+async function generatePackDocumentWithModel(
+  template: TemplateInfo,
+  context: TemplateContext,
+  options: AiGenerationOptions
+): Promise<GeneratedDocument> {
+  const custom = loadPackTemplate(template);
+  const content = await generateCustomTemplateWithModel(
+    new TemplateEngine(),
+    custom,
+    packTemplateVariables(custom, context),
+    options
+  );
+
+  // Pack templates have no localized variants
+  return translateDocumentWithModel({ ...generatePackDocument(template, context), content }, context.locale, options);
+}
+
+/**
+ * Stream a single core document section by section as the model writes it
+ */
+export async function* streamDocumentWithModel(
+  templateName: string,
+  context: TemplateContext,
+  options: AiGenerationOptions,
+  position: { index: number; total: number } = { index: 0, total: 1 }
+): AsyncGenerator<GenerationEvent> {
+  const registry = options.registry || new ModelRegistry();
+  const plan = planDocument(templateName, context, options);
+  const total = plan.sections.length;
+  const preamble = await plannedPreamble(plan, registry, options);
+
+  yield {
+    type: 'document-start',
+    document: plan.name,
+    filename: plan.filename,
+    index: position.index,
+    total: position.total,
+    sections: total,
+    preamble,
+  };
+
+  const authored: string[] = [];
+  for (let i = 0; i < total; i++) {
+    const section = plan.sections[i];
+    options.onSection?.({ document: plan.name, section: section.title, index: i, total });
+    yield { type: 'section-start', document: plan.name, section: section.title, index: i, total };
+
+    let content = '';
+    for await (const chunk of registry.streamWithAlias(section.model, section.request)) {
+      if (chunk.content) {
+        content += chunk.content;
+        yield { type: 'chunk', document: plan.name, section: section.title, content: chunk.content };
+      }
+      if (chunk.done) break;
+    }
+
+    authored.push(content.trim());
+    yield { type: 'section-end', document: plan.name, section: section.title, index: i, total };
+  }
+
+  yield {
+    type: 'document-end',
+    document: {
+      name: plan.name,
+      filename: plan.filename,
+      content: assemble(preamble, authored),
+      category: plan.category,
+      template: plan.template,
+      templateVersion: plan.templateVersion,
+      locale: plan.locale,
+    },
+    index: position.index,
+    total: position.total,
+  };
+}
+
+/**
+ * Stream every document for a scope, one after another, upstream documents first
+ */
+export async function* streamAllDocumentsWithModel(
+  context: TemplateContext,
+  options: AiGenerationOptions
+): AsyncGenerator<GenerationEvent> {
+  const registry = options.registry || new ModelRegistry();
+  const scope = planScope(context);
+  const templates = scope.ordered;
+
+  for (let i = 0; i < templates.length; i++) {
+    const template = templates[i];
+    const position = { index: i, total: templates.length };
+
+    if (!template.pack) {
+      for await (const event of streamDocumentWithModel(template.filename, scope.contextFor(template), { ...options, registry }, position)) {
+        if (event.type === 'document-end') scope.record(event.document);
+        yield event;
+      }
+      continue;
+    }
+
+    // Pack templates are authored whole rather than streamed section by section
+    yield {
+      type: 'document-start',
+      document: template.name,
+      filename: `${context.projectName.toLowerCase().replace(/\s+/g, '-')}-${template.filename}`,
+      ...position,
+      sections: 0,
+      preamble: '',
+    };
+    const document = await generatePackDocumentWithModel(template, context, { ...options, registry });
+    yield { type: 'document-end', document, ...position };
+  }
+}
+
+/**
+ * Render a YAML custom template, authoring sections that have a prompt with a model
+ *
+ * A section is sent to the model when the template declares a TemplatePrompt for its ID
+ * or the section carries an inline `prompt`. Other sections are rendered as usual.
+ */
+export async function generateCustomTemplateWithModel(
+  engine: TemplateEngine,
+  template: CustomTemplate,
+  variables: Record<string, unknown>,
+  options: AiGenerationOptions
+): Promise<string> {
+  const registry = options.registry || new ModelRegistry();
+  const compiled = engine.compile(template, { variables });
+  const prompts = [...(options.prompts || []), ...(compiled.template.prompts || [])];
+  const inline = collectInlinePrompts(compiled.template.sections);
+  const contextBlock = describeContext(compiled.variables, options.answers);
+  const documentName = compiled.template.meta.name;
+
+  const targets = flattenSections(compiled.sections).filter(
+    s => prompts.some(p => p.section === s.id) || inline.has(s.id)
+  );
+
+  for (let i = 0; i < targets.length; i++) {
+    const section = targets[i];
+    const prompt: TemplatePrompt = prompts.find(p => p.section === section.id) || {
+      ...DEFAULT_SECTION_PROMPT,
+      id: `${section.id}-inline`,
+      section: section.id,
+      user: `${inline.get(section.id)}\n\n${DEFAULT_USER_PROMPT}`,
+    };
+    options.onSection?.({ document: documentName, section: section.title, index: i, total: targets.length });
+
+    const request = buildSectionRequest(
+      prompt,
+      {
+        ...compiled.variables,
+        answers: options.answers || {},
+        document: documentName,
+        section: { id: section.id, title: section.title, content: section.content },
+        contextBlock,
+      },
+      options
+    );
+    const response = await registry.completeWithAlias(resolvePromptModel(prompt, options.model), request);
+    section.content = response.content.trim();
+    section.aiGenerated = true;
+  }
+
+  return engine.render(compiled);
+}
+
+/**
+ * Translate a generated document into a locale section by section.
+ * Code blocks are never sent to the model, and a section whose headings,
+ * table rows or checklist items do not survive translation is kept as is.
+ */
+export async function translateDocumentWithModel(
+  document: GeneratedDocument,
+  locale: string | undefined,
+  options: AiGenerationOptions
+): Promise<GeneratedDocument> {
+  const target = resolveLocale(locale);
+  if ((document.locale || DEFAULT_LOCALE) === target) return document;
+
+  const registry = options.registry || new ModelRegistry();
+  const { preamble, sections } = splitSections(document.content);
+  const parts = [preamble.trimEnd(), ...sections.map(s => s.content.trimEnd())];
+  const titles = ['Preamble', ...sections.map(s => s.title)];
+
+  const translated: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    options.onSection?.({ document: document.name, section: titles[i], index: i, total: parts.length });
+    translated.push(parts[i].trim() ? await translateMarkdown(parts[i], document.name, target, registry, options) : parts[i]);
+  }
+
+  return { ...document, content: translated.join('\n\n') + '\n', locale: target };
+}
+
+/**
+ * Translate every document not already in the locale
+ */
+export async function translateDocumentsWithModel(
+  documents: GeneratedDocument[],
+  locale: string | undefined,
+  options: AiGenerationOptions
+): Promise<GeneratedDocument[]> {
+  const registry = options.registry || new ModelRegistry();
+  const translated: GeneratedDocument[] = [];
+
+  for (const document of documents) {
+    translated.push(await translateDocumentWithModel(document, locale, { ...options, registry }));
+  }
+
+  return translated;
+}
+
+async function translateMarkdown(
+  markdown: string,
+  document: string,
+  locale: Locale,
+  registry: ModelRegistry,
+  options: AiGenerationOptions
+): Promise<string> {
+  const blocks: string[] = [];
+  const protectedText = markdown.replace(/^```[^\n]*\n[\s\S]*?^```[ \t]*$/gm, block => `⟦CODE-${blocks.push(block)}⟧`);
+
+  const prompt = DEFAULT_TRANSLATION_PROMPT;
+  const request = buildSectionRequest(
+    prompt,
+    { document, language: LANGUAGE_NAMES[locale], section: { content: protectedText } },
+    options
+  );
+  const response = await registry.completeWithAlias(resolvePromptModel(prompt, options.model), request);
+  const translated = response.content.trim().replace(/⟦CODE-(\d+)⟧/g, (token, n) => blocks[Number(n) - 1] ?? token);
+
+  if (markdownShape(translated) !== markdownShape(markdown)) {
+    const heading = markdown.match(/^#{1,6}\s+(.+)$/m)?.[1] ?? 'preamble';
+    options.onWarning?.(`${document}: kept "${heading}" untranslated because the translation changed its structure`);
+    return markdown;
+  }
+
+  return translated;
+}
+
+/**
+ * Structural fingerprint of markdown: heading levels, table column counts,
+ * checklist items and code blocks, in order
+ */
+export function markdownShape(markdown: string): string {
+  const shape: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) {
+      if (!inFence) shape.push('code');
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = trimmed.match(/^(#{1,6})\s/);
+    if (heading) shape.push(`h${heading[1].length}`);
+    else if (trimmed.startsWith('|')) shape.push(`t${trimmed.split('|').length}`);
+    else if (/^[-*]\s+\[[ xX]\]/.test(trimmed)) shape.push('check');
+  }
+
+  return shape.join(',');
+}
+
+function collectInlinePrompts(sections: TemplateSection[], into = new Map<string, string>()): Map<string, string> {
+  for (const section of sections) {
+    if (section.prompt) into.set(section.id, section.prompt);
+    if (section.sections) collectInlinePrompts(section.sections, into);
+  }
+  return into;
+}
+
+function flattenSections(sections: CompiledSection[]): CompiledSection[] {
+  return sections.flatMap(s => [s, ...flattenSections(s.sections || [])]);
+}
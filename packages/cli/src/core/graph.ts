@@ -0,0 +1,288 @@
+/**
+ * Document Dependency Graph
+ * Orders core templates by the "Related Docs" metadata in their headers and
+ * summarises upstream documents for the documents generated after them
+ */
+
+import { splitSections } from './sections.js';
+
+/**
+ * Directional links declared on a template's "Related Docs" line, e.g.
+ * "Consumes 01_prd.md, 06_architecture.md; feeds 04_process_task_list.md"
+ */
+export interface RelatedDocs {
+  /** Templates this one is written from ("Consumes", "Uses", "Depends on") */
+  dependsOn: string[];
+  /** Templates written from this one ("Feeds", "Gates") */
+  feeds: string[];
+  /** Listed without a direction; informational only */
+  related: string[];
+}
+
+export interface DocumentNode {
+  /** Template filename, e.g. '01_prd.md' */
+  template: string;
+  /** Document title from the template's H1 */
+  title: string;
+  /** Direct upstream templates */
+  dependsOn: string[];
+  /** Direct downstream templates */
+  feeds: string[];
+  related: string[];
+}
+
+export interface DocumentGraph {
+  nodes: Record<string, DocumentNode>;
+  /** Every template, upstream before downstream */
+  order: string[];
+  /** References to templates that do not exist, by declaring template */
+  unresolved: Record<string, string[]>;
+}
+
+/**
+ * Summary of a generated document handed to the documents that consume it
+ */
+export interface UpstreamSummary {
+  template: string;
+  name: string;
+  /** Generated filename, for links between documents */
+  filename: string;
+  /** Opening summary of the document */
+  summary: string;
+  /** "Section: first line" for each top-level section */
+  highlights: string[];
+}
+
+const UPSTREAM_KEYWORDS = ['consumes', 'uses', 'depends on'];
+const DOWNSTREAM_KEYWORDS = ['feeds', 'gates'];
+
+const MAX_SUMMARY_LENGTH = 400;
+const MAX_HIGHLIGHT_LENGTH = 160;
+const MAX_HIGHLIGHTS = 12;
+
+/**
+ * Parse the "Related Docs" metadata line of a template
+ */
+export function parseRelatedDocs(source: string): RelatedDocs {
+  const related: RelatedDocs = { dependsOn: [], feeds: [], related: [] };
+  const line = source.match(/^-\s*Related Docs:\s*(.+)$/m)?.[1];
+  if (!line) return related;
+
+  let target: keyof RelatedDocs = 'related';
+  const tokens = /\b(consumes|uses|depends on|feeds|gates)\b|\b(\d{2}_[a-z_]+)(?:\.md)?/gi;
+
+  for (const [, keyword, template] of line.matchAll(tokens)) {
+    if (keyword) {
+      const word = keyword.toLowerCase();
+      if (UPSTREAM_KEYWORDS.includes(word)) target = 'dependsOn';
+      else if (DOWNSTREAM_KEYWORDS.includes(word)) target = 'feeds';
+      continue;
+    }
+    const filename = `${template.toLowerCase()}.md`;
+    if (!related[target].includes(filename)) related[target].push(filename);
+  }
+
+  return related;
+}
+
+/**
+ * Build the dependency DAG from template sources keyed by filename.
+ * An edge exists when either end declares it ("Consumes" on one side or "Feeds" on the other).
+ */
+export function buildDocumentGraph(sources: Record<string, string>): DocumentGraph {
+  const nodes: Record<string, DocumentNode> = {};
+  const unresolved: Record<string, string[]> = {};
+  const templates = Object.keys(sources).sort();
+
+  for (const template of templates) {
+    const title = sources[template].match(/^#\s+(.+)$/m)?.[1] ?? template;
+    nodes[template] = {
+      template,
+      title: title.replace(/[^\p{L}\p{N}\s&/()'.,:-]/gu, '').trim(),
+      dependsOn: [],
+      feeds: [],
+      related: [],
+    };
+  }
+
+  const link = (upstream: string, downstream: string) => {
+    if (!nodes[upstream].feeds.includes(downstream)) nodes[upstream].feeds.push(downstream);
+    if (!nodes[downstream].dependsOn.includes(upstream)) nodes[downstream].dependsOn.push(upstream);
+  };
+
+  for (const template of templates) {
+    const declared = parseRelatedDocs(sources[template]);
+    const missing = [...declared.dependsOn, ...declared.feeds, ...declared.related].filter(t => !nodes[t]);
+    if (missing.length > 0) unresolved[template] = missing;
+
+    for (const upstream of declared.dependsOn) if (nodes[upstream]) link(upstream, template);
+    for (const downstream of declared.feeds) if (nodes[downstream]) link(template, downstream);
+    nodes[template].related = declared.related.filter(t => nodes[t]);
+  }
+
+  for (const node of Object.values(nodes)) {
+    node.dependsOn.sort();
+    node.feeds.sort();
+  }
+
+  return { nodes, order: topologicalOrder(nodes), unresolved };
+}
+
+/**
+ * Kahn's algorithm, taking the lowest-numbered ready template first so the
+ * order is deterministic and stays close to template numbering
+ */
+function topologicalOrder(nodes: Record<string, DocumentNode>): string[] {
+  const remaining = new Map(Object.values(nodes).map(n => [n.template, n.dependsOn.length]));
+  const order: string[] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter(([, count]) => count === 0).map(([t]) => t).sort();
+    if (ready.length === 0) {
+      throw new Error(`Document dependency cycle between: ${[...remaining.keys()].sort().join(', ')}`);
+    }
+
+    const next = ready[0];
+    remaining.delete(next);
+    order.push(next);
+    for (const downstream of nodes[next].feeds) {
+      remaining.set(downstream, (remaining.get(downstream) ?? 1) - 1);
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Sort templates upstream-first. Templates outside the graph (e.g. pack
+ * templates) keep their relative order after the core documents.
+ */
+export function orderTemplates<T extends { filename: string; pack?: string }>(graph: DocumentGraph, templates: T[]): T[] {
+  const rank = (t: T) => (t.pack ? -1 : graph.order.indexOf(t.filename));
+  const inGraph = templates.filter(t => rank(t) !== -1).sort((a, b) => rank(a) - rank(b));
+  return [...inGraph, ...templates.filter(t => rank(t) === -1)];
+}
+
+/**
+ * Nearest upstream templates within a selection. When a direct dependency is
+ * not selected, its own upstream templates stand in for it.
+ */
+export function upstreamOf(graph: DocumentGraph, template: string, selected: Set<string>): string[] {
+  const found = new Set<string>();
+  const visited = new Set<string>();
+
+  const walk = (current: string) => {
+    for (const upstream of graph.nodes[current]?.dependsOn ?? []) {
+      if (visited.has(upstream)) continue;
+      visited.add(upstream);
+      if (selected.has(upstream)) found.add(upstream);
+      else walk(upstream);
+    }
+  };
+
+  walk(template);
+  return graph.order.filter(t => found.has(t));
+}
+
+/**
+ * Render the graph (or the part of it a scope selects) as a Mermaid flowchart
+ */
+export function renderMermaid(
+  graph: DocumentGraph,
+  options: { templates?: string[]; direction?: 'TD' | 'LR' } = {}
+): string {
+  const selected = new Set(options.templates ?? graph.order);
+  const included = graph.order.filter(t => selected.has(t));
+  const nodeId = (template: string) => `doc${template.replace(/\.md$/, '')}`;
+  const lines = [`flowchart ${options.direction ?? 'TD'}`];
+
+  for (const template of included) {
+    const label = `${template.slice(0, 2)} ${graph.nodes[template].title}`.replace(/"/g, '#quot;');
+    lines.push(`  ${nodeId(template)}["${label}"]`);
+  }
+  for (const template of included) {
+    for (const upstream of upstreamOf(graph, template, selected)) {
+      lines.push(`  ${nodeId(upstream)} --> ${nodeId(template)}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function plainText(text: string): string {
+  return text
+    .replace(/^>\s?/gm, '')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+function isPlaceholderLine(text: string): boolean {
+  return /_\[[^\]]*\]_|_\{[^}]*\}_|^\[[^\]]*\]$/.test(text) || text.length === 0;
+}
+
+/**
+ * First line of a section body that carries content: not a heading, table,
+ * code block, example, bare label or unfilled placeholder
+ */
+function firstSubstantiveLine(content: string): string | undefined {
+  let inFence = false;
+
+  for (const raw of content.split('\n').slice(1)) {
+    const line = raw.trim();
+    if (line.startsWith('```')) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || /^(#|\||---|<|>)/.test(line) || /:\**$/.test(line) || /^\*\*Example/i.test(line)) continue;
+
+    const text = line.replace(/^[-*]\s+(\[.\]\s+)?/, '');
+    if (!isPlaceholderLine(text)) return text;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extractive summary of a generated document: its opening blurb plus the
+ * first substantive line of each top-level section
+ */
+export function summarizeDocument(doc: { name: string; filename: string; content: string; template?: string }): UpstreamSummary {
+  const { preamble, sections } = splitSections(doc.content);
+
+  // Skip bold label lines such as "> **🎯 Executive Summary**"
+  const quote = preamble.split('\n').filter(l => l.startsWith('>') && !/^>\s*\*\*[^*]+\*\*\s*$/.test(l)).join('\n');
+  const summary = truncate(plainText(quote || preamble.split('\n').filter(l => !/^#|^\*\*Metadata|^-/.test(l)).join(' ')), MAX_SUMMARY_LENGTH);
+
+  const highlights: string[] = [];
+  for (const section of sections) {
+    if (highlights.length >= MAX_HIGHLIGHTS) break;
+
+    const title = plainText(section.title).replace(/^[^\p{L}\p{N}]+/u, '');
+    const line = firstSubstantiveLine(section.content);
+
+    highlights.push(line ? `${title}: ${truncate(plainText(line), MAX_HIGHLIGHT_LENGTH)}` : title);
+  }
+
+  return {
+    template: doc.template ?? doc.filename,
+    name: doc.name,
+    filename: doc.filename,
+    summary,
+    highlights,
+  };
+}
+
+/**
+ * Render upstream summaries as a context block for model prompts
+ */
+export function describeUpstream(upstream: UpstreamSummary[] = []): string {
+  return upstream
+    .map(u => [`### ${u.name} (${u.filename})`, u.summary, ...u.highlights.map(h => `- ${h}`)].filter(Boolean).join('\n'))
+    .join('\n\n');
+}
@@ -7,18 +7,108 @@ import Handlebars from 'handlebars';
 import { readFileSync, readdirSync, existsSync, mkdirSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import {
+  hashContent,
+  mergeDocuments,
+  readManifest,
+  writeManifest,
+  type MergeResult,
+} from './merge.js';
+import {
+  loadScopeProfiles,
+  resolveScope,
+  type BuiltinScope,
+  type ResolvedScope,
+  type ScopeName,
+  type ScopeProfiles,
+} from './scopes.js';
+import {
+  buildDocumentGraph,
+  orderTemplates,
+  summarizeDocument,
+  upstreamOf,
+  type DocumentGraph,
+  type UpstreamSummary,
+} from './graph.js';
+import {
+  DEFAULT_LOCALE,
+  indexStrings,
+  localizeCategory,
+  localizedTemplatePath,
+  resolveLocale,
+  type Locale,
+} from './locales.js';
+import { TemplateEngine } from '../enterprise/templates/engine.js';
+import { TemplateLoader } from '../enterprise/templates/loader.js';
+import type { CustomTemplate } from '../enterprise/templates/types.js';
+
+export {
+  loadScopeProfiles,
+  listScopeNames,
+  PROJECT_CONFIG_PATH,
+  type BuiltinScope,
+  type PackTemplateRef,
+  type ResolvedScope,
+  type ScopeName,
+  type ScopeProfile,
+  type ScopeProfiles,
+  type ScopeSource,
+} from './scopes.js';
+
+export {
+  buildDocumentGraph,
+  orderTemplates,
+  parseRelatedDocs,
+  renderMermaid,
+  summarizeDocument,
+  upstreamOf,
+  describeUpstream,
+  type DocumentGraph,
+  type DocumentNode,
+  type RelatedDocs,
+  type UpstreamSummary,
+} from './graph.js';
+
+export {
+  LOCALES,
+  DEFAULT_LOCALE,
+  LANGUAGE_NAMES,
+  resolveLocale,
+  localizeCategory,
+  type Locale,
+} from './locales.js';
 
 // Types
 export interface TemplateContext {
   projectName: string;
   projectDescription: string;
-  scope: 'mvp' | 'standard' | 'comprehensive';
+  scope: ScopeName;
   audience: 'startup' | 'business' | 'enterprise';
   projectType?: string;
   techStack?: string[];
   features?: string[];
   timeline?: string;
   team?: string;
+  deploymentTarget?: string;
+  monetization?: string;
+  competitors?: string[];
+  mvpFeatures?: string[];
+  complianceTypes?: string[];
+  // Conditional flags - derived from the fields above when not set
+  isSaaS?: boolean;
+  isMobile?: boolean;
+  isAPI?: boolean;
+  isEnterprise?: boolean;
+  isStartup?: boolean;
+  hasPayments?: boolean;
+  hasCompetitors?: boolean;
+  needsCompliance?: boolean;
+  /** Output language, e.g. 'de' or 'fr' (default 'en') */
+  locale?: string;
+  /** Summaries of already-generated documents this one is derived from */
+  upstream?: UpstreamSummary[];
+  /** Values the interview assumed rather than asked, listed as open questions in the PRD and brief */
+  assumptions?: Array<{ field: string; value: string; source: string; confidence: number; question: string }>;
   [key: string]: unknown;
 }
 
@@ -27,6 +117,23 @@ export interface GeneratedDocument {
   filename: string;
   content: string;
   category: string;
+  /** Template filename the document was rendered from */
+  template?: string;
+  /** Hash of the template source, recorded in the generation manifest */
+  templateVersion?: string;
+  /** Language the content is written in */
+  locale?: Locale;
+}
+
+export interface WriteDocumentsOptions {
+  /** Merge with hand edits on disk instead of overwriting */
+  merge?: boolean;
+  /** Context the documents were generated from, recorded in the manifest */
+  context?: TemplateContext;
+  /** Receives the outcome for each document in merge mode */
+  onMerge?: (result: MergeResult) => void;
+  /** Language of the index page (default: the context's locale) */
+  locale?: string;
 }
 
 export interface TemplateInfo {
@@ -35,6 +142,10 @@ export interface TemplateInfo {
   filename: string;
   category: string;
   description: string;
+  /** Marketplace pack the template comes from; core templates have none */
+  pack?: string;
+  /** Path to a pack template's YAML definition */
+  path?: string;
 }
 
 // Template categories
@@ -46,8 +157,8 @@ const TEMPLATE_CATEGORIES: Record<string, string[]> = {
   'Quality Assurance': ['17_test_plan.md', '12_qa_gate.md', '18_release_plan.md', '21_postmortem.md', '22_playtest_usability.md']
 };
 
-// Scope mappings
-const SCOPE_TEMPLATES: Record<string, string[]> = {
+// Built-in scopes - extend or override them with scope profiles (see ./scopes.ts)
+export const BUILTIN_SCOPES: Record<BuiltinScope, string[]> = {
   mvp: ['01_prd.md', '03_generate_tasks.md', '14_project_brief.md', '15_brainstorming.md'],
   standard: [
     '01_prd.md', '02_adr.md', '03_generate_tasks.md', '06_architecture.md',
@@ -57,6 +168,38 @@ const SCOPE_TEMPLATES: Record<string, string[]> = {
   comprehensive: Object.values(TEMPLATE_CATEGORIES).flat()
 };
 
+// Helpers available to every core template
+Handlebars.registerHelper('join', (items: unknown, separator?: unknown) =>
+  Array.isArray(items) ? items.join(typeof separator === 'string' ? separator : ', ') : ''
+);
+Handlebars.registerHelper('or', (...args: unknown[]) =>
+  args.slice(0, -1).find(value => value !== undefined && value !== null && value !== '') ?? ''
+);
+Handlebars.registerHelper('inc', (value: unknown) => Number(value) + 1);
+
+/**
+ * Fill in the conditional flags templates branch on, deriving each from
+ * the project type, audience and answers when the caller has not set it
+ */
+export function resolveTemplateContext(context: TemplateContext): TemplateContext {
+  const complianceTypes = context.complianceTypes || [];
+  const competitors = context.competitors || [];
+
+  return {
+    ...context,
+    complianceTypes,
+    competitors,
+    isSaaS: context.isSaaS ?? context.projectType === 'saas-web',
+    isMobile: context.isMobile ?? context.projectType === 'mobile-app',
+    isAPI: context.isAPI ?? context.projectType === 'api-backend',
+    isEnterprise: context.isEnterprise ?? context.audience === 'enterprise',
+    isStartup: context.isStartup ?? context.audience === 'startup',
+    hasPayments: context.hasPayments ?? (context.features || []).includes('payments'),
+    hasCompetitors: context.hasCompetitors ?? competitors.length > 0,
+    needsCompliance: context.needsCompliance ?? complianceTypes.length > 0,
+  };
+}
+
 /**
  * Get the templates directory path
  */
@@ -105,36 +248,106 @@ export function listTemplates(): TemplateInfo[] {
 }
 
 /**
- * Get templates for a specific scope
+ * Resolve a built-in scope or scope profile to the templates it selects
+ */
+export function resolveTemplateScope(
+  scope: ScopeName,
+  profiles: ScopeProfiles = loadScopeProfiles()
+): ResolvedScope {
+  return resolveScope(scope, {
+    builtins: BUILTIN_SCOPES,
+    coreTemplates: listTemplates().map(t => t.filename),
+    profiles,
+  });
+}
+
+/**
+ * Get templates for a built-in scope or scope profile, including pack templates
+ */
+export function getTemplatesForScope(
+  scope: ScopeName,
+  profiles: ScopeProfiles = loadScopeProfiles()
+): TemplateInfo[] {
+  const resolved = resolveTemplateScope(scope, profiles);
+  const core = listTemplates().filter(t => resolved.templates.includes(t.filename));
+  const loader = new TemplateLoader();
+
+  const packs = resolved.packTemplates.map(ref => {
+    const { meta } = loader.loadFile(ref.path);
+    return {
+      id: `${ref.packId}/${ref.templateId}`,
+      name: meta.name,
+      filename: `${ref.templateId}.md`,
+      category: meta.category,
+      description: meta.description,
+      pack: ref.packId,
+      path: ref.path,
+    };
+  });
+
+  return [...core, ...packs];
+}
+
+/**
+ * Dependency graph of the core templates, built from their "Related Docs" metadata
  */
-export function getTemplatesForScope(scope: 'mvp' | 'standard' | 'comprehensive'): TemplateInfo[] {
-  const scopeTemplates = SCOPE_TEMPLATES[scope];
-  return listTemplates().filter(t => scopeTemplates.includes(t.filename));
+export function getDocumentGraph(): DocumentGraph {
+  const sources = Object.fromEntries(listTemplates().map(t => [t.filename, readTemplateSource(t.filename)]));
+  return buildDocumentGraph(sources);
 }
 
 /**
- * Read and compile a template
+ * Read and compile a template, using its localized variant when one exists
  */
-export function compileTemplate(templateName: string): HandlebarsTemplateDelegate {
+export function compileTemplate(templateName: string, locale: Locale = DEFAULT_LOCALE): HandlebarsTemplateDelegate {
+  return compileTemplateSource(readTemplateSource(templateName, locale));
+}
+
+function readTemplateSource(templateName: string, locale: Locale = DEFAULT_LOCALE): string {
   const templatesDir = getTemplatesDir();
-  const templatePath = join(templatesDir, templateName.endsWith('.md') ? templateName : `${templateName}.md`);
+  const filename = templateName.endsWith('.md') ? templateName : `${templateName}.md`;
+  const templatePath = localizedTemplatePath(templatesDir, filename, locale) || join(templatesDir, filename);
 
   if (!existsSync(templatePath)) {
     throw new Error(`Template not found: ${templateName}`);
   }
 
-  const templateContent = readFileSync(templatePath, 'utf-8');
-  const withDate = templateContent.replace(/\{\{DATE\}\}/g, new Date().toISOString().split('T')[0]);
+  return readFileSync(templatePath, 'utf-8');
+}
 
-  return Handlebars.compile(withDate);
+/**
+ * Locale a template renders in: the requested one when a localized variant exists, otherwise English
+ */
+export function getTemplateLocale(templateName: string, locale: Locale): Locale {
+  const filename = templateName.endsWith('.md') ? templateName : `${templateName}.md`;
+  return localizedTemplatePath(getTemplatesDir(), filename, locale) ? locale : DEFAULT_LOCALE;
+}
+
+/**
+ * Hash of a template's source, used to tell which template revision produced a document
+ */
+export function getTemplateVersion(templateName: string, locale: Locale = DEFAULT_LOCALE): string {
+  return hashContent(readTemplateSource(templateName, locale));
+}
+
+/**
+ * Compile raw template markdown with the core helpers and derived flags
+ */
+export function compileTemplateSource(source: string): HandlebarsTemplateDelegate {
+  const withDate = source.replace(/\{\{DATE\}\}/g, new Date().toISOString().split('T')[0]);
+
+  // Output is markdown, not HTML - never escape interpolated values
+  const template = Handlebars.compile(withDate, { noEscape: true });
+  return (context, options) => template(resolveTemplateContext(context), options);
 }
 
 /**
  * Generate a single document from a template
  */
 export function generateDocument(templateName: string, context: TemplateContext): GeneratedDocument {
-  const template = compileTemplate(templateName);
-  const content = template(context);
+  const locale = resolveLocale(context.locale);
+  const source = readTemplateSource(templateName, locale);
+  const content = compileTemplateSource(source)(context);
 
   const info = listTemplates().find(t => t.filename === templateName || t.id === templateName);
 
@@ -142,41 +355,129 @@ export function generateDocument(templateName: string, context: TemplateContext)
     name: info?.name || templateName,
     filename: `${context.projectName.toLowerCase().replace(/\s+/g, '-')}-${templateName}`,
     content,
-    category: info?.category || 'Other'
+    category: info?.category || 'Other',
+    template: info?.filename || templateName,
+    templateVersion: hashContent(source),
+    locale: getTemplateLocale(templateName, locale),
   };
 }
 
 /**
- * Generate all documents for a scope
+ * Load the YAML definition behind a pack template
+ */
+export function loadPackTemplate(template: TemplateInfo): CustomTemplate {
+  if (!template.path) {
+    throw new Error(`Not a pack template: ${template.id}`);
+  }
+  return new TemplateLoader().loadFile(template.path);
+}
+
+/**
+ * Variables for a pack template: the project context, with the project name
+ * standing in for company/product names and placeholders for other required values
+ */
+export function packTemplateVariables(template: CustomTemplate, context: TemplateContext): Record<string, unknown> {
+  const variables: Record<string, unknown> = {
+    companyName: context.projectName,
+    productName: context.projectName,
+    ...resolveTemplateContext(context),
+  };
+
+  for (const variable of template.variables) {
+    if (variables[variable.name] === undefined && variable.default === undefined && variable.required) {
+      variables[variable.name] = `_[${variable.label}]_`;
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Generate a document from an installed marketplace pack template
+ */
+export function generatePackDocument(template: TemplateInfo, context: TemplateContext): GeneratedDocument {
+  const source = readFileSync(template.path!, 'utf-8');
+  const custom = loadPackTemplate(template);
+  const content = new TemplateEngine().process(custom, { variables: packTemplateVariables(custom, context) });
+
+  return {
+    name: template.name,
+    filename: `${context.projectName.toLowerCase().replace(/\s+/g, '-')}-${template.filename}`,
+    content,
+    category: template.category,
+    template: template.id,
+    templateVersion: hashContent(source),
+    locale: DEFAULT_LOCALE,
+  };
+}
+
+/**
+ * Generate all documents for a scope. Upstream documents are generated first
+ * and each document receives summaries of the ones it is derived from as
+ * `upstream`; documents are returned in template order.
  */
 export function generateAllDocuments(context: TemplateContext): GeneratedDocument[] {
   const templates = getTemplatesForScope(context.scope);
-  return templates.map(t => generateDocument(t.filename, context));
+  const graph = getDocumentGraph();
+  const selected = new Set(templates.map(t => t.filename));
+  const summaries = new Map<string, UpstreamSummary>();
+  const generated = new Map<string, GeneratedDocument>();
+
+  for (const t of orderTemplates(graph, templates)) {
+    if (t.pack) {
+      generated.set(t.id, generatePackDocument(t, context));
+      continue;
+    }
+
+    const upstream = upstreamOf(graph, t.filename, selected).flatMap(u => summaries.get(u) ?? []);
+    const doc = generateDocument(t.filename, { ...context, upstream });
+    summaries.set(t.filename, summarizeDocument(doc));
+    generated.set(t.id, doc);
+  }
+
+  return templates.map(t => generated.get(t.id)!);
 }
 
 /**
- * Write generated documents to disk
+ * Write generated documents to disk and record a generation manifest.
+ * In merge mode, sections edited by hand since the last run are preserved.
  */
-export function writeDocuments(documents: GeneratedDocument[], outputDir: string): string[] {
+export function writeDocuments(
+  documents: GeneratedDocument[],
+  outputDir: string,
+  options: WriteDocumentsOptions = {}
+): string[] {
   if (!existsSync(outputDir)) {
     mkdirSync(outputDir, { recursive: true });
   }
 
+  const previous = readManifest(outputDir);
   const writtenFiles: string[] = [];
 
-  for (const doc of documents) {
-    const filePath = join(outputDir, doc.filename);
-    writeFileSync(filePath, doc.content);
-    writtenFiles.push(filePath);
+  if (options.merge) {
+    for (const result of mergeDocuments(documents, outputDir)) {
+      options.onMerge?.(result);
+      writtenFiles.push(join(outputDir, result.filename));
+    }
+  } else {
+    for (const doc of documents) {
+      const filePath = join(outputDir, doc.filename);
+      writeFileSync(filePath, doc.content);
+      writtenFiles.push(filePath);
+    }
   }
 
-  const indexContent = `# ${documents[0]?.filename.split('-')[0] || 'Project'} Documentation
+  writeManifest(outputDir, documents, options.context, previous);
+
+  const locale = resolveLocale(options.locale ?? options.context?.locale);
+  const strings = indexStrings(locale);
+  const indexContent = `# ${documents[0]?.filename.split('-')[0] || 'Project'} ${strings.title}
 
-Generated: ${new Date().toISOString()}
+${strings.generated}: ${new Date().toISOString()}
 
-## Documents
+## ${strings.documents}
 
-${documents.map(d => `- [${d.name}](./${d.filename}) - ${d.category}`).join('\n')}
+${documents.map(d => `- [${d.name}](./${d.filename}) - ${localizeCategory(d.category, locale)}`).join('\n')}
 `;
 
   const indexPath = join(outputDir, 'index.md');
@@ -0,0 +1,99 @@
+/**
+ * Output Locales
+ * Locale selection, localized template variants and strings for generated files
+ */
+
+import { existsSync } from 'fs';
+import { join } from 'path';
+
+export const LOCALES = ['en', 'de', 'fr'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Language names as used in model prompts */
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+};
+
+export interface IndexStrings {
+  title: string;
+  generated: string;
+  documents: string;
+  categories: Record<string, string>;
+}
+
+const INDEX_STRINGS: Record<Locale, IndexStrings> = {
+  en: {
+    title: 'Documentation',
+    generated: 'Generated',
+    documents: 'Documents',
+    categories: {},
+  },
+  de: {
+    title: 'Dokumentation',
+    generated: 'Erstellt am',
+    documents: 'Dokumente',
+    categories: {
+      'Product & Strategy': 'Produkt & Strategie',
+      'Technical Architecture': 'Technische Architektur',
+      'User Experience': 'Nutzererlebnis',
+      'Development Workflow': 'Entwicklungsprozess',
+      'Quality Assurance': 'Qualitätssicherung',
+      Other: 'Sonstiges',
+    },
+  },
+  fr: {
+    title: 'Documentation',
+    generated: 'Date de génération',
+    documents: 'Documents',
+    categories: {
+      'Product & Strategy': 'Produit et stratégie',
+      'Technical Architecture': 'Architecture technique',
+      'User Experience': 'Expérience utilisateur',
+      'Development Workflow': 'Processus de développement',
+      'Quality Assurance': 'Assurance qualité',
+      Other: 'Autres',
+    },
+  },
+};
+
+/**
+ * Normalize a locale option ("de", "de-DE", "fr_CA") to a supported locale
+ */
+export function resolveLocale(locale?: string): Locale {
+  if (!locale) return DEFAULT_LOCALE;
+
+  const language = locale.toLowerCase().split(/[-_]/)[0];
+  if (!(LOCALES as readonly string[]).includes(language)) {
+    throw new Error(`Unsupported locale: ${locale}. Supported locales: ${LOCALES.join(', ')}`);
+  }
+  return language as Locale;
+}
+
+/**
+ * Path of a localized template variant, e.g. templates/core/de/01_prd.md, if one exists
+ */
+export function localizedTemplatePath(templatesDir: string, filename: string, locale: Locale): string | undefined {
+  if (locale === DEFAULT_LOCALE) return undefined;
+
+  const path = join(templatesDir, locale, filename);
+  return existsSync(path) ? path : undefined;
+}
+
+/**
+ * Strings for the generated index.md
+ */
+export function indexStrings(locale: Locale): IndexStrings {
+  return INDEX_STRINGS[locale];
+}
+
+/**
+ * Category name in the given locale
+ */
+export function localizeCategory(category: string, locale: Locale): string {
+  return INDEX_STRINGS[locale].categories[category] || category;
+}
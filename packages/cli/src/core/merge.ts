@@ -0,0 +1,352 @@
+/**
+ * Incremental Regeneration
+ * Generation manifest and section-level three-way merge that preserves human edits
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { splitSections } from './sections.js';
+import type { GeneratedDocument, TemplateContext } from './index.js';
+
+export const MANIFEST_FILENAME = '.blueprint-manifest.json';
+export const MANIFEST_VERSION = 1;
+
+/** Pseudo-section ID for the content before the first H2 */
+const PREAMBLE_ID = '_preamble';
+
+const CONFLICT_START = '<<<<<<< edited';
+const CONFLICT_END = '>>>>>>> generated';
+
+export interface ManifestSection {
+  id: string;
+  title: string;
+  /** Hash of the section exactly as it was generated */
+  hash: string;
+}
+
+export interface ManifestDocument {
+  /** Template the document was rendered from */
+  template?: string;
+  /** Hash of the template source at generation time */
+  templateVersion?: string;
+  /** Hash of the whole generated file */
+  hash: string;
+  sections: ManifestSection[];
+}
+
+export interface GenerationManifest {
+  version: number;
+  generatedAt: string;
+  /** Hash of the template context used for the run */
+  contextHash?: string;
+  documents: Record<string, ManifestDocument>;
+}
+
+export type MergeStatus = 'created' | 'updated' | 'unchanged' | 'merged' | 'conflict';
+
+export interface MergeResult {
+  filename: string;
+  status: MergeStatus;
+  /** Sections kept as the human edited them */
+  preserved: string[];
+  /** Sections edited by a human and changed by the generator */
+  conflicts: string[];
+}
+
+export interface MergeOutput {
+  content: string;
+  preserved: string[];
+  conflicts: string[];
+}
+
+interface KeyedSection {
+  key: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * Short, stable content hash
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Hash a template context independent of key order
+ */
+export function hashContext(context: TemplateContext): string {
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value as Record<string, unknown>)
+          .sort()
+          .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  return hashContent(JSON.stringify(sortKeys(context)));
+}
+
+/**
+ * Split a document into sections keyed by heading slug, numbering duplicates
+ */
+function keyedSections(content: string): KeyedSection[] {
+  const { preamble, sections } = splitSections(content);
+  const seen = new Map<string, number>();
+  const keyed: KeyedSection[] = [];
+
+  if (preamble.trim()) {
+    keyed.push({ key: PREAMBLE_ID, title: '(preamble)', content: preamble });
+  }
+
+  for (const section of sections) {
+    const count = (seen.get(section.id) || 0) + 1;
+    seen.set(section.id, count);
+    keyed.push({
+      key: count === 1 ? section.id : `${section.id}-${count}`,
+      title: section.title,
+      content: section.content,
+    });
+  }
+
+  return keyed;
+}
+
+function sectionHash(content: string): string {
+  // Editors commonly touch trailing whitespace - don't count that as an edit
+  return hashContent(content.trimEnd());
+}
+
+function joinSections(sections: KeyedSection[]): string {
+  return sections.map(s => s.content).join('\n');
+}
+
+/**
+ * Heading line and body of a section; the preamble has no heading
+ */
+function splitHeading(content: string): { heading?: string; body: string } {
+  if (!content.startsWith('## ')) return { body: content };
+  const end = content.indexOf('\n');
+  return end === -1
+    ? { heading: content, body: '' }
+    : { heading: content.slice(0, end), body: content.slice(end + 1) };
+}
+
+/**
+ * Markers around the two section bodies. The heading stays outside them so
+ * the section is still found under its own key on the next run.
+ */
+function conflictBlock(ours: string, theirs: string): string {
+  const { heading, body } = splitHeading(theirs);
+  return [
+    ...(heading ? [heading, ''] : []),
+    CONFLICT_START,
+    splitHeading(ours).body.trim(),
+    '=======',
+    body.trim(),
+    CONFLICT_END,
+    '',
+  ].join('\n');
+}
+
+function hasConflictMarkers(content: string): boolean {
+  return content.split('\n').some(line => line.startsWith('<<<<<<<') || line.startsWith('>>>>>>>'));
+}
+
+/**
+ * The edited side of a conflict block written by an earlier run
+ */
+function editedSide(content: string): string | undefined {
+  const lines = content.split('\n');
+  const start = lines.indexOf(CONFLICT_START);
+  const end = lines.indexOf('=======', start);
+  return start === -1 || end === -1 ? undefined : lines.slice(start + 1, end).join('\n');
+}
+
+/**
+ * Build the manifest entry for a freshly generated document
+ */
+export function createManifestEntry(doc: GeneratedDocument): ManifestDocument {
+  return {
+    template: doc.template,
+    templateVersion: doc.templateVersion,
+    hash: hashContent(doc.content),
+    sections: keyedSections(doc.content).map(s => ({
+      id: s.key,
+      title: s.title,
+      hash: sectionHash(s.content),
+    })),
+  };
+}
+
+/**
+ * Three-way merge of one document.
+ *
+ * - base: section hashes recorded when the file was last generated
+ * - ours: the file on disk, possibly edited by hand
+ * - theirs: the newly generated content
+ *
+ * Untouched sections take the new content, edited sections the generator
+ * did not change are kept, and sections changed on both sides get markers.
+ * Without a base, any section that differs is treated as a conflict, and a
+ * section still holding markers from an earlier run stays one.
+ */
+export function mergeDocument(
+  base: ManifestDocument | undefined,
+  ours: string,
+  theirs: string
+): MergeOutput {
+  const baseHashes = new Map((base?.sections || []).map(s => [s.id, s.hash]));
+  const oursSections = keyedSections(ours);
+  const theirsSections = keyedSections(theirs);
+  const oursByKey = new Map(oursSections.map(s => [s.key, s]));
+  const theirsKeys = new Set(theirsSections.map(s => s.key));
+
+  const preserved: string[] = [];
+  const conflicts: string[] = [];
+  const merged: KeyedSection[] = [];
+
+  for (const next of theirsSections) {
+    const current = oursByKey.get(next.key);
+    const baseHash = baseHashes.get(next.key);
+
+    if (!current) {
+      // Deleted by hand after the last run - respect the deletion
+      if (baseHash !== undefined) continue;
+      merged.push(next);
+      continue;
+    }
+
+    if (hasConflictMarkers(current.content)) {
+      // Offer the new content against the edited side again, rather than nesting markers
+      const edited = editedSide(current.content);
+      merged.push({ ...next, content: edited === undefined ? current.content : conflictBlock(edited, next.content) });
+      conflicts.push(next.title);
+      continue;
+    }
+
+    const oursHash = sectionHash(current.content);
+    const theirsHash = sectionHash(next.content);
+
+    if (oursHash === theirsHash || oursHash === baseHash) {
+      merged.push(next);
+    } else if (theirsHash === baseHash) {
+      merged.push(current);
+      preserved.push(current.title);
+    } else {
+      merged.push({ ...next, content: conflictBlock(current.content, next.content) });
+      conflicts.push(next.title);
+    }
+  }
+
+  // Re-insert sections that only exist on disk, after the section they followed
+  for (let i = 0; i < oursSections.length; i++) {
+    const section = oursSections[i];
+    if (theirsKeys.has(section.key)) continue;
+
+    const baseHash = baseHashes.get(section.key);
+    // Removed from the template and never edited - let it go
+    if (baseHash !== undefined && baseHash === sectionHash(section.content)) continue;
+
+    const previous = oursSections.slice(0, i).reverse().find(s => merged.some(m => m.key === s.key));
+    const at = previous ? merged.findIndex(m => m.key === previous.key) + 1 : 0;
+    merged.splice(at, 0, section);
+    preserved.push(section.title);
+  }
+
+  return { content: joinSections(merged), preserved, conflicts };
+}
+
+/**
+ * Read the generation manifest from an output directory
+ */
+export function readManifest(outputDir: string): GenerationManifest | null {
+  const manifestPath = join(outputDir, MANIFEST_FILENAME);
+  if (!existsSync(manifestPath)) return null;
+
+  try {
+    const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as GenerationManifest;
+    return manifest.version === MANIFEST_VERSION ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write the generation manifest for the documents just written
+ */
+export function writeManifest(
+  outputDir: string,
+  documents: GeneratedDocument[],
+  context?: TemplateContext,
+  previous?: GenerationManifest | null
+): GenerationManifest {
+  const manifest: GenerationManifest = {
+    version: MANIFEST_VERSION,
+    generatedAt: new Date().toISOString(),
+    contextHash: context ? hashContext(context) : previous?.contextHash,
+    documents: { ...(previous?.documents || {}) },
+  };
+
+  for (const doc of documents) {
+    manifest.documents[doc.filename] = createManifestEntry(doc);
+  }
+
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+  writeFileSync(join(outputDir, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2) + '\n');
+
+  return manifest;
+}
+
+/**
+ * Regenerate documents in place, merging with any hand edits on disk.
+ * The manifest always records the generated content (not the merged file),
+ * so edits keep being detected on later runs.
+ */
+export function mergeDocuments(
+  documents: GeneratedDocument[],
+  outputDir: string
+): MergeResult[] {
+  const manifest = readManifest(outputDir);
+  const results: MergeResult[] = [];
+
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+
+  for (const doc of documents) {
+    const filePath = join(outputDir, doc.filename);
+
+    if (!existsSync(filePath)) {
+      writeFileSync(filePath, doc.content);
+      results.push({ filename: doc.filename, status: 'created', preserved: [], conflicts: [] });
+      continue;
+    }
+
+    const current = readFileSync(filePath, 'utf-8');
+    const { content, preserved, conflicts } = mergeDocument(
+      manifest?.documents[doc.filename],
+      current,
+      doc.content
+    );
+
+    let status: MergeStatus;
+    if (conflicts.length > 0) status = 'conflict';
+    else if (preserved.length > 0) status = 'merged';
+    else if (content === current) status = 'unchanged';
+    else status = 'updated';
+
+    if (content !== current) {
+      writeFileSync(filePath, content);
+    }
+    results.push({ filename: doc.filename, status, preserved, conflicts });
+  }
+
+  return results;
+}
@@ -0,0 +1,235 @@
+/**
+ * Scope Profiles
+ * Named template selections: built-in scopes plus profiles from project and team config
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import yaml from 'js-yaml';
+import { TeamConfigManager } from '../enterprise/team/index.js';
+import type { TeamConfig } from '../enterprise/templates/types.js';
+import { PackManager } from '../marketplace/manager.js';
+
+export type BuiltinScope = 'mvp' | 'standard' | 'comprehensive';
+
+/** A built-in scope or the name of a configured profile */
+export type ScopeName = BuiltinScope | (string & {});
+
+export const PROJECT_CONFIG_PATH = join('.intent', 'config.yaml');
+
+/**
+ * A scope profile as written in `.intent/config.yaml` or `TeamConfig.defaults.scopes`
+ */
+export interface ScopeProfile {
+  description?: string;
+  /** Scope to start from (built-in or another profile) */
+  extends?: string;
+  /** Explicit template list; replaces the inherited one */
+  templates?: string[];
+  /** Templates added to the inherited list */
+  add?: string[];
+  /** Templates removed from the inherited list */
+  remove?: string[];
+  /** Installed marketplace packs whose templates are all included */
+  packs?: string[];
+}
+
+export type ScopeSource = 'builtin' | 'team' | 'project';
+
+export interface ScopeProfiles {
+  team: Record<string, ScopeProfile>;
+  project: Record<string, ScopeProfile>;
+  /** Default scope from project config, then team defaults */
+  defaultScope?: string;
+}
+
+/**
+ * A template in an installed marketplace pack
+ */
+export interface PackTemplateRef {
+  packId: string;
+  templateId: string;
+  path: string;
+}
+
+export interface ResolvedScope {
+  name: string;
+  source: ScopeSource;
+  description?: string;
+  /** Core template filenames, e.g. '02_adr.md' */
+  templates: string[];
+  packTemplates: PackTemplateRef[];
+}
+
+export interface ScopeResolverInput {
+  /** Built-in scope name -> core template filenames */
+  builtins: Record<string, string[]>;
+  /** Every core template filename */
+  coreTemplates: string[];
+  profiles: ScopeProfiles;
+  /** Templates of installed packs, loaded on first use when omitted */
+  packTemplates?: PackTemplateRef[];
+}
+
+interface ProjectConfig {
+  scope?: string;
+  scopes?: Record<string, ScopeProfile>;
+}
+
+const SOURCE_ORDER: ScopeSource[] = ['builtin', 'team', 'project'];
+
+/**
+ * Read scope profiles from `.intent/config.yaml` and the team config's defaults
+ */
+export function loadScopeProfiles(projectDir: string = process.cwd(), team?: TeamConfig | null): ScopeProfiles {
+  const teamConfig = team === undefined ? new TeamConfigManager().load() : team;
+  const project = readProjectConfig(projectDir);
+
+  return {
+    team: teamConfig?.defaults?.scopes || {},
+    project: project.scopes || {},
+    defaultScope: project.scope || teamConfig?.defaults?.scope,
+  };
+}
+
+function readProjectConfig(projectDir: string): ProjectConfig {
+  const configPath = join(projectDir, PROJECT_CONFIG_PATH);
+  if (!existsSync(configPath)) return {};
+
+  try {
+    return (yaml.load(readFileSync(configPath, 'utf-8')) as ProjectConfig) || {};
+  } catch (error) {
+    throw new Error(`Invalid project config ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Every scope name available, with the most specific source first
+ */
+export function listScopeNames(input: Pick<ScopeResolverInput, 'builtins' | 'profiles'>): Array<{ name: string; source: ScopeSource }> {
+  const names = new Map<string, ScopeSource>();
+  for (const name of Object.keys(input.builtins)) names.set(name, 'builtin');
+  for (const name of Object.keys(input.profiles.team)) names.set(name, 'team');
+  for (const name of Object.keys(input.profiles.project)) names.set(name, 'project');
+  return [...names].map(([name, source]) => ({ name, source }));
+}
+
+/**
+ * Resolve a scope to its templates, following `extends` chains.
+ * Project profiles shadow team profiles, which shadow built-ins; a profile that
+ * extends its own name builds on the definition it shadows.
+ */
+export function resolveScope(name: string, input: ScopeResolverInput): ResolvedScope {
+  let packTemplates = input.packTemplates;
+  const installedPacks = () => (packTemplates ??= new PackManager().getAllTemplates());
+
+  const resolveAt = (scope: string, level: number, chain: string[]): ResolvedScope => {
+    const key = `${scope}@${level}`;
+    if (chain.includes(key)) {
+      throw new Error(`Scope "${scope}" extends itself: ${[...chain, key].map(k => k.split('@')[0]).join(' -> ')}`);
+    }
+
+    for (let i = level; i >= 0; i--) {
+      const source = SOURCE_ORDER[i];
+
+      if (source === 'builtin') {
+        const templates = input.builtins[scope];
+        if (templates) return { name: scope, source, templates: [...templates], packTemplates: [] };
+        continue;
+      }
+
+      const profile = input.profiles[source][scope];
+      if (!profile) continue;
+
+      const parentName = profile.extends;
+      const base: ResolvedScope = parentName
+        ? resolveAt(parentName, parentName === scope ? i - 1 : SOURCE_ORDER.length - 1, [...chain, key])
+        : { name: scope, source, templates: [], packTemplates: [] };
+
+      return applyProfile(scope, source, profile, base, input.coreTemplates, installedPacks);
+    }
+
+    const available = listScopeNames(input).map(s => s.name).join(', ');
+    throw new Error(`Unknown scope: ${scope}. Available scopes: ${available}`);
+  };
+
+  return resolveAt(name, SOURCE_ORDER.length - 1, []);
+}
+
+function applyProfile(
+  name: string,
+  source: ScopeSource,
+  profile: ScopeProfile,
+  base: ResolvedScope,
+  coreTemplates: string[],
+  installedPacks: () => PackTemplateRef[]
+): ResolvedScope {
+  const core = new Set(profile.templates ? [] : base.templates);
+  const packs = new Map((profile.templates ? [] : base.packTemplates).map(t => [packKey(t), t]));
+
+  const include = (ref: string) => {
+    const pack = findPackTemplate(ref, installedPacks);
+    if (pack) packs.set(packKey(pack), pack);
+    else core.add(findCoreTemplate(ref, name, coreTemplates));
+  };
+
+  for (const ref of profile.templates || []) include(ref);
+  for (const ref of profile.add || []) include(ref);
+
+  for (const packId of profile.packs || []) {
+    const templates = installedPacks().filter(t => t.packId === packId);
+    if (templates.length === 0) {
+      throw new Error(`Scope "${name}" uses pack ${packId}, which is not installed. Run \`blueprint pack install ${packId}\`.`);
+    }
+    for (const template of templates) packs.set(packKey(template), template);
+  }
+
+  for (const ref of profile.remove || []) {
+    const pack = findPackTemplate(ref, installedPacks);
+    if (pack) packs.delete(packKey(pack));
+    else core.delete(findCoreTemplate(ref, name, coreTemplates));
+  }
+
+  return {
+    name,
+    source,
+    description: profile.description ?? base.description,
+    // Keep core templates in their numbered order regardless of how they were added
+    templates: coreTemplates.filter(t => core.has(t)),
+    packTemplates: [...packs.values()],
+  };
+}
+
+function packKey(ref: PackTemplateRef): string {
+  return `${ref.packId}/${ref.templateId}`;
+}
+
+/**
+ * Match "pack-id/template-id" against installed pack templates
+ */
+function findPackTemplate(ref: string, installedPacks: () => PackTemplateRef[]): PackTemplateRef | undefined {
+  if (!ref.includes('/')) return undefined;
+
+  const found = installedPacks().find(t => packKey(t) === ref);
+  if (!found) {
+    const [packId] = ref.split('/');
+    throw new Error(`Template ${ref} not found. Is pack ${packId} installed? Run \`blueprint pack install ${packId}\`.`);
+  }
+  return found;
+}
+
+/**
+ * Match a core template by filename ("02_adr.md"), id ("02_adr") or name ("adr")
+ */
+function findCoreTemplate(ref: string, scope: string, coreTemplates: string[]): string {
+  const wanted = ref.toLowerCase().replace(/\.md$/, '').replace(/[\s-]+/g, '_');
+  const found = coreTemplates.find(filename => {
+    const id = filename.replace(/\.md$/, '');
+    return id === wanted || id.replace(/^\d+_/, '') === wanted;
+  });
+
+  if (!found) {
+    throw new Error(`Unknown template "${ref}" in scope "${scope}"`);
+  }
+  return found;
+}
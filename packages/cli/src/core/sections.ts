@@ -0,0 +1,71 @@
+/**
+ * Markdown Sections
+ * Split generated documents on their H2 headings
+ */
+
+/**
+ * A markdown document split on its H2 headings
+ */
+export interface MarkdownSection {
+  /** Slug of the heading text */
+  id: string;
+  /** Heading text without the leading ## */
+  title: string;
+  /** Full section markdown, heading included */
+  content: string;
+}
+
+/**
+ * Slugify a heading into a stable section ID. Letters and digits of any
+ * script are kept, so localized headings ("Größe", "Grüße") stay distinct.
+ */
+export function sectionId(title: string): string {
+  return title
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-');
+}
+
+/**
+ * Split markdown into a preamble and H2 sections, ignoring headings inside code fences
+ */
+export function splitSections(markdown: string): { preamble: string; sections: MarkdownSection[] } {
+  const lines = markdown.split('\n');
+  const preamble: string[] = [];
+  const sections: MarkdownSection[] = [];
+  let current: { title: string; lines: string[] } | null = null;
+  let inFence = false;
+
+  for (const line of lines) {
+    if (line.trimStart().startsWith('```')) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && line.startsWith('## ')) {
+      if (current) {
+        sections.push(toSection(current.title, current.lines));
+      }
+      current = { title: line.slice(3).trim(), lines: [line] };
+      continue;
+    }
+
+    if (current) {
+      current.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  if (current) {
+    sections.push(toSection(current.title, current.lines));
+  }
+
+  return { preamble: preamble.join('\n'), sections };
+}
+
+function toSection(title: string, lines: string[]): MarkdownSection {
+  return { id: sectionId(title), title, content: lines.join('\n') };
+}
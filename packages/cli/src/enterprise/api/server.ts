@@ -6,38 +6,82 @@
 import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { randomUUID } from 'crypto';
 import { URL } from 'url';
+import { join } from 'path';
 import type {
   ApiConfig,
   ApiContext,
   ApiRequest,
   ApiResponse,
   ApiResponseWriter,
+  ApiEventStream,
   RouteHandler,
   HealthCheckResponse,
   GenerateRequest,
+  GenerateStreamRequest,
   GenerateResponse,
   TemplateListResponse,
   TemplateDetailResponse,
   AuditListRequest,
   AuditListResponse,
   AuditStatsResponse,
+  InterviewStartRequest,
+  InterviewAnswerRequest,
+  InterviewState,
+  InterviewQuestion,
+  InterviewGenerateRequest,
+  InterviewGenerateResponse,
 } from './types.js';
+import type { ModelRegistry } from '../models/registry.js';
 import { TemplateEngine } from '../templates/engine.js';
 import { TemplateLoader } from '../templates/loader.js';
 import { AuditTrail } from '../team/audit.js';
+import { generateCustomTemplateWithModel } from '../../core/ai.js';
+import { Blueprint } from '../../client/index.js';
+import { createZip } from '../../core/zip.js';
+import { createPluginPipeline, createPluginSystem, type PluginPipeline, type PluginSystem } from '../../plugins/index.js';
+import type { GeneratedDocument } from '../../core/index.js';
+import {
+  createIntake,
+  createSessionStore,
+  renderIntakeReport,
+  serializeIntake,
+  INTAKE_FILENAME,
+  INTAKE_REPORT_FILENAME,
+  SESSIONS_DIR,
+  type IntakeRecord,
+  type OpenSession,
+} from '../../interview/index.js';
 import type { CustomTemplate } from '../templates/types.js';
+import { INTERVIEW_PAGE } from './web.js';
 
 const DEFAULT_PORT = 3456;
 const DEFAULT_HOST = 'localhost';
 
+/** Documents generated for an interview session, kept in memory until they expire */
+interface GeneratedDownload {
+  documents: GeneratedDocument[];
+  intake: IntakeRecord;
+  expiresAt: number;
+}
+
+/** Paths served without an API key; the page asks for one before calling the API */
+const PUBLIC_PATHS = ['/', '/interview'];
+
 export class ApiServer {
-  private config: Required<ApiConfig>;
+  private config: Required<Omit<ApiConfig, 'registry'>>;
+  /** Registry model-authored generation goes through; unset uses one configured from the environment */
+  private registry?: ModelRegistry;
   private server: ReturnType<typeof createServer> | null = null;
   private startTime: number = Date.now();
   private routes: Map<string, Map<string, RouteHandler>> = new Map();
   private templateEngine: TemplateEngine;
   private templateLoader: TemplateLoader;
   private auditTrail: AuditTrail;
+  private blueprint: Blueprint;
+  /** Plugins every generation runs through, shared with the Blueprint client */
+  private plugins: PluginSystem;
+  /** Documents generated per interview session, kept for download; oldest first */
+  private generated: Map<string, GeneratedDownload> = new Map();
 
   constructor(config: ApiConfig = {}) {
     this.config = {
@@ -48,11 +92,22 @@ export class ApiServer {
       allowedOrigins: config.allowedOrigins ?? ['*'],
       rateLimit: config.rateLimit ?? 60,
       logging: config.logging ?? true,
+      sessionsDir: config.sessionsDir ?? join(process.cwd(), SESSIONS_DIR),
+      auditDir: config.auditDir ?? process.cwd(),
+      downloadTtl: config.downloadTtl ?? 60,
+      maxDownloads: config.maxDownloads ?? 20,
     };
+    this.registry = config.registry;
 
     this.templateEngine = new TemplateEngine();
     this.templateLoader = new TemplateLoader();
-    this.auditTrail = new AuditTrail();
+    this.auditTrail = new AuditTrail({ logDir: this.config.auditDir });
+    this.plugins = createPluginSystem();
+    this.blueprint = new Blueprint({
+      sessions: createSessionStore({ dir: this.config.sessionsDir }),
+      plugins: this.plugins,
+      registry: this.registry,
+    });
 
     this.registerRoutes();
   }
@@ -61,6 +116,10 @@ export class ApiServer {
    * Register all API routes
    */
   private registerRoutes(): void {
+    // Interview web UI
+    this.route('GET', '/', this.handleInterviewPage.bind(this));
+    this.route('GET', '/interview', this.handleInterviewPage.bind(this));
+
     // Health check
     this.route('GET', '/health', this.handleHealth.bind(this));
     this.route('GET', '/api/health', this.handleHealth.bind(this));
@@ -72,6 +131,16 @@ export class ApiServer {
 
     // Generation
     this.route('POST', '/api/generate', this.handleGenerate.bind(this));
+    this.route('POST', '/api/generate/stream', this.handleGenerateStream.bind(this));
+
+    // Interview sessions
+    this.route('GET', '/api/interview', this.handleListInterviews.bind(this));
+    this.route('POST', '/api/interview', this.handleStartInterview.bind(this));
+    this.route('POST', '/api/interview/answer', this.handleAnswerInterview.bind(this));
+    this.route('GET', '/api/interview/:id', this.handleGetInterview.bind(this));
+    this.route('DELETE', '/api/interview/:id', this.handleDeleteInterview.bind(this));
+    this.route('POST', '/api/interview/:id/generate', this.handleGenerateInterview.bind(this));
+    this.route('GET', '/api/interview/:id/download', this.handleDownloadInterview.bind(this));
 
     // Audit
     this.route('GET', '/api/audit', this.handleListAudit.bind(this));
@@ -166,7 +235,8 @@ export class ApiServer {
     const writer = this.createResponseWriter(res, requestId, startTime);
 
     // Authenticate
-    if (this.config.apiKey && !this.authenticate(req)) {
+    const isPublic = method === 'GET' && PUBLIC_PATHS.includes(path);
+    if (this.config.apiKey && !isPublic && !this.authenticate(req)) {
       writer.status(401).json({
         success: false,
         error: { code: 'UNAUTHORIZED', message: 'Invalid or missing API key' },
@@ -346,6 +416,39 @@ export class ApiServer {
         res.writeHead(statusCode, { 'Content-Type': 'text/plain' });
         res.end(body);
       },
+      file(body: string | Buffer, contentType: string, filename?: string) {
+        res.writeHead(statusCode, {
+          'Content-Type': contentType,
+          ...(filename ? { 'Content-Disposition': `attachment; filename="${filename.replace(/"/g, '')}"` } : {}),
+        });
+        res.end(body);
+      },
+      events(): ApiEventStream {
+        let closed = false;
+        res.on('close', () => { closed = true; });
+
+        res.writeHead(statusCode, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+        res.write(`: ${requestId}\n\n`);
+
+        return {
+          send(event: string, data: unknown) {
+            if (closed) return;
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+          },
+          close() {
+            if (closed) return;
+            closed = true;
+            res.end();
+          },
+          get closed() {
+            return closed;
+          },
+        };
+      },
     };
   }
 
@@ -360,6 +463,10 @@ export class ApiServer {
 
   // Route handlers
 
+  private handleInterviewPage(_req: ApiRequest, res: ApiResponseWriter): void {
+    res.file(INTERVIEW_PAGE, 'text/html; charset=utf-8');
+  }
+
   private handleHealth(_req: ApiRequest, res: ApiResponseWriter): void {
     const response: HealthCheckResponse = {
       status: 'healthy',
@@ -422,9 +529,9 @@ export class ApiServer {
     res.status(201).json({ success: true, data: { template } });
   }
 
-  private handleGenerate(req: ApiRequest, res: ApiResponseWriter): void {
+  private async handleGenerate(req: ApiRequest, res: ApiResponseWriter): Promise<void> {
     const startTime = Date.now();
-    const { templateId, variables, format } = req.body as GenerateRequest;
+    const { templateId, variables, format, model } = req.body as GenerateRequest;
 
     const template = this.templateEngine.getTemplate(templateId);
     if (!template) {
@@ -436,7 +543,18 @@ export class ApiServer {
     }
 
     try {
-      const content = this.templateEngine.process(template, { variables });
+      const pipeline = await this.pipeline();
+      const { documents: [document], validations } = await pipeline.generate(variables || {}, async (variables) => [{
+        name: template.meta.name,
+        filename: `${template.meta.id}.md`,
+        category: template.meta.category,
+        content: model
+          ? await generateCustomTemplateWithModel(this.templateEngine, template, variables, { model, registry: this.registry })
+          : this.templateEngine.process(template, { variables }),
+      }]);
+      const content = format === 'html'
+        ? (await pipeline.formatDocuments([document], 'html'))[0].content
+        : document.content;
 
       const response: GenerateResponse = {
         content: format === 'json' ? JSON.stringify({ content }) : content,
@@ -447,6 +565,7 @@ export class ApiServer {
         },
         variables,
         generatedAt: new Date().toISOString(),
+        validations,
       };
 
       // Log to audit trail
@@ -478,6 +597,289 @@ export class ApiServer {
     }
   }
 
+  private async handleGenerateStream(req: ApiRequest, res: ApiResponseWriter): Promise<void> {
+    const startTime = Date.now();
+    const {
+      projectName,
+      projectDescription,
+      scope = 'standard',
+      audience = 'business',
+      model,
+      variables = {},
+    } = req.body as GenerateStreamRequest;
+
+    if (!projectName || !projectDescription || !model) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: 'projectName, projectDescription and model are required' },
+      });
+      return;
+    }
+
+    const context = { ...variables, projectName, projectDescription, scope, audience };
+    const stream = res.events();
+
+    try {
+      for await (const event of this.blueprint.stream({ ...context, model })) {
+        // Stop paying for tokens once nobody is listening
+        if (stream.closed) break;
+        stream.send(event.type, event);
+      }
+
+      this.auditTrail.logGeneration({
+        user: req.context.clientId,
+        template: `core:${scope}`,
+        variables: context,
+        duration: Date.now() - startTime,
+        success: !stream.closed,
+        error: stream.closed ? 'Client disconnected' : undefined,
+      });
+
+      stream.send('done', { duration: Date.now() - startTime });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Generation failed';
+
+      this.auditTrail.logGeneration({
+        user: req.context.clientId,
+        template: `core:${scope}`,
+        variables: context,
+        duration: Date.now() - startTime,
+        success: false,
+        error: message,
+      });
+
+      stream.send('error', { code: 'GENERATION_FAILED', message });
+    } finally {
+      stream.close();
+    }
+  }
+
+  private handleListInterviews(_req: ApiRequest, res: ApiResponseWriter): void {
+    const sessions = this.blueprint.listInterviews();
+    res.json({ success: true, data: { sessions, total: sessions.length } });
+  }
+
+  private handleStartInterview(req: ApiRequest, res: ApiResponseWriter): void {
+    const { projectType, prefill = {}, locale } = (req.body || {}) as InterviewStartRequest;
+
+    try {
+      const session = this.blueprint.startInterview({
+        answers: projectType ? { ...prefill, projectType } : prefill,
+        locale,
+      });
+      res.status(201).json({ success: true, data: this.interviewState(session) });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: error instanceof Error ? error.message : 'Invalid request' },
+      });
+    }
+  }
+
+  private handleGetInterview(req: ApiRequest, res: ApiResponseWriter): void {
+    const session = this.openInterview(req.params.id, res);
+    if (session) {
+      res.json({ success: true, data: this.interviewState(session) });
+    }
+  }
+
+  private handleAnswerInterview(req: ApiRequest, res: ApiResponseWriter): void {
+    const { sessionId, questionId, answer, skip } = (req.body || {}) as InterviewAnswerRequest;
+    const session = this.openInterview(sessionId, res);
+    if (!session) return;
+
+    const question = questionId || session.engine.getState().currentQuestion?.id;
+    if (!question) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'INTERVIEW_COMPLETE', message: `Interview ${sessionId} has no questions left` },
+      });
+      return;
+    }
+
+    try {
+      if (skip) session.engine.skip(question);
+      else session.engine.answer(question, answer);
+      res.json({ success: true, data: this.interviewState(session) });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'INVALID_ANSWER', message: error instanceof Error ? error.message : 'Invalid answer' },
+      });
+    }
+  }
+
+  private handleDeleteInterview(req: ApiRequest, res: ApiResponseWriter): void {
+    const { id } = req.params;
+    this.generated.delete(id);
+
+    let deleted = false;
+    try {
+      deleted = this.blueprint.deleteInterview(id);
+    } catch {
+      // Not a valid session ID, so there is no such session
+    }
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: `Interview session not found: ${id}` },
+      });
+      return;
+    }
+    res.json({ success: true, data: { deleted: id } });
+  }
+
+  private async handleGenerateInterview(req: ApiRequest, res: ApiResponseWriter): Promise<void> {
+    const startTime = Date.now();
+    const open = this.openInterview(req.params.id, res);
+    if (!open) return;
+
+    const { session, engine } = open;
+    if (!engine.getState().isComplete) {
+      res.status(400).json({
+        success: false,
+        error: { code: 'INTERVIEW_INCOMPLETE', message: `Interview ${session.id} still has questions to answer` },
+      });
+      return;
+    }
+
+    const { model } = (req.body || {}) as InterviewGenerateRequest;
+    const context = engine.toTemplateContext();
+    const template = `interview:${context.scope}`;
+
+    try {
+      const { documents, validations } = await this.blueprint.generate({
+        ...context,
+        model,
+        answers: engine.getState().answers,
+      });
+      this.keepGenerated(session.id, documents, createIntake(engine, context));
+
+      this.auditTrail.logGeneration({
+        user: req.context.clientId,
+        template,
+        variables: context,
+        duration: Date.now() - startTime,
+        success: true,
+      });
+
+      const response: InterviewGenerateResponse = {
+        sessionId: session.id,
+        documents: documents.map(({ name, filename, category }) => ({ name, filename, category })),
+        download: `/api/interview/${session.id}/download`,
+        filename: `${context.projectName.toLowerCase().replace(/\s+/g, '-')}.zip`,
+        validations,
+      };
+      res.json({ success: true, data: response });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Generation failed';
+
+      this.auditTrail.logGeneration({
+        user: req.context.clientId,
+        template,
+        variables: context,
+        duration: Date.now() - startTime,
+        success: false,
+        error: message,
+      });
+
+      res.status(400).json({
+        success: false,
+        error: { code: 'GENERATION_FAILED', message },
+      });
+    }
+  }
+
+  private handleDownloadInterview(req: ApiRequest, res: ApiResponseWriter): void {
+    const { id } = req.params;
+    this.pruneGenerated();
+    const generated = this.generated.get(id);
+    if (!generated) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_GENERATED', message: `No documents generated for interview ${id}, or they have expired` },
+      });
+      return;
+    }
+
+    const { documents, intake } = generated;
+    const archive = createZip([
+      ...documents.map(doc => ({ name: doc.filename, content: doc.content })),
+      { name: INTAKE_FILENAME, content: serializeIntake(intake) },
+      { name: INTAKE_REPORT_FILENAME, content: renderIntakeReport(intake) },
+    ]);
+    res.file(archive, 'application/zip', `${intake.projectName.toLowerCase().replace(/\s+/g, '-')}.zip`);
+  }
+
+  /**
+   * Keep generated documents for download, dropping expired and then the
+   * oldest generations to stay within maxDownloads
+   */
+  private keepGenerated(id: string, documents: GeneratedDocument[], intake: IntakeRecord): void {
+    this.generated.delete(id);
+    this.pruneGenerated();
+    this.generated.set(id, { documents, intake, expiresAt: Date.now() + this.config.downloadTtl * 60_000 });
+
+    for (const oldest of this.generated.keys()) {
+      if (this.generated.size <= this.config.maxDownloads) break;
+      this.generated.delete(oldest);
+    }
+  }
+
+  private pruneGenerated(): void {
+    const now = Date.now();
+    for (const [id, { expiresAt }] of this.generated) {
+      if (expiresAt <= now) this.generated.delete(id);
+    }
+  }
+
+  /**
+   * Plugin pipeline over the server's plugins, discovered from the working directory
+   */
+  private async pipeline(): Promise<PluginPipeline> {
+    await this.plugins.init(process.cwd(), process.cwd());
+    return createPluginPipeline(this.plugins);
+  }
+
+  /**
+   * Resume a saved interview, answering 404 when there is none
+   */
+  private openInterview(id: string | undefined, res: ApiResponseWriter): OpenSession | null {
+    try {
+      return this.blueprint.resumeInterview(id || '');
+    } catch {
+      res.status(404).json({
+        success: false,
+        error: { code: 'NOT_FOUND', message: `Interview session not found: ${id}` },
+      });
+      return null;
+    }
+  }
+
+  private interviewState({ session, engine }: OpenSession): InterviewState {
+    const state = engine.getState();
+    const question = state.currentQuestion;
+    const currentQuestion: InterviewQuestion | null = question && {
+      id: question.id,
+      text: question.text,
+      type: question.type === 'confirm' ? 'boolean' : question.type,
+      options: question.options?.map((value, i) => ({ label: question.optionLabels?.[i] ?? value, value })),
+      required: question.required,
+      default: question.default,
+      hint: question.hint,
+      group: engine.getQuestionGroups().find(g => g.questions.some(q => q.id === question.id))?.name,
+    };
+
+    return {
+      sessionId: session.id,
+      currentIndex: state.progress.answered,
+      totalQuestions: state.progress.total,
+      currentQuestion,
+      answers: state.answers,
+      complete: state.isComplete,
+    };
+  }
+
   private handleListAudit(req: ApiRequest, res: ApiResponseWriter): void {
     const {
       user,
@@ -4,6 +4,8 @@
  */
 
 import type { CustomTemplate, CompiledTemplate, TeamConfig, AuditEntry } from '../templates/types.js';
+import type { DocumentValidation } from '../../plugins/pipeline.js';
+import type { ModelRegistry } from '../models/registry.js';
 
 /**
  * API Configuration
@@ -23,6 +25,16 @@ export interface ApiConfig {
   rateLimit?: number;
   /** Enable request logging */
   logging?: boolean;
+  /** Directory interview sessions are saved in (default: .intent/sessions in the working directory) */
+  sessionsDir?: string;
+  /** Directory the audit log is written to (default: the working directory) */
+  auditDir?: string;
+  /** Registry model-authored generation goes through (default: one configured from the environment) */
+  registry?: ModelRegistry;
+  /** Minutes generated interview documents stay available for download (default: 60) */
+  downloadTtl?: number;
+  /** Interview generations kept for download at once; the oldest goes first (default: 20) */
+  maxDownloads?: number;
 }
 
 /**
@@ -72,6 +84,22 @@ export interface GenerateRequest {
   format?: 'markdown' | 'html' | 'json';
   /** Whether to include metadata */
   includeMeta?: boolean;
+  /** Model alias used to author sections that declare a prompt */
+  model?: string;
+}
+
+/**
+ * Streaming generate request for the core document suite
+ */
+export interface GenerateStreamRequest {
+  projectName: string;
+  projectDescription: string;
+  scope?: 'mvp' | 'standard' | 'comprehensive';
+  audience?: 'startup' | 'business' | 'enterprise';
+  /** Model alias used to author every section */
+  model: string;
+  /** Additional template context */
+  variables?: Record<string, unknown>;
 }
 
 /**
@@ -90,6 +118,8 @@ export interface GenerateResponse {
   variables: Record<string, unknown>;
   /** Generation timestamp */
   generatedAt: string;
+  /** Plugin validator results for the content */
+  validations: DocumentValidation[];
 }
 
 /**
@@ -129,6 +159,8 @@ export interface InterviewStartRequest {
   projectType?: string;
   /** Partial answers to pre-fill */
   prefill?: Record<string, unknown>;
+  /** Question language: en, de, fr */
+  locale?: string;
 }
 
 /**
@@ -141,8 +173,8 @@ export interface InterviewState {
   currentIndex: number;
   /** Total questions */
   totalQuestions: number;
-  /** Current question */
-  currentQuestion: InterviewQuestion;
+  /** Current question, null once the interview is complete */
+  currentQuestion: InterviewQuestion | null;
   /** Collected answers */
   answers: Record<string, unknown>;
   /** Whether interview is complete */
@@ -155,10 +187,14 @@ export interface InterviewState {
 export interface InterviewQuestion {
   id: string;
   text: string;
-  type: 'text' | 'select' | 'multiselect' | 'number' | 'boolean';
+  /** 'editor' is long-form text; 'boolean' is a yes/no question */
+  type: 'text' | 'select' | 'multiselect' | 'number' | 'boolean' | 'editor';
   options?: Array<{ label: string; value: string }>;
   required?: boolean;
   default?: unknown;
+  hint?: string;
+  /** Name of the question's group */
+  group?: string;
 }
 
 /**
@@ -167,8 +203,34 @@ export interface InterviewQuestion {
 export interface InterviewAnswerRequest {
   /** Session ID */
   sessionId: string;
-  /** Answer value */
-  answer: unknown;
+  /** Question being answered (default: the current question) */
+  questionId?: string;
+  /** Answer value (ignored when skipping) */
+  answer?: unknown;
+  /** Skip the question instead of answering it; required questions cannot be skipped */
+  skip?: boolean;
+}
+
+/**
+ * Generate documents from a completed interview
+ */
+export interface InterviewGenerateRequest {
+  /** Model alias used to author every section (default: render the templates) */
+  model?: string;
+}
+
+/**
+ * Documents generated from an interview
+ */
+export interface InterviewGenerateResponse {
+  sessionId: string;
+  documents: Array<{ name: string; filename: string; category: string }>;
+  /** Path of the zip with the documents and the intake record */
+  download: string;
+  /** File name the zip downloads as */
+  filename: string;
+  /** Plugin validator results for each document */
+  validations: DocumentValidation[];
 }
 
 /**
@@ -289,4 +351,20 @@ export interface ApiResponseWriter {
   status(code: number): ApiResponseWriter;
   json<T>(data: ApiResponse<T>): void;
   send(body: string): void;
+  /** Send a body with its own content type; a filename makes it a download */
+  file(body: string | Buffer, contentType: string, filename?: string): void;
+  /** Switch the response to server-sent events */
+  events(): ApiEventStream;
+}
+
+/**
+ * Server-sent events stream
+ */
+export interface ApiEventStream {
+  /** Send a named event with a JSON payload */
+  send(event: string, data: unknown): void;
+  /** End the stream */
+  close(): void;
+  /** Whether the client has disconnected or the stream was closed */
+  readonly closed: boolean;
 }
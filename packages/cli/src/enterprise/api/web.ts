@@ -0,0 +1,295 @@
+/**
+ * Interview Web UI
+ * Single-page interview front-end served by the API server. It talks to the
+ * /api/interview routes only, so anything it does can be scripted too.
+ */
+
+export const INTERVIEW_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Intent Blueprint - Project Interview</title>
+<style>
+  :root { --accent: #4f46e5; --muted: #6b7280; --error: #b91c1c; --border: #e5e7eb; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 16px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; background: #f9fafb; }
+  main { max-width: 680px; margin: 48px auto; padding: 32px; background: #fff; border: 1px solid var(--border); border-radius: 12px; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  .subtitle, .hint, .group { color: var(--muted); }
+  .group { font-size: 13px; text-transform: uppercase; letter-spacing: .05em; margin-bottom: 4px; }
+  .progress { height: 6px; background: var(--border); border-radius: 3px; margin: 20px 0 28px; overflow: hidden; }
+  .progress div { height: 100%; background: var(--accent); transition: width .2s; }
+  label.question { display: block; font-size: 18px; font-weight: 600; margin-bottom: 6px; }
+  input[type=text], input[type=number], input[type=password], textarea, select {
+    width: 100%; padding: 10px 12px; font: inherit; border: 1px solid var(--border); border-radius: 8px;
+  }
+  textarea { min-height: 160px; resize: vertical; }
+  .choice { display: flex; gap: 10px; align-items: center; padding: 10px 12px; border: 1px solid var(--border); border-radius: 8px; margin: 6px 0; cursor: pointer; }
+  .choice:hover { border-color: var(--accent); }
+  .actions { display: flex; gap: 12px; margin-top: 24px; align-items: center; }
+  button, a.button { padding: 10px 18px; font: inherit; border: 0; border-radius: 8px; background: var(--accent); color: #fff; cursor: pointer; text-decoration: none; }
+  button.secondary { background: #fff; color: #111827; border: 1px solid var(--border); }
+  button:disabled { opacity: .6; cursor: default; }
+  .error { color: var(--error); margin-top: 12px; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0; font-size: 14px; }
+  td { padding: 6px 8px; border-bottom: 1px solid var(--border); vertical-align: top; }
+  td:first-child { color: var(--muted); width: 40%; }
+  ul.docs { padding-left: 20px; }
+</style>
+</head>
+<body>
+<main>
+  <h1>Project Interview</h1>
+  <div class="subtitle">Answer a few questions and Blueprint writes your project documentation.</div>
+  <div class="progress"><div id="bar" style="width: 0%"></div></div>
+  <div id="view"></div>
+</main>
+<script>
+(function () {
+  var view = document.getElementById('view');
+  var bar = document.getElementById('bar');
+  var apiKey = sessionStorage.getItem('blueprint-api-key') || '';
+  // Questions shown on this page, in order, so Back can return to them
+  var history = [];
+  // What a reader returns for a blank optional question
+  var SKIP = {};
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      if (key === 'text') node.textContent = attrs[key];
+      else if (key.slice(0, 2) === 'on') node.addEventListener(key.slice(2), attrs[key]);
+      else node.setAttribute(key, attrs[key]);
+    });
+    (children || []).forEach(function (child) { if (child) node.appendChild(child); });
+    return node;
+  }
+
+  function show() {
+    view.innerHTML = '';
+    Array.prototype.forEach.call(arguments, function (node) { if (node) view.appendChild(node); });
+  }
+
+  function api(method, path, body, raw) {
+    var headers = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['X-API-Key'] = apiKey;
+    return fetch(path, { method: method, headers: headers, body: body ? JSON.stringify(body) : undefined })
+      .then(function (response) {
+        if (response.status === 401) return askForKey().then(function () { return api(method, path, body, raw); });
+        if (raw && response.ok) return response.blob();
+        return response.json().then(function (json) {
+          if (!json.success) throw new Error(json.error ? json.error.message : 'Request failed');
+          return json.data;
+        });
+      });
+  }
+
+  function askForKey() {
+    return new Promise(function (resolve) {
+      var input = el('input', { type: 'password', placeholder: 'API key' });
+      show(
+        el('label', { class: 'question', text: 'This server needs an API key' }),
+        input,
+        el('div', { class: 'actions' }, [el('button', { text: 'Continue', onclick: function () {
+          apiKey = input.value.trim();
+          sessionStorage.setItem('blueprint-api-key', apiKey);
+          resolve();
+        } })])
+      );
+      input.focus();
+    });
+  }
+
+  function failed(error) {
+    var previous = view.querySelector('.error');
+    if (previous) previous.remove();
+    view.appendChild(el('div', { class: 'error', text: error.message }));
+  }
+
+  function start() {
+    var locale = el('select', {}, [
+      el('option', { value: 'en', text: 'English' }),
+      el('option', { value: 'de', text: 'Deutsch' }),
+      el('option', { value: 'fr', text: 'Français' })
+    ]);
+    show(
+      el('label', { class: 'question', text: 'Interview language' }),
+      locale,
+      el('div', { class: 'actions' }, [el('button', { text: 'Start interview', onclick: function () {
+        history = [];
+        api('POST', '/api/interview', { locale: locale.value }).then(render).catch(failed);
+      } })])
+    );
+  }
+
+  // Show the question the server asks next, or history[index] when going back
+  function render(state, index) {
+    location.hash = state.sessionId;
+    bar.style.width = (state.complete ? 100 : Math.round(100 * state.currentIndex / Math.max(state.totalQuestions, 1))) + '%';
+    if (index === undefined) {
+      if (state.complete) return review(state);
+      history = history.filter(function (q) { return q.id !== state.currentQuestion.id; }).concat([state.currentQuestion]);
+      index = history.length - 1;
+    }
+
+    var question = history[index];
+    var read = field(question, state.answers[question.id]);
+    var buttons = [];
+    var send = function (body) {
+      buttons.forEach(function (button) { button.disabled = true; });
+      api('POST', '/api/interview/answer', Object.assign({ sessionId: state.sessionId, questionId: question.id }, body))
+        .then(function (next) {
+          // After going back, step forward through questions that still have answers
+          var following = history[index + 1];
+          if (following && next.answers[following.id] !== undefined) return render(next, index + 1);
+          history = history.slice(0, index + 1);
+          render(next);
+        })
+        .catch(function (error) { buttons.forEach(function (button) { button.disabled = false; }); failed(error); });
+    };
+
+    if (index > 0) {
+      buttons.push(el('button', { class: 'secondary', text: 'Back', onclick: function () { render(state, index - 1); } }));
+    }
+    buttons.push(el('button', { text: 'Next', onclick: function () {
+      var answer = read();
+      if (answer === undefined) return;
+      send(answer === SKIP ? { skip: true } : { answer: answer });
+    } }));
+    if (!question.required) {
+      buttons.push(el('button', { class: 'secondary', text: 'Skip', onclick: function () { send({ skip: true }); } }));
+    }
+
+    show(
+      question.group ? el('div', { class: 'group', text: question.group }) : null,
+      el('label', { class: 'question', text: question.text + (question.required ? ' *' : '') }),
+      question.hint ? el('div', { class: 'hint', text: question.hint }) : null,
+      read.node,
+      el('div', { class: 'actions' }, buttons)
+    );
+    var focus = view.querySelector('input, textarea, select');
+    if (focus) focus.focus();
+  }
+
+  // An input for the question type; returns a reader for its answer, which is
+  // SKIP for a blank optional question and undefined after a validation message
+  function field(question, current) {
+    var value = current !== undefined && current !== null ? current : question.default;
+    var options = question.options || [];
+    var reader;
+
+    if (question.type === 'select' || question.type === 'multiselect') {
+      var multiple = question.type === 'multiselect';
+      var selected = [].concat(value === undefined ? [] : value);
+      var inputs = options.map(function (option) {
+        return el('input', { type: multiple ? 'checkbox' : 'radio', name: 'choice', value: option.value });
+      });
+      inputs.forEach(function (input) { input.checked = selected.indexOf(input.value) >= 0; });
+      reader = function () {
+        var picked = inputs.filter(function (input) { return input.checked; }).map(function (input) { return input.value; });
+        if (picked.length === 0 && question.required) { failed(new Error(multiple ? 'Pick at least one option' : 'Pick one option')); return undefined; }
+        if (multiple) return picked;
+        return picked.length === 0 ? SKIP : picked[0];
+      };
+      reader.node = el('div', {}, options.map(function (option, i) {
+        return el('label', { class: 'choice' }, [inputs[i], el('span', { text: option.label })]);
+      }));
+    } else if (question.type === 'boolean') {
+      var yes = el('input', { type: 'radio', name: 'choice', value: 'yes' });
+      var no = el('input', { type: 'radio', name: 'choice', value: 'no' });
+      yes.checked = value === true;
+      no.checked = value === false;
+      reader = function () {
+        if (!yes.checked && !no.checked) { failed(new Error('Choose yes or no')); return undefined; }
+        return yes.checked;
+      };
+      reader.node = el('div', {}, [
+        el('label', { class: 'choice' }, [yes, el('span', { text: 'Yes' })]),
+        el('label', { class: 'choice' }, [no, el('span', { text: 'No' })])
+      ]);
+    } else {
+      var input = question.type === 'editor'
+        ? el('textarea', {})
+        : el('input', { type: question.type === 'number' ? 'number' : 'text' });
+      input.value = value === undefined || value === null ? '' : [].concat(value).join(', ');
+      reader = function () {
+        var text = input.value.trim();
+        if (text === '') {
+          if (!question.required) return SKIP;
+          failed(new Error('This question needs an answer'));
+          return undefined;
+        }
+        if (question.type !== 'number') return text;
+        if (isNaN(Number(text))) { failed(new Error('Enter a number')); return undefined; }
+        return Number(text);
+      };
+      reader.node = input;
+    }
+
+    return reader;
+  }
+
+  function describe(value) {
+    if (value === null || value === undefined) return 'Skipped';
+    if (value === true) return 'Yes';
+    if (value === false) return 'No';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  function review(state) {
+    var rows = Object.keys(state.answers).filter(function (key) { return key !== 'followUps'; }).map(function (key) {
+      return el('tr', {}, [el('td', { text: key }), el('td', { text: describe(state.answers[key]) })]);
+    });
+    var model = el('input', { type: 'text', placeholder: 'Model alias (optional, e.g. claude)' });
+    var generate = el('button', { text: 'Generate documents', onclick: function () {
+      generate.disabled = true;
+      generate.textContent = 'Generating...';
+      api('POST', '/api/interview/' + state.sessionId + '/generate', model.value.trim() ? { model: model.value.trim() } : {})
+        .then(done)
+        .catch(function (error) { generate.disabled = false; generate.textContent = 'Generate documents'; failed(error); });
+    } });
+
+    show(
+      el('label', { class: 'question', text: 'All done - review your answers' }),
+      el('table', {}, rows),
+      model,
+      el('div', { class: 'actions' }, [
+        history.length > 0 ? el('button', { class: 'secondary', text: 'Back', onclick: function () { render(state, history.length - 1); } }) : null,
+        generate
+      ])
+    );
+  }
+
+  function done(result) {
+    var download = el('button', { text: 'Download zip', onclick: function () {
+      api('GET', result.download, null, true).then(function (blob) {
+        var link = el('a', { href: URL.createObjectURL(blob), download: result.filename });
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+      }).catch(failed);
+    } });
+
+    show(
+      el('label', { class: 'question', text: 'Generated ' + result.documents.length + ' documents' }),
+      el('ul', { class: 'docs' }, result.documents.map(function (doc) {
+        return el('li', { text: doc.name + ' (' + doc.category + ')' });
+      })),
+      el('div', { class: 'actions' }, [
+        download,
+        el('button', { class: 'secondary', text: 'New interview', onclick: function () { location.hash = ''; start(); } })
+      ])
+    );
+  }
+
+  var resume = location.hash.slice(1);
+  if (resume) api('GET', '/api/interview/' + encodeURIComponent(resume)).then(render).catch(function () { start(); });
+  else start();
+})();
+</script>
+</body>
+</html>
+`;
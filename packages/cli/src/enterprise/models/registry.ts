@@ -194,9 +194,33 @@ export class ModelRegistry {
     const tempConfig = { ...config, model };
 
     const tempProvider = this.createProvider(tempConfig);
+    if (!tempProvider.isConfigured()) {
+      throw new Error(`Provider ${provider} is not configured`);
+    }
     return tempProvider.complete(request);
   }
 
+  /**
+   * Stream with automatic provider selection based on model alias
+   */
+  streamWithAlias(
+    alias: string,
+    request: CompletionRequest
+  ): AsyncGenerator<StreamChunk> {
+    const { provider, model } = this.resolveAlias(alias);
+
+    const config = this.configs.get(provider);
+    if (!config) {
+      throw new Error(`Provider not found: ${provider}`);
+    }
+
+    const tempProvider = this.createProvider({ ...config, model });
+    if (!tempProvider.isConfigured()) {
+      throw new Error(`Provider ${provider} is not configured`);
+    }
+    return tempProvider.stream(request);
+  }
+
   /**
    * Resolve a model alias to provider and model
    */
@@ -3,6 +3,8 @@
  * YAML-based template definitions with advanced features
  */
 
+import type { ScopeProfile } from '../../core/scopes.js';
+
 export interface CustomTemplate {
   /** Template metadata */
   meta: TemplateMeta;
@@ -164,9 +166,12 @@ export interface TeamConfig {
   libraries?: TemplateLibrary[];
   /** Default template settings */
   defaults?: {
-    scope?: 'mvp' | 'standard' | 'comprehensive' | 'enterprise';
+    /** Built-in scope or the name of a scope profile */
+    scope?: string;
     audience?: 'startup' | 'business' | 'enterprise';
     model?: string;
+    /** Team scope profiles, selectable with --scope */
+    scopes?: Record<string, ScopeProfile>;
   };
   /** Audit settings */
   audit?: {
@@ -5,6 +5,25 @@
  * @packageDocumentation
  */
 
+// Blueprint client exports
+export {
+  Blueprint,
+  createBlueprint,
+  type BlueprintOptions,
+  type BlueprintHooks,
+  type BlueprintEvent,
+  type GenerateOptions,
+  type GenerateResult,
+  type InterviewOptions,
+  type ValidateOptions,
+  type ValidateResult,
+  type DocumentValidation,
+  type ExportRequest,
+  type ExportTarget,
+  type ExportOutcome,
+  type FormatOptions,
+} from './client/index.js';
+
 // Core exports for programmatic use
 export {
   listTemplates,
@@ -13,6 +32,9 @@ export {
   writeDocuments,
   getTemplatesForScope,
   compileTemplate,
+  compileTemplateSource,
+  resolveTemplateContext,
+  getTemplateVersion,
   getTemplatesDir,
   Handlebars,
   SCOPES,
@@ -20,8 +42,107 @@ export {
   type TemplateContext,
   type GeneratedDocument,
   type TemplateInfo,
+  type WriteDocumentsOptions,
+} from './core/index.js';
+
+// Scope profile exports
+export {
+  BUILTIN_SCOPES,
+  resolveTemplateScope,
+  loadScopeProfiles,
+  listScopeNames,
+  generatePackDocument,
+  PROJECT_CONFIG_PATH,
+  type ScopeName,
+  type ScopeProfile,
+  type ScopeProfiles,
+  type ScopeSource,
+  type ResolvedScope,
+  type PackTemplateRef,
+} from './core/index.js';
+
+// Locale exports
+export {
+  LOCALES,
+  DEFAULT_LOCALE,
+  LANGUAGE_NAMES,
+  resolveLocale,
+  localizeCategory,
+  getTemplateLocale,
+  type Locale,
+} from './core/index.js';
+
+// Document dependency graph exports
+export {
+  getDocumentGraph,
+  buildDocumentGraph,
+  orderTemplates,
+  upstreamOf,
+  parseRelatedDocs,
+  renderMermaid,
+  summarizeDocument,
+  type DocumentGraph,
+  type DocumentNode,
+  type RelatedDocs,
+  type UpstreamSummary,
 } from './core/index.js';
 
+// Incremental regeneration exports
+export {
+  mergeDocument,
+  mergeDocuments,
+  readManifest,
+  writeManifest,
+  hashContext,
+  MANIFEST_FILENAME,
+  type GenerationManifest,
+  type ManifestDocument,
+  type MergeResult,
+  type MergeStatus,
+} from './core/merge.js';
+
+// Zip archive exports
+export { createZip, type ZipEntry } from './core/zip.js';
+
+// Suite consistency and traceability exports
+export {
+  checkSuite,
+  loadSuite,
+  suiteFromDocuments,
+  buildTraceabilityMatrix,
+  renderTraceabilityMarkdown,
+  renderTraceabilityCsv,
+  writeTraceability,
+  type TraceabilityMatrix,
+  type TraceabilityFormat,
+  type TraceGap,
+  type CheckReport,
+  type CheckIssue,
+  type CheckSummary,
+  type CheckId,
+  type DocumentSuite,
+  type SuiteDocument,
+  type DocumentKind,
+} from './suite/index.js';
+
+// AI-authored generation exports
+export {
+  generateDocumentWithModel,
+  generateAllDocumentsWithModel,
+  generateCustomTemplateWithModel,
+  streamDocumentWithModel,
+  streamAllDocumentsWithModel,
+  translateDocumentWithModel,
+  translateDocumentsWithModel,
+  markdownShape,
+  splitSections,
+  DEFAULT_SECTION_PROMPT,
+  DEFAULT_TRANSLATION_PROMPT,
+  type AiGenerationOptions,
+  type MarkdownSection,
+  type GenerationEvent,
+} from './core/ai.js';
+
 // Interview engine exports
 export {
   InterviewEngine,
@@ -29,18 +150,80 @@ export {
   detectContext,
   analyzeGaps,
   analyzeDescription,
+  classifyProject,
+  PROJECT_TYPE_SIGNALS,
+  type Classification,
+  type ClassifiedLabel,
+  type ClassifierSignal,
   calculateComplexity,
   generateSummary,
   QUESTION_GROUPS,
   getActiveQuestions,
   getNextQuestion,
   getProgress,
+  localizeQuestion,
+  localizeGroup,
+  SessionStore,
+  createSessionStore,
+  summarizeSession,
+  SESSIONS_DIR,
+  scanRepository,
+  answersFromScan,
+  DEFAULT_SCAN_CONFIDENCE,
+  proposeFollowUps,
+  parseFollowUps,
+  getFollowUpQuestions,
+  DEFAULT_FOLLOW_UP_PROMPT,
+  DEFAULT_FOLLOW_UP_LIMIT,
+  readAnswersFile,
+  parseAnswers,
+  applyAnswers,
+  answersTemplate,
+  type AnswersReport,
+  type AnswerError,
+  createIntake,
+  serializeIntake,
+  readIntake,
+  parseIntake,
+  renderIntakeReport,
+  writeIntake,
+  INTAKE_VERSION,
+  INTAKE_FILENAME,
+  INTAKE_REPORT_FILENAME,
+  type IntakeRecord,
+  type IntakeTranscriptEntry,
+  type IntakeAssumption,
+  loadQuestionBank,
+  loadQuestionFile,
+  parseQuestionBank,
+  compileQuestionGroups,
+  mergeQuestionGroups,
+  PROJECT_QUESTIONS_PATH,
+  compileExpression,
+  evaluateExpression,
+  type BankGroup,
+  type QuestionBankOptions,
+  type QuestionGroupDefinition,
+  type QuestionDefinition,
+  type CompiledExpression,
+  type ExpressionScope,
+  type FollowUpOptions,
+  type FollowUp,
+  type RepositoryScan,
+  type ScanFinding,
+  type ScannedField,
+  type InterviewSession,
+  type InterviewSessionSummary,
+  type OpenSession,
+  type SessionStoreOptions,
   type InterviewState,
+  type ReviewItem,
   type InterviewAnswers,
   type InterviewResult,
   type Question,
   type DetectedContext,
   type GapAnalysis,
+  type AssumedValue,
   type ProjectType,
   type Complexity,
   type Audience,
@@ -48,6 +231,29 @@ export {
   type QuestionGroup,
 } from './interview/index.js';
 
+// Plugin exports
+export {
+  PluginSystem,
+  createPluginSystem,
+  PluginPipeline,
+  createPluginPipeline,
+  type Plugin,
+  type PluginEvent,
+  type PluginContext,
+  type HookPlugin,
+  type HookEventData,
+  type ProcessorPlugin,
+  type ValidatorPlugin,
+  type FormatterPlugin,
+  type IntegrationPlugin,
+  type TemplateProviderPlugin,
+  type PluginMetadata,
+  type PluginConfigSchema,
+  type PluginSettings,
+  type PluginSandboxOptions,
+  type PipelineResult,
+} from './plugins/index.js';
+
 // MCP server export
 export { startMcpServer } from './mcp/index.js';
 
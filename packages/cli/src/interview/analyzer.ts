@@ -12,30 +12,14 @@ import type {
   Scope,
   Audience,
 } from './types.js';
-
-// Keywords for project type detection
-const PROJECT_TYPE_KEYWORDS: Record<ProjectType, string[]> = {
-  'saas-web': ['saas', 'subscription', 'dashboard', 'portal', 'web app', 'webapp', 'platform'],
-  'mobile-app': ['mobile', 'ios', 'android', 'app store', 'react native', 'flutter', 'swift'],
-  'api-backend': ['api', 'backend', 'rest', 'graphql', 'microservice', 'server'],
-  'cli-tool': ['cli', 'command line', 'terminal', 'shell', 'script'],
-  'library-sdk': ['library', 'sdk', 'package', 'npm', 'pip', 'module'],
-  'desktop-app': ['desktop', 'electron', 'native', 'windows', 'macos', 'linux app'],
-  'ecommerce': ['ecommerce', 'shop', 'store', 'cart', 'checkout', 'products'],
-  'marketplace': ['marketplace', 'multi-vendor', 'buyers', 'sellers', 'listings'],
-  'ai-ml': ['ai', 'machine learning', 'ml', 'model', 'neural', 'llm', 'gpt', 'training'],
-  'iot': ['iot', 'sensors', 'devices', 'embedded', 'hardware', 'mqtt'],
-  'blockchain': ['blockchain', 'web3', 'smart contract', 'crypto', 'nft', 'defi', 'solidity'],
-  'gaming': ['game', 'gaming', 'unity', 'unreal', 'multiplayer', 'player'],
-  'other': [],
-};
+import { classifyProject, containsTerm, tokenize } from './classifier.js';
 
 // Technology keywords for detection
 const TECH_KEYWORDS: Record<string, string[]> = {
-  'TypeScript': ['typescript', 'ts', '.ts'],
-  'JavaScript': ['javascript', 'js', 'node'],
+  'TypeScript': ['typescript'],
+  'JavaScript': ['javascript', 'js', 'node', 'node.js', 'nodejs'],
   'Python': ['python', 'django', 'flask', 'fastapi', 'pytorch', 'tensorflow'],
-  'Go': ['golang', 'go'],
+  'Go': ['golang', 'in go', 'go service', 'go backend'],
   'Rust': ['rust', 'cargo'],
   'React': ['react', 'jsx', 'next.js', 'nextjs'],
   'Vue': ['vue', 'nuxt'],
@@ -50,7 +34,7 @@ const TECH_KEYWORDS: Record<string, string[]> = {
 
 // Feature keywords
 const FEATURE_KEYWORDS: Record<string, string[]> = {
-  'authentication': ['auth', 'login', 'signup', 'oauth', 'sso', 'password'],
+  'authentication': ['auth', 'authentication', 'login', 'signup', 'sign up', 'sign in', 'oauth', 'sso', 'password'],
   'payments': ['payment', 'stripe', 'billing', 'subscription', 'checkout'],
   'real-time': ['real-time', 'realtime', 'websocket', 'live', 'notifications'],
   'file-upload': ['upload', 'files', 'images', 'documents', 'storage'],
@@ -67,44 +51,26 @@ const FEATURE_KEYWORDS: Record<string, string[]> = {
  */
 export function analyzeDescription(description: string): {
   projectType: ProjectType;
+  /** Every type the description points to, best first (e.g. marketplace and mobile-app) */
+  projectTypes: ProjectType[];
   technologies: string[];
   features: string[];
   confidence: number;
+  /** Why each project type scored as it did */
+  reasoning: string[];
 } {
-  const text = description.toLowerCase();
-  const result = {
-    projectType: 'other' as ProjectType,
-    technologies: [] as string[],
-    features: [] as string[],
-    confidence: 0,
-  };
+  const classification = classifyProject(description);
+  const tokens = tokenize(description);
+  const mentions = (keywords: string[]) => keywords.some((kw) => containsTerm(tokens, kw));
 
-  // Detect project type
-  let maxScore = 0;
-  for (const [type, keywords] of Object.entries(PROJECT_TYPE_KEYWORDS)) {
-    const score = keywords.filter((kw) => text.includes(kw)).length;
-    if (score > maxScore) {
-      maxScore = score;
-      result.projectType = type as ProjectType;
-    }
-  }
-  result.confidence = Math.min(maxScore * 20, 90);
-
-  // Detect technologies
-  for (const [tech, keywords] of Object.entries(TECH_KEYWORDS)) {
-    if (keywords.some((kw) => text.includes(kw))) {
-      result.technologies.push(tech);
-    }
-  }
-
-  // Detect features
-  for (const [feature, keywords] of Object.entries(FEATURE_KEYWORDS)) {
-    if (keywords.some((kw) => text.includes(kw))) {
-      result.features.push(feature);
-    }
-  }
-
-  return result;
+  return {
+    projectType: classification.projectType,
+    projectTypes: classification.labels.map((l) => l.label),
+    technologies: Object.keys(TECH_KEYWORDS).filter((tech) => mentions(TECH_KEYWORDS[tech])),
+    features: Object.keys(FEATURE_KEYWORDS).filter((feature) => mentions(FEATURE_KEYWORDS[feature])),
+    confidence: classification.confidence,
+    reasoning: classification.reasoning,
+  };
 }
 
 /**
@@ -220,11 +186,14 @@ export function detectContext(answers: InterviewAnswers): DetectedContext {
     ? analyzeDescription(answers.projectDescription)
     : null;
 
-  // Determine project type
-  let projectType = answers.projectType || descriptionAnalysis?.projectType || 'other';
+  // Determine project type; an answered type leads, other types the description points to follow
+  const projectType = answers.projectType || descriptionAnalysis?.projectType || 'other';
+  const projectTypes = [projectType, ...(descriptionAnalysis?.projectTypes || [])]
+    .filter((t, i, a) => t !== 'other' && a.indexOf(t) === i);
   if (descriptionAnalysis && !answers.projectType) {
     reasoning.push(`Detected project type "${projectType}" from description`);
   }
+  reasoning.push(...(descriptionAnalysis?.reasoning || []));
 
   // Merge technologies
   const detectedTechnologies = [
@@ -258,6 +227,7 @@ export function detectContext(answers: InterviewAnswers): DetectedContext {
 
   return {
     projectType: projectType as ProjectType,
+    projectTypes: projectTypes.length > 0 ? projectTypes : ['other'],
     complexity,
     suggestedScope,
     suggestedAudience,
@@ -0,0 +1,222 @@
+/**
+ * Answers Files
+ * Run the interview non-interactively from a YAML or JSON file of answers,
+ * e.g. in CI, and produce a blank answers file to fill in
+ */
+
+import { readFileSync } from 'fs';
+import yaml from 'js-yaml';
+import type { GapAnalysis, InterviewAnswers, ProjectType, Question, QuestionGroup } from './types.js';
+import type { InterviewEngine } from './engine.js';
+import { getActiveQuestions } from './questions.js';
+import { loadQuestionBank } from './bank.js';
+import { localizeGroup, localizeQuestion } from './locales.js';
+
+export interface AnswerError {
+  questionId: string;
+  message: string;
+}
+
+export interface AnswersReport {
+  /** No invalid answers and every required question answered */
+  valid: boolean;
+  /** Stored answers, after each question's transform */
+  answers: InterviewAnswers;
+  errors: AnswerError[];
+  /** Required questions without an answer or default */
+  missingRequired: string[];
+  /** Questions left blank that took their default */
+  defaulted: string[];
+  /** Keys that match no question asked for these answers */
+  ignored: string[];
+  gaps: GapAnalysis;
+}
+
+/**
+ * Read answers from a YAML or JSON file; "-" reads standard input
+ */
+export function readAnswersFile(path: string): Record<string, unknown> {
+  const content = path === '-' ? readFileSync(0, 'utf-8') : readFileSync(path, 'utf-8');
+  return parseAnswers(content, path === '-' ? 'stdin' : path);
+}
+
+/**
+ * Parse answers from YAML or JSON (JSON is valid YAML)
+ */
+export function parseAnswers(content: string, source?: string): Record<string, unknown> {
+  const where = source ? ` in ${source}` : '';
+  let data: unknown;
+  try {
+    data = yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid answers file${where}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (data === undefined || data === null) return {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid answers file${where}: expected question IDs mapped to answers`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Answer questions in interview order, so each answer sees the ones before it,
+ * exactly as if they had been typed in. Blank answers take the question's
+ * default; nothing is thrown for an invalid answer, it is reported instead.
+ */
+export function applyAnswers(engine: InterviewEngine, input: Record<string, unknown>): AnswersReport {
+  const pending = new Map(Object.entries(input).filter(([, value]) => value !== null && value !== ''));
+  const attempted = new Set<string>();
+  const errors: AnswerError[] = [];
+  const defaulted: string[] = [];
+
+  for (;;) {
+    const { answers } = engine.getState();
+    const question = engine
+      .getQuestionGroups()
+      .flatMap((g) => g.questions)
+      .find((q) => answers[q.id] === undefined && !attempted.has(q.id) && (pending.has(q.id) || q.default !== undefined));
+    if (!question) break;
+
+    attempted.add(question.id);
+    const given = pending.has(question.id);
+    const value = given ? pending.get(question.id) : question.default;
+    pending.delete(question.id);
+
+    try {
+      engine.answer(question.id, given ? coerceAnswer(question, value) : value);
+      if (!given) defaulted.push(question.id);
+    } catch (error) {
+      errors.push({ questionId: question.id, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const { answers } = engine.getState();
+  const missingRequired = engine
+    .getQuestionGroups()
+    .flatMap((g) => g.questions)
+    .filter((q) => q.required && answers[q.id] === undefined && !errors.some((e) => e.questionId === q.id))
+    .map((q) => q.id);
+
+  return {
+    valid: errors.length === 0 && missingRequired.length === 0,
+    answers,
+    errors,
+    missingRequired,
+    defaulted,
+    ignored: [...pending.keys()],
+    gaps: engine.complete().gaps,
+  };
+}
+
+/**
+ * Check an answer has the question's type and, for options, is one of them.
+ * Options may be given by label or by the value stored for it (e.g. "api-backend").
+ */
+function coerceAnswer(question: Question, value: unknown): unknown {
+  switch (question.type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || Number.isNaN(number)) throw new Error(`Expected a number, got "${value}"`);
+      return number;
+    }
+    case 'confirm': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).toLowerCase();
+      if (['yes', 'true', 'y'].includes(text)) return true;
+      if (['no', 'false', 'n'].includes(text)) return false;
+      throw new Error(`Expected true or false, got "${value}"`);
+    }
+    case 'select':
+      return toOption(question, value);
+    case 'multiselect': {
+      const items = Array.isArray(value) ? value : String(value).split(',').map((s) => s.trim()).filter(Boolean);
+      return items.map((item) => toOption(question, item));
+    }
+    default:
+      if (Array.isArray(value)) return value.join(', ');
+      if (typeof value === 'object') throw new Error('Expected text');
+      return String(value);
+  }
+}
+
+function toOption(question: Question, value: unknown): string {
+  const options = question.options || [];
+  if (options.length === 0) return String(value);
+
+  const text = String(value);
+  if (options.includes(text)) return text;
+
+  const at = optionValues(question).findIndex((v) => v === text);
+  if (at >= 0) return options[at];
+
+  throw new Error(`Expected one of: ${optionValues(question).join(', ')}; got "${text}"`);
+}
+
+/**
+ * What each option stores, where the question transforms labels into values
+ */
+export function optionValues(question: Question): string[] {
+  return (question.options || []).map((option) => {
+    if (!question.transform) return option;
+    const stored = question.transform(question.type === 'multiselect' ? [option] : option);
+    const value = Array.isArray(stored) ? stored[0] : stored;
+    return typeof value === 'string' ? value : option;
+  });
+}
+
+/**
+ * A blank answers file listing every question with its hint, options and
+ * default. Questions the project type (and defaults) leave out are commented.
+ */
+export function answersTemplate(options: {
+  projectType?: ProjectType;
+  locale?: string;
+  questions?: QuestionGroup[];
+} = {}): string {
+  const groups = options.questions || loadQuestionBank();
+
+  // Walk the interview taking defaults, to see which questions would be asked
+  const answers: InterviewAnswers = options.projectType ? { projectType: options.projectType } : {};
+  const asked = new Set<string>(options.projectType ? ['projectType'] : []);
+  for (;;) {
+    const next = getActiveQuestions(answers, groups).find((q) => !asked.has(q.id));
+    if (!next) break;
+    asked.add(next.id);
+    if (next.default !== undefined) {
+      answers[next.id] = next.transform ? next.transform(next.default) : next.default;
+    }
+  }
+
+  const lines = [
+    `# Blueprint interview answers${options.projectType ? ` (project type: ${options.projectType})` : ''}`,
+    '# Fill in the answers, then run: blueprint interview --answers <file>',
+    '# Blank answers take their default or are skipped. Commented questions are only',
+    '# asked for some earlier answers; uncomment them if those apply.',
+  ];
+
+  for (const group of groups) {
+    const { name } = localizeGroup(group, options.locale);
+    lines.push('', `# ━━━ ${name} ━━━`);
+
+    for (const raw of group.questions) {
+      const question = localizeQuestion(raw, options.locale);
+      const active = asked.has(question.id);
+      lines.push('', `# ${question.text}${question.required ? ' (required)' : ''}`);
+      if (question.hint) lines.push(`# ${question.hint}`);
+      if (question.options?.length) {
+        lines.push(`# ${question.type === 'multiselect' ? 'Any of' : 'One of'}: ${optionValues(question).join(', ')}`);
+      } else if (question.type === 'confirm') {
+        lines.push('# true or false');
+      }
+      if (question.default !== undefined) {
+        lines.push(`# Default: ${Array.isArray(question.default) ? question.default.join(', ') : question.default}`);
+      }
+
+      const value = question.id === 'projectType' && options.projectType ? ` ${options.projectType}` : '';
+      lines.push(`${active ? '' : '# '}${question.id}:${value}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,237 @@
+/**
+ * Question Bank
+ * Load question groups from YAML and merge them with the built-in groups.
+ * Sources, in order: built-ins, installed marketplace packs (their built-in
+ * questions, then questions.yaml or questions/*.yaml), then .intent/questions.yaml.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import yaml from 'js-yaml';
+import type { Question, QuestionGroup } from './types.js';
+import { QUESTION_GROUPS } from './questions.js';
+import { compileExpression } from './expressions.js';
+import { PackManager } from '../marketplace/manager.js';
+import { DEFAULT_MARKETPLACE_CONFIG } from '../marketplace/types.js';
+import { getPackQuestions } from '../marketplace/packs/index.js';
+
+export const PROJECT_QUESTIONS_PATH = join('.intent', 'questions.yaml');
+
+const QUESTION_TYPES: Question['type'][] = ['text', 'select', 'multiselect', 'number', 'confirm', 'editor'];
+
+export interface QuestionBankOptions {
+  /** Directory holding .intent/questions.yaml and .blueprint/packs (default: working directory) */
+  projectDir?: string;
+  /** Pack manager whose installed packs contribute questions; false to skip packs */
+  packs?: PackManager | false;
+  /** Further YAML files, merged last */
+  files?: string[];
+}
+
+/**
+ * A parsed group; `after` places a new group after an existing one
+ */
+export type BankGroup = QuestionGroup & { after?: string };
+
+/**
+ * A question group as written in YAML; see parseQuestionBank
+ */
+export interface QuestionGroupDefinition {
+  id: string;
+  name?: string;
+  description?: string;
+  /** Expression over the answers; the group is skipped when false */
+  condition?: string;
+  /** Place a new group after this one (default: last) */
+  after?: string;
+  questions?: QuestionDefinition[];
+}
+
+export interface QuestionDefinition {
+  id: string;
+  text: string;
+  type?: Question['type'];
+  required?: boolean;
+  /** Labels, or labels with the value to store when chosen */
+  options?: Array<string | { label: string; value: unknown }>;
+  default?: Question['default'];
+  hint?: string;
+  /** Expression over the answers; the question is skipped when false */
+  condition?: string;
+  /** Expression over `value` and the answers that must hold, optionally with a message */
+  validate?: string | { rule: string; message?: string };
+  /** Expression over `value` producing the answer to store */
+  transform?: string;
+}
+
+/**
+ * Built-in groups merged with questions from installed packs and the project
+ */
+export function loadQuestionBank(options: QuestionBankOptions = {}): QuestionGroup[] {
+  const projectDir = options.projectDir || process.cwd();
+  let groups = QUESTION_GROUPS;
+
+  if (options.packs !== false) {
+    const packs = options.packs || new PackManager({ installDir: join(projectDir, DEFAULT_MARKETPLACE_CONFIG.installDir) });
+    for (const pack of packs.list()) {
+      groups = mergeQuestionGroups(groups, compileQuestionGroups(getPackQuestions(pack.id), pack.id));
+    }
+    for (const bank of packs.getAllQuestionBanks()) {
+      try {
+        groups = mergeQuestionGroups(groups, loadQuestionFile(bank.path));
+      } catch (error) {
+        // A broken pack should not stop the interview
+        console.warn(`Skipping questions from pack ${bank.packId}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  const projectFile = join(projectDir, PROJECT_QUESTIONS_PATH);
+  if (existsSync(projectFile)) {
+    groups = mergeQuestionGroups(groups, loadQuestionFile(projectFile));
+  }
+
+  for (const file of options.files || []) {
+    groups = mergeQuestionGroups(groups, loadQuestionFile(file));
+  }
+
+  return groups;
+}
+
+/**
+ * Load question groups from a YAML file
+ */
+export function loadQuestionFile(path: string): BankGroup[] {
+  if (!existsSync(path)) {
+    throw new Error(`Question file not found: ${path}`);
+  }
+  return parseQuestionBank(readFileSync(path, 'utf-8'), path);
+}
+
+/**
+ * Parse question groups from YAML: either a list of groups or `groups:` holding one.
+ * Expressions are compiled here, so mistakes surface when the bank is loaded.
+ */
+export function parseQuestionBank(content: string, source?: string): BankGroup[] {
+  const where = source ? ` in ${source}` : '';
+  let data: unknown;
+  try {
+    data = yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid question YAML${where}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const groups = Array.isArray(data) ? data : (data as { groups?: unknown } | null)?.groups;
+  if (!Array.isArray(groups)) {
+    throw new Error(`Invalid question bank${where}: expected a list of groups under "groups"`);
+  }
+
+  return compileQuestionGroups(groups, source);
+}
+
+/**
+ * Turn group definitions, e.g. a pack's built-in questions, into question groups
+ */
+export function compileQuestionGroups(definitions: QuestionGroupDefinition[], source?: string): BankGroup[] {
+  const where = source ? ` in ${source}` : '';
+  return definitions.map((group, index) => {
+    if (!group?.id) {
+      throw new Error(`Invalid question group at index ${index}: missing id${where}`);
+    }
+
+    const condition = group.condition ? compileExpression(group.condition) : undefined;
+    return {
+      id: String(group.id),
+      name: group.name ? String(group.name) : '',
+      description: group.description ? String(group.description) : '',
+      questions: (group.questions || []).map((q, i) => toQuestion(q, `${group.id}[${i}]`, where)),
+      condition: condition && ((answers) => truthy(condition(answers))),
+      after: group.after ? String(group.after) : undefined,
+    };
+  });
+}
+
+/**
+ * Merge groups into a base list. A group with a known ID extends it: questions
+ * with a known ID replace the original, others are appended, and a name,
+ * description or condition given overrides the original's.
+ */
+export function mergeQuestionGroups(
+  base: QuestionGroup[],
+  extra: BankGroup[]
+): QuestionGroup[] {
+  const groups = base.map((g) => ({ ...g, questions: [...g.questions] }));
+
+  for (const { after, ...group } of extra) {
+    const existing = groups.find((g) => g.id === group.id);
+    if (existing) {
+      if (group.name) existing.name = group.name;
+      if (group.description) existing.description = group.description;
+      if (group.condition) existing.condition = group.condition;
+      for (const question of group.questions) {
+        const at = existing.questions.findIndex((q) => q.id === question.id);
+        if (at >= 0) existing.questions[at] = question;
+        else existing.questions.push(question);
+      }
+      continue;
+    }
+
+    const anchor = after ? groups.findIndex((g) => g.id === after) : -1;
+    const named = { ...group, name: group.name || group.id };
+    if (anchor >= 0) groups.splice(anchor + 1, 0, named);
+    else groups.push(named);
+  }
+
+  return groups;
+}
+
+function toQuestion(q: QuestionDefinition, at: string, where: string): Question {
+  if (!q?.id) throw new Error(`Invalid question ${at}: missing id${where}`);
+  if (!q.text) throw new Error(`Invalid question ${q.id}: missing text${where}`);
+
+  const type = q.type || 'text';
+  if (!QUESTION_TYPES.includes(type)) {
+    throw new Error(`Invalid question ${q.id}: unknown type "${type}"${where}`);
+  }
+
+  // Options may carry the value to store; the interview shows and answers with labels
+  const options = q.options?.map((o) => (typeof o === 'object' && o !== null ? o : { label: String(o), value: String(o) }));
+  const values = new Map(options?.map((o) => [String(o.label), o.value]));
+  const mapValue = (v: unknown) => (typeof v === 'string' && values.has(v) ? values.get(v) : v);
+
+  const condition = q.condition ? compileExpression(q.condition) : undefined;
+  const rule = typeof q.validate === 'string' ? { rule: q.validate } : q.validate;
+  const validate = rule ? compileExpression(rule.rule) : undefined;
+  const transform = q.transform ? compileExpression(q.transform) : undefined;
+  const mapsOptions = options?.some((o) => o.value !== o.label);
+
+  const question: Question = {
+    id: String(q.id),
+    text: String(q.text),
+    type,
+    required: Boolean(q.required),
+    options: options?.map((o) => String(o.label)),
+    default: q.default,
+    hint: q.hint ? String(q.hint) : undefined,
+  };
+
+  if (condition) {
+    question.condition = (answers) => truthy(condition(answers));
+  }
+  if (validate) {
+    question.validate = (value, answers) =>
+      truthy(validate({ ...answers, answers, value })) || rule?.message || `Invalid answer for ${q.id}`;
+  }
+  if (transform || mapsOptions) {
+    question.transform = (value) => {
+      const mapped = Array.isArray(value) ? value.map(mapValue) : mapValue(value);
+      return transform ? transform({ value: mapped }) : mapped;
+    };
+  }
+
+  return question;
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
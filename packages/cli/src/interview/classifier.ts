@@ -0,0 +1,187 @@
+/**
+ * Project Classifier
+ * Weighted keyword classification of a project description. Text is tokenized
+ * so keywords only match whole words ("ai" no longer matches "maintain"), each
+ * keyword carries a weight, negative keywords count against a type, and every
+ * type that scores well enough is returned with the signals behind it.
+ */
+
+import type { ProjectType } from './types.js';
+
+/**
+ * A keyword or phrase that counts towards (or, when negative, against) a label
+ */
+export interface ClassifierSignal {
+  term: string;
+  weight: number;
+}
+
+export interface ClassifiedLabel<T extends string = ProjectType> {
+  label: T;
+  score: number;
+  /** 0-95, from the score */
+  confidence: number;
+  /** Signals found in the text */
+  signals: ClassifierSignal[];
+}
+
+export interface Classification {
+  /** Best label, or 'other' when nothing scores */
+  projectType: ProjectType;
+  /** Every label that qualifies, best first */
+  labels: ClassifiedLabel[];
+  confidence: number;
+  /** One line per label explaining its score */
+  reasoning: string[];
+}
+
+/** Lowest score a label needs to be reported */
+export const MIN_LABEL_SCORE = 3;
+
+/** A secondary label must score at least this share of the best one */
+const SECONDARY_LABEL_RATIO = 0.5;
+
+const signals = (weights: Record<string, number>): ClassifierSignal[] =>
+  Object.entries(weights).map(([term, weight]) => ({ term, weight }));
+
+/**
+ * Project type signals. 3 = defining ("marketplace"), 2 = strong ("ios"),
+ * 1 = supporting ("dashboard"); negative weights are phrases that mention a
+ * type's keyword without being that type ("mobile friendly", "not a game").
+ */
+export const PROJECT_TYPE_SIGNALS: Record<Exclude<ProjectType, 'other'>, ClassifierSignal[]> = {
+  'saas-web': signals({
+    saas: 3, 'web app': 3, 'web application': 3, webapp: 3, subscription: 2, 'multi-tenant': 2, tenant: 1,
+    dashboard: 1, portal: 1, platform: 1, browser: 1, 'self-serve': 1, 'log in': 1, workspace: 1, teams: 1,
+  }),
+  'mobile-app': signals({
+    'mobile app': 3, ios: 2, android: 2, 'react native': 3, flutter: 3, 'app store': 3, 'play store': 3,
+    iphone: 2, swift: 2, kotlin: 2, mobile: 2, smartphone: 2, 'ios app': 1, 'android app': 1,
+    'push notification': 1, offline: 1,
+    'mobile friendly': -3, 'mobile responsive': -3, 'mobile-friendly': -3, 'mobile-responsive': -3,
+  }),
+  'api-backend': signals({
+    api: 3, rest: 1, graphql: 3, grpc: 3, backend: 2, microservice: 3, endpoint: 2,
+    webhook: 1, server: 1, 'rate limiting': 1, openapi: 2,
+    'api key': -1,
+  }),
+  'cli-tool': signals({
+    cli: 3, 'command line': 3, 'command-line': 3, terminal: 2, shell: 2, utility: 1, script: 1, flag: 1, subcommand: 2,
+  }),
+  'library-sdk': signals({
+    library: 3, sdk: 3, npm: 2, pypi: 2, crate: 2, 'client library': 3, bindings: 2, package: 1,
+  }),
+  'desktop-app': signals({
+    desktop: 3, electron: 3, tauri: 3, windows: 1, macos: 1, linux: 1, 'menu bar': 2, tray: 1,
+  }),
+  'ecommerce': signals({
+    ecommerce: 3, 'e-commerce': 3, 'online store': 3, storefront: 3, shop: 2, cart: 2, checkout: 2,
+    inventory: 2, shopify: 3, product: 1, order: 1, shipping: 1,
+    'app store': -2, 'play store': -2, 'data store': -2, 'key-value store': -2,
+  }),
+  'marketplace': signals({
+    marketplace: 3, 'two-sided': 3, 'multi-vendor': 3, buyer: 2, seller: 2, vendor: 2, listing: 2,
+    host: 1, guest: 1, provider: 1, booking: 1, commission: 2, payout: 1,
+  }),
+  'ai-ml': signals({
+    ai: 2, 'machine learning': 3, ml: 2, llm: 3, 'neural network': 3, 'deep learning': 3,
+    gpt: 2, embeddings: 2, inference: 2, 'fine-tuning': 2, 'computer vision': 3, nlp: 2,
+    recommendation: 1, rag: 2, 'training data': 2, 'model training': 2,
+    prediction: 2, predict: 2, classifier: 2, scores: 1,
+  }),
+  'iot': signals({
+    iot: 3, sensor: 2, device: 1, embedded: 2, firmware: 3, mqtt: 3, 'raspberry pi': 3,
+    arduino: 3, esp32: 3, telemetry: 1, 'edge device': 2, hardware: 1,
+  }),
+  'blockchain': signals({
+    blockchain: 3, web3: 3, 'smart contract': 3, solidity: 3, ethereum: 3,
+    nft: 3, defi: 3, crypto: 2, token: 1, wallet: 1, onchain: 2, 'on-chain': 2,
+  }),
+  'gaming': signals({
+    game: 3, gaming: 3, unity: 2, unreal: 3, godot: 3, multiplayer: 2, player: 1,
+    level: 1, leaderboard: 1,
+    'gamification': -1, 'not a game': -3,
+  }),
+};
+
+/**
+ * Classify a description into project types. Scores are the sum of the weights
+ * of the signals present (each counts once); confidence rises with the score
+ * (3 ≈ 53%, 6 ≈ 78%, 10 ≈ 92%) and is capped at 95.
+ */
+export function classifyProject(description: string): Classification {
+  const labels = scoreLabels(description, PROJECT_TYPE_SIGNALS);
+  const best = labels[0];
+
+  return {
+    projectType: best?.label ?? 'other',
+    labels,
+    confidence: best?.confidence ?? 0,
+    reasoning: labels.map(explainLabel),
+  };
+}
+
+/**
+ * Score text against signal tables and keep the labels that qualify, best first
+ */
+export function scoreLabels<T extends string>(
+  text: string,
+  table: Record<T, ClassifierSignal[]>,
+  minScore: number = MIN_LABEL_SCORE
+): ClassifiedLabel<T>[] {
+  const tokens = tokenize(text);
+  const scored = (Object.entries(table) as Array<[T, ClassifierSignal[]]>)
+    .map(([label, terms]) => {
+      const found = terms
+        .map((signal) => ({ signal, at: findTerm(tokens, signal.term) }))
+        .filter(({ at }) => at >= 0);
+      const score = found.reduce((sum, { signal }) => sum + signal.weight, 0);
+      // On a tie the label mentioned first wins: descriptions usually lead with what the project is
+      const first = Math.min(...found.filter(({ signal }) => signal.weight > 0).map(({ at }) => at));
+      return { label, score, confidence: toConfidence(score), signals: found.map(({ signal }) => signal), first };
+    })
+    .filter((l) => l.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.first - b.first);
+
+  const top = scored[0]?.score ?? 0;
+  return scored
+    .filter((l) => l.score >= top * SECONDARY_LABEL_RATIO)
+    .map(({ first: _first, ...label }) => label);
+}
+
+/**
+ * Lowercase words, keeping inner dots, dashes, + and # ("next.js", "multi-vendor", "c#")
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9.+#-]*/g) || []).map((t) => t.replace(/[.-]+$/, ''));
+}
+
+/**
+ * Whether the tokens contain a term; multi-word terms must appear in sequence.
+ * A trailing "s" is allowed so "sensor" also matches "sensors".
+ */
+export function containsTerm(tokens: string[], term: string): boolean {
+  return findTerm(tokens, term) >= 0;
+}
+
+function findTerm(tokens: string[], term: string): number {
+  const words = tokenize(term);
+  if (words.length === 0) return -1;
+
+  const matches = (token: string, word: string) => token === word || token === `${word}s`;
+  for (let i = 0; i + words.length <= tokens.length; i++) {
+    if (words.every((word, j) => matches(tokens[i + j], word))) return i;
+  }
+  return -1;
+}
+
+function toConfidence(score: number): number {
+  return Math.min(95, Math.round(100 * (1 - Math.exp(-score / 4))));
+}
+
+function explainLabel(label: ClassifiedLabel): string {
+  const signals = label.signals
+    .map((s) => `"${s.term}" ${s.weight > 0 ? '+' : ''}${s.weight}`)
+    .join(', ');
+  return `Project type "${label.label}" scored ${label.score} (${label.confidence}%): ${signals}`;
+}
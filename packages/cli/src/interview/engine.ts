@@ -4,44 +4,87 @@
  */
 
 import type {
+  AssumedValue,
+  FollowUp,
   InterviewAnswers,
   InterviewResult,
   Question,
+  QuestionGroup,
   DetectedContext,
   GapAnalysis,
 } from './types.js';
-import { QUESTION_GROUPS, getActiveQuestions, getNextQuestion, getProgress } from './questions.js';
+import {
+  getActiveQuestions,
+  getFollowUpQuestions,
+  getNextQuestion,
+  getProgress,
+} from './questions.js';
+import { proposeFollowUps, type FollowUpOptions } from './followups.js';
+import { loadQuestionBank } from './bank.js';
 import { detectContext, analyzeGaps, generateSummary } from './analyzer.js';
+import { localizeGroup, localizeQuestion } from './locales.js';
+import { resolveLocale } from '../core/locales.js';
 import type { TemplateContext } from '../core/index.js';
 
+/** Confidence given to a fallback value that nothing in the answers supports */
+const DEFAULT_VALUE_CONFIDENCE = 30;
+
 export interface InterviewState {
   answers: InterviewAnswers;
   currentQuestion: Question | null;
   progress: { answered: number; total: number; percentage: number };
   isComplete: boolean;
   detected: DetectedContext | null;
+  /** Answers the last answer dropped because their questions no longer apply */
+  invalidated?: string[];
+}
+
+/**
+ * An answered (or skipped) question, as shown on the review screen
+ */
+export interface ReviewItem {
+  groupId: string;
+  groupName: string;
+  questionId: string;
+  text: string;
+  /** Stored answer; null when the question was skipped */
+  answer: unknown;
+  required: boolean;
 }
 
 export class InterviewEngine {
   private answers: InterviewAnswers = {};
   private onProgress?: (state: InterviewState) => void;
-
-  constructor(options?: { onProgress?: (state: InterviewState) => void }) {
+  private locale?: string;
+  private groups: QuestionGroup[];
+
+  constructor(options?: {
+    onProgress?: (state: InterviewState) => void;
+    locale?: string;
+    /** Answers to pick up from, e.g. a saved session */
+    answers?: InterviewAnswers;
+    /** Question groups to ask (default: built-ins merged with pack and project banks) */
+    questions?: QuestionGroup[];
+  }) {
     this.onProgress = options?.onProgress;
+    this.answers = { ...options?.answers };
+    this.groups = options?.questions || loadQuestionBank();
+    // Fail fast on an unsupported locale rather than at generation time
+    this.locale = options?.locale && resolveLocale(options.locale);
   }
 
   /**
    * Get current interview state
    */
   getState(): InterviewState {
-    const currentQuestion = getNextQuestion(this.answers);
-    const progress = getProgress(this.answers);
+    const currentQuestion = getNextQuestion(this.answers, this.groups);
+    const progress = getProgress(this.answers, this.groups);
     const isComplete = currentQuestion === null;
     const detected = isComplete ? detectContext(this.answers) : null;
 
     return {
       answers: { ...this.answers },
-      currentQuestion,
+      currentQuestion: currentQuestion && localizeQuestion(currentQuestion, this.locale),
       progress,
       isComplete,
       detected,
@@ -52,7 +95,7 @@ export class InterviewEngine {
    * Answer a question
    */
   answer(questionId: string, value: unknown): InterviewState {
-    const questions = getActiveQuestions(this.answers);
+    const questions = getActiveQuestions(this.answers, this.groups);
     const question = questions.find((q) => q.id === questionId);
 
     if (!question) {
@@ -70,8 +113,46 @@ export class InterviewEngine {
     // Transform
     const transformedValue = question.transform ? question.transform(value) : value;
 
-    // Store
+    // Store, dropping answers an edit made irrelevant
+    const active = this.activeIds();
     this.answers[questionId] = transformedValue;
+    const invalidated = this.invalidate(active);
+
+    const state = this.getState();
+    if (invalidated.length > 0) state.invalidated = invalidated;
+    this.onProgress?.(state);
+
+    return state;
+  }
+
+  /**
+   * Skip an optional question; it counts as answered with null
+   */
+  skip(questionId: string): InterviewState {
+    const question = getActiveQuestions(this.answers, this.groups).find((q) => q.id === questionId);
+    if (!question) {
+      throw new Error(`Question not found: ${questionId}`);
+    }
+    if (question.required) {
+      throw new Error(`Question ${questionId} is required and cannot be skipped`);
+    }
+
+    const active = this.activeIds();
+    this.answers[questionId] = null;
+    const invalidated = this.invalidate(active);
+
+    const state = this.getState();
+    if (invalidated.length > 0) state.invalidated = invalidated;
+    this.onProgress?.(state);
+
+    return state;
+  }
+
+  /**
+   * Remove an answer so the question is asked again
+   */
+  clearAnswer(questionId: string): InterviewState {
+    delete this.answers[questionId];
 
     const state = this.getState();
     this.onProgress?.(state);
@@ -79,6 +160,36 @@ export class InterviewEngine {
     return state;
   }
 
+  /**
+   * The active question before the given one (or before the end of the interview)
+   */
+  getPreviousQuestion(questionId?: string): Question | null {
+    const questions = getActiveQuestions(this.answers, this.groups);
+    const index = questionId ? questions.findIndex((q) => q.id === questionId) : questions.length;
+    const previous = index > 0 ? questions[index - 1] : undefined;
+    return previous ? localizeQuestion(previous, this.locale) : null;
+  }
+
+  /**
+   * Answered and skipped questions in interview order, for review before completing
+   */
+  getReview(): ReviewItem[] {
+    return this.getQuestionGroups()
+      .filter((group) => group.isActive)
+      .flatMap((group) =>
+        group.questions
+          .filter((q) => this.answers[q.id] !== undefined)
+          .map((q) => ({
+            groupId: group.id,
+            groupName: group.name,
+            questionId: q.id,
+            text: q.text,
+            answer: this.answers[q.id],
+            required: q.required,
+          }))
+      );
+  }
+
   /**
    * Set multiple answers at once
    */
@@ -95,6 +206,63 @@ export class InterviewEngine {
     return state;
   }
 
+  /**
+   * Have a model review the answers so far and add follow-up questions to the
+   * end of a group. Returns the questions added, in the interview locale.
+   */
+  async proposeFollowUps(groupId: string, options: FollowUpOptions): Promise<Question[]> {
+    const group = this.groups.find((g) => g.id === groupId);
+    if (!group) {
+      throw new Error(`Question group not found: ${groupId}`);
+    }
+
+    const followUps = await proposeFollowUps(this.answers, analyzeGaps(this.answers), localizeGroup(group, this.locale), {
+      locale: this.locale,
+      groups: this.groups,
+      ...options,
+    });
+    this.addFollowUps(followUps);
+
+    const added = new Set(followUps.map((f) => f.id));
+    return getFollowUpQuestions(this.answers, groupId).filter((q) => added.has(q.id));
+  }
+
+  /**
+   * Add follow-up questions, e.g. ones proposed elsewhere
+   */
+  addFollowUps(followUps: FollowUp[]): InterviewState {
+    const existing = new Set((this.answers.followUps || []).map((f) => f.id));
+    this.answers.followUps = [...(this.answers.followUps || []), ...followUps.filter((f) => !existing.has(f.id))];
+
+    const state = this.getState();
+    this.onProgress?.(state);
+
+    return state;
+  }
+
+  private activeIds(): Set<string> {
+    return new Set(getActiveQuestions(this.answers, this.groups).map((q) => q.id));
+  }
+
+  /**
+   * Drop answers to questions that were active and no longer are, e.g. the
+   * compliance answers once audience and payments no longer call for them.
+   * Repeats, since dropping one answer can deactivate further questions.
+   */
+  private invalidate(previouslyActive: Set<string>): string[] {
+    const invalidated: string[] = [];
+    for (;;) {
+      const active = this.activeIds();
+      const stale = [...previouslyActive].filter((id) => !active.has(id) && this.answers[id] !== undefined);
+      if (stale.length === 0) return invalidated;
+
+      for (const id of stale) {
+        delete this.answers[id];
+        invalidated.push(id);
+      }
+    }
+  }
+
   /**
    * Reset the interview
    */
@@ -112,16 +280,22 @@ export class InterviewEngine {
     questions: Question[];
     isActive: boolean;
   }> {
-    return QUESTION_GROUPS.map((group) => {
+    return this.groups.map((group) => {
       const isActive = !group.condition || group.condition(this.answers);
       const questions = isActive
-        ? group.questions.filter((q) => !q.condition || q.condition(this.answers))
+        ? [
+            ...group.questions
+              .filter((q) => !q.condition || q.condition(this.answers))
+              .map((q) => localizeQuestion(q, this.locale)),
+            ...getFollowUpQuestions(this.answers, group.id),
+          ]
         : [];
+      const { name, description } = localizeGroup(group, this.locale);
 
       return {
         id: group.id,
-        name: group.name,
-        description: group.description,
+        name,
+        description,
         questions,
         isActive,
       };
@@ -136,61 +310,95 @@ export class InterviewEngine {
     const gaps = analyzeGaps(this.answers);
     const summary = generateSummary(this.answers, detected);
 
+    // Only apply high-confidence assumptions for missing fields
+    const appliedAssumptions = gaps.assumptions.filter(
+      (assumption) => this.answers[assumption.field] == null && assumption.confidence >= 70
+    );
+
     // Build template context
-    const templateContext = this.buildTemplateContext(detected, gaps);
+    const assumedValues: AssumedValue[] = [];
+    const templateContext = this.buildTemplateContext(detected, appliedAssumptions, assumedValues);
 
     return {
       answers: { ...this.answers },
       detected,
       gaps,
+      appliedAssumptions,
+      assumedValues,
       templateContext,
       summary,
     };
   }
 
   /**
-   * Build template context from answers and detected info
+   * Build template context from answers and detected info. Every value not
+   * taken from an answer is recorded in `assumed`, for the documents' open
+   * questions.
    */
   private buildTemplateContext(
     detected: DetectedContext,
-    gaps: GapAnalysis
+    assumptions: GapAnalysis['assumptions'],
+    assumed: AssumedValue[]
   ): Record<string, unknown> {
     const answers = this.answers;
+    const inferred = new Map(assumptions.map((a) => [a.field, a]));
+
+    // The answer if there is one, else an applied assumption, the detected value or the fallback
+    const resolve = <T>(field: string, fallback: T, detection?: { confidence: number }): T => {
+      const answer = answers[field];
+      if (answer !== undefined && answer !== null && answer !== '') return answer as T;
+
+      const assumption = inferred.get(field);
+      const value = assumption ? (true as T) : fallback;
+      assumed.push({
+        field,
+        value,
+        source: assumption ? 'inferred' : detection ? 'detected' : 'default',
+        confidence: assumption?.confidence ?? detection?.confidence ?? DEFAULT_VALUE_CONFIDENCE,
+        question: this.questionText(field),
+      });
+      return value;
+    };
 
-    // Apply assumptions for missing fields
-    const effectiveAnswers = { ...answers };
-    for (const assumption of gaps.assumptions) {
-      if (effectiveAnswers[assumption.field] === undefined) {
-        // Only apply high-confidence assumptions
-        if (assumption.confidence >= 70) {
-          effectiveAnswers[assumption.field] = true;
-        }
-      }
-    }
+    const projectName = resolve('projectName', 'Untitled Project');
+    const projectType = resolve('projectType', detected.projectType, detected);
+    const scope = resolve('scope', detected.suggestedScope, detected);
+    const audience = resolve('audience', detected.suggestedAudience, detected);
+
+    // Answers to question-bank and follow-up questions, by answer key; the fields below take precedence
+    const followUps = (answers.followUps || []).filter((f) => answers[f.id] != null && answers[f.id] !== '');
+    const bankAnswers = Object.fromEntries(
+      [...this.groups.flatMap((g) => g.questions), ...followUps]
+        .filter((q) => answers[q.id] != null && answers[q.id] !== '')
+        .map((q) => [q.id, answers[q.id]])
+    );
 
     return {
+      ...bankAnswers,
+      followUps: followUps.map((f) => ({ question: f.text, answer: answers[f.id] })),
+
       // Core
-      projectName: answers.projectName || 'Untitled Project',
+      projectName,
       projectDescription: answers.projectDescription || '',
-      projectType: answers.projectType || detected.projectType,
+      projectType,
 
       // Scope and audience
-      scope: answers.scope || detected.suggestedScope,
-      audience: answers.audience || detected.suggestedAudience,
+      scope,
+      audience,
 
       // Technical
       techStack: detected.detectedTechnologies,
-      hasFrontend: effectiveAnswers.hasFrontend ?? true,
-      hasBackend: effectiveAnswers.hasBackend ?? true,
-      hasDatabase: effectiveAnswers.hasDatabase ?? true,
-      hasAuth: effectiveAnswers.hasAuth ?? false,
-      hasPayments: effectiveAnswers.hasPayments ?? false,
-      deploymentTarget: answers.deploymentTarget || 'Cloud (AWS/GCP/Azure)',
+      hasFrontend: resolve('hasFrontend', true),
+      hasBackend: resolve('hasBackend', true),
+      hasDatabase: resolve('hasDatabase', true),
+      hasAuth: resolve('hasAuth', false),
+      hasPayments: resolve('hasPayments', false),
+      deploymentTarget: resolve('deploymentTarget', 'Cloud (AWS/GCP/Azure)'),
 
       // Business
-      teamSize: answers.teamSize || 'Small (2-5)',
-      timeline: answers.timeline || 'TBD',
-      monetization: answers.monetization || 'Not specified',
+      teamSize: resolve('teamSize', 'Small (2-5)'),
+      timeline: resolve('timeline', 'TBD'),
+      monetization: resolve('monetization', 'Not specified'),
       competitors: answers.competitorNames || [],
 
       // Features
@@ -199,30 +407,44 @@ export class InterviewEngine {
       mvpFeatures: answers.mvpFeatures || [],
 
       // Compliance
-      needsCompliance: answers.needsCompliance ?? false,
+      needsCompliance: resolve('needsCompliance', false),
       complianceTypes: answers.complianceTypes || [],
 
       // Metadata
+      locale: this.locale,
       complexity: detected.complexity,
       generatedAt: new Date().toISOString(),
       confidence: detected.confidence,
 
       // For template conditionals
-      isEnterprise: answers.audience === 'enterprise',
-      isStartup: answers.audience === 'startup',
-      isSaaS: answers.projectType === 'saas-web',
-      isMobile: answers.projectType === 'mobile-app',
-      isAPI: answers.projectType === 'api-backend',
+      isEnterprise: audience === 'enterprise',
+      isStartup: audience === 'startup',
+      isSaaS: projectType === 'saas-web',
+      isMobile: projectType === 'mobile-app',
+      isAPI: projectType === 'api-backend',
       hasCompetitors: (answers.competitorNames?.length || 0) > 0,
+
+      // Open questions, in the order the values were resolved
+      assumptions: assumed.map((a) => ({ ...a, value: describeValue(a.value) })),
     };
   }
 
+  /**
+   * The localized question for an answer key, or the key itself
+   */
+  private questionText(field: string): string {
+    const question = this.groups.flatMap((g) => g.questions).find((q) => q.id === field);
+    return question ? localizeQuestion(question, this.locale).text : field;
+  }
+
   /**
    * Convert to TemplateContext for document generation
    */
   toTemplateContext(): TemplateContext {
     const result = this.complete();
     return {
+      // Carry every computed field through so templates can bind to them
+      ...result.templateContext,
       projectName: result.templateContext.projectName as string,
       projectDescription: result.templateContext.projectDescription as string,
       scope: result.templateContext.scope as 'mvp' | 'standard' | 'comprehensive',
@@ -232,10 +454,17 @@ export class InterviewEngine {
       features: result.templateContext.features as string[],
       timeline: result.templateContext.timeline as string,
       team: result.templateContext.teamSize as string,
+      locale: result.templateContext.locale as string | undefined,
     };
   }
 }
 
+function describeValue(value: unknown): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
+
 /**
  * Quick interview - just the essentials
  */
@@ -0,0 +1,281 @@
+/**
+ * Question Expressions
+ * A small, side-effect-free expression language for YAML question banks:
+ *
+ *   projectType == 'api-backend' && hasDatabase
+ *   'HIPAA' in complianceTypes || audience in ['enterprise', 'business']
+ *   len(value) >= 20
+ *   split(value, ',')
+ *
+ * Identifiers read answers (dotted paths allowed); `value` is the answer being
+ * validated or transformed. Only the functions in FUNCTIONS can be called.
+ */
+
+export type ExpressionScope = Record<string, unknown>;
+
+export type CompiledExpression = (scope: ExpressionScope) => unknown;
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  len: (v) => (typeof v === 'string' || Array.isArray(v) ? v.length : 0),
+  lower: (v) => String(v ?? '').toLowerCase(),
+  upper: (v) => String(v ?? '').toUpperCase(),
+  trim: (v) => String(v ?? '').trim(),
+  split: (v, sep = ',') =>
+    typeof v === 'string' ? v.split(String(sep)).map((s) => s.trim()).filter(Boolean) : Array.isArray(v) ? v : [],
+  includes: (list, item) => (Array.isArray(list) || typeof list === 'string' ? list.includes(item as string) : false),
+  matches: (v, pattern) => typeof v === 'string' && new RegExp(String(pattern)).test(v),
+  number: (v) => Number(v),
+  exists: (v) => v !== undefined && v !== null && v !== '',
+};
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '(', ')', '[', ']', ',', '.'];
+
+/**
+ * Compile an expression once; throws on syntax errors so a bad question bank fails at load time
+ */
+export function compileExpression(source: string): CompiledExpression {
+  try {
+    const parser = new Parser(tokenize(source));
+    const expression = parser.parseExpression();
+    parser.expectEnd();
+    return expression;
+  } catch (error) {
+    throw new Error(`Invalid expression "${source}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Evaluate an expression against a scope
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+  return compileExpression(source)(scope);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9]/.test(ch)) {
+      const match = source.slice(i).match(/^[0-9]+(\.[0-9]+)?/)!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        value += source[i] === '\\' ? source[++i] : source[i];
+        i++;
+      }
+      if (i >= source.length) throw new Error('unterminated string');
+      tokens.push({ type: 'string', value });
+      i++;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+      tokens.push({ type: 'name', value: match[0] });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find((o) => source.startsWith(o, i));
+      if (!op) throw new Error(`unexpected character "${ch}"`);
+      tokens.push({ type: 'op', value: op });
+      i += op.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser producing closures. Precedence, lowest first:
+ * ||, &&, == != in, < <= > >=, !, primary
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseExpression(): CompiledExpression {
+    return this.parseOr();
+  }
+
+  expectEnd(): void {
+    if (this.pos < this.tokens.length) {
+      throw new Error(`unexpected "${this.tokens[this.pos].value}"`);
+    }
+  }
+
+  private parseOr(): CompiledExpression {
+    let left = this.parseAnd();
+    while (this.acceptOp('||')) {
+      const l = left;
+      const right = this.parseAnd();
+      left = (scope) => truthy(l(scope)) || truthy(right(scope));
+    }
+    return left;
+  }
+
+  private parseAnd(): CompiledExpression {
+    let left = this.parseEquality();
+    while (this.acceptOp('&&')) {
+      const l = left;
+      const right = this.parseEquality();
+      left = (scope) => truthy(l(scope)) && truthy(right(scope));
+    }
+    return left;
+  }
+
+  private parseEquality(): CompiledExpression {
+    let left = this.parseComparison();
+    for (;;) {
+      const l = left;
+      if (this.acceptOp('==')) {
+        const right = this.parseComparison();
+        left = (scope) => l(scope) === right(scope);
+      } else if (this.acceptOp('!=')) {
+        const right = this.parseComparison();
+        left = (scope) => l(scope) !== right(scope);
+      } else if (this.acceptName('in')) {
+        const right = this.parseComparison();
+        left = (scope) => {
+          const haystack = right(scope);
+          return Array.isArray(haystack) || typeof haystack === 'string'
+            ? haystack.includes(l(scope) as string)
+            : false;
+        };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseComparison(): CompiledExpression {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = ['<=', '>=', '<', '>'].find((o) => this.acceptOp(o));
+      if (!op) return left;
+
+      const l = left;
+      const right = this.parseUnary();
+      left = (scope) => {
+        const a = l(scope) as number;
+        const b = right(scope) as number;
+        switch (op) {
+          case '<=': return a <= b;
+          case '>=': return a >= b;
+          case '<': return a < b;
+          default: return a > b;
+        }
+      };
+    }
+  }
+
+  private parseUnary(): CompiledExpression {
+    if (this.acceptOp('!')) {
+      const operand = this.parseUnary();
+      return (scope) => !truthy(operand(scope));
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): CompiledExpression {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new Error('unexpected end of expression');
+
+    if (token.type === 'number' || token.type === 'string') {
+      const value = token.value;
+      return () => value;
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      const inner = this.parseExpression();
+      this.expectOp(')');
+      return inner;
+    }
+
+    if (token.type === 'op' && token.value === '[') {
+      const items: CompiledExpression[] = [];
+      if (!this.acceptOp(']')) {
+        do items.push(this.parseExpression());
+        while (this.acceptOp(','));
+        this.expectOp(']');
+      }
+      return (scope) => items.map((item) => item(scope));
+    }
+
+    if (token.type === 'name') {
+      if (token.value === 'true') return () => true;
+      if (token.value === 'false') return () => false;
+      if (token.value === 'null') return () => null;
+
+      if (this.acceptOp('(')) {
+        const fn = FUNCTIONS[token.value];
+        if (!fn) throw new Error(`unknown function "${token.value}"`);
+
+        const args: CompiledExpression[] = [];
+        if (!this.acceptOp(')')) {
+          do args.push(this.parseExpression());
+          while (this.acceptOp(','));
+          this.expectOp(')');
+        }
+        return (scope) => fn(...args.map((arg) => arg(scope)));
+      }
+
+      const path = [token.value];
+      while (this.acceptOp('.')) {
+        const next = this.tokens[this.pos++];
+        if (next?.type !== 'name') throw new Error('expected a name after "."');
+        path.push(next.value);
+      }
+      return (scope) => lookup(scope, path);
+    }
+
+    throw new Error(`unexpected "${token.value}"`);
+  }
+
+  private acceptOp(op: string): boolean {
+    const token = this.tokens[this.pos];
+    if (token?.type === 'op' && token.value === op) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptName(name: string): boolean {
+    const token = this.tokens[this.pos];
+    if (token?.type === 'name' && token.value === name) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.acceptOp(op)) throw new Error(`expected "${op}"`);
+  }
+}
+
+function lookup(scope: ExpressionScope, path: string[]): unknown {
+  let value: unknown = scope;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
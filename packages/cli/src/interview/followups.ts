@@ -0,0 +1,155 @@
+/**
+ * Model-Proposed Follow-Up Questions
+ * After a question group, a model reviews the answers and gap analysis and asks
+ * what the fixed question bank could not anticipate
+ */
+
+import { z } from 'zod';
+import { ModelRegistry } from '../enterprise/models/registry.js';
+import type { TemplatePrompt } from '../enterprise/templates/types.js';
+import { buildSectionRequest, describeContext, resolvePromptModel } from '../core/ai.js';
+import { LANGUAGE_NAMES, resolveLocale } from '../core/locales.js';
+import type { FollowUp, GapAnalysis, InterviewAnswers, QuestionGroup } from './types.js';
+import { QUESTION_GROUPS } from './questions.js';
+
+export interface FollowUpOptions {
+  /** Model alias or full model ID (see MODEL_ALIASES) */
+  model: string;
+  /** Registry to route completions through (defaults to a fresh registry) */
+  registry?: ModelRegistry;
+  /** Most questions to propose per group (default: 3) */
+  max?: number;
+  /** Language to ask in */
+  locale?: string;
+  /** Prompt override */
+  prompt?: TemplatePrompt;
+  /** Question groups whose IDs proposals must not reuse (default: built-ins) */
+  groups?: QuestionGroup[];
+}
+
+export const DEFAULT_FOLLOW_UP_LIMIT = 3;
+
+/**
+ * Prompt used to propose follow-up questions after a question group
+ */
+export const DEFAULT_FOLLOW_UP_PROMPT: TemplatePrompt = {
+  id: 'follow-ups',
+  section: '*',
+  system:
+    'You are a senior product manager and solutions architect running a project intake interview. ' +
+    'You ask short, specific questions whose answers change what the project documentation will say.' +
+    '{{#if language}} Write the questions in {{language}}.{{/if}}',
+  user: `Answers so far:
+{{contextBlock}}
+{{#if gapsBlock}}
+
+Gaps and assumptions found so far:
+{{gapsBlock}}
+{{/if}}
+
+The "{{group}}" part of the interview has just finished. Propose up to {{max}} follow-up questions about it that the answers leave open and that matter for this kind of project (for example expected peak requests per second for an API backend, or data residency for a healthcare app). Do not repeat anything already answered. Propose none if nothing important is open.
+
+Reply with only a JSON array, no prose: [{"id": "camelCaseAnswerKey", "text": "Question?", "hint": "optional example answer"}]`,
+  model: 'auto',
+  temperature: 0.3,
+  maxTokens: 1024,
+};
+
+const ProposalSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    text: z.string().min(1),
+    hint: z.string().optional(),
+  })
+);
+
+/**
+ * Ask a model for follow-up questions after a group. Proposals whose answer key
+ * clashes with a built-in question or an existing answer are dropped.
+ */
+export async function proposeFollowUps(
+  answers: InterviewAnswers,
+  gaps: GapAnalysis,
+  group: Pick<QuestionGroup, 'id' | 'name'>,
+  options: FollowUpOptions
+): Promise<FollowUp[]> {
+  const registry = options.registry || new ModelRegistry();
+  const prompt = options.prompt || DEFAULT_FOLLOW_UP_PROMPT;
+  const max = options.max ?? DEFAULT_FOLLOW_UP_LIMIT;
+  if (max <= 0) return [];
+
+  const { followUps: _asked, ...rest } = answers;
+  const locale = options.locale ? resolveLocale(options.locale) : undefined;
+  const request = buildSectionRequest(prompt, {
+    contextBlock: [describeContext(rest), describeFollowUps(answers)].filter(Boolean).join('\n'),
+    gapsBlock: describeGaps(gaps),
+    group: group.name,
+    max,
+    language: locale && locale !== 'en' ? LANGUAGE_NAMES[locale] : undefined,
+  });
+
+  const response = await registry.completeWithAlias(resolvePromptModel(prompt, options.model), request);
+  return parseFollowUps(response.content, answers, group.id, options.groups).slice(0, max);
+}
+
+/**
+ * Parse a model's proposal into follow-ups, ignoring anything that is not valid
+ */
+export function parseFollowUps(
+  content: string,
+  answers: InterviewAnswers,
+  group: string,
+  groups: QuestionGroup[] = QUESTION_GROUPS
+): FollowUp[] {
+  const json = content.match(/\[[\s\S]*\]/)?.[0];
+  if (!json) return [];
+
+  let proposals: z.infer<typeof ProposalSchema>;
+  try {
+    proposals = ProposalSchema.parse(JSON.parse(json));
+  } catch {
+    return [];
+  }
+
+  const taken = new Set([
+    ...groups.flatMap(g => g.questions.map(q => q.id)),
+    ...Object.keys(answers),
+    ...(answers.followUps || []).map(f => f.id),
+    'followUps',
+  ]);
+
+  const followUps: FollowUp[] = [];
+  for (const proposal of proposals) {
+    const id = answerKey(proposal.id);
+    if (!id || taken.has(id)) continue;
+    taken.add(id);
+    followUps.push({ id, group, text: proposal.text.trim(), hint: proposal.hint?.trim() || undefined });
+  }
+  return followUps;
+}
+
+function describeFollowUps(answers: InterviewAnswers): string {
+  return (answers.followUps || [])
+    .filter(f => answers[f.id] !== undefined)
+    .map(f => `- ${f.text} ${String(answers[f.id])}`)
+    .join('\n');
+}
+
+function describeGaps(gaps: GapAnalysis): string {
+  return [
+    ...gaps.missingRequired.map(m => `- Missing: ${m}`),
+    ...gaps.missingRecommended.map(m => `- Not answered: ${m}`),
+    ...gaps.assumptions.map(a => `- Assumed (${a.confidence}%): ${a.assumption}`),
+  ].join('\n');
+}
+
+/**
+ * Normalize a proposed ID ("peak_rps", "Peak RPS") to a camelCase answer key
+ */
+function answerKey(id: string): string {
+  const words = id.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join('')
+    .replace(/^[0-9]+/, '');
+}
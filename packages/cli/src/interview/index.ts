@@ -7,6 +7,7 @@ export {
   InterviewEngine,
   quickInterview,
   type InterviewState,
+  type ReviewItem,
   type InterviewAnswers,
   type InterviewResult,
   type Question,
@@ -14,13 +15,105 @@ export {
   type GapAnalysis,
 } from './engine.js';
 
+export {
+  proposeFollowUps,
+  parseFollowUps,
+  DEFAULT_FOLLOW_UP_PROMPT,
+  DEFAULT_FOLLOW_UP_LIMIT,
+  type FollowUpOptions,
+} from './followups.js';
+
 export {
   QUESTION_GROUPS,
   getActiveQuestions,
   getNextQuestion,
   getProgress,
+  getFollowUpQuestions,
 } from './questions.js';
 
+export {
+  SessionStore,
+  createSessionStore,
+  summarizeSession,
+  SESSIONS_DIR,
+  type InterviewSession,
+  type InterviewSessionSummary,
+  type OpenSession,
+  type SessionStoreOptions,
+} from './sessions.js';
+
+export {
+  localizeQuestion,
+  localizeGroup,
+  type QuestionTranslation,
+  type InterviewCatalog,
+} from './locales.js';
+
+export {
+  scanRepository,
+  answersFromScan,
+  DEFAULT_SCAN_CONFIDENCE,
+  type RepositoryScan,
+  type ScanFinding,
+  type ScannedField,
+} from './scanner.js';
+
+export {
+  readAnswersFile,
+  parseAnswers,
+  applyAnswers,
+  answersTemplate,
+  type AnswersReport,
+  type AnswerError,
+} from './answers.js';
+
+export {
+  createIntake,
+  serializeIntake,
+  readIntake,
+  parseIntake,
+  renderIntakeReport,
+  writeIntake,
+  INTAKE_VERSION,
+  INTAKE_FILENAME,
+  INTAKE_REPORT_FILENAME,
+  type IntakeRecord,
+  type IntakeTranscriptEntry,
+  type IntakeAssumption,
+} from './intake.js';
+
+export {
+  loadQuestionBank,
+  loadQuestionFile,
+  parseQuestionBank,
+  compileQuestionGroups,
+  mergeQuestionGroups,
+  PROJECT_QUESTIONS_PATH,
+  type BankGroup,
+  type QuestionBankOptions,
+  type QuestionGroupDefinition,
+  type QuestionDefinition,
+} from './bank.js';
+
+export {
+  compileExpression,
+  evaluateExpression,
+  type CompiledExpression,
+  type ExpressionScope,
+} from './expressions.js';
+
+export {
+  classifyProject,
+  scoreLabels,
+  tokenize,
+  containsTerm,
+  PROJECT_TYPE_SIGNALS,
+  MIN_LABEL_SCORE,
+  type Classification,
+  type ClassifiedLabel,
+  type ClassifierSignal,
+} from './classifier.js';
+
 export {
   detectContext,
   analyzeGaps,
@@ -35,4 +128,6 @@ export type {
   Audience,
   Scope,
   QuestionGroup,
+  FollowUp,
+  AssumedValue,
 } from './types.js';
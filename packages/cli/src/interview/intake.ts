@@ -0,0 +1,240 @@
+/**
+ * Intake Records
+ * The completed interview saved as a versioned intake.yaml next to the
+ * generated documents, with a readable report, so the suite can be
+ * regenerated from it later exactly as it was
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import yaml from 'js-yaml';
+import type { DetectedContext, GapAnalysis, InterviewAnswers } from './types.js';
+import type { InterviewEngine } from './engine.js';
+import type { TemplateContext } from '../core/index.js';
+
+export const INTAKE_VERSION = 1;
+export const INTAKE_FILENAME = 'intake.yaml';
+export const INTAKE_REPORT_FILENAME = 'intake-report.md';
+
+/**
+ * A question as it was asked and answered
+ */
+export interface IntakeTranscriptEntry {
+  group: string;
+  questionId: string;
+  question: string;
+  /** null when the question was skipped */
+  answer: unknown;
+}
+
+export interface IntakeAssumption {
+  field: string;
+  assumption: string;
+  confidence: number;
+  /** Whether it filled in the field for generation */
+  applied: boolean;
+}
+
+export interface IntakeRecord {
+  version: number;
+  generatedAt: string;
+  projectName: string;
+  locale?: string;
+  transcript: IntakeTranscriptEntry[];
+  answers: InterviewAnswers;
+  detected: DetectedContext;
+  gaps: Omit<GapAnalysis, 'assumptions'>;
+  assumptions: IntakeAssumption[];
+  /** Context the documents were rendered from; regeneration uses it as is */
+  context: TemplateContext;
+}
+
+/**
+ * Record a completed interview. Pass the context the documents were rendered
+ * from so the record reproduces them.
+ */
+export function createIntake(
+  engine: InterviewEngine,
+  context: TemplateContext = engine.toTemplateContext()
+): IntakeRecord {
+  const result = engine.complete();
+  const { assumptions, ...gaps } = result.gaps;
+
+  return {
+    version: INTAKE_VERSION,
+    generatedAt: typeof context.generatedAt === 'string' ? context.generatedAt : new Date().toISOString(),
+    projectName: context.projectName,
+    locale: context.locale,
+    transcript: engine.getReview().map((item) => ({
+      group: item.groupName,
+      questionId: item.questionId,
+      question: item.text,
+      answer: item.answer,
+    })),
+    answers: result.answers,
+    detected: result.detected,
+    gaps,
+    assumptions: assumptions.map((assumption) => ({
+      ...assumption,
+      applied: result.appliedAssumptions.includes(assumption),
+    })),
+    context,
+  };
+}
+
+/**
+ * Serialize an intake record to YAML
+ */
+export function serializeIntake(record: IntakeRecord): string {
+  const header = [
+    `# Blueprint intake for ${record.projectName}`,
+    '# Regenerate the documents with: blueprint generate --from-intake <this file>',
+  ].join('\n');
+
+  return `${header}\n${yaml.dump(record, { indent: 2, lineWidth: 120, noRefs: true, skipInvalid: true })}`;
+}
+
+/**
+ * Read an intake record from a file
+ */
+export function readIntake(path: string): IntakeRecord {
+  return parseIntake(readFileSync(path, 'utf-8'), path);
+}
+
+/**
+ * Parse and check an intake record
+ */
+export function parseIntake(content: string, source?: string): IntakeRecord {
+  const where = source ? ` in ${source}` : '';
+  let data: unknown;
+  try {
+    data = yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid intake file${where}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid intake file${where}: expected an intake record`);
+  }
+
+  const record = data as Partial<IntakeRecord>;
+  if (record.version !== INTAKE_VERSION) {
+    throw new Error(
+      `Unsupported intake version ${record.version ?? '(none)'}${where}; expected version ${INTAKE_VERSION}`
+    );
+  }
+
+  const context = record.context;
+  if (!context || typeof context !== 'object' || typeof context.projectName !== 'string') {
+    throw new Error(`Invalid intake file${where}: missing the template context`);
+  }
+
+  return {
+    ...record,
+    transcript: record.transcript || [],
+    answers: record.answers || {},
+    assumptions: record.assumptions || [],
+  } as IntakeRecord;
+}
+
+/**
+ * Human-readable report of an intake: every answer, what was detected and
+ * why, which assumptions were applied, and what is still missing
+ */
+export function renderIntakeReport(record: IntakeRecord): string {
+  const { detected, gaps } = record;
+  const lines: string[] = [];
+
+  lines.push(`# Intake Report: ${record.projectName}`);
+  lines.push('');
+  lines.push(`Generated ${record.generatedAt} (intake version ${record.version}).`);
+  lines.push(`Regenerate the documents with \`blueprint generate --from-intake ${INTAKE_FILENAME}\`.`);
+  lines.push('');
+
+  lines.push('## Answers');
+  lines.push('');
+  if (record.transcript.length > 0) {
+    lines.push('| Group | Question | Answer |');
+    lines.push('|-------|----------|--------|');
+    for (const entry of record.transcript) {
+      lines.push(`| ${cell(entry.group)} | ${cell(entry.question)} | ${cell(formatAnswer(entry.answer))} |`);
+    }
+  } else {
+    lines.push('No questions were answered.');
+  }
+  lines.push('');
+
+  const others = detected.projectTypes.filter((type) => type !== detected.projectType);
+  lines.push('## Detected Context');
+  lines.push('');
+  lines.push(`- **Project type:** ${detected.projectType}${others.length ? ` (also ${others.join(', ')})` : ''}`);
+  lines.push(`- **Complexity:** ${detected.complexity}`);
+  lines.push(`- **Suggested scope:** ${detected.suggestedScope}`);
+  lines.push(`- **Suggested audience:** ${detected.suggestedAudience}`);
+  lines.push(`- **Technologies:** ${detected.detectedTechnologies.join(', ') || 'none detected'}`);
+  lines.push(`- **Features:** ${detected.detectedFeatures.join(', ') || 'none detected'}`);
+  lines.push(`- **Confidence:** ${detected.confidence}%`);
+  if (detected.reasoning.length > 0) {
+    lines.push('');
+    lines.push('### Reasoning');
+    lines.push('');
+    lines.push(detected.reasoning.map((r) => `- ${r}`).join('\n'));
+  }
+  lines.push('');
+
+  lines.push('## Assumptions');
+  lines.push('');
+  if (record.assumptions.length > 0) {
+    lines.push('| Field | Assumption | Confidence | Applied |');
+    lines.push('|-------|------------|------------|---------|');
+    for (const a of record.assumptions) {
+      lines.push(`| ${cell(a.field)} | ${cell(a.assumption)} | ${a.confidence}% | ${a.applied ? 'Yes' : 'No'} |`);
+    }
+  } else {
+    lines.push('None - every field the assumptions cover was answered.');
+  }
+  lines.push('');
+
+  lines.push('## Gaps');
+  lines.push('');
+  lines.push(`**Completeness:** ${gaps.completenessScore}%`);
+  lines.push('');
+  lines.push(`- **Missing required:** ${gaps.missingRequired.join(', ') || 'none'}`);
+  lines.push(`- **Missing recommended:** ${gaps.missingRecommended.join(', ') || 'none'}`);
+  if (gaps.suggestions.length > 0) {
+    lines.push('');
+    lines.push('### Suggestions');
+    lines.push('');
+    lines.push(gaps.suggestions.map((s) => `- ${s}`).join('\n'));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write intake.yaml and the intake report to a directory
+ */
+export function writeIntake(record: IntakeRecord, outputDir: string): string[] {
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+
+  const intakePath = join(outputDir, INTAKE_FILENAME);
+  const reportPath = join(outputDir, INTAKE_REPORT_FILENAME);
+  writeFileSync(intakePath, serializeIntake(record));
+  writeFileSync(reportPath, renderIntakeReport(record));
+
+  return [intakePath, reportPath];
+}
+
+function formatAnswer(answer: unknown): string {
+  if (answer === null || answer === undefined) return '_skipped_';
+  if (typeof answer === 'boolean') return answer ? 'Yes' : 'No';
+  if (Array.isArray(answer)) return answer.map(formatAnswer).join(', ');
+  if (typeof answer === 'object') return JSON.stringify(answer);
+  return String(answer);
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
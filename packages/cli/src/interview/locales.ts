@@ -0,0 +1,267 @@
+/**
+ * Interview Translations
+ * Localized question text, hints and option labels. Answers keep the English
+ * option values so transforms and detection work the same in every locale.
+ */
+
+import { resolveLocale, type Locale } from '../core/locales.js';
+import type { Question, QuestionGroup } from './types.js';
+
+export interface QuestionTranslation {
+  text: string;
+  hint?: string;
+  /** Labels for the question's options, in the same order */
+  options?: string[];
+}
+
+export interface InterviewCatalog {
+  groups: Record<string, { name: string; description: string }>;
+  questions: Record<string, QuestionTranslation>;
+}
+
+const DE: InterviewCatalog = {
+  groups: {
+    core: { name: 'Projektgrundlagen', description: 'Erzählen Sie uns von Ihrem Projekt' },
+    technical: { name: 'Technische Details', description: 'Helfen Sie uns, die technischen Aspekte zu verstehen' },
+    business: { name: 'Geschäftskontext', description: 'Erzählen Sie uns von Ihren Geschäftszielen' },
+    scope: { name: 'Dokumentationsumfang', description: 'Wie umfassend soll die Dokumentation sein?' },
+    compliance: { name: 'Compliance & Sicherheit', description: 'Sicherheits- und regulatorische Anforderungen' },
+  },
+  questions: {
+    projectName: { text: 'Wie heißt Ihr Projekt?' },
+    projectDescription: {
+      text: 'Beschreiben Sie Ihr Projekt ausführlich. Welches Problem löst es? Für wen ist es gedacht?',
+      hint: 'Je mehr Details Sie angeben, desto besser wird die Dokumentation auf Ihre Bedürfnisse zugeschnitten.',
+    },
+    projectType: {
+      text: 'Um welche Art von Projekt handelt es sich?',
+      options: [
+        'SaaS-Webanwendung',
+        'Mobile App (iOS/Android)',
+        'API / Backend-Dienst',
+        'CLI-Werkzeug',
+        'Bibliothek / SDK',
+        'Desktop-Anwendung',
+        'E-Commerce-Plattform',
+        'Marktplatz',
+        'KI/ML-Anwendung',
+        'IoT-System',
+        'Blockchain / Web3',
+        'Spiel',
+        'Sonstiges',
+      ],
+    },
+    techStack: {
+      text: 'Welche Technologien verwenden Sie oder planen Sie zu verwenden?',
+      hint: 'Alle zutreffenden auswählen',
+    },
+    hasFrontend: { text: 'Hat Ihr Projekt eine Benutzeroberfläche (Web, Mobil oder Desktop)?' },
+    hasBackend: { text: 'Benötigt Ihr Projekt ein Backend bzw. einen Server?' },
+    hasDatabase: { text: 'Wird Ihr Projekt eine Datenbank verwenden?' },
+    hasAuth: { text: 'Benötigt Ihr Projekt eine Benutzerauthentifizierung?' },
+    hasPayments: { text: 'Wird Ihr Projekt Zahlungen oder Abonnements abwickeln?' },
+    deploymentTarget: {
+      text: 'Wo wird das Projekt bereitgestellt?',
+      options: [
+        'Cloud (AWS/GCP/Azure)',
+        'Selbst gehostet / On-Premise',
+        'Serverless',
+        'Edge / CDN',
+        'App Stores (iOS/Android)',
+        'Paket-Registry (npm/PyPI)',
+        'Noch unklar',
+      ],
+    },
+    audience: {
+      text: 'Wer ist Ihre Zielgruppe?',
+      options: [
+        'Startup - Schnell vorankommen, zügig iterieren',
+        'Unternehmen - Ausgewogener Ansatz',
+        'Konzern - Gründlich, Compliance-fähig',
+      ],
+    },
+    teamSize: {
+      text: 'Wie groß ist Ihr Team?',
+      options: ['Allein (1)', 'Klein (2-5)', 'Mittel (6-15)', 'Groß (16-50)', 'Konzern (50+)'],
+    },
+    timeline: {
+      text: 'Was ist Ihr angestrebter Zeitrahmen?',
+      options: [
+        'Sofort / Hackathon',
+        '1-2 Wochen',
+        '1-3 Monate',
+        '3-6 Monate',
+        '6-12 Monate',
+        '12+ Monate',
+        'Laufend / Keine Frist',
+      ],
+    },
+    hasCompetitors: { text: 'Gibt es bereits Wettbewerber oder ähnliche Produkte?' },
+    competitorNames: { text: 'Wer sind Ihre wichtigsten Wettbewerber?', hint: 'Kommagetrennte Liste' },
+    monetization: {
+      text: 'Wie wird dieses Projekt Umsatz erzielen?',
+      options: [
+        'Abonnement (SaaS)',
+        'Einmalkauf',
+        'Freemium',
+        'Werbung',
+        'Transaktionsgebühren',
+        'Unternehmenslizenzen',
+        'Open Source (Spenden/Sponsoring)',
+        'Internes Werkzeug (kein direkter Umsatz)',
+        'Noch unklar',
+      ],
+    },
+    scope: {
+      text: 'Wie umfassend soll die Dokumentation sein?',
+      options: [
+        'MVP (4 Dokumente) - Nur das Wesentliche für den Start',
+        'Standard (12 Dokumente) - Zentrale Produkt- und Technikdokumente',
+        'Umfassend (22 Dokumente) - Vollständige Enterprise-Dokumentation',
+      ],
+    },
+    priorityFeatures: {
+      text: 'Welche Funktionen sind am wichtigsten zu dokumentieren?',
+      hint: 'Kommagetrennte Liste der wichtigsten Funktionen',
+    },
+    needsCompliance: { text: 'Hat Ihr Projekt Compliance-Anforderungen?' },
+    complianceTypes: { text: 'Welche Compliance-Standards gelten?' },
+  },
+};
+
+const FR: InterviewCatalog = {
+  groups: {
+    core: { name: 'Informations de base', description: 'Parlez-nous de votre projet' },
+    technical: { name: 'Détails techniques', description: 'Aidez-nous à comprendre les aspects techniques' },
+    business: { name: 'Contexte métier', description: 'Parlez-nous de vos objectifs commerciaux' },
+    scope: { name: 'Périmètre de la documentation', description: 'Quel niveau de détail pour la documentation ?' },
+    compliance: { name: 'Conformité et sécurité', description: 'Exigences de sécurité et réglementaires' },
+  },
+  questions: {
+    projectName: { text: 'Quel est le nom de votre projet ?' },
+    projectDescription: {
+      text: 'Décrivez votre projet en détail. Quel problème résout-il ? À qui s’adresse-t-il ?',
+      hint: 'Plus vous donnez de détails, mieux la documentation sera adaptée à vos besoins.',
+    },
+    projectType: {
+      text: 'De quel type de projet s’agit-il ?',
+      options: [
+        'Application web SaaS',
+        'Application mobile (iOS/Android)',
+        'API / Service backend',
+        'Outil en ligne de commande',
+        'Bibliothèque / SDK',
+        'Application de bureau',
+        'Plateforme e-commerce',
+        'Place de marché',
+        'Application IA/ML',
+        'Système IoT',
+        'Blockchain / Web3',
+        'Jeu',
+        'Autre',
+      ],
+    },
+    techStack: {
+      text: 'Quelles technologies utilisez-vous ou prévoyez-vous d’utiliser ?',
+      hint: 'Sélectionnez toutes les réponses applicables',
+    },
+    hasFrontend: { text: 'Votre projet a-t-il une interface utilisateur (web, mobile ou bureau) ?' },
+    hasBackend: { text: 'Votre projet nécessite-t-il un backend ou un serveur ?' },
+    hasDatabase: { text: 'Votre projet utilisera-t-il une base de données ?' },
+    hasAuth: { text: 'Votre projet nécessite-t-il l’authentification des utilisateurs ?' },
+    hasPayments: { text: 'Votre projet gérera-t-il des paiements ou des abonnements ?' },
+    deploymentTarget: {
+      text: 'Où sera-t-il déployé ?',
+      options: [
+        'Cloud (AWS/GCP/Azure)',
+        'Auto-hébergé / Sur site',
+        'Serverless',
+        'Edge / CDN',
+        'App Stores (iOS/Android)',
+        'Registre de paquets (npm/PyPI)',
+        'Pas encore décidé',
+      ],
+    },
+    audience: {
+      text: 'Quel est votre public cible ?',
+      options: [
+        'Startup - Avancer vite, itérer rapidement',
+        'Entreprise - Approche équilibrée',
+        'Grand compte - Rigoureux, prêt pour la conformité',
+      ],
+    },
+    teamSize: {
+      text: 'Quelle est la taille de votre équipe ?',
+      options: ['Seul (1)', 'Petite (2-5)', 'Moyenne (6-15)', 'Grande (16-50)', 'Grand compte (50+)'],
+    },
+    timeline: {
+      text: 'Quel est votre calendrier cible ?',
+      options: [
+        'Au plus vite / Hackathon',
+        '1-2 semaines',
+        '1-3 mois',
+        '3-6 mois',
+        '6-12 mois',
+        '12+ mois',
+        'Continu / Sans échéance',
+      ],
+    },
+    hasCompetitors: { text: 'Existe-t-il des concurrents ou des produits similaires ?' },
+    competitorNames: { text: 'Qui sont vos principaux concurrents ?', hint: 'Liste séparée par des virgules' },
+    monetization: {
+      text: 'Comment ce projet générera-t-il des revenus ?',
+      options: [
+        'Abonnement (SaaS)',
+        'Achat unique',
+        'Freemium',
+        'Publicité',
+        'Frais de transaction',
+        'Licences entreprise',
+        'Open source (dons/parrainage)',
+        'Outil interne (pas de revenu direct)',
+        'Pas encore décidé',
+      ],
+    },
+    scope: {
+      text: 'Quel niveau de détail pour la documentation ?',
+      options: [
+        'MVP (4 documents) - L’essentiel pour démarrer',
+        'Standard (12 documents) - Documents produit et techniques principaux',
+        'Complet (22 documents) - Suite documentaire entreprise complète',
+      ],
+    },
+    priorityFeatures: {
+      text: 'Quelles sont les fonctionnalités les plus importantes à documenter ?',
+      hint: 'Liste des fonctionnalités clés séparées par des virgules',
+    },
+    needsCompliance: { text: 'Votre projet a-t-il des exigences de conformité ?' },
+    complianceTypes: { text: 'Quelles normes de conformité s’appliquent ?' },
+  },
+};
+
+const CATALOGS: Partial<Record<Locale, InterviewCatalog>> = { de: DE, fr: FR };
+
+/**
+ * Question with text, hint and option labels in the given locale
+ */
+export function localizeQuestion(question: Question, locale?: string): Question {
+  const catalog = CATALOGS[resolveLocale(locale)];
+  const translation = catalog?.questions[question.id];
+  if (!translation) return question;
+
+  return {
+    ...question,
+    text: translation.text,
+    hint: translation.hint ?? question.hint,
+    optionLabels: translation.options?.length === question.options?.length ? translation.options : question.optionLabels,
+  };
+}
+
+/**
+ * Question group with its name and description in the given locale
+ */
+export function localizeGroup<T extends Pick<QuestionGroup, 'id' | 'name' | 'description'>>(group: T, locale?: string): T {
+  const translation = CATALOGS[resolveLocale(locale)]?.groups[group.id];
+  return translation ? { ...group, ...translation } : group;
+}
+
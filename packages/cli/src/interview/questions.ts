@@ -2,7 +2,7 @@
  * Interview Questions with Adaptive Logic
  */
 
-import type { Question, QuestionGroup, InterviewAnswers } from './types.js';
+import type { FollowUp, Question, QuestionGroup, InterviewAnswers } from './types.js';
 
 export const QUESTION_GROUPS: QuestionGroup[] = [
   {
@@ -314,10 +314,10 @@ export const QUESTION_GROUPS: QuestionGroup[] = [
 /**
  * Get all questions flattened, respecting conditions
  */
-export function getActiveQuestions(answers: InterviewAnswers): Question[] {
+export function getActiveQuestions(answers: InterviewAnswers, groups: QuestionGroup[] = QUESTION_GROUPS): Question[] {
   const questions: Question[] = [];
 
-  for (const group of QUESTION_GROUPS) {
+  for (const group of groups) {
     // Check group condition
     if (group.condition && !group.condition(answers)) {
       continue;
@@ -330,16 +330,35 @@ export function getActiveQuestions(answers: InterviewAnswers): Question[] {
       }
       questions.push(question);
     }
+
+    questions.push(...getFollowUpQuestions(answers, group.id));
   }
 
   return questions;
 }
 
+/**
+ * Follow-up questions proposed for a group, as interview questions
+ */
+export function getFollowUpQuestions(answers: InterviewAnswers, groupId: string): Question[] {
+  return (answers.followUps || []).filter((f) => f.group === groupId).map(followUpQuestion);
+}
+
+function followUpQuestion(followUp: FollowUp): Question {
+  return {
+    id: followUp.id,
+    text: followUp.text,
+    type: 'text',
+    required: false,
+    hint: followUp.hint,
+  };
+}
+
 /**
  * Get the next unanswered question
  */
-export function getNextQuestion(answers: InterviewAnswers): Question | null {
-  const questions = getActiveQuestions(answers);
+export function getNextQuestion(answers: InterviewAnswers, groups: QuestionGroup[] = QUESTION_GROUPS): Question | null {
+  const questions = getActiveQuestions(answers, groups);
 
   for (const q of questions) {
     if (answers[q.id] === undefined) {
@@ -353,12 +372,15 @@ export function getNextQuestion(answers: InterviewAnswers): Question | null {
 /**
  * Get interview progress
  */
-export function getProgress(answers: InterviewAnswers): {
+export function getProgress(
+  answers: InterviewAnswers,
+  groups: QuestionGroup[] = QUESTION_GROUPS
+): {
   answered: number;
   total: number;
   percentage: number;
 } {
-  const questions = getActiveQuestions(answers);
+  const questions = getActiveQuestions(answers, groups);
   const answered = questions.filter((q) => answers[q.id] !== undefined).length;
 
   return {
@@ -0,0 +1,571 @@
+/**
+ * Repository Scanner
+ * Infers interview answers from an existing codebase: manifests, container and
+ * Kubernetes files, CI pipelines and the README
+ */
+
+import { readFileSync, existsSync, readdirSync, statSync } from 'fs';
+import { join, relative, basename } from 'path';
+import type { InterviewAnswers, ProjectType } from './types.js';
+
+/**
+ * Answers a scan can infer
+ */
+export type ScannedField =
+  | 'projectName'
+  | 'projectDescription'
+  | 'projectType'
+  | 'techStack'
+  | 'hasDatabase'
+  | 'hasAuth'
+  | 'deploymentTarget'
+  | 'complianceTypes';
+
+export interface ScanFinding {
+  field: ScannedField;
+  value: unknown;
+  /** 0-100 */
+  confidence: number;
+  /** Files and facts the value was inferred from */
+  evidence: string[];
+}
+
+export interface RepositoryScan {
+  root: string;
+  /** Files the scan read, relative to root */
+  files: string[];
+  findings: ScanFinding[];
+}
+
+/** Findings at or above this confidence pre-fill the interview */
+export const DEFAULT_SCAN_CONFIDENCE = 70;
+
+// What a dependency says about the project; 'data' marks server-side persistence or auth
+type Kind = 'frontend' | 'backend' | 'mobile' | 'desktop' | 'ml' | 'cli' | 'data';
+
+interface DependencyFacts {
+  tech?: string[];
+  kind?: Kind;
+  database?: boolean;
+  auth?: boolean;
+}
+
+// Dependency names across npm, PyPI, RubyGems and Go modules; a trailing "/" or "-" matches a scope or family
+const DEPENDENCIES: Record<string, DependencyFacts> = {
+  // Frontend
+  react: { tech: ['React'], kind: 'frontend' },
+  'react-dom': { tech: ['React'], kind: 'frontend' },
+  next: { tech: ['Next.js', 'React'], kind: 'frontend' },
+  vue: { tech: ['Vue'], kind: 'frontend' },
+  nuxt: { tech: ['Vue'], kind: 'frontend' },
+  '@angular/': { tech: ['Angular'], kind: 'frontend' },
+  svelte: { kind: 'frontend' },
+  // Mobile and desktop
+  'react-native': { tech: ['React'], kind: 'mobile' },
+  expo: { tech: ['React'], kind: 'mobile' },
+  electron: { kind: 'desktop' },
+  '@tauri-apps/': { kind: 'desktop' },
+  // Backend
+  express: { tech: ['Node.js'], kind: 'backend' },
+  fastify: { tech: ['Node.js'], kind: 'backend' },
+  koa: { tech: ['Node.js'], kind: 'backend' },
+  hono: { tech: ['Node.js'], kind: 'backend' },
+  '@nestjs/': { tech: ['Node.js'], kind: 'backend' },
+  django: { tech: ['Django'], kind: 'backend' },
+  fastapi: { tech: ['FastAPI'], kind: 'backend' },
+  flask: { kind: 'backend' },
+  rails: { kind: 'backend' },
+  sinatra: { kind: 'backend' },
+  'github.com/gin-gonic/gin': { kind: 'backend' },
+  'github.com/labstack/echo/': { kind: 'backend' },
+  'github.com/gofiber/fiber/': { kind: 'backend' },
+  'github.com/go-chi/chi/': { kind: 'backend' },
+  // CLI frameworks
+  commander: { kind: 'cli' },
+  yargs: { kind: 'cli' },
+  oclif: { kind: 'cli' },
+  click: { kind: 'cli' },
+  typer: { kind: 'cli' },
+  thor: { kind: 'cli' },
+  'github.com/spf13/cobra': { kind: 'cli' },
+  'github.com/urfave/cli/': { kind: 'cli' },
+  // Machine learning
+  torch: { kind: 'ml' },
+  tensorflow: { kind: 'ml' },
+  'scikit-learn': { kind: 'ml' },
+  transformers: { kind: 'ml' },
+  // Databases
+  pg: { tech: ['PostgreSQL'], database: true },
+  postgres: { tech: ['PostgreSQL'], database: true },
+  'psycopg2': { tech: ['PostgreSQL'], database: true },
+  'psycopg2-binary': { tech: ['PostgreSQL'], database: true },
+  psycopg: { tech: ['PostgreSQL'], database: true },
+  asyncpg: { tech: ['PostgreSQL'], database: true },
+  'github.com/lib/pq': { tech: ['PostgreSQL'], database: true },
+  'github.com/jackc/pgx/': { tech: ['PostgreSQL'], database: true },
+  mongodb: { tech: ['MongoDB'], database: true },
+  mongoose: { tech: ['MongoDB'], database: true },
+  pymongo: { tech: ['MongoDB'], database: true },
+  mongoid: { tech: ['MongoDB'], database: true },
+  'go.mongodb.org/mongo-driver': { tech: ['MongoDB'], database: true },
+  redis: { tech: ['Redis'] },
+  ioredis: { tech: ['Redis'] },
+  'github.com/redis/go-redis/': { tech: ['Redis'] },
+  mysql: { database: true },
+  mysql2: { database: true },
+  sqlite3: { database: true },
+  'better-sqlite3': { database: true },
+  prisma: { database: true },
+  '@prisma/client': { database: true },
+  typeorm: { database: true },
+  sequelize: { database: true },
+  knex: { database: true },
+  'drizzle-orm': { database: true },
+  sqlalchemy: { database: true },
+  activerecord: { database: true },
+  'gorm.io/gorm': { database: true },
+  // Authentication
+  passport: { auth: true },
+  'next-auth': { auth: true },
+  '@auth/': { auth: true },
+  '@clerk/': { auth: true },
+  auth0: { auth: true },
+  '@auth0/': { auth: true },
+  jsonwebtoken: { auth: true },
+  jose: { auth: true },
+  bcrypt: { auth: true },
+  lucia: { auth: true },
+  'django-allauth': { auth: true },
+  authlib: { auth: true },
+  pyjwt: { auth: true },
+  'fastapi-users': { auth: true },
+  'flask-login': { auth: true },
+  devise: { auth: true },
+  omniauth: { auth: true },
+  'github.com/golang-jwt/jwt/': { auth: true },
+  // Cloud SDKs
+  'aws-sdk': { tech: ['AWS'] },
+  '@aws-sdk/': { tech: ['AWS'] },
+  boto3: { tech: ['AWS'] },
+  'github.com/aws/aws-sdk-go': { tech: ['AWS'] },
+  '@google-cloud/': { tech: ['GCP'] },
+  'firebase-admin': { tech: ['GCP'] },
+  'google-cloud-': { tech: ['GCP'] },
+  '@azure/': { tech: ['Azure'] },
+  'azure-': { tech: ['Azure'] },
+};
+
+// Database images in docker-compose files
+const DATABASE_IMAGES: Record<string, string | undefined> = {
+  postgres: 'PostgreSQL',
+  mongo: 'MongoDB',
+  mysql: undefined,
+  mariadb: undefined,
+};
+
+const COMPLIANCE_PATTERNS: Array<[string, RegExp]> = [
+  ['SOC 2', /\bSOC\s?2\b/i],
+  ['HIPAA', /\bHIPAA\b/],
+  ['GDPR', /\bGDPR\b/],
+  ['PCI-DSS', /\bPCI(?:[\s-]DSS)?\b/],
+  ['ISO 27001', /\bISO\s?27001\b/],
+  ['FedRAMP', /\bFedRAMP\b/i],
+  ['CCPA', /\bCCPA\b/],
+];
+
+const CI_FILES = ['.gitlab-ci.yml', '.circleci/config.yml', 'azure-pipelines.yml', 'bitbucket-pipelines.yml', 'Jenkinsfile'];
+
+const MANIFEST_DIRS = ['k8s', 'kubernetes', 'deploy', 'deployment', 'manifests', 'helm', 'charts', 'infra', 'terraform'];
+
+const SKIP_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'vendor', '.venv', 'venv']);
+
+/**
+ * One observation; observations for the same field are combined into a finding
+ */
+interface Signal {
+  field: ScannedField;
+  value: unknown;
+  confidence: number;
+  evidence: string;
+}
+
+/**
+ * Scan a repository and infer what it can about the project
+ */
+export function scanRepository(root: string = process.cwd()): RepositoryScan {
+  const files: string[] = [];
+  const signals: Signal[] = [];
+  const kinds = new Map<Kind, string>();
+
+  const read = (path: string): string | undefined => {
+    const full = join(root, path);
+    if (!existsSync(full) || !statSync(full).isFile()) return undefined;
+    files.push(path);
+    return readFileSync(full, 'utf-8');
+  };
+  const signal = (field: ScannedField, value: unknown, confidence: number, evidence: string) =>
+    signals.push({ field, value, confidence, evidence });
+  const tech = (name: string, evidence: string, confidence = 90) => signal('techStack', [name], confidence, evidence);
+
+  const dependencies = (names: string[], source: string) => {
+    for (const name of names) {
+      const facts = dependencyFacts(name);
+      if (!facts) continue;
+      const evidence = `${source}: ${name}`;
+      for (const t of facts.tech || []) tech(t, evidence);
+      if (facts.kind && !kinds.has(facts.kind)) kinds.set(facts.kind, evidence);
+      if (facts.database) signal('hasDatabase', true, 90, evidence);
+      if (facts.auth) signal('hasAuth', true, 85, evidence);
+      if ((facts.database || facts.auth) && !kinds.has('data')) kinds.set('data', evidence);
+    }
+  };
+
+  // package.json
+  const packageJson = read('package.json');
+  if (packageJson) {
+    try {
+      const pkg = JSON.parse(packageJson) as Record<string, unknown>;
+      const deps = {
+        ...(pkg.dependencies as Record<string, string> | undefined),
+        ...(pkg.devDependencies as Record<string, string> | undefined),
+      };
+      tech(deps.typescript || existsSync(join(root, 'tsconfig.json')) ? 'TypeScript' : 'JavaScript', 'package.json');
+      dependencies(Object.keys(deps), 'package.json');
+
+      if (typeof pkg.name === 'string') signal('projectName', titleFromSlug(pkg.name), 80, 'package.json: name');
+      if (typeof pkg.description === 'string' && pkg.description.length >= 20) {
+        signal('projectDescription', pkg.description, 70, 'package.json: description');
+      }
+      if (pkg.bin) kinds.set('cli', 'package.json: bin');
+      if (!pkg.private && (pkg.main || pkg.exports || pkg.types)) {
+        signal('projectType', 'library-sdk', 60, 'package.json: main/exports');
+      }
+    } catch {
+      // Not valid JSON; nothing to infer
+    }
+  }
+
+  // Python
+  const pyproject = read('pyproject.toml');
+  const requirements = read('requirements.txt');
+  if (pyproject || requirements) {
+    tech('Python', pyproject ? 'pyproject.toml' : 'requirements.txt');
+    dependencies(pythonDependencies(`${pyproject || ''}\n${requirements || ''}`), pyproject ? 'pyproject.toml' : 'requirements.txt');
+  }
+  if (pyproject) {
+    const name = pyproject.match(/^\s*name\s*=\s*["']([^"']+)["']/m);
+    if (name) signal('projectName', titleFromSlug(name[1]), 80, 'pyproject.toml: name');
+    if (/^\[(?:project\.scripts|tool\.poetry\.scripts)\]/m.test(pyproject)) {
+      kinds.set('cli', 'pyproject.toml: scripts');
+    }
+  }
+
+  // Ruby
+  const gemfile = read('Gemfile');
+  if (gemfile) {
+    tech('Ruby', 'Gemfile');
+    dependencies([...gemfile.matchAll(/^\s*gem\s+["']([^"']+)["']/gm)].map(m => m[1]), 'Gemfile');
+    if (/^\s*gem\s+["']rails["']/m.test(gemfile)) kinds.set('frontend', 'Gemfile: rails');
+  }
+
+  // Go
+  const goMod = read('go.mod');
+  if (goMod) {
+    tech('Go', 'go.mod');
+    dependencies([...goMod.matchAll(/^\s*(?:require\s+)?([a-z0-9.-]+\.[a-z]+\/[^\s]+)\s+v/gm)].map(m => m[1]), 'go.mod');
+    const module = goMod.match(/^module\s+(\S+)/m);
+    if (module) signal('projectName', titleFromSlug(basename(module[1])), 70, 'go.mod: module');
+  }
+
+  // Rust
+  if (read('Cargo.toml')) tech('Rust', 'Cargo.toml');
+
+  // Containers
+  if (read('Dockerfile')) tech('Docker', 'Dockerfile');
+  for (const compose of ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml']) {
+    const content = read(compose);
+    if (!content) continue;
+    tech('Docker', compose);
+    for (const [image, name] of Object.entries(DATABASE_IMAGES)) {
+      if (new RegExp(`image:\\s*["']?${image}[:"'\\s]`, 'i').test(content)) {
+        signal('hasDatabase', true, 80, `${compose}: ${image} image`);
+        if (name) tech(name, `${compose}: ${image} image`, 80);
+      }
+    }
+    if (/image:\s*["']?redis[:"'\s]/i.test(content)) tech('Redis', `${compose}: redis image`, 80);
+  }
+
+  // Kubernetes manifests, Helm charts and Terraform
+  for (const path of manifestFiles(root)) {
+    const content = read(path);
+    if (!content) continue;
+
+    if (basename(path) === 'Chart.yaml' || (/^apiVersion:/m.test(content) && /^kind:\s*(Deployment|StatefulSet|Service|Ingress|CronJob)\b/m.test(content))) {
+      tech('Kubernetes', path);
+      signal('deploymentTarget', 'Cloud (AWS/GCP/Azure)', 70, `${path}: Kubernetes manifest`);
+    }
+    for (const [provider, cloud] of [['aws', 'AWS'], ['google', 'GCP'], ['azurerm', 'Azure']]) {
+      if (new RegExp(`provider\\s+"${provider}"`).test(content)) {
+        tech(cloud, `${path}: ${provider} provider`, 85);
+        signal('deploymentTarget', 'Cloud (AWS/GCP/Azure)', 80, `${path}: ${provider} provider`);
+      }
+    }
+  }
+
+  // Platform config
+  if (read('serverless.yml') || read('serverless.yaml')) {
+    signal('deploymentTarget', 'Serverless', 85, 'serverless.yml');
+  }
+  const sam = read('template.yaml');
+  if (sam && /AWS::Serverless/.test(sam)) {
+    tech('AWS', 'template.yaml: AWS SAM');
+    signal('deploymentTarget', 'Serverless', 85, 'template.yaml: AWS SAM');
+  }
+  for (const edge of ['wrangler.toml', 'vercel.json', 'netlify.toml']) {
+    if (read(edge)) signal('deploymentTarget', 'Edge / CDN', 75, edge);
+  }
+  for (const store of ['eas.json', 'fastlane/Fastfile']) {
+    if (read(store)) signal('deploymentTarget', 'App Stores (iOS/Android)', 80, store);
+  }
+
+  // CI pipelines
+  for (const path of ciFiles(root)) {
+    const content = read(path);
+    if (!content) continue;
+
+    if (/aws-actions\/|aws\s+(?:ecs|eks|s3|lambda|deploy)/.test(content)) {
+      tech('AWS', `${path}: AWS deploy step`, 80);
+      signal('deploymentTarget', 'Cloud (AWS/GCP/Azure)', 80, `${path}: AWS deploy step`);
+    }
+    if (/google-github-actions\/|gcloud\s/.test(content)) {
+      tech('GCP', `${path}: GCP deploy step`, 80);
+      signal('deploymentTarget', 'Cloud (AWS/GCP/Azure)', 80, `${path}: GCP deploy step`);
+    }
+    if (/azure\/[a-z-]+@|az\s+(?:webapp|aks|functionapp)/.test(content)) {
+      tech('Azure', `${path}: Azure deploy step`, 80);
+      signal('deploymentTarget', 'Cloud (AWS/GCP/Azure)', 80, `${path}: Azure deploy step`);
+    }
+    if (/serverless\s+deploy|sam\s+deploy/.test(content)) {
+      signal('deploymentTarget', 'Serverless', 80, `${path}: serverless deploy`);
+    }
+    if (/npm\s+publish|pnpm\s+publish|yarn\s+publish|twine\s+upload|pypa\/gh-action-pypi-publish|cargo\s+publish|gem\s+push/.test(content)) {
+      signal('deploymentTarget', 'Package Registry (npm/PyPI)', 75, `${path}: publish step`);
+    }
+    if (/fastlane|eas\s+submit/.test(content)) {
+      signal('deploymentTarget', 'App Stores (iOS/Android)', 80, `${path}: store release step`);
+    }
+  }
+
+  // README
+  const readmePath = ['README.md', 'readme.md', 'README.rst', 'README'].find(f => existsSync(join(root, f)));
+  const readme = readmePath && read(readmePath);
+  if (readmePath && readme) {
+    const title = readme.match(/^#\s+(.+)$/m);
+    if (title) signal('projectName', cleanHeading(title[1]), 85, `${readmePath}: title`);
+
+    const description = firstParagraph(readme);
+    if (description && description.length >= 20) {
+      signal('projectDescription', description, 75, `${readmePath}: first paragraph`);
+    }
+
+    for (const [standard, pattern] of COMPLIANCE_PATTERNS) {
+      if (pattern.test(readme)) signal('complianceTypes', [standard], 75, `${readmePath}: mentions ${standard}`);
+    }
+  }
+
+  // Project type from what the dependencies say the project is
+  const projectType = inferProjectType(kinds);
+  if (projectType) signal('projectType', projectType.type, projectType.confidence, projectType.evidence);
+
+  return { root, files, findings: combine(signals) };
+}
+
+/**
+ * Interview answers from a scan, keeping findings at or above the confidence threshold
+ */
+export function answersFromScan(scan: RepositoryScan, minConfidence: number = DEFAULT_SCAN_CONFIDENCE): InterviewAnswers {
+  const answers: InterviewAnswers = {};
+
+  for (const finding of scan.findings) {
+    if (finding.confidence < minConfidence) continue;
+    (answers as Record<string, unknown>)[finding.field] = finding.value;
+    if (finding.field === 'complianceTypes') answers.needsCompliance = true;
+    // A database or auth layer implies a server to run it
+    if (finding.field === 'hasDatabase' || finding.field === 'hasAuth') answers.hasBackend = true;
+  }
+
+  return answers;
+}
+
+function dependencyFacts(name: string): DependencyFacts | undefined {
+  const key = name.toLowerCase();
+  if (DEPENDENCIES[key]) return DEPENDENCIES[key];
+
+  // Scopes and families ("@angular/", "azure-"), and major-version suffixes of Go modules ("/v4", "-v2")
+  const prefix = Object.keys(DEPENDENCIES).find(p =>
+    key.startsWith(p) && (/[/-]$/.test(p) || (p.includes('/') && /[/-]/.test(key[p.length] ?? '')))
+  );
+  return prefix ? DEPENDENCIES[prefix] : undefined;
+}
+
+/**
+ * Requirement names from pyproject.toml and requirements.txt, without version specifiers
+ */
+function pythonDependencies(content: string): string[] {
+  const names = new Set<string>();
+  // requirements.txt lines and Poetry tables: `fastapi>=0.100`, `fastapi = "^0.100"`
+  for (const match of content.matchAll(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(?:[<>=!~;]|$)/gm)) {
+    names.add(match[1].toLowerCase());
+  }
+  // PEP 621 dependency arrays: `"fastapi>=0.100"`, on one line or several
+  for (const match of content.matchAll(/["']([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*(?:[<>=!~;][^"']*)?["']/g)) {
+    names.add(match[1].toLowerCase());
+  }
+  return [...names];
+}
+
+function inferProjectType(kinds: Map<Kind, string>): { type: ProjectType; confidence: number; evidence: string } | undefined {
+  const mobile = kinds.get('mobile');
+  if (mobile) return { type: 'mobile-app', confidence: 85, evidence: mobile };
+
+  const desktop = kinds.get('desktop');
+  if (desktop) return { type: 'desktop-app', confidence: 85, evidence: desktop };
+
+  const frontend = kinds.get('frontend');
+  const backend = kinds.get('backend');
+  const cli = kinds.get('cli');
+
+  if (cli && !frontend && !backend) return { type: 'cli-tool', confidence: 80, evidence: cli };
+
+  const ml = kinds.get('ml');
+  if (ml) return { type: 'ai-ml', confidence: 70, evidence: ml };
+
+  // A frontend with its own server, database or auth (e.g. Next.js with Prisma) is a web app
+  const server = backend || kinds.get('data');
+  if (frontend && server) return { type: 'saas-web', confidence: 75, evidence: `${frontend}; ${server}` };
+  if (frontend) return { type: 'saas-web', confidence: 65, evidence: frontend };
+  if (backend) return { type: 'api-backend', confidence: 75, evidence: backend };
+
+  return undefined;
+}
+
+/**
+ * Combine signals into one finding per field. List fields take the union of their
+ * values; scalar fields take the best-supported value. Each corroborating signal
+ * adds a little confidence.
+ */
+function combine(signals: Signal[]): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  const fields = [...new Set(signals.map(s => s.field))];
+
+  for (const field of fields) {
+    const forField = signals.filter(s => s.field === field);
+
+    if (Array.isArray(forField[0].value)) {
+      const values = [...new Set(forField.flatMap(s => s.value as string[]))];
+      findings.push({
+        field,
+        value: values,
+        confidence: Math.max(...forField.map(s => s.confidence)),
+        evidence: unique(forField.map(s => s.evidence)),
+      });
+      continue;
+    }
+
+    const byValue = new Map<string, Signal[]>();
+    for (const s of forField) {
+      const key = JSON.stringify(s.value);
+      byValue.set(key, [...(byValue.get(key) || []), s]);
+    }
+
+    const ranked = [...byValue.values()]
+      .map(group => ({
+        group,
+        confidence: Math.min(Math.max(...group.map(s => s.confidence)) + 5 * (group.length - 1), 95),
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const best = ranked[0];
+    findings.push({
+      field,
+      value: best.group[0].value,
+      confidence: best.confidence,
+      evidence: unique(best.group.map(s => s.evidence)),
+    });
+  }
+
+  return findings;
+}
+
+function manifestFiles(root: string): string[] {
+  const found: string[] = [];
+  const walk = (dir: string, depth: number) => {
+    if (depth > 3 || !existsSync(dir)) return;
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIP_DIRS.has(entry.name)) walk(full, depth + 1);
+      } else if (/\.(ya?ml|tf)$/.test(entry.name)) {
+        found.push(relative(root, full));
+      }
+    }
+  };
+
+  for (const dir of MANIFEST_DIRS) walk(join(root, dir), 0);
+  // Terraform kept at the top level
+  if (existsSync(root)) {
+    found.push(...readdirSync(root).filter(f => f.endsWith('.tf')));
+  }
+  return found;
+}
+
+function ciFiles(root: string): string[] {
+  const workflows = join(root, '.github', 'workflows');
+  const found = existsSync(workflows)
+    ? readdirSync(workflows).filter(f => /\.ya?ml$/.test(f)).map(f => join('.github', 'workflows', f))
+    : [];
+  return [...found, ...CI_FILES.filter(f => existsSync(join(root, f)))];
+}
+
+/**
+ * First prose paragraph of a README: skips headings, badges, HTML and code
+ */
+function firstParagraph(readme: string): string | undefined {
+  let inFence = false;
+  const paragraph: string[] = [];
+
+  for (const raw of readme.split('\n')) {
+    const line = raw.trim();
+    if (line.startsWith('```')) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const prose = line && !/^(#|!\[|\[!\[|<|>|\||-{3,}|={3,})/.test(line);
+    if (prose) {
+      paragraph.push(line);
+    } else if (paragraph.length > 0) {
+      break;
+    }
+  }
+
+  return paragraph.length > 0 ? paragraph.join(' ') : undefined;
+}
+
+function cleanHeading(heading: string): string {
+  return heading.replace(/!\[[^\]]*\]\([^)]*\)/g, '').replace(/[*_`]/g, '').trim();
+}
+
+function titleFromSlug(name: string): string {
+  return name
+    .replace(/^@[^/]+\//, '')
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
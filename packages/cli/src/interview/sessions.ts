@@ -0,0 +1,206 @@
+/**
+ * Interview Sessions
+ * Persist interview progress under .intent/sessions so it can be resumed
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { InterviewAnswers, QuestionGroup } from './types.js';
+import { InterviewEngine, type InterviewState } from './engine.js';
+import { getProgress } from './questions.js';
+import { loadQuestionBank } from './bank.js';
+import { resolveLocale } from '../core/locales.js';
+
+export const SESSIONS_DIR = join('.intent', 'sessions');
+
+const SESSION_ID = /^[a-z0-9-]+$/i;
+
+export interface InterviewSession {
+  id: string;
+  /** Interview language */
+  locale?: string;
+  answers: InterviewAnswers;
+  createdAt: string;
+  updatedAt: string;
+  /** Set once every active question has an answer */
+  completedAt?: string;
+}
+
+export interface InterviewSessionSummary {
+  id: string;
+  projectName?: string;
+  locale?: string;
+  progress: { answered: number; total: number; percentage: number };
+  isComplete: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A session and an engine that saves the session on every answer
+ */
+export interface OpenSession {
+  session: InterviewSession;
+  engine: InterviewEngine;
+}
+
+export interface SessionStoreOptions {
+  /** Directory holding one JSON file per session (default: .intent/sessions in the working directory) */
+  dir?: string;
+  /** Question groups to ask (default: built-ins merged with pack and project banks) */
+  questions?: QuestionGroup[];
+}
+
+export class SessionStore {
+  private dir: string;
+  private groups?: QuestionGroup[];
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.dir = options.dir ?? join(process.cwd(), SESSIONS_DIR);
+    this.groups = options.questions;
+  }
+
+  /**
+   * Start a new session, optionally with answers already known
+   */
+  start(options: { answers?: InterviewAnswers; locale?: string } = {}): OpenSession {
+    const now = new Date().toISOString();
+    const session: InterviewSession = {
+      id: this.newId(),
+      locale: options.locale && resolveLocale(options.locale),
+      answers: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const open = this.open(session);
+    open.engine.setAnswers(options.answers || {});
+    return open;
+  }
+
+  /**
+   * Reopen a saved session where it left off
+   */
+  resume(id: string): OpenSession {
+    const session = this.get(id);
+    if (!session) {
+      throw new Error(`Interview session not found: ${id}`);
+    }
+    return this.open(session);
+  }
+
+  /**
+   * Read a saved session
+   */
+  get(id: string): InterviewSession | undefined {
+    const path = this.pathFor(id);
+    if (!existsSync(path)) return undefined;
+
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as InterviewSession;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a session to disk
+   */
+  save(session: InterviewSession): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    session.updatedAt = new Date().toISOString();
+    writeFileSync(this.pathFor(session.id), JSON.stringify(session, null, 2));
+  }
+
+  /**
+   * Saved sessions, most recently updated first
+   */
+  list(): InterviewSessionSummary[] {
+    if (!existsSync(this.dir)) return [];
+
+    return readdirSync(this.dir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => this.get(f.slice(0, -'.json'.length)))
+      .filter((s): s is InterviewSession => s !== undefined)
+      .map(s => summarizeSession(s, this.questions()))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Delete a saved session; returns false when there was nothing to delete
+   */
+  delete(id: string): boolean {
+    const path = this.pathFor(id);
+    if (!existsSync(path)) return false;
+
+    rmSync(path);
+    return true;
+  }
+
+  private open(session: InterviewSession): OpenSession {
+    const engine = new InterviewEngine({
+      locale: session.locale,
+      answers: session.answers,
+      questions: this.questions(),
+      onProgress: (state: InterviewState) => {
+        session.answers = state.answers;
+        if (state.isComplete) {
+          session.completedAt ??= new Date().toISOString();
+        } else {
+          delete session.completedAt;
+        }
+        this.save(session);
+      },
+    });
+
+    return { session, engine };
+  }
+
+  private questions(): QuestionGroup[] {
+    // Loaded on first use rather than whenever a store is created
+    return (this.groups ??= loadQuestionBank());
+  }
+
+  private pathFor(id: string): string {
+    // Session IDs become filenames, so refuse anything that could leave the directory
+    if (!SESSION_ID.test(id)) {
+      throw new Error(`Invalid interview session ID: ${id}`);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+
+  private newId(): string {
+    let id: string;
+    do {
+      id = randomUUID().split('-')[0];
+    } while (existsSync(join(this.dir, `${id}.json`)));
+    return id;
+  }
+}
+
+/**
+ * Progress overview of a saved session
+ */
+export function summarizeSession(session: InterviewSession, groups?: QuestionGroup[]): InterviewSessionSummary {
+  const projectName = session.answers.projectName;
+  return {
+    id: session.id,
+    projectName: typeof projectName === 'string' ? projectName : undefined,
+    locale: session.locale,
+    progress: getProgress(session.answers, groups),
+    isComplete: session.completedAt !== undefined,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * Create a session store
+ */
+export function createSessionStore(options?: SessionStoreOptions): SessionStore {
+  return new SessionStore(options);
+}
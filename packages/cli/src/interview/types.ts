@@ -29,6 +29,8 @@ export interface Question {
   type: 'text' | 'select' | 'multiselect' | 'number' | 'confirm' | 'editor';
   required: boolean;
   options?: string[];
+  /** Display labels for options in the interview locale; answers use `options` */
+  optionLabels?: string[];
   default?: string | string[] | number | boolean;
   hint?: string;
   /** Show this question only if condition returns true */
@@ -48,6 +50,17 @@ export interface QuestionGroup {
   condition?: (answers: InterviewAnswers) => boolean;
 }
 
+/**
+ * A question a model proposed after a group; its answer is stored under `id`
+ */
+export interface FollowUp {
+  id: string;
+  /** Group the question follows */
+  group: string;
+  text: string;
+  hint?: string;
+}
+
 export interface InterviewAnswers {
   // Core
   projectName?: string;
@@ -81,12 +94,17 @@ export interface InterviewAnswers {
   needsCompliance?: boolean;
   complianceTypes?: string[];
 
+  // Model-proposed questions, asked at the end of their group
+  followUps?: FollowUp[];
+
   // Additional
   [key: string]: unknown;
 }
 
 export interface DetectedContext {
   projectType: ProjectType;
+  /** Every project type that applies, primary first (e.g. marketplace and mobile-app) */
+  projectTypes: ProjectType[];
   complexity: Complexity;
   suggestedScope: Scope;
   suggestedAudience: Audience;
@@ -104,10 +122,28 @@ export interface GapAnalysis {
   completenessScore: number;
 }
 
+/**
+ * A value the documents use that the interview never answered
+ */
+export interface AssumedValue {
+  /** Answer key, e.g. 'deploymentTarget' */
+  field: string;
+  value: unknown;
+  /** 'detected' from the description, 'inferred' by the gap analysis, or a fallback 'default' */
+  source: 'detected' | 'inferred' | 'default';
+  confidence: number;
+  /** The question that would settle it */
+  question: string;
+}
+
 export interface InterviewResult {
   answers: InterviewAnswers;
   detected: DetectedContext;
   gaps: GapAnalysis;
+  /** Assumptions confident enough to fill in unanswered fields */
+  appliedAssumptions: GapAnalysis['assumptions'];
+  /** Every assumed or defaulted value the template context uses */
+  assumedValues: AssumedValue[];
   templateContext: Record<string, unknown>;
   summary: string;
 }
@@ -289,6 +289,33 @@ export class PackManager {
     return templates;
   }
 
+  /**
+   * Get interview question banks from all installed packs:
+   * questions.yaml at the pack root and any YAML under questions/
+   */
+  getAllQuestionBanks(): Array<{ packId: string; path: string }> {
+    const banks: Array<{ packId: string; path: string }> = [];
+
+    for (const [packId, pack] of this.installed) {
+      for (const file of ['questions.yaml', 'questions.yml']) {
+        if (existsSync(join(pack.path, file))) {
+          banks.push({ packId, path: join(pack.path, file) });
+        }
+      }
+
+      const questionsDir = join(pack.path, 'questions');
+      if (!existsSync(questionsDir)) continue;
+
+      for (const file of readdirSync(questionsDir).sort()) {
+        if (file.endsWith('.yaml') || file.endsWith('.yml')) {
+          banks.push({ packId, path: join(questionsDir, file) });
+        }
+      }
+    }
+
+    return banks;
+  }
+
   /**
    * Extract pack from buffer
    */
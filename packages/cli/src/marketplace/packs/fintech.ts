@@ -4,6 +4,7 @@
  */
 
 import type { CustomTemplate } from '../../enterprise/templates/types.js';
+import type { QuestionGroupDefinition } from '../../interview/bank.js';
 
 export const FINTECH_TEMPLATES: CustomTemplate[] = [
   {
@@ -367,3 +368,58 @@ This document defines the technical integration with {{processor}} for processin
 ];
 
 export default FINTECH_TEMPLATES;
+
+/**
+ * Interview questions asked while this pack is installed
+ */
+export const FINTECH_QUESTIONS: QuestionGroupDefinition[] = [
+  {
+    id: 'fintech',
+    name: 'Financial Services',
+    description: 'Money movement, card data and licensing',
+    after: 'compliance',
+    questions: [
+      {
+        id: 'financialProducts',
+        text: 'Which financial products does the project offer?',
+        type: 'multiselect',
+        required: true,
+        options: [
+          { label: 'Payments', value: 'payments' },
+          { label: 'Lending', value: 'lending' },
+          { label: 'Banking / deposits', value: 'banking' },
+          { label: 'Investing / trading', value: 'investing' },
+          { label: 'Crypto assets', value: 'crypto' },
+        ],
+      },
+      {
+        id: 'cardDataScope',
+        text: 'How will card data be handled?',
+        type: 'select',
+        required: false,
+        options: [
+          { label: 'Tokenized by the payment processor', value: 'tokenized' },
+          { label: 'Stored in our systems', value: 'stored' },
+          { label: 'No card data', value: 'none' },
+        ],
+        condition: "'payments' in financialProducts",
+      },
+      {
+        id: 'holdsCustomerFunds',
+        text: 'Will the project hold or transmit customer funds?',
+        type: 'confirm',
+        required: false,
+        default: false,
+      },
+      {
+        id: 'licensedJurisdictions',
+        text: 'Which jurisdictions are you licensed in (or applying for)?',
+        type: 'text',
+        required: false,
+        hint: 'Comma-separated, e.g. US-NY, UK, EU',
+        condition: 'holdsCustomerFunds',
+        transform: 'split(value)',
+      },
+    ],
+  },
+];
@@ -4,6 +4,7 @@
  */
 
 import type { CustomTemplate } from '../../enterprise/templates/types.js';
+import type { QuestionGroupDefinition } from '../../interview/bank.js';
 
 export const HIPAA_TEMPLATES: CustomTemplate[] = [
   {
@@ -474,3 +475,51 @@ Document how ePHI flows through the organization:
 ];
 
 export default HIPAA_TEMPLATES;
+
+/**
+ * Interview questions asked while this pack is installed
+ */
+export const HIPAA_QUESTIONS: QuestionGroupDefinition[] = [
+  {
+    id: 'hipaa',
+    name: 'HIPAA',
+    description: 'Protected health information and HIPAA obligations',
+    after: 'compliance',
+    questions: [
+      {
+        id: 'organizationType',
+        text: 'How does HIPAA apply to your organization?',
+        type: 'select',
+        required: true,
+        options: [
+          { label: 'Covered Entity (Provider)', value: 'provider' },
+          { label: 'Covered Entity (Health Plan)', value: 'plan' },
+          { label: 'Business Associate', value: 'ba' },
+          { label: 'Hybrid Entity', value: 'hybrid' },
+        ],
+      },
+      {
+        id: 'phiTypes',
+        text: 'Which kinds of PHI will the system store or process?',
+        type: 'multiselect',
+        required: false,
+        options: ['Demographics', 'Diagnoses', 'Prescriptions', 'Lab results', 'Imaging', 'Billing and claims'],
+      },
+      {
+        id: 'privacyOfficer',
+        text: 'Who is the designated privacy officer?',
+        type: 'text',
+        required: false,
+        hint: 'Name or role',
+      },
+      {
+        id: 'breachNotificationDays',
+        text: 'Within how many days will you notify individuals of a breach?',
+        type: 'number',
+        required: false,
+        default: 60,
+        validate: { rule: 'value >= 1 && value <= 60', message: 'HIPAA requires notification within 60 days' },
+      },
+    ],
+  },
+];
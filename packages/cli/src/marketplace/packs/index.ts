@@ -4,13 +4,13 @@
  */
 
 // Vertical-specific packs
-export { FINTECH_TEMPLATES } from './fintech.js';
+export { FINTECH_TEMPLATES, FINTECH_QUESTIONS } from './fintech.js';
 export { HEALTHTECH_TEMPLATES } from './healthtech.js';
 export { SAAS_TEMPLATES } from './saas.js';
 
 // Compliance packs
 export { SOC2_TEMPLATES } from './soc2.js';
-export { HIPAA_TEMPLATES } from './hipaa.js';
+export { HIPAA_TEMPLATES, HIPAA_QUESTIONS } from './hipaa.js';
 export { GDPR_TEMPLATES } from './gdpr.js';
 
 // Framework packs
@@ -18,16 +18,17 @@ export { NEXTJS_TEMPLATES } from './nextjs.js';
 export { FASTAPI_TEMPLATES } from './fastapi.js';
 export { RAILS_TEMPLATES } from './rails.js';
 
-import { FINTECH_TEMPLATES } from './fintech.js';
+import { FINTECH_TEMPLATES, FINTECH_QUESTIONS } from './fintech.js';
 import { HEALTHTECH_TEMPLATES } from './healthtech.js';
 import { SAAS_TEMPLATES } from './saas.js';
 import { SOC2_TEMPLATES } from './soc2.js';
-import { HIPAA_TEMPLATES } from './hipaa.js';
+import { HIPAA_TEMPLATES, HIPAA_QUESTIONS } from './hipaa.js';
 import { GDPR_TEMPLATES } from './gdpr.js';
 import { NEXTJS_TEMPLATES } from './nextjs.js';
 import { FASTAPI_TEMPLATES } from './fastapi.js';
 import { RAILS_TEMPLATES } from './rails.js';
 import type { CustomTemplate } from '../../enterprise/templates/types.js';
+import type { QuestionGroupDefinition } from '../../interview/bank.js';
 
 /**
  * All built-in templates grouped by category
@@ -168,6 +169,20 @@ export function getPackTemplates(packId: string): CustomTemplate[] {
   }
 }
 
+/**
+ * Get the interview questions a pack contributes while installed
+ */
+export function getPackQuestions(packId: string): QuestionGroupDefinition[] {
+  switch (packId) {
+    case 'blueprint-fintech':
+      return FINTECH_QUESTIONS;
+    case 'blueprint-hipaa':
+      return HIPAA_QUESTIONS;
+    default:
+      return [];
+  }
+}
+
 /**
  * Get all available pack IDs
  */
@@ -12,40 +12,32 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import {
-  listTemplates,
-  generateDocument,
-  generateAllDocuments,
-  writeDocuments,
-  getTemplatesForScope,
-  type TemplateContext,
-} from '../core/index.js';
-import {
-  InterviewEngine,
-  quickInterview,
-  getNextQuestion,
-  getProgress,
-  type InterviewAnswers,
-} from '../interview/index.js';
+import { generateDocument, type TemplateContext } from '../core/index.js';
+import type { InterviewAnswers, OpenSession } from '../interview/index.js';
+import { Blueprint } from '../client/index.js';
 
 // Tool schemas
 const GenerateSchema = z.object({
   projectName: z.string().describe('Name of the project'),
   projectDescription: z.string().describe('Brief description of what the project does'),
-  scope: z.enum(['mvp', 'standard', 'comprehensive']).default('standard'),
+  scope: z.string().default('standard').describe('mvp, standard, comprehensive, or a scope profile'),
   audience: z.enum(['startup', 'business', 'enterprise']).default('business'),
   outputDir: z.string().optional(),
   projectType: z.string().optional(),
   techStack: z.array(z.string()).optional(),
+  locale: z.string().optional().describe('Output language: en, de, fr'),
 });
 
 const InterviewSchema = z.object({
-  answers: z.record(z.unknown()).optional().describe('Answers provided so far'),
+  sessionId: z.string().optional().describe('Session to continue; omit to start a new one'),
+  answers: z.record(z.unknown()).optional().describe('New answers, keyed by question ID'),
   action: z.enum(['start', 'answer', 'complete', 'analyze']).default('start'),
+  locale: z.string().optional().describe('Question language: en, de, fr'),
+  repoPath: z.string().optional().describe('Pre-fill answers by scanning this repository'),
 });
 
 const ListTemplatesSchema = z.object({
-  scope: z.enum(['mvp', 'standard', 'comprehensive']).optional(),
+  scope: z.string().optional().describe('mvp, standard, comprehensive, or a scope profile'),
   category: z.string().optional(),
 });
 
@@ -70,23 +62,27 @@ const TOOLS: Tool[] = [
       properties: {
         projectName: { type: 'string', description: 'Name of the project' },
         projectDescription: { type: 'string', description: 'Brief description' },
-        scope: { type: 'string', enum: ['mvp', 'standard', 'comprehensive'], default: 'standard' },
+        scope: { type: 'string', description: 'mvp, standard, comprehensive, or a scope profile from .intent/config.yaml', default: 'standard' },
         audience: { type: 'string', enum: ['startup', 'business', 'enterprise'], default: 'business' },
         outputDir: { type: 'string', description: 'Output directory (optional)' },
         projectType: { type: 'string' },
         techStack: { type: 'array', items: { type: 'string' } },
+        locale: { type: 'string', enum: ['en', 'de', 'fr'], description: 'Output language (templates without a localized variant stay English)' },
       },
       required: ['projectName', 'projectDescription'],
     },
   },
   {
     name: 'blueprint_interview',
-    description: 'Start an interactive interview to gather project information.',
+    description: 'Start or continue an interactive interview to gather project information. Progress is saved in a session, so only new answers need to be sent.',
     inputSchema: {
       type: 'object',
       properties: {
-        currentAnswers: { type: 'object', additionalProperties: { type: 'string' } },
-        questionIndex: { type: 'number', default: 0 },
+        sessionId: { type: 'string', description: 'Session ID returned by a previous call; omit to start a new interview' },
+        answers: { type: 'object', description: 'New answers, keyed by question ID' },
+        action: { type: 'string', enum: ['start', 'answer', 'complete', 'analyze'], default: 'start' },
+        locale: { type: 'string', enum: ['en', 'de', 'fr'], description: 'Question language' },
+        repoPath: { type: 'string', description: 'Scan this repository (e.g. ".") to pre-fill what its manifests, CI files and README reveal' },
       },
     },
   },
@@ -96,7 +92,7 @@ const TOOLS: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        scope: { type: 'string', enum: ['mvp', 'standard', 'comprehensive'] },
+        scope: { type: 'string', description: 'mvp, standard, comprehensive, or a scope profile from .intent/config.yaml' },
         category: { type: 'string' },
       },
     },
@@ -129,6 +125,8 @@ const TOOLS: Tool[] = [
   },
 ];
 
+const blueprint = new Blueprint();
+
 const server = new Server(
   { name: 'intent-blueprint', version: '2.8.0' },
   { capabilities: { tools: {} } }
@@ -142,35 +140,33 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   switch (name) {
     case 'blueprint_generate': {
       const input = GenerateSchema.parse(args);
-      const context: TemplateContext = {
-        projectName: input.projectName,
-        projectDescription: input.projectDescription,
-        scope: input.scope,
-        audience: input.audience,
-        projectType: input.projectType,
-        techStack: input.techStack,
-      };
-
-      const docs = generateAllDocuments(context);
       const outputDir = input.outputDir || `./docs/${input.projectName.toLowerCase().replace(/\s+/g, '-')}`;
-      const files = writeDocuments(docs, outputDir);
+      const { documents: docs, validations } = await blueprint.generate({ ...input, outputDir });
+      const errors = validations.flatMap(v => v.result.errors.map(e => `- ${v.filename}: ${e.message}`));
+      const warnings = validations.reduce((n, v) => n + v.result.warnings.length, 0);
 
       return {
         content: [{
           type: 'text',
-          text: `Generated ${docs.length} documents for "${input.projectName}"\n\nOutput: ${outputDir}\n\nDocuments:\n${docs.map(d => `- ${d.name}`).join('\n')}`,
+          text: `Generated ${docs.length} documents for "${input.projectName}"\n\nOutput: ${outputDir}\n\nDocuments:\n${docs.map(d => `- ${d.name}`).join('\n')}` +
+            `\n\nPlugin checks: ${errors.length} errors, ${warnings} warnings${errors.length ? `\n${errors.join('\n')}` : ''}`,
         }],
       };
     }
 
     case 'blueprint_interview': {
       const input = InterviewSchema.parse(args);
-      const engine = new InterviewEngine();
-
-      if (input.answers) {
-        engine.setAnswers(input.answers as InterviewAnswers);
+      const answers = (input.answers || {}) as InterviewAnswers;
+      let session: OpenSession;
+      if (input.sessionId) {
+        session = blueprint.resumeInterview(input.sessionId);
+        session.engine.setAnswers(answers);
+      } else {
+        session = blueprint.startInterview({ answers, locale: input.locale, repository: input.repoPath });
       }
 
+      const { engine } = session;
+      const sessionId = session.session.id;
       const state = engine.getState();
 
       if (input.action === 'analyze' || input.action === 'complete' || state.isComplete) {
@@ -180,6 +176,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             type: 'text',
             text: `Interview Analysis Complete!
 
+**Session:** ${sessionId}
 **Project:** ${result.answers.projectName || 'Untitled'}
 **Type:** ${result.detected.projectType}
 **Complexity:** ${result.detected.complexity}
@@ -203,7 +200,7 @@ Use \`blueprint_generate\` with these values to create documentation.`,
         return {
           content: [{
             type: 'text',
-            text: 'Interview complete! Use action: "complete" to see analysis.',
+            text: `Interview complete! Call blueprint_interview with { "sessionId": "${sessionId}", "action": "complete" } to see analysis.`,
           }],
         };
       }
@@ -211,22 +208,23 @@ Use \`blueprint_generate\` with these values to create documentation.`,
       return {
         content: [{
           type: 'text',
-          text: `**Question ${progress.answered + 1}/${progress.total}** (${progress.percentage}% complete)
+          text: `**Session:** ${sessionId}
+**Question ${progress.answered + 1}/${progress.total}** (${progress.percentage}% complete)
 ${nextQ.required ? '*(required)*' : '*(optional)*'}
 
 ${nextQ.text}
 ${nextQ.hint ? `\n*Hint: ${nextQ.hint}*` : ''}
-${nextQ.options ? `\n**Options:** ${nextQ.options.join(', ')}` : ''}
+${nextQ.options ? `\n**Options:** ${nextQ.options.map((o, i) => nextQ.optionLabels ? `${nextQ.optionLabels[i]} ("${o}")` : o).join(', ')}` : ''}
 
 To answer, call blueprint_interview with:
-\`{ "answers": { "${nextQ.id}": "your answer", ...previous_answers }, "action": "answer" }\``,
+\`{ "sessionId": "${sessionId}", "answers": { "${nextQ.id}": "your answer" }, "action": "answer" }\``,
         }],
       };
     }
 
     case 'blueprint_list_templates': {
       const input = ListTemplatesSchema.parse(args);
-      let templates = input.scope ? getTemplatesForScope(input.scope) : listTemplates();
+      let templates = blueprint.templates(input.scope);
       if (input.category) {
         templates = templates.filter(t => t.category.toLowerCase().includes(input.category!.toLowerCase()));
       }
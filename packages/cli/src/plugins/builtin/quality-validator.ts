@@ -156,6 +156,28 @@ const RULES: ValidationRule[] = [
       return issues;
     },
   },
+  {
+    id: 'unconfirmed-assumptions',
+    name: 'Unconfirmed Assumptions',
+    description: 'Check for assumed values nobody has confirmed yet',
+    severity: 'warning',
+    check: (_content, lines) => {
+      const issues: Array<{ message: string; line?: number; suggestion?: string }> = [];
+
+      for (let i = 0; i < lines.length; i++) {
+        // Rows of an "Assumptions & Open Questions" table whose status is still Unconfirmed
+        if (!/\|\s*(?:\u26a0\ufe0f?\s*)?Unconfirmed\s*\|\s*$/i.test(lines[i])) continue;
+
+        const [question, value] = lines[i].split('|').slice(1).map(cell => cell.trim());
+        issues.push({
+          message: `Unconfirmed assumption: "${question}" assumed as ${value}`,
+          line: i + 1,
+          suggestion: 'Confirm or correct the value, then set its status to Confirmed',
+        });
+      }
+      return issues;
+    },
+  },
   {
     id: 'no-broken-links',
     name: 'No Broken Internal Links',
@@ -0,0 +1,120 @@
+/**
+ * Plugin Dependencies
+ * Orders plugins so each loads after the plugins it depends on, and explains
+ * which plugins cannot load: missing or disabled dependencies, versions
+ * outside the required range, and dependency cycles
+ */
+
+import { isValidRange, satisfies } from './semver.js';
+import type { PluginMetadata } from './types.js';
+
+export interface PluginDependency {
+  id: string;
+  /** Semver range the dependency's version must satisfy; unset accepts any version */
+  range?: string;
+}
+
+export interface DependencyResolution {
+  /** Plugins that can load, dependencies first */
+  order: string[];
+  /** Why each remaining plugin cannot load */
+  errors: Map<string, string>;
+}
+
+/**
+ * Parse a dependency such as "markdown-lint", "markdown-lint@^1.2.0" or
+ * "@acme/export@>=2.0.0 <3.0.0"
+ */
+export function parseDependency(spec: string): PluginDependency {
+  const trimmed = spec.trim();
+  const at = trimmed.indexOf('@', 1);
+  if (at === -1) return { id: trimmed };
+
+  const range = trimmed.slice(at + 1).trim();
+  return { id: trimmed.slice(0, at), range: range || undefined };
+}
+
+/**
+ * Resolve the load order of plugins. Plugins listed in `disabled` are
+ * installed but switched off, which only changes the error their dependents get.
+ */
+export function resolvePluginOrder(
+  plugins: PluginMetadata[],
+  disabled: Iterable<string> = []
+): DependencyResolution {
+  const byId = new Map(plugins.map(meta => [meta.id, meta]));
+  const switchedOff = new Set(disabled);
+  const errors = new Map<string, string>();
+  const requires = new Map<string, string[]>();
+
+  // Every dependency must be present, enabled and in range
+  for (const meta of plugins) {
+    const ids: string[] = [];
+    for (const spec of meta.dependencies || []) {
+      const { id, range } = parseDependency(spec);
+      const dependency = byId.get(id);
+      const problem =
+        range && !isValidRange(range) ? `${meta.id} has an invalid version range for ${id}: ${range}`
+        : !dependency && switchedOff.has(id) ? `${meta.id} depends on ${id}, which is disabled`
+        : !dependency ? `${meta.id} depends on ${id}, which is not installed`
+        : range && !satisfies(dependency.version, range) ? `${meta.id} depends on ${id}@${range}, but ${id} ${dependency.version} is installed`
+        : undefined;
+
+      if (problem) {
+        if (!errors.has(meta.id)) errors.set(meta.id, problem);
+      } else {
+        ids.push(id);
+      }
+    }
+    requires.set(meta.id, ids);
+  }
+
+  // Plugins in a cycle can never load
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const findCycles = (id: string): void => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dependency of requires.get(id) || []) {
+      if (state.get(dependency) === 'visiting') {
+        const cycle = [...stack.slice(stack.indexOf(dependency)), dependency];
+        for (const member of cycle) {
+          if (!errors.has(member)) errors.set(member, `Dependency cycle: ${cycle.join(' -> ')}`);
+        }
+      } else if (!state.has(dependency)) {
+        findCycles(dependency);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+  for (const meta of plugins) {
+    if (!state.has(meta.id)) findCycles(meta.id);
+  }
+
+  // A plugin cannot load when something it depends on cannot
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [id, ids] of requires) {
+      const failed = errors.has(id) ? undefined : ids.find(dependency => errors.has(dependency));
+      if (failed) {
+        errors.set(id, `${id} depends on ${failed}, which cannot be loaded: ${errors.get(failed)}`);
+        changed = true;
+      }
+    }
+  }
+
+  // Dependencies first, otherwise in the order given
+  const order: string[] = [];
+  const placed = new Set<string>();
+  const place = (id: string): void => {
+    if (placed.has(id) || errors.has(id)) return;
+    placed.add(id);
+    for (const dependency of requires.get(id) || []) place(dependency);
+    order.push(id);
+  };
+  for (const meta of plugins) place(meta.id);
+
+  return { order, errors };
+}
@@ -6,13 +6,24 @@
 export * from './types.js';
 export * from './manager.js';
 export * from './builtin/index.js';
-
-import { PluginManager, createPluginManager, createPluginLogger } from './manager.js';
+export * from './pipeline.js';
+export * from './settings.js';
+export * from './installer.js';
+export * from './dependencies.js';
+export * from './semver.js';
+export * from './sandbox.js';
+export * from './services/index.js';
+
+import { PluginManager, createPluginManager } from './manager.js';
+import { createPluginLogger, createPluginServices } from './services/index.js';
+import type { PluginServiceOptions } from './services/index.js';
 import { BUILTIN_PLUGINS } from './builtin/index.js';
 import type {
   Plugin,
   PluginContext,
+  PluginEvent,
   PluginRegistryConfig,
+  HookEventData,
   FormatterPlugin,
   ValidatorPlugin,
   ProcessorPlugin,
@@ -35,47 +46,16 @@ export class PluginSystem {
   /**
    * Initialize the plugin system
    */
-  async init(projectPath: string, outputPath: string): Promise<void> {
+  async init(projectPath: string, outputPath: string, options: PluginServiceOptions = {}): Promise<void> {
     if (this.initialized) return;
 
+    const logger = options.logger ?? createPluginLogger('plugins');
     const context: PluginContext = {
       projectPath,
       outputPath,
       config: {},
-      logger: createPluginLogger('plugins'),
-      services: {
-        templates: {
-          render: async (template, variables) => {
-            // Simple variable substitution
-            let result = template;
-            for (const [key, value] of Object.entries(variables)) {
-              result = result.replace(new RegExp(`{{${key}}}`, 'g'), String(value));
-            }
-            return result;
-          },
-          compile: (template) => ({
-            render: (variables) => {
-              let result = template;
-              for (const [key, value] of Object.entries(variables)) {
-                result = result.replace(new RegExp(`{{${key}}}`, 'g'), String(value));
-              }
-              return result;
-            },
-          }),
-        },
-        storage: {
-          read: async () => '',
-          write: async () => {},
-          exists: async () => false,
-          list: async () => [],
-        },
-        http: {
-          get: async () => ({}) as never,
-          post: async () => ({}) as never,
-          put: async () => ({}) as never,
-          delete: async () => ({}) as never,
-        },
-      },
+      logger,
+      services: createPluginServices(projectPath, outputPath, { ...options, logger }),
     };
 
     // Register built-in plugins
@@ -203,6 +183,13 @@ export class PluginSystem {
     return result;
   }
 
+  /**
+   * Run the hooks registered for a lifecycle event
+   */
+  async executeHooks(event: PluginEvent, data: HookEventData): Promise<HookEventData> {
+    return this.manager.executeHooks(event, data);
+  }
+
   /**
    * List all registered plugins
    */
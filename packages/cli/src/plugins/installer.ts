@@ -0,0 +1,309 @@
+/**
+ * Plugin Installer
+ * Copies a plugin into the plugin directory from a local file or folder, an
+ * npm tarball, or the npm registry, and scaffolds new plugin projects
+ */
+
+import { execFileSync } from 'child_process';
+import { cpSync, existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join, resolve } from 'path';
+import { loadPluginModule } from './manager.js';
+import { loadSandboxedPlugin } from './sandbox.js';
+import type { Plugin, PluginMetadata, PluginType } from './types.js';
+
+export const PLUGIN_TYPES: PluginType[] = ['formatter', 'validator', 'processor', 'integration', 'template', 'hook'];
+
+export interface PluginInstallOptions {
+  /** Replace a plugin already installed under the same name */
+  force?: boolean;
+  /** Check the plugin in a sandbox instead of importing it */
+  sandbox?: boolean;
+}
+
+export interface PluginInstallResult {
+  meta: PluginMetadata;
+  /** Where the plugin now lives */
+  path: string;
+}
+
+/**
+ * Install a plugin into pluginDir. The source is a .js/.mjs file, a plugin
+ * folder, a .tgz tarball, or anything `npm pack` accepts (e.g. a package name).
+ */
+export async function installPlugin(
+  source: string,
+  pluginDir: string,
+  options: PluginInstallOptions = {}
+): Promise<PluginInstallResult> {
+  const staging = mkdtempSync(join(tmpdir(), 'blueprint-plugin-'));
+
+  try {
+    const staged = stage(source, staging);
+    const loaded = options.sandbox ? await checkInSandbox(staged) : await loadPluginModule(staged);
+    if (!loaded) {
+      throw new Error(
+        `${source} is not a Blueprint plugin: expected a module exporting { meta, ... }` +
+        ' or a package.json with "intent": { "plugin": true }'
+      );
+    }
+
+    const target = join(pluginDir, installName(staged));
+    if (existsSync(target)) {
+      if (!options.force) {
+        throw new Error(`A plugin is already installed at ${target}; use --force to replace it`);
+      }
+      rmSync(target, { recursive: true, force: true });
+    }
+
+    mkdirSync(pluginDir, { recursive: true });
+    cpSync(staged, target, { recursive: true });
+    return { meta: loaded.plugin.meta, path: target };
+  } finally {
+    rmSync(staging, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Load a plugin in a sandbox just long enough to read its metadata
+ */
+async function checkInSandbox(staged: string): Promise<{ plugin: Plugin } | null> {
+  const loaded = await loadSandboxedPlugin(staged);
+  await loaded?.sandbox.stop();
+  return loaded;
+}
+
+/**
+ * Remove an installed plugin's file or folder. Only paths inside pluginDir are removed.
+ */
+export function uninstallPlugin(path: string, pluginDir: string): void {
+  const target = resolve(path);
+  if (!target.startsWith(resolve(pluginDir) + '/') && !target.startsWith(resolve(pluginDir) + '\\')) {
+    throw new Error(`${path} is not inside ${pluginDir}; remove it by hand`);
+  }
+  rmSync(target, { recursive: true, force: true });
+}
+
+/**
+ * Put the plugin's files into the staging folder; returns the file or folder to install
+ */
+function stage(source: string, staging: string): string {
+  if (existsSync(source)) {
+    if (statSync(source).isDirectory()) {
+      const target = join(staging, basename(resolve(source)));
+      cpSync(source, target, {
+        recursive: true,
+        filter: (path) => !/[\\/](node_modules|\.git)$/.test(path),
+      });
+      return target;
+    }
+    if (/\.(tgz|tar\.gz)$/.test(source)) {
+      return extract(resolve(source), staging);
+    }
+    if (/\.m?js$/.test(source)) {
+      const target = join(staging, basename(source));
+      cpSync(source, target);
+      return target;
+    }
+    throw new Error(`Cannot install ${source}: expected a .js/.mjs file, a folder or a .tgz tarball`);
+  }
+
+  // Not a local path: let npm fetch the tarball
+  let tarball: string;
+  try {
+    const output = execFileSync('npm', ['pack', source, '--pack-destination', staging, '--silent'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    tarball = join(staging, output.trim().split('\n').pop() || '');
+  } catch (error) {
+    const detail = (error as { stderr?: string }).stderr?.trim() || (error as Error).message;
+    throw new Error(`Cannot fetch ${source} from npm: ${detail}`);
+  }
+  return extract(tarball, staging);
+}
+
+/**
+ * Unpack an npm tarball; its files sit under package/
+ */
+function extract(tarball: string, staging: string): string {
+  const target = join(staging, 'unpacked');
+  mkdirSync(target);
+  execFileSync('tar', ['-xzf', tarball, '-C', target]);
+
+  const root = join(target, 'package');
+  if (existsSync(root)) return root;
+  const [only] = readdirSync(target);
+  if (!only) throw new Error(`${tarball} is empty`);
+  return join(target, only);
+}
+
+/**
+ * Folder or file name in the plugin directory: the package name without its scope
+ */
+function installName(staged: string): string {
+  const pkgPath = join(staged, 'package.json');
+  if (existsSync(pkgPath)) {
+    const name = JSON.parse(readFileSync(pkgPath, 'utf-8')).name;
+    if (typeof name === 'string' && name) return name.replace(/^@[^/]+\//, '');
+  }
+  return basename(staged);
+}
+
+/**
+ * Scaffold a TypeScript plugin project of the given type. Returns the files written.
+ */
+export function scaffoldPlugin(name: string, type: PluginType, dir: string): string[] {
+  if (!PLUGIN_TYPES.includes(type)) {
+    throw new Error(`Unknown plugin type: ${type}. Use one of: ${PLUGIN_TYPES.join(', ')}`);
+  }
+  if (existsSync(dir) && readdirSync(dir).length > 0) {
+    throw new Error(`${dir} already exists and is not empty`);
+  }
+
+  const id = name.toLowerCase().replace(/^@[^/]+\//, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const title = id.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+  const files: Record<string, string> = {
+    'package.json': JSON.stringify({
+      name,
+      version: '0.1.0',
+      description: `${title} plugin for Intent Blueprint`,
+      type: 'module',
+      main: 'dist/index.js',
+      types: 'dist/index.d.ts',
+      scripts: { build: 'tsc', prepare: 'tsc' },
+      intent: { plugin: true },
+      devDependencies: { '@intentsolutions/blueprint': '^2.8.0', typescript: '^5.3.0' },
+    }, null, 2) + '\n',
+    'tsconfig.json': JSON.stringify({
+      compilerOptions: {
+        target: 'ES2022',
+        module: 'NodeNext',
+        moduleResolution: 'NodeNext',
+        strict: true,
+        declaration: true,
+        outDir: 'dist',
+        rootDir: 'src',
+        skipLibCheck: true,
+      },
+      include: ['src'],
+    }, null, 2) + '\n',
+    'src/index.ts': pluginSource(id, title, type),
+    'README.md': `# ${title}
+
+A ${type} plugin for Intent Blueprint.
+
+\`\`\`bash
+npm install
+npm run build
+blueprint plugin install .
+\`\`\`
+`,
+  };
+
+  const written: string[] = [];
+  for (const [file, content] of Object.entries(files)) {
+    const path = join(dir, file);
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, content);
+    written.push(path);
+  }
+  return written;
+}
+
+const PLUGIN_INTERFACES: Record<PluginType, string> = {
+  formatter: 'FormatterPlugin',
+  validator: 'ValidatorPlugin',
+  processor: 'ProcessorPlugin',
+  integration: 'IntegrationPlugin',
+  template: 'TemplateProviderPlugin',
+  hook: 'HookPlugin',
+};
+
+const PLUGIN_BODIES: Record<PluginType, string> = {
+  formatter: `
+  async format(content, options) {
+    return \`<!-- \${options?.title ?? 'Document'} -->\\n\${content}\`;
+  },
+
+  getExtension() {
+    return 'txt';
+  },
+
+  getMimeType() {
+    return 'text/plain';
+  },`,
+  validator: `
+  async validate(content) {
+    const warnings = /TODO/.test(content)
+      ? [{ rule: 'no-todo', message: 'Document still contains TODO', severity: 'warning' as const }]
+      : [];
+    return { valid: true, errors: [], warnings };
+  },`,
+  processor: `
+  async process(content) {
+    return content.replace(/\\s+$/, '') + '\\n';
+  },`,
+  integration: `
+  connected: false,
+
+  async connect(credentials) {
+    if (!credentials.apiKey) throw new Error('An API key is required');
+    this.connected = true;
+  },
+
+  async disconnect() {
+    this.connected = false;
+  },
+
+  isConnected() {
+    return this.connected;
+  },
+
+  async export(content, destination) {
+    return { success: true, id: destination.id, metadata: { length: content.length } };
+  },`,
+  template: `
+  async getTemplates() {
+    return [{ id: 'example', name: 'Example', description: 'An example template', category: 'custom', tags: [] }];
+  },
+
+  async getTemplate(id) {
+    return { id, content: '# {{projectName}}\\n', variables: [], sections: [] };
+  },`,
+  hook: `
+  async onEvent(event, data) {
+    context?.logger.info(\`Handling \${event}\`);
+    return data;
+  },`,
+};
+
+function pluginSource(id: string, title: string, type: PluginType): string {
+  const iface = PLUGIN_INTERFACES[type];
+  const events = type === 'hook' ? `\n    events: ['beforeGenerate', 'afterGenerate'],` : '';
+  const context = type === 'hook'
+    ? `let context: PluginContext | undefined;\n\n`
+    : '';
+  const imports = type === 'hook' ? `${iface}, PluginContext` : iface;
+  const init = type === 'hook'
+    ? `\n\n  async init(pluginContext) {\n    context = pluginContext;\n  },`
+    : '';
+  const state = type === 'integration' ? ` & { connected: boolean }` : '';
+
+  return `import type { ${imports} } from '@intentsolutions/blueprint';
+
+${context}const plugin: ${iface}${state} = {
+  meta: {
+    id: '${id}',
+    name: '${title}',
+    description: 'Describe what ${title} does',
+    version: '0.1.0',
+    author: { name: '' },
+    type: '${type}',${events}
+  },${init}
+${PLUGIN_BODIES[type]}
+};
+
+export default plugin;
+`;
+}
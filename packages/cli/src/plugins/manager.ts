@@ -3,16 +3,18 @@
  * Handles plugin loading, registration, and lifecycle management
  */
 
-import { existsSync, readdirSync, readFileSync } from 'fs';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
 import { join, basename } from 'path';
+import { pathToFileURL } from 'url';
 import type {
   Plugin,
   PluginEntry,
   PluginEvent,
   PluginContext,
-  PluginLogger,
   PluginRegistryConfig,
   PluginType,
+  PluginSettings,
+  PluginSandboxOptions,
   FormatterPlugin,
   ValidatorPlugin,
   ProcessorPlugin,
@@ -22,6 +24,9 @@ import type {
   HookEventData,
 } from './types.js';
 import { DEFAULT_PLUGIN_CONFIG } from './types.js';
+import { readPluginSettings, validatePluginConfig, withConfigDefaults } from './settings.js';
+import { parseDependency, resolvePluginOrder } from './dependencies.js';
+import { loadSandboxedPlugin } from './sandbox.js';
 
 /**
  * Plugin Manager
@@ -31,6 +36,8 @@ export class PluginManager {
   private config: PluginRegistryConfig;
   private context: PluginContext | null = null;
   private hooks: Map<PluginEvent, HookPlugin[]> = new Map();
+  /** Set once init has resolved dependencies; later registrations are checked on the spot */
+  private resolved = false;
 
   constructor(config: Partial<PluginRegistryConfig> = {}) {
     this.config = { ...DEFAULT_PLUGIN_CONFIG, ...config };
@@ -48,19 +55,37 @@ export class PluginManager {
     }
 
     // Auto-discover plugins
+    const settings = readPluginSettings(this.getSettingsFile());
     if (this.config.autoDiscover) {
-      await this.discoverPlugins();
+      await this.discoverPlugins(settings);
     }
 
-    // Initialize all loaded plugins
+    // Apply what the user disabled or configured
     for (const [id, entry] of this.plugins) {
-      if (entry.enabled && entry.plugin.init) {
+      this.applySettings(entry, settings[id]);
+    }
+
+    // Check config and dependencies, then initialize dependencies first
+    const order = this.resolve();
+    this.resolved = true;
+    for (const id of order) {
+      const entry = this.plugins.get(id)!;
+      const failed = entry.plugin.meta.dependencies
+        ?.map(spec => parseDependency(spec).id)
+        .find(dependency => !this.isEnabled(dependency));
+      if (failed) {
+        this.fail(id, `${id} depends on ${failed}, which failed to initialize`);
+        continue;
+      }
+
+      if (entry.plugin.init) {
         try {
-          await entry.plugin.init(this.context);
+          await entry.plugin.init({ ...context, config: entry.config });
           context.logger.debug(`Plugin initialized: ${id}`);
         } catch (error) {
           context.logger.error(`Failed to initialize plugin ${id}`, error);
           entry.enabled = false;
+          entry.error = `Failed to initialize: ${error instanceof Error ? error.message : String(error)}`;
         }
       }
     }
@@ -81,19 +106,27 @@ export class PluginManager {
     }
     this.plugins.clear();
     this.hooks.clear();
+    this.resolved = false;
   }
 
   /**
-   * Register a plugin
+   * Register a plugin. Schema defaults fill in missing config. Once init has
+   * run, the config and dependencies are checked right away.
    */
-  register(plugin: Plugin, config: Record<string, unknown> = {}): void {
+  register(plugin: Plugin, config: Record<string, unknown> = {}, path?: string): void {
     const entry: PluginEntry = {
       plugin,
       enabled: true,
-      config,
+      config: withConfigDefaults(plugin.meta.config, config),
       loadedAt: new Date(),
+      path,
     };
 
+    if (this.resolved) {
+      const problem = this.check(entry);
+      if (problem) throw new Error(problem);
+    }
+
     this.plugins.set(plugin.meta.id, entry);
 
     // Register hooks
@@ -106,7 +139,7 @@ export class PluginManager {
       }
     }
 
-    this.context?.logger.info(`Plugin registered: ${plugin.meta.id}`);
+    this.context?.logger.debug(`Plugin registered: ${plugin.meta.id}`);
   }
 
   /**
@@ -138,15 +171,19 @@ export class PluginManager {
   }
 
   /**
-   * Enable a plugin
+   * Enable a plugin; throws when its config is invalid or a dependency is unmet
    */
   async enable(id: string): Promise<boolean> {
     const entry = this.plugins.get(id);
     if (!entry) return false;
 
+    const problem = this.check(entry);
+    if (problem) throw new Error(problem);
+
     entry.enabled = true;
+    entry.error = undefined;
     if (entry.plugin.init && this.context) {
-      await entry.plugin.init(this.context);
+      await entry.plugin.init({ ...this.context, config: entry.config });
     }
     return true;
   }
@@ -173,6 +210,27 @@ export class PluginManager {
     return entry?.enabled ? (entry.plugin as T) : undefined;
   }
 
+  /**
+   * Get a plugin's registration, whether or not it is enabled
+   */
+  getEntry(id: string): PluginEntry | undefined {
+    return this.plugins.get(id);
+  }
+
+  /**
+   * Directory plugins are discovered in
+   */
+  getPluginDir(): string {
+    return join(this.context?.projectPath || '.', this.config.pluginDir);
+  }
+
+  /**
+   * File the per-plugin settings are saved in
+   */
+  getSettingsFile(): string {
+    return join(this.context?.projectPath || '.', this.config.settingsFile);
+  }
+
   /**
    * Get all plugins of a specific type
    */
@@ -245,6 +303,7 @@ export class PluginManager {
     let result = data;
 
     for (const hook of hooks) {
+      if (!this.isEnabled(hook.meta.id)) continue;
       try {
         result = await hook.onEvent(event, result);
       } catch (error) {
@@ -304,49 +363,43 @@ export class PluginManager {
   /**
    * Discover plugins in the plugin directory
    */
-  private async discoverPlugins(): Promise<void> {
-    const pluginDir = join(this.context?.projectPath || '.', this.config.pluginDir);
+  private async discoverPlugins(settings: Record<string, PluginSettings>): Promise<void> {
+    const pluginDir = this.getPluginDir();
 
     if (!existsSync(pluginDir)) {
       this.context?.logger.debug(`Plugin directory not found: ${pluginDir}`);
       return;
     }
 
-    const entries = readdirSync(pluginDir, { withFileTypes: true });
+    const paths = readdirSync(pluginDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() || entry.name.endsWith('.js') || entry.name.endsWith('.mjs'))
+      .map(entry => join(pluginDir, entry.name));
+
+    // A sandbox asked for under an ID that names no file or folder could be
+    // meant for any plugin without settings of its own
+    const placed = new Set(paths.map(path => settingsFor(path, settings)?.[0]));
+    const unplaced = Object.entries(settings).filter(([id, s]) => s.sandbox && !placed.has(id)).map(([id]) => id);
+    if (unplaced.length > 0) {
+      this.context?.logger.warn(
+        `Sandboxing plugins without settings because ${unplaced.join(', ')} ` +
+        `${unplaced.length === 1 ? 'asks' : 'ask'} for a sandbox but no plugin file or folder has that name; set "path" in its settings`
+      );
+    }
 
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        await this.loadPlugin(join(pluginDir, entry.name));
-      } else if (entry.name.endsWith('.js') || entry.name.endsWith('.mjs')) {
-        await this.loadPlugin(join(pluginDir, entry.name));
-      }
+    for (const path of paths) {
+      await this.loadPlugin(path, settings, unplaced.length > 0);
     }
   }
 
   /**
    * Load a plugin from a path
    */
-  private async loadPlugin(path: string): Promise<void> {
+  private async loadPlugin(path: string, settings: Record<string, PluginSettings>, sandboxUnknown: boolean): Promise<void> {
     try {
-      // Try to load package.json for plugin metadata
-      const pkgPath = join(path, 'package.json');
-      if (existsSync(pkgPath)) {
-        const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
-        if (pkg.intent?.plugin) {
-          const entryPoint = join(path, pkg.main || 'index.js');
-          const module = await import(entryPoint);
-          const plugin = module.default || module;
-          if (this.isValidPlugin(plugin)) {
-            this.register(plugin, pkg.intent.config || {});
-          }
-        }
-      } else {
-        // Direct JS file
-        const module = await import(path);
-        const plugin = module.default || module;
-        if (this.isValidPlugin(plugin)) {
-          this.register(plugin);
-        }
+      const loaded = await this.importOrSandbox(path, settings, sandboxUnknown);
+      if (loaded) {
+        this.register(loaded.plugin, loaded.config, path);
+        this.plugins.get(loaded.plugin.meta.id)!.sandbox = loaded.sandbox;
       }
     } catch (error) {
       this.context?.logger.error(`Failed to load plugin from ${path}`, error);
@@ -354,46 +407,153 @@ export class PluginManager {
   }
 
   /**
-   * Validate plugin structure
+   * Import a plugin, or run it in a sandbox when the registry or its settings
+   * ask for one. Which it is gets decided from the plugin's file or folder
+   * name before any of its code runs, and a plugin that should be sandboxed
+   * but cannot be is refused rather than imported.
+   */
+  private async importOrSandbox(
+    path: string,
+    settings: Record<string, PluginSettings>,
+    sandboxUnknown: boolean
+  ): Promise<{ plugin: Plugin; config: Record<string, unknown>; sandbox?: Required<PluginSandboxOptions> } | null> {
+    const match = settingsFor(path, settings);
+    const wanted = match ? match[1].sandbox : undefined;
+    if (wanted === false || (!wanted && !this.config.sandbox && (match || !sandboxUnknown))) {
+      return loadPluginModule(path);
+    }
+
+    let loaded: Awaited<ReturnType<typeof loadSandboxedPlugin>>;
+    try {
+      loaded = await loadSandboxedPlugin(path, typeof wanted === 'object' ? wanted : {}, this.context?.logger);
+    } catch (error) {
+      throw new Error(`${basename(path)} is set to run in a sandbox but cannot: ${(error as Error).message}`);
+    }
+    if (!loaded) return null;
+
+    // Limits saved under the plugin's ID, for a plugin sandboxed without knowing its settings
+    const own = match ? undefined : settings[loaded.plugin.meta.id]?.sandbox;
+    if (typeof own === 'object') await loaded.sandbox.configure(own);
+    return { plugin: loaded.plugin, config: loaded.config, sandbox: loaded.sandbox.getOptions() };
+  }
+
+  /**
+   * Saved settings win over the config a plugin was registered with
+   */
+  private applySettings(entry: PluginEntry, settings: PluginSettings | undefined): void {
+    if (!settings) return;
+    if (settings.enabled === false) entry.enabled = false;
+    if (settings.config) entry.config = { ...entry.config, ...settings.config };
+  }
+
+  /**
+   * Disable every enabled plugin whose config is invalid or whose dependencies
+   * are unmet, then put the rest in dependency order. Returns that order.
+   */
+  private resolve(): string[] {
+    for (const [id, entry] of this.plugins) {
+      const errors = entry.enabled ? validatePluginConfig(entry.plugin.meta.config, entry.config) : [];
+      if (errors.length > 0) {
+        this.fail(id, configError(id, errors));
+      }
+    }
+
+    const enabled = [...this.plugins.values()].filter(e => e.enabled).map(e => e.plugin.meta);
+    const disabled = [...this.plugins.keys()].filter(id => !this.isEnabled(id));
+    const { order, errors } = resolvePluginOrder(enabled, disabled);
+    for (const [id, message] of errors) {
+      this.fail(id, message);
+    }
+
+    // Processors, validators and hooks run in the same order plugins load
+    const rank = new Map(order.map((id, index) => [id, index]));
+    const position = (id: string) => rank.get(id) ?? order.length;
+    this.plugins = new Map([...this.plugins].sort(([a], [b]) => position(a) - position(b)));
+    for (const hooks of this.hooks.values()) {
+      hooks.sort((a, b) => position(a.meta.id) - position(b.meta.id));
+    }
+
+    return order;
+  }
+
+  /**
+   * Why a plugin cannot be enabled next to the plugins already enabled, if it cannot
    */
-  private isValidPlugin(obj: unknown): obj is Plugin {
-    if (!obj || typeof obj !== 'object') return false;
-    const plugin = obj as Plugin;
-    return (
-      plugin.meta !== undefined &&
-      typeof plugin.meta.id === 'string' &&
-      typeof plugin.meta.name === 'string' &&
-      typeof plugin.meta.version === 'string' &&
-      typeof plugin.meta.type === 'string'
-    );
+  private check(entry: PluginEntry): string | undefined {
+    const { meta } = entry.plugin;
+    const errors = validatePluginConfig(meta.config, entry.config);
+    if (errors.length > 0) return configError(meta.id, errors);
+
+    const others = [...this.plugins.values()].filter(e => e.enabled && e.plugin.meta.id !== meta.id);
+    const disabled = [...this.plugins.keys()].filter(id => id !== meta.id && !this.isEnabled(id));
+    return resolvePluginOrder([...others.map(e => e.plugin.meta), meta], disabled).errors.get(meta.id);
+  }
+
+  private fail(id: string, message: string): void {
+    const entry = this.plugins.get(id);
+    if (!entry) return;
+    entry.enabled = false;
+    entry.error = message;
+    this.context?.logger.error(message);
   }
 }
 
 /**
- * Create a plugin manager instance
+ * The settings entry for a plugin file or folder: the one whose "path" names
+ * it, else the one whose ID is its name
  */
-export function createPluginManager(config?: Partial<PluginRegistryConfig>): PluginManager {
-  return new PluginManager(config);
+function settingsFor(path: string, settings: Record<string, PluginSettings>): [string, PluginSettings] | undefined {
+  const name = basename(path);
+  const entries = Object.entries(settings);
+  return entries.find(([, s]) => s.path === name) ?? entries.find(([id]) => id === name.replace(/\.m?js$/, ''));
+}
+
+function configError(id: string, errors: string[]): string {
+  return `Invalid config for ${id}: ${errors.join('; ')}`;
 }
 
 /**
- * Create a basic plugin logger
+ * Import a plugin from a .js/.mjs file or a directory whose package.json has
+ * `intent.plugin`. Returns null when the path holds no plugin; import errors throw.
  */
-export function createPluginLogger(prefix: string): PluginLogger {
-  return {
-    debug: (message, data) => {
-      if (process.env.DEBUG) {
-        console.debug(`[${prefix}] ${message}`, data ?? '');
-      }
-    },
-    info: (message, data) => {
-      console.info(`[${prefix}] ${message}`, data ?? '');
-    },
-    warn: (message, data) => {
-      console.warn(`[${prefix}] ${message}`, data ?? '');
-    },
-    error: (message, data) => {
-      console.error(`[${prefix}] ${message}`, data ?? '');
-    },
-  };
+export async function loadPluginModule(
+  path: string
+): Promise<{ plugin: Plugin; config: Record<string, unknown> } | null> {
+  // Try to load package.json for plugin metadata
+  const pkgPath = join(path, 'package.json');
+  if (existsSync(pkgPath)) {
+    const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
+    if (!pkg.intent?.plugin) return null;
+    const module = await import(pathToFileURL(join(path, pkg.main || 'index.js')).href);
+    const plugin = module.default || module;
+    return isValidPlugin(plugin) ? { plugin, config: pkg.intent.config || {} } : null;
+  }
+
+  // Direct JS file
+  if (!statSync(path).isFile()) return null;
+  const module = await import(pathToFileURL(path).href);
+  const plugin = module.default || module;
+  return isValidPlugin(plugin) ? { plugin, config: {} } : null;
+}
+
+/**
+ * Validate plugin structure
+ */
+export function isValidPlugin(obj: unknown): obj is Plugin {
+  if (!obj || typeof obj !== 'object') return false;
+  const plugin = obj as Plugin;
+  return (
+    plugin.meta !== undefined &&
+    typeof plugin.meta.id === 'string' &&
+    typeof plugin.meta.name === 'string' &&
+    typeof plugin.meta.version === 'string' &&
+    typeof plugin.meta.type === 'string'
+  );
+}
+
+/**
+ * Create a plugin manager instance
+ */
+export function createPluginManager(config?: Partial<PluginRegistryConfig>): PluginManager {
+  return new PluginManager(config);
 }
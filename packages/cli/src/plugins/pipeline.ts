@@ -0,0 +1,160 @@
+/**
+ * Plugin Pipeline
+ * Runs generation and export through the plugin lifecycle: beforeGenerate
+ * hooks may adjust the context, processors and afterGenerate hooks see each
+ * document, validators report on the result, and beforeExport/afterExport
+ * hooks wrap every export. Failures are passed to onError hooks.
+ */
+
+import type { GeneratedDocument } from '../core/index.js';
+import type { PluginSystem } from './index.js';
+import type { HookEventData, PluginEvent, ValidationResult } from './types.js';
+
+/**
+ * One validator's verdict on one document
+ */
+export interface DocumentValidation {
+  filename: string;
+  validator: string;
+  result: ValidationResult;
+}
+
+export interface PipelineResult<C> {
+  /** Context after beforeGenerate hooks */
+  context: C;
+  /** Documents after processors and afterGenerate hooks */
+  documents: GeneratedDocument[];
+  validations: DocumentValidation[];
+}
+
+export class PluginPipeline {
+  constructor(private plugins: PluginSystem) {}
+
+  /**
+   * Generate documents through the whole lifecycle
+   */
+  async generate<C extends Record<string, unknown>>(
+    context: C,
+    generate: (context: C) => GeneratedDocument[] | Promise<GeneratedDocument[]>
+  ): Promise<PipelineResult<C>> {
+    try {
+      const prepared = await this.beforeGenerate(context);
+      const documents = await this.processDocuments(await generate(prepared), prepared);
+      return { context: prepared, documents, validations: await this.validateDocuments(documents) };
+    } catch (error) {
+      await this.onError(error, 'generate');
+      throw error;
+    }
+  }
+
+  /**
+   * Run beforeGenerate hooks; a hook may return changed variables
+   */
+  async beforeGenerate<C extends Record<string, unknown>>(context: C): Promise<C> {
+    const data = await this.emit('beforeGenerate', { variables: { ...context } });
+    return (data.variables as C | undefined) ?? context;
+  }
+
+  /**
+   * Run a document through the processors, then the afterGenerate hooks
+   */
+  async processDocument(document: GeneratedDocument, context: Record<string, unknown>): Promise<GeneratedDocument> {
+    const processed = await this.plugins.process(document.content, {
+      params: { filename: document.filename, template: document.template, context },
+    });
+    const data = await this.emit('afterGenerate', {
+      content: processed,
+      template: document.template,
+      variables: context,
+      output: document.filename,
+    });
+    return { ...document, content: data.content ?? processed };
+  }
+
+  async processDocuments(documents: GeneratedDocument[], context: Record<string, unknown>): Promise<GeneratedDocument[]> {
+    const processed: GeneratedDocument[] = [];
+    for (const document of documents) {
+      processed.push(await this.processDocument(document, context));
+    }
+    return processed;
+  }
+
+  /**
+   * Run every validator over every document
+   */
+  async validateDocuments(documents: Array<Pick<GeneratedDocument, 'filename' | 'content'>>): Promise<DocumentValidation[]> {
+    const validations: DocumentValidation[] = [];
+    for (const document of documents) {
+      const data = await this.emit('beforeValidate', { content: document.content, output: document.filename });
+      const content = data.content ?? document.content;
+      const results: DocumentValidation[] = [];
+      for (const validator of this.plugins.getValidators()) {
+        results.push({ filename: document.filename, validator: validator.meta.id, result: await validator.validate(content) });
+      }
+      await this.emit('afterValidate', { content, output: document.filename, validations: results });
+      validations.push(...results);
+    }
+    return validations;
+  }
+
+  /**
+   * Convert documents with the formatter for an extension (e.g. 'html').
+   * Each copy keeps its name with the formatter's extension.
+   */
+  async formatDocuments(documents: GeneratedDocument[], format: string): Promise<GeneratedDocument[]> {
+    const formatter = this.plugins.getFormatter(format);
+    if (!formatter) {
+      const known = this.plugins.getFormatters().map(f => f.getExtension()).join(', ');
+      throw new Error(`No formatter found for format: ${format} (available: ${known})`);
+    }
+
+    const formatted: GeneratedDocument[] = [];
+    for (const document of documents) {
+      formatted.push({
+        ...document,
+        filename: `${document.filename.replace(/\.md$/, '')}.${formatter.getExtension()}`,
+        content: await formatter.format(document.content, { title: document.name }),
+      });
+    }
+    return formatted;
+  }
+
+  /**
+   * Export documents between the beforeExport and afterExport hooks. A
+   * beforeExport hook may return changed documents.
+   */
+  async export<D extends { content: string }, T>(
+    target: string,
+    documents: D[],
+    run: (documents: D[]) => Promise<T>
+  ): Promise<T> {
+    try {
+      const data = await this.emit('beforeExport', { target, documents });
+      const prepared = (data.documents as D[] | undefined) ?? documents;
+      const result = await run(prepared);
+      await this.emit('afterExport', { target, documents: prepared, result });
+      return result;
+    } catch (error) {
+      await this.onError(error, 'export');
+      throw error;
+    }
+  }
+
+  /**
+   * Tell onError hooks about a failure; their own errors are logged, not thrown
+   */
+  async onError(error: unknown, stage: 'generate' | 'export'): Promise<void> {
+    await this.emit('onError', { error: error instanceof Error ? error : new Error(String(error)), stage });
+  }
+
+  private emit(event: PluginEvent, data: HookEventData): Promise<HookEventData> {
+    return this.plugins.executeHooks(event, data);
+  }
+}
+
+/**
+ * Create a pipeline over an initialized plugin system
+ */
+export function createPluginPipeline(plugins: PluginSystem): PluginPipeline {
+  return new PluginPipeline(plugins);
+}
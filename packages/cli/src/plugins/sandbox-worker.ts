@@ -0,0 +1,194 @@
+/**
+ * Plugin Sandbox Runtime
+ * Source for the worker thread a sandboxed plugin runs in. The plugin itself
+ * is evaluated in a `vm` context with no require, process or host objects;
+ * a small kernel inside that context is its only way out, and everything
+ * crossing the boundary is a JSON string so no host object leaks in.
+ */
+
+/**
+ * Runs in the plugin's vm context. Receives the worker's helpers once,
+ * keeps them in its closure, and returns { load, receive } to the worker.
+ */
+export const SANDBOX_KERNEL_SOURCE = String.raw`'use strict';
+(function (host) {
+  const SYNC_METHODS = ['getExtension', 'getMimeType', 'isConnected'];
+  const pending = new Map();
+  let nextRequest = 0;
+  let plugin = null;
+
+  const plain = (value) => {
+    if (value === undefined) return undefined;
+    try {
+      return JSON.parse(JSON.stringify(value, (key, item) =>
+        item instanceof Error ? { name: item.name, message: item.message, stack: item.stack } : item));
+    } catch (error) {
+      return String(value);
+    }
+  };
+  const post = (message) => host.post(JSON.stringify(message));
+  const describe = (error) => (error && error.message) ? String(error.message) : String(error);
+  const request = (service, method, args) => new Promise((resolve, reject) => {
+    const id = ++nextRequest;
+    pending.set(id, { resolve, reject });
+    post({ type: 'service', id, service, method, args: plain(args) });
+  });
+  const log = (level) => (message, data) => post({ type: 'log', level, message: String(message), data: plain(data) });
+  const print = (level) => (...values) => post({ type: 'log', level, message: values.map(v => typeof v === 'string' ? v : JSON.stringify(plain(v))).join(' ') });
+
+  const timer = (repeat) => (callback, ms, ...args) => host.schedule(() => callback(...args), Number(ms) || 0, repeat);
+  globalThis.setTimeout = timer(false);
+  globalThis.setInterval = timer(true);
+  globalThis.clearTimeout = globalThis.clearInterval = (id) => host.cancel(Number(id));
+  globalThis.console = { log: print('info'), info: print('info'), debug: print('debug'), warn: print('warn'), error: print('error') };
+
+  const snapshot = () => {
+    const state = {};
+    for (const method of SYNC_METHODS) {
+      if (plugin && typeof plugin[method] === 'function') {
+        try { state[method] = plain(plugin[method]()); } catch (error) { /* left unset */ }
+      }
+    }
+    return state;
+  };
+
+  const makeContext = (base) => ({
+    projectPath: base.projectPath,
+    outputPath: base.outputPath,
+    config: base.config,
+    logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') },
+    services: {
+      templates: {
+        render: (template, variables) => request('templates', 'render', [String(template), variables || {}]),
+        compile: (template) => {
+          const handle = host.compile(String(template));
+          return {
+            render: (variables) => {
+              const output = JSON.parse(host.render(handle, JSON.stringify(plain(variables) || {})));
+              if (output.error !== undefined) throw new Error(output.error);
+              return output.result;
+            },
+          };
+        },
+      },
+      storage: {
+        read: (path) => request('storage', 'read', [String(path)]),
+        write: (path, content) => request('storage', 'write', [String(path), String(content)]),
+        exists: (path) => request('storage', 'exists', [String(path)]),
+        list: (pattern) => request('storage', 'list', [String(pattern)]),
+      },
+      http: {
+        get: (url, options) => request('http', 'get', [String(url), options]),
+        post: (url, body, options) => request('http', 'post', [String(url), body, options]),
+        put: (url, body, options) => request('http', 'put', [String(url), body, options]),
+        delete: (url, options) => request('http', 'delete', [String(url), options]),
+      },
+    },
+  });
+
+  const call = async (id, method, args) => {
+    try {
+      let result;
+      if (method === 'init') {
+        result = typeof plugin.init === 'function' ? await plugin.init(makeContext(args[0])) : undefined;
+      } else if (typeof plugin[method] === 'function') {
+        result = await plugin[method](...args);
+      } else {
+        throw new Error('Plugin has no method ' + method);
+      }
+      post({ type: 'result', id, result: plain(result), state: snapshot() });
+    } catch (error) {
+      post({ type: 'result', id, error: describe(error), state: snapshot() });
+    }
+  };
+
+  return {
+    load(factory) {
+      const module = { exports: {} };
+      factory(module, module.exports);
+      const exported = module.exports.default || module.exports;
+      if (!exported || typeof exported !== 'object' || !exported.meta || typeof exported.meta.id !== 'string') {
+        throw new Error('The file does not export a plugin ({ meta, ... })');
+      }
+      plugin = exported;
+
+      const methods = [];
+      for (let proto = plugin; proto && proto !== Object.prototype; proto = Object.getPrototypeOf(proto)) {
+        for (const key of Object.getOwnPropertyNames(proto)) {
+          if (key !== 'constructor' && !methods.includes(key) && typeof plugin[key] === 'function') methods.push(key);
+        }
+      }
+      post({ type: 'ready', meta: plain(plugin.meta), methods, state: snapshot() });
+    },
+
+    receive(json) {
+      const message = JSON.parse(json);
+      if (message.type === 'call') {
+        call(message.id, message.method, message.args || []);
+      } else if (message.type === 'reply' && pending.has(message.id)) {
+        const { resolve, reject } = pending.get(message.id);
+        pending.delete(message.id);
+        if (message.error !== undefined) reject(new Error(message.error));
+        else resolve(message.result);
+      }
+    },
+  };
+})`;
+
+/**
+ * Worker entry, run with `new Worker(source, { eval: true })`. Sets up the
+ * vm context, hands the kernel its helpers and relays messages as JSON.
+ */
+export const SANDBOX_WORKER_SOURCE = String.raw`'use strict';
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const Handlebars = require(workerData.handlebarsPath);
+
+const context = vm.createContext({}, {
+  name: workerData.filename,
+  codeGeneration: { strings: false, wasm: false },
+});
+
+const timers = new Map();
+let nextTimer = 0;
+const templates = [];
+const errors = (key, value) => value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+const kernel = vm.runInContext(workerData.kernel, context, { filename: 'plugin-sandbox-kernel.js' })({
+  post: (json) => parentPort.postMessage(JSON.parse(json)),
+  schedule: (callback, ms, repeat) => {
+    const id = ++nextTimer;
+    const run = () => {
+      if (!repeat) timers.delete(id);
+      callback();
+    };
+    timers.set(id, repeat ? setInterval(run, ms) : setTimeout(run, ms));
+    return id;
+  },
+  cancel: (id) => {
+    clearTimeout(timers.get(id));
+    clearInterval(timers.get(id));
+    timers.delete(id);
+  },
+  compile: (template) => templates.push(Handlebars.compile(String(template), { noEscape: true })) - 1,
+  render: (handle, json) => {
+    try {
+      return JSON.stringify({ result: templates[handle](JSON.parse(json)) });
+    } catch (error) {
+      return JSON.stringify({ error: String(error && error.message || error) });
+    }
+  },
+});
+
+try {
+  const factory = vm.runInContext('(function (module, exports) {\n' + workerData.code + '\n})', context, {
+    filename: workerData.filename,
+    lineOffset: -1,
+  });
+  kernel.load(factory);
+} catch (error) {
+  parentPort.postMessage({ type: 'failed', error: String(error && error.message || error) });
+}
+
+parentPort.on('message', (message) => kernel.receive(JSON.stringify(message, errors)));
+`;
@@ -0,0 +1,381 @@
+/**
+ * Plugin Sandbox
+ * Runs an untrusted plugin in a worker thread instead of importing it. The
+ * plugin only sees PluginContext.services, and only through this host:
+ * storage is limited to the project and output folders, HTTP to the allowed
+ * hosts, and each call to a time limit. The worker has a heap limit.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve, sep } from 'path';
+import { Worker } from 'worker_threads';
+import { SANDBOX_KERNEL_SOURCE, SANDBOX_WORKER_SOURCE } from './sandbox-worker.js';
+import type { Plugin, PluginContext, PluginLogger, PluginMetadata, PluginSandboxOptions } from './types.js';
+import { DEFAULT_SANDBOX_OPTIONS } from './types.js';
+
+/** Synchronous plugin methods; the sandbox answers them from the plugin's last reported state */
+const SYNC_METHODS = ['getExtension', 'getMimeType', 'isConnected'];
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete'];
+const STORAGE_METHODS = ['read', 'write', 'exists', 'list'];
+
+interface SandboxReady {
+  meta: PluginMetadata;
+  methods: string[];
+}
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+type WorkerMessage =
+  | { type: 'ready'; meta: PluginMetadata; methods: string[]; state: Record<string, unknown> }
+  | { type: 'failed'; error: string }
+  | { type: 'result'; id: number; result?: unknown; error?: string; state: Record<string, unknown> }
+  | { type: 'service'; id: number; service: string; method: string; args: unknown[] }
+  | { type: 'log'; level: keyof PluginLogger; message: string; data?: unknown };
+
+/**
+ * One plugin's worker. Calls start the worker when it is not running; after
+ * a limit is hit the sandbox stays stopped and every call fails.
+ */
+export class PluginSandbox {
+  private worker: Worker | null = null;
+  private starting: Promise<SandboxReady> | null = null;
+  private calls = new Map<number, PendingCall>();
+  private nextCall = 0;
+  private context: PluginContext | null = null;
+  private failure: string | null = null;
+  private name: string;
+  private options: Required<PluginSandboxOptions>;
+  /** Latest results of the plugin's synchronous methods */
+  readonly state: Record<string, unknown> = {};
+
+  constructor(
+    private code: string,
+    private filename: string,
+    options: PluginSandboxOptions = {},
+    private logger?: PluginLogger
+  ) {
+    this.name = filename;
+    this.options = withDefaults(options);
+  }
+
+  getOptions(): Required<PluginSandboxOptions> {
+    return this.options;
+  }
+
+  /**
+   * Change the limits; a running worker is stopped so the next call starts one under them
+   */
+  async configure(options: PluginSandboxOptions): Promise<void> {
+    const next = withDefaults(options);
+    const restart = next.memoryLimitMb !== this.options.memoryLimitMb;
+    this.options = next;
+    if (restart) await this.stop();
+  }
+
+  /**
+   * Services and logger calls from the plugin go to this context
+   */
+  attach(context: PluginContext): void {
+    this.context = context;
+    this.logger = context.logger;
+  }
+
+  /**
+   * Start the worker and load the plugin
+   */
+  start(): Promise<SandboxReady> {
+    if (this.failure) return Promise.reject(new Error(this.failure));
+    if (this.starting) return this.starting;
+
+    this.starting = new Promise<SandboxReady>((resolveReady, rejectReady) => {
+      const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+          code: this.code,
+          filename: this.filename,
+          kernel: SANDBOX_KERNEL_SOURCE,
+          handlebarsPath: createRequire(import.meta.url).resolve('handlebars'),
+        },
+        resourceLimits: { maxOldGenerationSizeMb: this.options.memoryLimitMb },
+        // Loaders and flags of this process have no business in the plugin's thread
+        execArgv: [],
+      });
+      this.worker = worker;
+
+      const timer = setTimeout(() => {
+        this.fail(`${this.name} took longer than ${this.options.timeLimitMs} ms to load`);
+      }, this.options.timeLimitMs);
+      this.calls.set(0, {
+        resolve: (ready) => resolveReady(ready as SandboxReady),
+        reject: rejectReady,
+        timer,
+      });
+
+      worker.on('message', (message: WorkerMessage) => this.receive(message));
+      worker.on('error', (error: Error & { code?: string }) => {
+        this.fail(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? `${this.name} exceeded its ${this.options.memoryLimitMb} MB memory limit`
+          : `${this.name} crashed: ${error.message}`);
+      });
+      worker.on('exit', () => {
+        if (this.worker === worker) this.fail(`${this.name} stopped unexpectedly`);
+      });
+      // After the listeners, which would ref it again: an idle plugin never keeps the process alive
+      worker.unref();
+    });
+    // Load failures are reported to whoever calls next
+    this.starting.catch(() => {});
+    return this.starting;
+  }
+
+  /**
+   * Call a plugin method inside the sandbox
+   */
+  async call(method: string, args: unknown[]): Promise<unknown> {
+    await this.start();
+    const worker = this.worker!;
+    const id = ++this.nextCall;
+
+    return new Promise((resolveCall, rejectCall) => {
+      const timer = setTimeout(() => {
+        this.fail(`${this.name} exceeded its ${this.options.timeLimitMs} ms time limit in ${method}()`);
+      }, this.options.timeLimitMs);
+      this.calls.set(id, { resolve: resolveCall, reject: rejectCall, timer });
+      worker.postMessage({ type: 'call', id, method, args });
+    });
+  }
+
+  /**
+   * Stop the worker; the next call starts a fresh one
+   */
+  async stop(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    this.starting = null;
+    this.settleAll(new Error(`${this.name} was stopped`));
+    if (worker) await worker.terminate();
+  }
+
+  /**
+   * Stop for good: every pending and later call fails with the message
+   */
+  private fail(message: string): void {
+    if (this.failure) return;
+    this.failure = message;
+    // Before init the caller gets the error; afterwards a hook or processor may swallow it
+    this.context?.logger.error(message);
+
+    const worker = this.worker;
+    this.worker = null;
+    this.settleAll(new Error(message));
+    void worker?.terminate();
+  }
+
+  private settleAll(error: Error): void {
+    for (const call of this.calls.values()) {
+      clearTimeout(call.timer);
+      call.reject(error);
+    }
+    this.calls.clear();
+  }
+
+  private settle(id: number, error: string | undefined, value?: unknown): void {
+    const call = this.calls.get(id);
+    if (!call) return;
+    this.calls.delete(id);
+    clearTimeout(call.timer);
+    if (error !== undefined) call.reject(new Error(error));
+    else call.resolve(value);
+  }
+
+  private receive(message: WorkerMessage): void {
+    switch (message.type) {
+      case 'ready':
+        this.name = message.meta.id;
+        Object.assign(this.state, message.state);
+        this.settle(0, undefined, { meta: message.meta, methods: message.methods });
+        break;
+
+      case 'failed':
+        this.fail(`${this.filename} cannot run in the sandbox: ${message.error}`);
+        break;
+
+      case 'result':
+        Object.assign(this.state, message.state);
+        this.settle(message.id, message.error, message.result);
+        break;
+
+      case 'service':
+        this.service(message.service, message.method, message.args).then(
+          result => this.worker?.postMessage({ type: 'reply', id: message.id, result }),
+          (error: Error) => this.worker?.postMessage({ type: 'reply', id: message.id, error: error.message })
+        );
+        break;
+
+      case 'log': {
+        const logger = this.context?.logger ?? this.logger;
+        logger?.[message.level]?.(`[${this.name}] ${message.message}`, message.data);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Run a service call for the plugin, within the sandbox's limits
+   */
+  private async service(service: string, method: string, args: unknown[]): Promise<unknown> {
+    const context = this.context;
+    if (!context) {
+      throw new Error('Plugin services are available once the plugin is initialized');
+    }
+
+    if (service === 'storage' && STORAGE_METHODS.includes(method)) {
+      const [path, content] = args as [string, string | undefined];
+      if (method === 'list') {
+        if (isAbsolute(path) || path.split(/[\\/]/).includes('..')) {
+          throw new Error(`${this.name} may only list files inside the project, not ${path}`);
+        }
+        const files = await context.services.storage.list(path);
+        return files.filter(file => this.isInside(resolve(context.projectPath, file)));
+      }
+
+      const target = resolve(context.projectPath, path);
+      if (!this.isInside(target)) {
+        throw new Error(`${this.name} may only use files in the project or output folder, not ${path}`);
+      }
+      if (method === 'read') return context.services.storage.read(target);
+      if (method === 'write') return context.services.storage.write(target, String(content));
+      return context.services.storage.exists(target);
+    }
+
+    if (service === 'http' && HTTP_METHODS.includes(method)) {
+      const url = new URL(String(args[0]));
+      if (!['http:', 'https:'].includes(url.protocol) || !this.isAllowedHost(url.hostname)) {
+        throw new Error(
+          `${this.name} may not contact ${url.hostname}; add it to allowedHosts in the plugin's sandbox settings`
+        );
+      }
+      const http = context.services.http;
+      if (method === 'post' || method === 'put') return http[method](url.href, args[1], args[2] as never);
+      return http[method as 'get' | 'delete'](url.href, args[1] as never);
+    }
+
+    if (service === 'templates' && method === 'render') {
+      return context.services.templates.render(String(args[0]), (args[1] ?? {}) as Record<string, unknown>);
+    }
+
+    throw new Error(`Unknown plugin service: ${service}.${method}`);
+  }
+
+  private isInside(path: string): boolean {
+    const roots = [this.context!.projectPath, this.context!.outputPath].map(root => resolve(root));
+    return roots.some(root => path === root || path.startsWith(root.endsWith(sep) ? root : root + sep));
+  }
+
+  private isAllowedHost(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return this.options.allowedHosts.some(allowed => {
+      const pattern = allowed.toLowerCase();
+      return pattern.startsWith('*.')
+        ? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+        : host === pattern;
+    });
+  }
+}
+
+/**
+ * Load a plugin from a .js/.mjs file or plugin folder into a sandbox. The
+ * plugin must be a single bundled file: it cannot import other modules.
+ * Returns null when the path holds no plugin.
+ */
+export async function loadSandboxedPlugin(
+  path: string,
+  options: PluginSandboxOptions = {},
+  logger?: PluginLogger
+): Promise<{ plugin: Plugin; config: Record<string, unknown>; sandbox: PluginSandbox } | null> {
+  let file = path;
+  let config: Record<string, unknown> = {};
+
+  const pkgPath = join(path, 'package.json');
+  if (existsSync(pkgPath)) {
+    const pkg = JSON.parse(readFileSync(pkgPath, 'utf-8'));
+    if (!pkg.intent?.plugin) return null;
+    file = join(path, pkg.main || 'index.js');
+    config = pkg.intent.config || {};
+  } else if (!statSync(path).isFile()) {
+    return null;
+  }
+
+  const sandbox = new PluginSandbox(toScript(readFileSync(file, 'utf-8'), file), file, options, logger);
+  const { meta, methods } = await sandbox.start();
+  return { plugin: createSandboxedPlugin(sandbox, meta, methods), config, sandbox };
+}
+
+/**
+ * A plugin object whose methods run inside the sandbox
+ */
+function createSandboxedPlugin(sandbox: PluginSandbox, meta: PluginMetadata, methods: string[]): Plugin {
+  const plugin: Record<string, unknown> = { meta };
+
+  for (const method of methods) {
+    plugin[method] = SYNC_METHODS.includes(method)
+      ? () => sandbox.state[method]
+      : (...args: unknown[]) => sandbox.call(method, args);
+  }
+
+  plugin.init = async (context: PluginContext) => {
+    sandbox.attach(context);
+    await sandbox.call('init', [{
+      projectPath: context.projectPath,
+      outputPath: context.outputPath,
+      config: context.config,
+    }]);
+  };
+
+  plugin.destroy = async () => {
+    try {
+      if (methods.includes('destroy')) await sandbox.call('destroy', []);
+    } finally {
+      await sandbox.stop();
+    }
+  };
+
+  return plugin as unknown as Plugin;
+}
+
+/**
+ * Turn a plugin module into a script body that fills in `module.exports`.
+ * Handles `export default` and exported declarations; imports are refused.
+ */
+function toScript(source: string, filename: string): string {
+  if (/^\s*import\s*(?:[\w*{][\s\S]*?\bfrom\s*)?['"]/m.test(source)) {
+    throw new Error(`${filename} imports other modules; bundle a sandboxed plugin into a single file`);
+  }
+
+  const exported: string[] = [];
+  const body = source
+    .replace(/^export\s+default\s+/m, 'module.exports.default = ')
+    .replace(
+      /^export\s+((?:async\s+)?function\*?|class|const|let|var)\s+([A-Za-z_$][\w$]*)/gm,
+      (_match, keyword: string, name: string) => {
+        exported.push(name);
+        return `${keyword} ${name}`;
+      }
+    );
+
+  return body + exported.map(name => `\nmodule.exports.${name} = ${name};`).join('');
+}
+
+function withDefaults(options: PluginSandboxOptions): Required<PluginSandboxOptions> {
+  return {
+    allowedHosts: options.allowedHosts ?? DEFAULT_SANDBOX_OPTIONS.allowedHosts,
+    timeLimitMs: options.timeLimitMs ?? DEFAULT_SANDBOX_OPTIONS.timeLimitMs,
+    memoryLimitMb: options.memoryLimitMb ?? DEFAULT_SANDBOX_OPTIONS.memoryLimitMb,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Semantic Versions
+ * Just enough semver for plugin dependencies: exact versions, comparators,
+ * caret and tilde ranges, x-ranges, hyphen ranges and || alternatives
+ */
+
+interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+interface Comparator {
+  op: '<' | '<=' | '>' | '>=' | '=';
+  version: Version;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Parse a full version such as 1.4.0 or 2.0.0-beta.1; null when it is not one
+ */
+export function parseVersion(version: string): Version | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Negative when a < b, positive when a > b, 0 when equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    throw new Error(`Invalid version: ${left ? b : a}`);
+  }
+  return compare(left, right);
+}
+
+/**
+ * Whether a version falls within a range ("^1.2.0", ">=1.0.0 <2.0.0", "1.x || 2.x", ...)
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return parseRange(range).some(set =>
+    set.every(c => test(parsed, c)) &&
+    // Pre-releases only match ranges that name a pre-release of the same version
+    (parsed.prerelease.length === 0 || set.some(c =>
+      c.version.prerelease.length > 0 &&
+      c.version.major === parsed.major && c.version.minor === parsed.minor && c.version.patch === parsed.patch
+    ))
+  );
+}
+
+/**
+ * Whether a range is well formed
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseRange(range: string): Comparator[][] {
+  return range.split('||').map(part => {
+    const text = part.trim();
+    if (text === '' || text === '*' || text.toLowerCase() === 'x' || text === 'latest') return [];
+
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+    if (hyphen) {
+      return [...expand('>=', hyphen[1]), ...expand('<=', hyphen[2])];
+    }
+
+    return text
+      .replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1')
+      .split(/\s+/)
+      .flatMap(token => {
+        const match = /^(<=|>=|<|>|=|\^|~>?)?(.+)$/.exec(token)!;
+        return expand(match[1] || '=', match[2]);
+      });
+  });
+}
+
+/**
+ * Turn one operator and a possibly partial version into plain comparators
+ */
+function expand(op: string, text: string): Comparator[] {
+  const match = PARTIAL_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`Invalid version range: ${op === '=' ? '' : op}${text}`);
+  }
+
+  const wild = (part?: string) => part === undefined || /^[xX*]$/.test(part);
+  const [major, minor, patch] = [match[1], match[2], match[3]].map(p => (wild(p) ? undefined : Number(p)));
+  const prerelease = match[4] ? match[4].split('.') : [];
+  const at = (ma: number, mi = 0, pa = 0, pre: string[] = []): Version => ({ major: ma, minor: mi, patch: pa, prerelease: pre });
+
+  if (major === undefined) return [];
+  const base = at(major, minor ?? 0, patch ?? 0, prerelease);
+
+  switch (op) {
+    case '^': {
+      const upper = major > 0 || minor === undefined ? at(major + 1)
+        : minor > 0 || patch === undefined ? at(0, minor + 1)
+        : at(0, 0, patch + 1);
+      return [{ op: '>=', version: base }, { op: '<', version: upper }];
+    }
+    case '~':
+    case '~>': {
+      const upper = minor === undefined ? at(major + 1) : at(major, minor + 1);
+      return [{ op: '>=', version: base }, { op: '<', version: upper }];
+    }
+    case '=':
+      if (minor === undefined) return [{ op: '>=', version: base }, { op: '<', version: at(major + 1) }];
+      if (patch === undefined) return [{ op: '>=', version: base }, { op: '<', version: at(major, minor + 1) }];
+      return [{ op: '=', version: base }];
+    case '>':
+      if (minor === undefined) return [{ op: '>=', version: at(major + 1) }];
+      if (patch === undefined) return [{ op: '>=', version: at(major, minor + 1) }];
+      return [{ op: '>', version: base }];
+    case '<=':
+      if (minor === undefined) return [{ op: '<', version: at(major + 1) }];
+      if (patch === undefined) return [{ op: '<', version: at(major, minor + 1) }];
+      return [{ op: '<=', version: base }];
+    default:
+      return [{ op: op as Comparator['op'], version: base }];
+  }
+}
+
+function test(version: Version, comparator: Comparator): boolean {
+  const order = compare(version, comparator.version);
+  switch (comparator.op) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '=': return order === 0;
+  }
+}
+
+function compare(a: Version, b: Version): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+
+  // A pre-release sorts before its release
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i];
+    const y = b.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+    const nx = /^\d+$/.test(x);
+    const ny = /^\d+$/.test(y);
+    if (nx && ny) return Number(x) - Number(y);
+    if (nx !== ny) return nx ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
@@ -0,0 +1,253 @@
+/**
+ * Plugin HTTP
+ * JSON-friendly HTTP client for plugins with per-request timeouts, retries
+ * with backoff for network errors, 429 and 5xx responses, and proxy support
+ * (HTTP_PROXY/HTTPS_PROXY/NO_PROXY or an explicit proxy URL). Only GETs are
+ * retried unless a request sets `retries`, so a write is never sent twice
+ * without the plugin asking for it.
+ */
+
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import type { Socket } from 'net';
+import type { HttpOptions, HttpService, PluginLogger } from '../types.js';
+
+export interface HttpServiceOptions {
+  /** Milliseconds before a request is abandoned, unless a request sets its own */
+  timeout?: number;
+  /** Extra attempts for a GET after a failure that may be temporary, unless the request sets its own */
+  retries?: number;
+  /** Proxy URL; false ignores the proxy environment variables */
+  proxy?: string | false;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  logger?: PluginLogger;
+}
+
+/**
+ * Error for a failed request; `status` is set when the server answered
+ */
+export interface HttpError extends Error {
+  status?: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+interface HttpResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_RETRIES = 2;
+const MAX_BACKOFF = 10_000;
+
+export class PluginHttp implements HttpService {
+  constructor(private options: HttpServiceOptions = {}) {}
+
+  get<T>(url: string, options?: HttpOptions): Promise<T> {
+    return this.request<T>('GET', url, undefined, options);
+  }
+
+  post<T>(url: string, body: unknown, options?: HttpOptions): Promise<T> {
+    return this.request<T>('POST', url, body, options);
+  }
+
+  put<T>(url: string, body: unknown, options?: HttpOptions): Promise<T> {
+    return this.request<T>('PUT', url, body, options);
+  }
+
+  delete<T>(url: string, options?: HttpOptions): Promise<T> {
+    return this.request<T>('DELETE', url, undefined, options);
+  }
+
+  /**
+   * Send a request, retrying temporary failures of GETs and of requests that
+   * set `retries`. JSON responses are parsed; anything else comes back as text.
+   */
+  async request<T>(method: string, url: string, body?: unknown, options: HttpOptions = {}): Promise<T> {
+    const target = new URL(url);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`Unsupported URL protocol: ${target.protocol}`);
+    }
+
+    const retries = options.retries ?? (method === 'GET' ? this.options.retries ?? DEFAULT_RETRIES : 0);
+    const headers: Record<string, string> = { accept: 'application/json, text/plain, */*', ...this.options.headers, ...options.headers };
+    let payload: string | undefined;
+    if (body !== undefined) {
+      payload = typeof body === 'string' ? body : JSON.stringify(body);
+      if (typeof body !== 'string' && !hasHeader(headers, 'content-type')) headers['content-type'] = 'application/json';
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.send(method, target, headers, payload, options.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT);
+        return parse(response) as T;
+      } catch (error) {
+        const failure = error as HttpError;
+        if (attempt >= retries || !failure.retryable) throw failure;
+
+        const wait = Math.min(failure.retryAfterMs ?? 250 * 2 ** attempt, MAX_BACKOFF);
+        this.options.logger?.debug(`${method} ${target.href} failed (${failure.message}); retrying in ${wait} ms`);
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+  }
+
+  private send(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payload: string | undefined,
+    timeout: number
+  ): Promise<HttpResponse> {
+    const signal = AbortSignal.timeout(timeout);
+    const proxy = this.proxyFor(url);
+    const requestHeaders = { ...headers, ...(payload !== undefined ? { 'content-length': String(Buffer.byteLength(payload)) } : {}) };
+
+    return new Promise<HttpResponse>((resolve, reject) => {
+      const fail = (error: Error) => {
+        reject(signal.aborted
+          ? httpError(`${method} ${url.href} timed out after ${timeout} ms`, true)
+          : httpError(`${method} ${url.href} failed: ${error.message}`, true));
+      };
+
+      const onResponse = (response: http.IncomingMessage) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', fail);
+        response.on('end', () => {
+          const status = response.statusCode ?? 0;
+          const body = Buffer.concat(chunks).toString('utf-8');
+          if (status >= 400) {
+            const error = httpError(
+              `${method} ${url.href} failed: ${status} ${response.statusMessage ?? ''}`.trim(),
+              status === 429 || status >= 500,
+              status
+            );
+            error.retryAfterMs = retryAfter(response.headers['retry-after']);
+            reject(error);
+          } else {
+            resolve({ status, headers: response.headers, body });
+          }
+        });
+      };
+
+      const start = (request: http.ClientRequest) => {
+        request.on('response', onResponse);
+        request.on('error', fail);
+        request.end(payload);
+      };
+
+      if (!proxy) {
+        start((url.protocol === 'https:' ? https : http).request(url, { method, headers: requestHeaders, signal }));
+        return;
+      }
+
+      const proxyHeaders = proxy.username
+        ? { 'proxy-authorization': `Basic ${Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString('base64')}` }
+        : {};
+
+      if (url.protocol === 'http:') {
+        // Plain HTTP goes to the proxy with the full URL as the path
+        start(http.request({
+          host: proxy.hostname,
+          port: proxy.port || 80,
+          method,
+          path: url.href,
+          headers: { ...requestHeaders, host: url.host, ...proxyHeaders },
+          signal,
+        }));
+        return;
+      }
+
+      // HTTPS tunnels through the proxy with CONNECT
+      const port = url.port || '443';
+      const connect = http.request({
+        host: proxy.hostname,
+        port: proxy.port || 80,
+        method: 'CONNECT',
+        path: `${url.hostname}:${port}`,
+        headers: { host: `${url.hostname}:${port}`, ...proxyHeaders },
+        signal,
+      });
+      connect.on('connect', (response: http.IncomingMessage, socket: Socket) => {
+        if (response.statusCode !== 200) {
+          socket.destroy();
+          reject(httpError(`Proxy ${proxy.host} refused to connect to ${url.host}: ${response.statusCode}`, true));
+          return;
+        }
+        start(https.request(url, {
+          method,
+          headers: requestHeaders,
+          signal,
+          agent: false,
+          createConnection: () => tls.connect({ socket, servername: url.hostname }),
+        }));
+      });
+      connect.on('error', fail);
+      connect.end();
+    });
+  }
+
+  /**
+   * Proxy to use for a URL, if any
+   */
+  private proxyFor(url: URL): URL | null {
+    if (this.options.proxy === false) return null;
+    if (this.options.proxy) return new URL(this.options.proxy);
+
+    const env = process.env;
+    const noProxy = (env.NO_PROXY ?? env.no_proxy ?? '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+    const host = url.hostname.toLowerCase();
+    if (noProxy.some(entry => entry === '*' || host === entry.replace(/^\./, '') || host.endsWith(entry.startsWith('.') ? entry : `.${entry}`))) {
+      return null;
+    }
+
+    const configured = url.protocol === 'https:'
+      ? env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy
+      : env.HTTP_PROXY ?? env.http_proxy;
+    return configured ? new URL(configured.includes('://') ? configured : `http://${configured}`) : null;
+  }
+}
+
+/**
+ * Create an HTTP service
+ */
+export function createHttpService(options: HttpServiceOptions = {}): PluginHttp {
+  return new PluginHttp(options);
+}
+
+function parse(response: HttpResponse): unknown {
+  if (response.body === '') return undefined;
+  const type = response.headers['content-type'] ?? '';
+  if (/[/+]json\b/.test(type)) {
+    try {
+      return JSON.parse(response.body);
+    } catch {
+      throw new Error(`Response claims to be JSON but is not: ${response.body.slice(0, 80)}`);
+    }
+  }
+  return response.body;
+}
+
+function httpError(message: string, retryable: boolean, status?: number): HttpError {
+  return Object.assign(new Error(message), { retryable, status });
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some(key => key.toLowerCase() === name);
+}
+
+/**
+ * Retry-After in milliseconds, from seconds or an HTTP date
+ */
+function retryAfter(header: string | undefined): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,50 @@
+/**
+ * Plugin Services
+ * Storage, HTTP, templates and logging handed to plugins through their context
+ */
+
+export * from './logger.js';
+export * from './storage.js';
+export * from './http.js';
+export * from './templates.js';
+
+import { createPluginLogger } from './logger.js';
+import { createStorageService } from './storage.js';
+import { createHttpService } from './http.js';
+import { createTemplateService } from './templates.js';
+import type { HttpServiceOptions } from './http.js';
+import type { TemplateEngine } from '../../enterprise/templates/index.js';
+import type { PluginContext, PluginLogger } from '../types.js';
+
+export interface PluginServiceOptions {
+  /** Log file writes instead of making them */
+  dryRun?: boolean;
+  /** Default timeout, retries, proxy and headers for plugin HTTP requests */
+  http?: Omit<HttpServiceOptions, 'logger'>;
+  logger?: PluginLogger;
+  /** Engine whose registered templates plugins can render by ID */
+  engine?: TemplateEngine;
+}
+
+/**
+ * Create the services for a plugin context. Storage is rooted at the project
+ * and may also use the output folder.
+ */
+export function createPluginServices(
+  projectPath: string,
+  outputPath: string,
+  options: PluginServiceOptions = {}
+): PluginContext['services'] {
+  const logger = options.logger ?? createPluginLogger('plugins');
+  const storage = createStorageService({ root: projectPath, allow: [outputPath], dryRun: options.dryRun, logger });
+
+  return {
+    storage,
+    http: createHttpService({ ...options.http, logger }),
+    templates: createTemplateService({
+      engine: options.engine,
+      root: projectPath,
+      resolvePath: (path) => storage.resolve(path),
+    }),
+  };
+}
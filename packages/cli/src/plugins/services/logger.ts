@@ -0,0 +1,88 @@
+/**
+ * Plugin Logger
+ * Structured log entries for plugins and the plugin system. The level comes
+ * from --verbose/--quiet (through BLUEPRINT_LOG_LEVEL) unless one is given;
+ * entries go to stderr as text or, with BLUEPRINT_LOG_FORMAT=json, as JSON lines.
+ */
+
+import type { PluginLogger } from '../types.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface LogEntry {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  /** Who logged it, e.g. "plugins" or "plugins:word-count" */
+  scope: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface PluginLoggerOptions {
+  /** Lowest level written; read from the environment on every entry when unset */
+  level?: LogLevel;
+  format?: 'text' | 'json';
+  /** Where entries go; stderr by default */
+  write?: (entry: LogEntry) => void;
+}
+
+export interface StructuredPluginLogger extends PluginLogger {
+  /** A logger for a narrower scope with the same options */
+  child(scope: string): StructuredPluginLogger;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Level set by the CLI's --verbose and --quiet, or DEBUG for debug output
+ */
+export function resolveLogLevel(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = env.BLUEPRINT_LOG_LEVEL?.toLowerCase();
+  if (level && (LEVELS as string[]).includes(level)) return level as LogLevel;
+  return env.DEBUG ? 'debug' : 'info';
+}
+
+/**
+ * Create a plugin logger
+ */
+export function createPluginLogger(scope: string, options: PluginLoggerOptions = {}): StructuredPluginLogger {
+  const log = (level: LogEntry['level']) => (message: string, data?: unknown) => {
+    const threshold = options.level ?? resolveLogLevel();
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(threshold)) return;
+
+    const entry: LogEntry = { time: new Date().toISOString(), level, scope, message };
+    if (data !== undefined) entry.data = data instanceof Error ? describeError(data) : data;
+    (options.write ?? ((e) => writeEntry(e, options.format)))(entry);
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (name) => createPluginLogger(`${scope}:${name}`, options),
+  };
+}
+
+function writeEntry(entry: LogEntry, format = process.env.BLUEPRINT_LOG_FORMAT): void {
+  if (format === 'json') {
+    process.stderr.write(stringify(entry) + '\n');
+    return;
+  }
+
+  const label = entry.level === 'info' ? '' : `${entry.level}: `;
+  const data = entry.data === undefined ? '' : ` ${typeof entry.data === 'string' ? entry.data : stringify(entry.data)}`;
+  process.stderr.write(`[${entry.scope}] ${label}${entry.message}${data}\n`);
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function describeError(error: Error): Record<string, unknown> {
+  return { name: error.name, message: error.message };
+}
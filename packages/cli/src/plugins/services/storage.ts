@@ -0,0 +1,198 @@
+/**
+ * Plugin Storage
+ * File access for plugins, rooted at the project. Paths resolve against the
+ * root and may not leave it (or the other allowed folders), symlinks
+ * included. In dry-run mode writes are logged and kept in memory instead.
+ */
+
+import { existsSync, mkdirSync, readdirSync, realpathSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import type { PluginLogger, StorageService } from '../types.js';
+
+export interface StorageServiceOptions {
+  /** Folder relative paths resolve against, normally the project */
+  root: string;
+  /** Other folders plugins may use, such as an output folder outside the project */
+  allow?: string[];
+  /** Log writes instead of making them; later reads see what would have been written */
+  dryRun?: boolean;
+  logger?: PluginLogger;
+}
+
+/** Folders `list` does not descend into unless the pattern names them */
+const SKIPPED_DIRS = ['node_modules', '.git'];
+
+export class PluginStorage implements StorageService {
+  private roots: string[];
+  private pending = new Map<string, string>();
+
+  constructor(private options: StorageServiceOptions) {
+    this.roots = [options.root, ...(options.allow || [])].map(root => resolve(root));
+  }
+
+  async read(path: string): Promise<string> {
+    const target = this.resolve(path);
+    const pending = this.pending.get(target);
+    if (pending !== undefined) return pending;
+    return readFile(target, 'utf-8');
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    const target = this.resolve(path);
+    if (this.options.dryRun) {
+      this.pending.set(target, content);
+      this.options.logger?.info(`Would write ${this.display(target)} (${Buffer.byteLength(content)} bytes)`);
+      return;
+    }
+    mkdirSync(dirname(target), { recursive: true });
+    await writeFile(target, content);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const target = this.resolve(path);
+    return this.pending.has(target) || existsSync(target);
+  }
+
+  /**
+   * Files under the root matching a glob ("docs/*.md", "**\/*.{md,yaml}"),
+   * as sorted paths relative to the root
+   */
+  async list(pattern: string): Promise<string[]> {
+    if (isAbsolute(pattern)) {
+      throw new Error(`List patterns are relative to the project: ${pattern}`);
+    }
+    const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+    const base = this.resolve(staticPrefix(normalized) || '.');
+    const matcher = globToRegExp(normalized);
+    const root = resolve(this.options.root);
+
+    const found = new Set<string>();
+    const walk = (dir: string) => {
+      let entries;
+      try {
+        entries = readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const full = resolve(dir, entry.name);
+        const path = relative(root, full).split(sep).join('/');
+        if (entry.isDirectory()) {
+          if (!SKIPPED_DIRS.includes(entry.name) || normalized.includes(entry.name)) walk(full);
+        } else if (matcher.test(path)) {
+          found.add(path);
+        }
+      }
+    };
+    walk(base);
+
+    for (const target of this.pending.keys()) {
+      const path = relative(root, target).split(sep).join('/');
+      if (matcher.test(path)) found.add(path);
+    }
+    return [...found].sort();
+  }
+
+  /**
+   * Writes held back in dry-run mode, by absolute path
+   */
+  getPendingWrites(): Map<string, string> {
+    return new Map(this.pending);
+  }
+
+  /**
+   * Absolute path for a plugin-supplied path; throws when it leaves the allowed folders
+   */
+  resolve(path: string): string {
+    const target = resolve(this.options.root, path);
+    // Check the path as written, then where its symlinks really lead
+    const allowed = this.isAllowed(target, this.roots) &&
+      this.isAllowed(realpathOfExisting(target), this.roots.map(realpathOfExisting));
+    if (!allowed) {
+      throw new Error(`Path is outside the project: ${path}`);
+    }
+    return target;
+  }
+
+  private isAllowed(path: string, roots: string[]): boolean {
+    return roots.some(root => path === root || path.startsWith(root.endsWith(sep) ? root : root + sep));
+  }
+
+  private display(path: string): string {
+    return relative(this.options.root, path) || path;
+  }
+}
+
+/**
+ * Create a storage service
+ */
+export function createStorageService(options: StorageServiceOptions): PluginStorage {
+  return new PluginStorage(options);
+}
+
+/**
+ * Convert a glob to a regular expression over "/"-separated relative paths.
+ * Supports *, **, ?, [abc], [!abc] and {a,b}.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\{}[\]]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Leading folders of a glob that contain no wildcards
+ */
+function staticPrefix(pattern: string): string {
+  const segments = pattern.split('/');
+  const fixed: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (/[*?[{]/.test(segment)) break;
+    fixed.push(segment);
+  }
+  return fixed.join('/');
+}
+
+/**
+ * Real path of the deepest part of a path that exists, with the rest appended
+ */
+function realpathOfExisting(path: string): string {
+  let existing = path;
+  while (!existsSync(existing)) {
+    const parent = dirname(existing);
+    if (parent === existing) return path;
+    existing = parent;
+  }
+  return resolve(realpathSync(existing), relative(existing, path));
+}
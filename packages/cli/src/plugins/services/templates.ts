@@ -0,0 +1,74 @@
+/**
+ * Plugin Templates
+ * Renders for plugins with the same engines the CLI uses: custom templates
+ * registered with the enterprise TemplateEngine (by ID) or YAML template
+ * files, and Handlebars for everything else, with the core helpers and no
+ * HTML escaping.
+ */
+
+import { compileTemplateSource } from '../../core/index.js';
+import type { TemplateContext } from '../../core/index.js';
+import { TemplateEngine, TemplateLoader } from '../../enterprise/templates/index.js';
+import type { CompiledTemplate, TemplateService } from '../types.js';
+
+export interface TemplateServiceOptions {
+  /** Engine whose registered templates plugins can render by ID */
+  engine?: TemplateEngine;
+  /** Folder YAML template paths resolve against, normally the project */
+  root?: string;
+  /** Turns a plugin-supplied path into an absolute one, refusing paths it may not use */
+  resolvePath?: (path: string) => string;
+}
+
+const YAML_TEMPLATE = /^[^\n{}]+\.ya?ml$/;
+
+export class PluginTemplates implements TemplateService {
+  private engine: TemplateEngine;
+  private loader: TemplateLoader;
+
+  constructor(private options: TemplateServiceOptions = {}) {
+    this.engine = options.engine ?? new TemplateEngine();
+    this.loader = new TemplateLoader(options.root);
+  }
+
+  /**
+   * Render a registered template ID, a YAML template file, or Handlebars source
+   */
+  async render(template: string, variables: Record<string, unknown>): Promise<string> {
+    const custom = this.engine.getTemplate(template);
+    if (custom) {
+      return this.engine.process(custom, { variables });
+    }
+
+    if (YAML_TEMPLATE.test(template.trim())) {
+      const path = this.options.resolvePath ? this.options.resolvePath(template.trim()) : template.trim();
+      return this.engine.process(this.loader.loadFile(path), { variables });
+    }
+
+    return this.compile(template).render(variables);
+  }
+
+  /**
+   * Compile Handlebars source once for repeated renders
+   */
+  compile(template: string): CompiledTemplate {
+    const delegate = compileTemplateSource(template);
+    return {
+      render: (variables) => delegate(variables as unknown as TemplateContext),
+    };
+  }
+
+  /**
+   * The enterprise engine, for registering templates plugins can render by ID
+   */
+  getEngine(): TemplateEngine {
+    return this.engine;
+  }
+}
+
+/**
+ * Create a template service
+ */
+export function createTemplateService(options: TemplateServiceOptions = {}): PluginTemplates {
+  return new PluginTemplates(options);
+}
@@ -0,0 +1,150 @@
+/**
+ * Plugin Settings
+ * Which plugins a project has disabled and how each is configured, saved as
+ * JSON so `blueprint plugin enable|disable|config` survive between runs
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { PluginConfigSchema, PluginSettings } from './types.js';
+
+/**
+ * Read the settings file; missing or unreadable files mean no settings
+ */
+export function readPluginSettings(path: string): Record<string, PluginSettings> {
+  if (!existsSync(path)) return {};
+
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8'));
+    return data && typeof data.plugins === 'object' ? data.plugins : {};
+  } catch {
+    return {};
+  }
+}
+
+export function writePluginSettings(path: string, settings: Record<string, PluginSettings>): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({ plugins: settings }, null, 2) + '\n');
+}
+
+/**
+ * Merge changes into one plugin's settings and save; null removes the plugin's entry
+ */
+export function updatePluginSettings(
+  path: string,
+  id: string,
+  changes: Partial<PluginSettings> | null
+): PluginSettings | undefined {
+  const settings = readPluginSettings(path);
+  if (changes === null) {
+    delete settings[id];
+  } else {
+    settings[id] = { ...settings[id], ...changes };
+  }
+  writePluginSettings(path, settings);
+  return settings[id];
+}
+
+/**
+ * Check config values against a plugin's schema. Returns one message per
+ * problem: unknown keys, missing required keys, wrong types and values
+ * outside an enum.
+ */
+export function validatePluginConfig(
+  schema: PluginConfigSchema | undefined,
+  config: Record<string, unknown>
+): string[] {
+  if (!schema) return [];
+
+  const errors: string[] = [];
+  const required = new Set([
+    ...(schema.required || []),
+    ...Object.entries(schema.properties).filter(([, p]) => p.required).map(([key]) => key),
+  ]);
+
+  for (const key of required) {
+    if (config[key] === undefined && schema.properties[key]?.default === undefined) {
+      errors.push(`"${key}" is required`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    const property = schema.properties[key];
+    if (!property) {
+      errors.push(`"${key}" is not a setting of this plugin (known: ${Object.keys(schema.properties).join(', ') || 'none'})`);
+      continue;
+    }
+    if (value === undefined) continue;
+
+    if (typeOf(value) !== property.type) {
+      errors.push(`"${key}" must be ${article(property.type)} ${property.type}, got ${typeOf(value)}`);
+    } else if (property.type === 'array' && property.items) {
+      const wrong = (value as unknown[]).findIndex(item => typeOf(item) !== property.items!.type);
+      if (wrong >= 0) {
+        errors.push(`"${key}[${wrong}]" must be ${article(property.items.type)} ${property.items.type}`);
+      }
+    }
+    if (property.enum && !property.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      errors.push(`"${key}" must be one of ${property.enum.map(o => JSON.stringify(o)).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in the schema's defaults for settings that are not set
+ */
+export function withConfigDefaults(
+  schema: PluginConfigSchema | undefined,
+  config: Record<string, unknown>
+): Record<string, unknown> {
+  if (!schema) return config;
+
+  const result = { ...config };
+  for (const [key, property] of Object.entries(schema.properties)) {
+    if (result[key] === undefined && property.default !== undefined) {
+      result[key] = structuredClone(property.default);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse a value typed on the command line into the type a schema property
+ * expects: numbers, true/false, comma-separated arrays and JSON objects
+ */
+export function parseConfigValue(raw: string, type?: PluginConfigSchema['properties'][string]['type']): unknown {
+  switch (type) {
+    case 'number':
+      return raw.trim() !== '' && !isNaN(Number(raw)) ? Number(raw) : raw;
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw;
+    case 'array':
+      return raw.trim().startsWith('[') ? parseJson(raw) : raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'object':
+      return parseJson(raw);
+    case 'string':
+      return raw;
+    default:
+      return parseJson(raw);
+  }
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? 'an' : 'a';
+}
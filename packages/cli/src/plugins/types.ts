@@ -41,6 +41,7 @@ export interface PluginMetadata {
   };
   type: PluginType;
   events?: PluginEvent[];
+  /** Plugin IDs this plugin needs, optionally with a semver range: "markdown-lint@^1.2.0" */
   dependencies?: string[];
   config?: PluginConfigSchema;
   tags?: string[];
@@ -130,6 +131,7 @@ export interface HttpService {
 export interface HttpOptions {
   headers?: Record<string, string>;
   timeout?: number;
+  /** Extra attempts after a temporary failure; POST, PUT and DELETE are only retried when this is set */
   retries?: number;
 }
 
@@ -364,6 +366,39 @@ export interface PluginEntry {
   enabled: boolean;
   config: Record<string, unknown>;
   loadedAt: Date;
+  /** File or directory the plugin was loaded from; unset for built-in and registered plugins */
+  path?: string;
+  /** Why the plugin could not be loaded (bad config, unmet dependencies, failed init) */
+  error?: string;
+  /** Limits the plugin runs under when it is sandboxed */
+  sandbox?: Required<PluginSandboxOptions>;
+}
+
+/**
+ * What a user has set for a plugin, kept in the settings file
+ */
+export interface PluginSettings {
+  enabled?: boolean;
+  config?: Record<string, unknown>;
+  /** Where the plugin was installed from */
+  source?: string;
+  /** File or folder name in the plugin directory; ties sandbox settings to the plugin before it loads */
+  path?: string;
+  installedAt?: string;
+  /** Run the plugin in a sandbox; false trusts it even when the registry sandboxes everything */
+  sandbox?: boolean | PluginSandboxOptions;
+}
+
+/**
+ * Limits for a plugin running in a sandbox
+ */
+export interface PluginSandboxOptions {
+  /** Hosts the plugin may call over HTTP; "*.example.com" also allows subdomains */
+  allowedHosts?: string[];
+  /** Longest one call into the plugin may take, waiting on services included */
+  timeLimitMs?: number;
+  /** Heap size the plugin's worker may grow to */
+  memoryLimitMb?: number;
 }
 
 /**
@@ -371,8 +406,12 @@ export interface PluginEntry {
  */
 export interface PluginRegistryConfig {
   pluginDir: string;
+  /** Per-plugin enabled state and config, relative to the project */
+  settingsFile: string;
   autoDiscover: boolean;
   enableBuiltin: boolean;
+  /** Sandbox every discovered plugin unless its settings trust it */
+  sandbox: boolean;
 }
 
 /**
@@ -380,6 +419,17 @@ export interface PluginRegistryConfig {
  */
 export const DEFAULT_PLUGIN_CONFIG: PluginRegistryConfig = {
   pluginDir: '.intent/plugins',
+  settingsFile: '.intent/plugins.json',
   autoDiscover: true,
   enableBuiltin: true,
+  sandbox: false,
+};
+
+/**
+ * Default sandbox limits
+ */
+export const DEFAULT_SANDBOX_OPTIONS: Required<PluginSandboxOptions> = {
+  allowedHosts: [],
+  timeLimitMs: 10_000,
+  memoryLimitMb: 64,
 };
@@ -0,0 +1,264 @@
+/**
+ * Suite Consistency Checker
+ * Offline, deterministic cross-document checks for a generated documentation suite
+ */
+
+import {
+  cleanText,
+  findDocuments,
+  loadSuite,
+  matchLines,
+  normalizeTerm,
+  parseFeatureNames,
+  parsePersonas,
+  parseRisks,
+  parseStoryActors,
+  type Mention,
+  type Persona,
+} from './parser.js';
+import type {
+  CheckId,
+  CheckIssue,
+  CheckReport,
+  CheckSummary,
+  DocumentSuite,
+} from './types.js';
+
+/** Story actors that name a role rather than a persona */
+const GENERIC_ACTORS = new Set([
+  'user', 'users', 'visitor', 'customer', 'subscriber', 'member', 'person',
+  'someone', 'admin', 'administrator', 'developer', 'system',
+]);
+
+/** Words that end the actor's noun phrase ("user who ...", "user on ...") */
+const ACTOR_QUALIFIERS = new Set([
+  'who', 'that', 'with', 'on', 'of', 'in', 'from', 'to', 'for', 'using',
+  'accessing', 'visiting', 'ready', 'needing', 'looking', 'trying', 'wanting',
+]);
+
+interface CheckResult {
+  skipped?: string;
+  issues: CheckIssue[];
+}
+
+const CHECKS: Array<{ id: CheckId; name: string; run: (suite: DocumentSuite) => CheckResult }> = [
+  { id: 'personas', name: 'Story personas exist', run: checkPersonas },
+  { id: 'risks', name: 'Risks have release mitigations', run: checkRisks },
+  { id: 'adrs', name: 'Referenced ADRs exist', run: checkAdrs },
+  { id: 'features', name: 'Feature names spelled consistently', run: checkFeatures },
+];
+
+/**
+ * Run every consistency check against a suite directory
+ */
+export function checkSuite(input: string | DocumentSuite, only?: CheckId[]): CheckReport {
+  const suite = typeof input === 'string' ? loadSuite(input) : input;
+  const checks: CheckSummary[] = [];
+  const issues: CheckIssue[] = [];
+
+  for (const check of CHECKS) {
+    if (only && !only.includes(check.id)) continue;
+
+    const result = check.run(suite);
+    checks.push({ id: check.id, name: check.name, skipped: result.skipped, issues: result.issues.length });
+    issues.push(...result.issues);
+  }
+
+  return {
+    dir: suite.dir,
+    documents: suite.documents.map(d => d.filename),
+    checks,
+    issues,
+    passed: !issues.some(i => i.severity === 'error'),
+  };
+}
+
+/**
+ * The noun phrase naming the actor, without trailing qualifiers
+ */
+function actorHead(actor: string): string {
+  const words: string[] = [];
+  for (const word of actor.toLowerCase().split(/\s+/)) {
+    if (ACTOR_QUALIFIERS.has(word)) break;
+    words.push(word);
+  }
+  return words.join(' ');
+}
+
+function isGenericActor(actor: string): boolean {
+  const words = actorHead(actor).split(' ');
+  return GENERIC_ACTORS.has(words[words.length - 1]);
+}
+
+function matchesPersona(actor: string, persona: Persona): boolean {
+  const text = actor.toLowerCase();
+  const head = actorHead(actor);
+  const candidates = [persona.title, persona.name, persona.name?.split(' ')[0], persona.role]
+    .filter((c): c is string => Boolean(c))
+    .map(c => c.toLowerCase());
+
+  return candidates.some(c => text.includes(c) || c.includes(head));
+}
+
+/**
+ * Every non-generic "As a <persona>" actor must match a persona in 08_personas
+ */
+export function checkPersonas(suite: DocumentSuite): CheckResult {
+  const personaDocs = findDocuments(suite, '08_personas');
+  const storyDocs = findDocuments(suite, '10_user_stories');
+
+  if (storyDocs.length === 0) return { skipped: 'No user stories document', issues: [] };
+  if (personaDocs.length === 0) return { skipped: 'No personas document', issues: [] };
+
+  const personas = personaDocs.flatMap(parsePersonas);
+  const issues: CheckIssue[] = [];
+
+  for (const actor of storyDocs.flatMap(parseStoryActors)) {
+    if (isGenericActor(actor.value)) continue;
+    if (personas.some(p => matchesPersona(actor.value, p))) continue;
+
+    issues.push({
+      check: 'personas',
+      severity: 'error',
+      message: `Story persona "${actor.value}" is not defined in ${personaDocs[0].filename}`,
+      file: actor.file,
+      line: actor.line,
+      ref: actor.value,
+    });
+  }
+
+  return { issues };
+}
+
+/**
+ * Every risk in 13_risk_register must be referenced by ID in the release plan,
+ * and the release plan must not cite risks the register does not define
+ */
+export function checkRisks(suite: DocumentSuite): CheckResult {
+  const registers = findDocuments(suite, '13_risk_register');
+  const releasePlans = findDocuments(suite, '18_release_plan');
+
+  if (registers.length === 0) return { skipped: 'No risk register', issues: [] };
+  if (releasePlans.length === 0) return { skipped: 'No release plan', issues: [] };
+
+  const issues: CheckIssue[] = [];
+  const risks = registers.flatMap(doc => parseRisks(doc).map(r => ({ ...r, file: doc.filename })));
+  const riskIds = new Set(risks.map(r => r.id));
+  const cited = releasePlans.flatMap(doc => matchLines(doc, /\bRISK-[A-Z0-9]+(?:-[A-Z0-9]+)*\b/));
+  const citedIds = new Set(cited.map(m => m.value));
+
+  for (const risk of risks) {
+    if (citedIds.has(risk.id)) continue;
+    issues.push({
+      check: 'risks',
+      severity: 'error',
+      message: `${risk.id} (${risk.title}) has no mitigation in ${releasePlans[0].filename}`,
+      file: risk.file,
+      line: risk.line,
+      ref: risk.id,
+    });
+  }
+
+  for (const mention of uniqueMentions(cited)) {
+    if (riskIds.has(mention.value)) continue;
+    issues.push({
+      check: 'risks',
+      severity: 'error',
+      message: `${mention.value} is not in the risk register`,
+      file: mention.file,
+      line: mention.line,
+      ref: mention.value,
+    });
+  }
+
+  return { issues };
+}
+
+/**
+ * ADR IDs cited in the architecture document must resolve to a decision record:
+ * an ADR document, or an inline record heading such as "#### ADR-001: Title"
+ */
+export function checkAdrs(suite: DocumentSuite): CheckResult {
+  const architecture = findDocuments(suite, '06_architecture');
+  if (architecture.length === 0) return { skipped: 'No architecture document', issues: [] };
+
+  const adrDocs = suite.documents.filter(d => d.kind === '02_adr' || (!d.kind && /(^|[-_])adr[-_]/i.test(d.filename)));
+  const defined = new Set([
+    ...adrDocs.flatMap(doc => matchLines(doc, /\bADR-\d+\b/)),
+    ...suite.documents.flatMap(doc => matchLines(doc, /^#{2,6}\s+(ADR-\d+):/, 1)),
+  ].map(m => m.value));
+  const issues: CheckIssue[] = [];
+
+  for (const mention of uniqueMentions(architecture.flatMap(doc => matchLines(doc, /\bADR-\d+\b/)))) {
+    if (defined.has(mention.value)) continue;
+    issues.push({
+      check: 'adrs',
+      severity: 'error',
+      message: adrDocs.length === 0
+        ? `${mention.value} is referenced but the suite has no ADR document`
+        : `${mention.value} is referenced but not defined in any ADR`,
+      file: mention.file,
+      line: mention.line,
+      ref: mention.value,
+    });
+  }
+
+  return { issues };
+}
+
+/**
+ * Feature names from the PRD and task breakdown must be written the same way
+ * everywhere they appear (e.g. "Single Sign-On" vs "Single Sign On")
+ */
+export function checkFeatures(suite: DocumentSuite): CheckResult {
+  const declared = parseFeatureNames(suite);
+  if (declared.length === 0) return { skipped: 'No named features in the PRD or task breakdown', issues: [] };
+
+  const issues: CheckIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const feature of declared) {
+    const key = normalizeTerm(feature.value);
+    const words = feature.value.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (seen.has(key) || words.length < 2) continue;
+    seen.add(key);
+
+    // Same words, any separator: catches hyphenation, spacing and joined spellings
+    const escaped = words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escaped.join('[\\s_/-]*')}(?![\\p{L}\\p{N}])`, 'giu');
+    const forms = new Map<string, Mention>();
+
+    for (const doc of suite.documents) {
+      for (const mention of matchLines(doc, pattern)) {
+        const form = cleanText(mention.value).toLowerCase();
+        if (!forms.has(form)) forms.set(form, mention);
+      }
+    }
+
+    if (forms.size < 2) continue;
+
+    const canonical = feature.value.toLowerCase();
+    for (const [form, mention] of forms) {
+      if (form === canonical) continue;
+      issues.push({
+        check: 'features',
+        severity: 'warning',
+        message: `"${mention.value}" is spelled differently from feature "${feature.value}" (${feature.file}:${feature.line})`,
+        file: mention.file,
+        line: mention.line,
+        ref: feature.value,
+      });
+    }
+  }
+
+  return { issues };
+}
+
+function uniqueMentions(mentions: Mention[]): Mention[] {
+  const seen = new Set<string>();
+  return mentions.filter(m => {
+    if (seen.has(m.value)) return false;
+    seen.add(m.value);
+    return true;
+  });
+}
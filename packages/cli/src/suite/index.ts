@@ -0,0 +1,60 @@
+/**
+ * Document Suite Module
+ * Parse and cross-check a generated documentation suite
+ */
+
+export {
+  checkSuite,
+  checkPersonas,
+  checkRisks,
+  checkAdrs,
+  checkFeatures,
+} from './checker.js';
+
+export {
+  buildTraceabilityMatrix,
+  renderTraceabilityMarkdown,
+  renderTraceabilityCsv,
+  renderTraceabilityJson,
+  writeTraceability,
+  TRACEABILITY_BASENAME,
+  TRACEABILITY_FORMATS,
+  type TraceabilityFormat,
+} from './traceability.js';
+
+export {
+  loadSuite,
+  suiteFromDocuments,
+  detectKind,
+  findDocuments,
+  parsePersonas,
+  parseStoryActors,
+  parseRisks,
+  parseFeatureNames,
+  type Mention,
+  type Persona,
+  type RiskEntry,
+} from './parser.js';
+
+export type {
+  DocumentKind,
+  SuiteDocument,
+  DocumentSuite,
+  CheckId,
+  CheckIssue,
+  CheckReport,
+  CheckSummary,
+  IssueSeverity,
+  TraceKind,
+  TraceItem,
+  TracedRequirement,
+  TracedStory,
+  TracedCriterion,
+  TracedTest,
+  TraceRow,
+  TraceStatus,
+  TraceGap,
+  TraceGapType,
+  TraceabilityMatrix,
+  CoverageStat,
+} from './types.js';
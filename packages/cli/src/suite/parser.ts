@@ -0,0 +1,220 @@
+/**
+ * Document Suite Parser
+ * Loads a generated documentation directory and extracts cross-referenced entities
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, resolve } from 'path';
+import type { DocumentKind, DocumentSuite, SuiteDocument } from './types.js';
+
+/** Generated files are named <project-slug>-<NN_template>.md */
+const KIND_PATTERN = /(\d{2}_[a-z_]+)\.md$/;
+
+const KNOWN_KINDS = new Set<string>([
+  '01_prd', '02_adr', '03_generate_tasks', '04_process_task_list', '05_market_research',
+  '06_architecture', '07_competitor_analysis', '08_personas', '09_user_journeys',
+  '10_user_stories', '11_acceptance_criteria', '12_qa_gate', '13_risk_register',
+  '14_project_brief', '15_brainstorming', '16_frontend_spec', '17_test_plan',
+  '18_release_plan', '19_operational_readiness', '20_metrics_dashboard',
+  '21_postmortem', '22_playtest_usability',
+]);
+
+/** Files written next to a suite that are derived from it, not part of it */
+const DERIVED_FILES = new Set(['index.md', 'requirements-traceability.md']);
+
+/**
+ * A reference found in a document
+ */
+export interface Mention {
+  value: string;
+  file: string;
+  line: number;
+}
+
+export interface Persona {
+  /** Heading title, e.g. "Enterprise Decision Maker" */
+  title: string;
+  /** Named persona, e.g. "Sarah Chen" */
+  name?: string;
+  /** Job title, e.g. "Chief Technology Officer" */
+  role?: string;
+  line: number;
+}
+
+export interface RiskEntry {
+  id: string;
+  title: string;
+  line: number;
+}
+
+/**
+ * Identify which core template a file was generated from
+ */
+export function detectKind(filename: string): DocumentKind | null {
+  const match = filename.match(KIND_PATTERN);
+  return match && KNOWN_KINDS.has(match[1]) ? (match[1] as DocumentKind) : null;
+}
+
+/**
+ * Load every markdown document in a suite directory
+ */
+export function loadSuite(dir: string): DocumentSuite {
+  const root = resolve(dir);
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    throw new Error(`Not a directory: ${dir}`);
+  }
+
+  const documents: SuiteDocument[] = readdirSync(root)
+    .filter(f => f.endsWith('.md') && !DERIVED_FILES.has(f))
+    .sort()
+    .map(filename => ({
+      filename,
+      path: join(root, filename),
+      kind: detectKind(filename),
+      content: readFileSync(join(root, filename), 'utf-8'),
+    }));
+
+  return { dir: root, documents };
+}
+
+/**
+ * Build a suite from documents held in memory, e.g. straight from generation
+ */
+export function suiteFromDocuments(
+  documents: Array<{ filename: string; content: string }>,
+  dir: string = process.cwd()
+): DocumentSuite {
+  return {
+    dir: resolve(dir),
+    documents: documents
+      .filter(d => d.filename.endsWith('.md') && !DERIVED_FILES.has(d.filename))
+      .map(d => ({
+        filename: d.filename,
+        path: join(resolve(dir), d.filename),
+        kind: detectKind(d.filename),
+        content: d.content,
+      })),
+  };
+}
+
+export function findDocuments(suite: DocumentSuite, kind: DocumentKind): SuiteDocument[] {
+  return suite.documents.filter(d => d.kind === kind);
+}
+
+/**
+ * True for unfilled template guidance such as _[Name]_, {persona} or _{Title}_
+ */
+export function isPlaceholder(text: string): boolean {
+  return /[[\]{}]/.test(text) || /^_.*_$/.test(text.trim());
+}
+
+/**
+ * Strip markdown emphasis, emoji and surrounding punctuation from a phrase
+ */
+export function cleanText(text: string): string {
+  return text
+    .replace(/[*_`]/g, '')
+    .replace(/[^\p{L}\p{N}\s&/'().,-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Lowercase, alphanumeric-only form used to compare spellings
+ */
+export function normalizeTerm(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Run a global regex over a document, reporting each match with its line number
+ */
+export function matchLines(doc: SuiteDocument, pattern: RegExp, group = 0): Mention[] {
+  const mentions: Mention[] = [];
+  const lines = doc.content.split('\n');
+  const flags = pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g';
+
+  lines.forEach((line, index) => {
+    for (const match of line.matchAll(new RegExp(pattern.source, flags))) {
+      if (match[group] !== undefined) {
+        mentions.push({ value: match[group], file: doc.filename, line: index + 1 });
+      }
+    }
+  });
+
+  return mentions;
+}
+
+/**
+ * Personas defined in a personas document (H2 headings ending in "Persona: <title>")
+ */
+export function parsePersonas(doc: SuiteDocument): Persona[] {
+  const personas: Persona[] = [];
+  const lines = doc.content.split('\n');
+  let current: Persona | null = null;
+
+  lines.forEach((line, index) => {
+    const heading = line.match(/^##\s+.*?Persona:\s*(.+)$/);
+    if (heading) {
+      current = { title: cleanText(heading[1]), line: index + 1 };
+      personas.push(current);
+      return;
+    }
+    if (line.startsWith('## ')) {
+      current = null;
+      return;
+    }
+
+    const name = line.match(/^\*\*Name:\*\*\s*(.+)$/);
+    if (current && name && !current.name) {
+      const [person, role] = name[1].split(/\s+[-–—]\s+/);
+      current.name = cleanText(person);
+      if (role) current.role = cleanText(role);
+    }
+  });
+
+  return personas;
+}
+
+/**
+ * Actors named in "As a <persona>" story lines
+ */
+export function parseStoryActors(doc: SuiteDocument): Mention[] {
+  return matchLines(doc, /^\s*(?:[-*]\s*)?(?:\*\*)?As an?\s+(?:\*\*)?([^,\n]+?)(?:\*\*)?(?:,|\s+I\s+want|$)/i, 1)
+    .filter(m => !isPlaceholder(m.value))
+    .map(m => ({ ...m, value: cleanText(m.value) }));
+}
+
+/**
+ * Risks declared in a risk register (headings such as "#### RISK-003: Title")
+ */
+export function parseRisks(doc: SuiteDocument): RiskEntry[] {
+  return matchLines(doc, /^#{2,6}\s+(RISK-[A-Z0-9-]+):\s*(.*)$/)
+    .map(m => {
+      const [, id, title] = m.value.match(/(RISK-[A-Z0-9-]+):\s*(.*)$/)!;
+      return { id, title: cleanText(title), line: m.line };
+    });
+}
+
+/**
+ * Feature names declared in the PRD ("#### Feature 1: Name", "**Feature 1:** Name")
+ * and the task breakdown table ("| F001 | Name |")
+ */
+export function parseFeatureNames(suite: DocumentSuite): Mention[] {
+  const features: Mention[] = [];
+
+  for (const doc of findDocuments(suite, '01_prd')) {
+    features.push(
+      ...matchLines(doc, /^#{3,5}\s+Feature\s+\d+:\s*(.+)$/, 1),
+      ...matchLines(doc, /^\s*\d+\.\s+\*\*Feature\s+\d+:\*\*\s*(.+)$/, 1)
+    );
+  }
+  for (const doc of findDocuments(suite, '03_generate_tasks')) {
+    features.push(...matchLines(doc, /^\|\s*F\d+\s*\|\s*([^|]+?)\s*\|/, 1));
+  }
+
+  return features
+    .filter(f => !isPlaceholder(f.value))
+    .map(f => ({ ...f, value: cleanText(f.value.split(/\s+[-–—:]\s+/)[0]) }))
+    .filter(f => f.value.length > 0);
+}
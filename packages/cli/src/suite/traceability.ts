@@ -0,0 +1,600 @@
+/**
+ * Requirements Traceability
+ * Links PRD requirements, user stories, acceptance criteria and tests across a suite
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { hashContent } from '../core/merge.js';
+import { cleanText, findDocuments, isPlaceholder, loadSuite, normalizeTerm } from './parser.js';
+import type {
+  CoverageStat,
+  DocumentKind,
+  DocumentSuite,
+  SuiteDocument,
+  TraceabilityMatrix,
+  TracedCriterion,
+  TracedRequirement,
+  TracedStory,
+  TracedTest,
+  TraceGap,
+  TraceGapType,
+  TraceItem,
+  TraceRow,
+} from './types.js';
+
+export const TRACEABILITY_BASENAME = 'requirements-traceability';
+
+export type TraceabilityFormat = 'md' | 'csv' | 'json';
+
+export const TRACEABILITY_FORMATS: TraceabilityFormat[] = ['md', 'csv', 'json'];
+
+const REQUIREMENT_ID = /\b(?:FR|NFR|REQ)-[A-Z0-9]+(?:-[A-Z0-9]+)*\b/;
+const STORY_ID = /\bUS-[A-Z0-9]+(?:-[A-Z0-9]+)*\b/;
+const CRITERION_ID = /\bAC-[A-Z0-9]+(?:-[A-Z0-9]+)*\b/;
+const TEST_ID = /\bTC-[A-Z0-9]+(?:-[A-Z0-9]+)*\b/;
+
+/** Shorter titles match too much incidental text */
+const MIN_TITLE_MATCH = 8;
+
+const GAP_LABELS: Record<TraceGapType, string> = {
+  'requirement-without-stories': 'Requirements without user stories',
+  'story-without-requirement': 'User stories without a requirement',
+  'story-without-criteria': 'User stories without acceptance criteria',
+  'criterion-without-tests': 'Acceptance criteria without tests',
+};
+
+/**
+ * A document line with its heading level and whether it sits in a code fence
+ */
+interface ScannedLine {
+  text: string;
+  line: number;
+  heading: number;
+  fenced: boolean;
+}
+
+/**
+ * A traced item plus the text used to find references to other items
+ */
+interface Parsed<T extends TraceItem> {
+  item: T;
+  text: string;
+  /** Index range of the item's block in its document's lines */
+  start: number;
+  end: number;
+}
+
+/**
+ * Build the traceability matrix for a suite directory
+ */
+export function buildTraceabilityMatrix(input: string | DocumentSuite): TraceabilityMatrix {
+  const suite = typeof input === 'string' ? loadSuite(input) : input;
+
+  const requirements = docsOf(suite, '01_prd').flatMap(parseRequirements);
+  const stories = docsOf(suite, '10_user_stories').flatMap(parseStories);
+  const criteria = [
+    ...docsOf(suite, '10_user_stories').flatMap(doc => parseCriteria(doc, stories)),
+    ...docsOf(suite, '11_acceptance_criteria').flatMap(doc => parseCriteria(doc, stories)),
+  ];
+  const tests = docsOf(suite, '17_test_plan').flatMap(parseTests);
+
+  uniquifyIds([...requirements, ...stories, ...criteria, ...tests]);
+  link(requirements, stories, criteria, tests);
+
+  const rows = buildRows(requirements, stories, criteria);
+  const gaps = findGaps(requirements, stories, criteria);
+
+  return {
+    dir: suite.dir,
+    requirements: requirements.map(r => r.item),
+    stories: stories.map(s => s.item),
+    criteria: criteria.map(c => c.item),
+    tests: tests.map(t => t.item),
+    rows,
+    gaps,
+    coverage: {
+      requirements: coverage(requirements.map(r => r.item.stories)),
+      stories: coverage(stories.map(s => s.item.criteria)),
+      criteria: coverage(criteria.map(c => c.item.tests)),
+    },
+  };
+}
+
+function docsOf(suite: DocumentSuite, kind: DocumentKind): Array<{ doc: SuiteDocument; lines: ScannedLine[] }> {
+  return findDocuments(suite, kind).map(doc => ({ doc, lines: scanLines(doc) }));
+}
+
+function scanLines(doc: SuiteDocument): ScannedLine[] {
+  let fenced = false;
+  return doc.content.split('\n').map((text, index) => {
+    const fence = /^\s*(```|~~~)/.test(text);
+    if (fence) fenced = !fenced;
+    const heading = !fenced && !fence ? (text.match(/^(#{1,6})\s/)?.[1].length ?? 0) : 0;
+    return { text, line: index + 1, heading, fenced: fenced || fence };
+  });
+}
+
+/**
+ * End (exclusive) of the block that starts at a heading or list item
+ */
+function blockEnd(lines: ScannedLine[], start: number): number {
+  const level = lines[start].heading;
+  const indent = lines[start].text.match(/^\s*/)![0].length;
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (level > 0) {
+      if (line.heading > 0 && line.heading <= level) return i;
+    } else if (line.heading > 0 || (line.text.trim() && !line.fenced && line.text.match(/^\s*/)![0].length <= indent)) {
+      return i;
+    }
+  }
+  return lines.length;
+}
+
+function blockText(lines: ScannedLine[], start: number, end: number): string {
+  return lines.slice(start, end).map(l => l.text).join('\n');
+}
+
+/**
+ * Derive an ID that survives reordering and regeneration
+ */
+function stableId(prefix: string, ...parts: string[]): string {
+  return `${prefix}-${hashContent(parts.map(normalizeTerm).join('|')).slice(0, 6).toUpperCase()}`;
+}
+
+function toTitle(raw: string): string {
+  return cleanText(raw.split(/\s+[-–—:]\s+/)[0]);
+}
+
+/**
+ * Requirements declared in the PRD: explicit FR-/REQ- items, "Feature N:" entries
+ * and the agreed MVP feature list
+ */
+function parseRequirements({ doc, lines }: { doc: SuiteDocument; lines: ScannedLine[] }): Parsed<TracedRequirement>[] {
+  const found: Parsed<TracedRequirement>[] = [];
+  const seen = new Set<string>();
+  let inMvpList = false;
+
+  const add = (index: number, raw: string, declared?: string) => {
+    if (isPlaceholder(raw)) return;
+    const title = toTitle(raw);
+    const key = normalizeTerm(title);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+
+    const end = blockEnd(lines, index);
+    found.push({
+      item: {
+        id: declared ?? stableId('REQ', title),
+        kind: 'requirement',
+        title,
+        file: doc.filename,
+        line: lines[index].line,
+        stories: [],
+      },
+      text: blockText(lines, index, end),
+      start: index,
+      end,
+    });
+  };
+
+  lines.forEach((line, index) => {
+    if (line.fenced) return;
+    const text = line.text;
+
+    if (/^\*\*Agreed MVP Features:\*\*/.test(text)) {
+      inMvpList = true;
+      return;
+    }
+    if (inMvpList) {
+      const item = text.match(/^[-*]\s+(.+)$/);
+      if (item) {
+        add(index, item[1]);
+        return;
+      }
+      inMvpList = false;
+    }
+
+    const explicit = text.match(
+      new RegExp(`^(?:#{2,6}\\s+|\\s*(?:[-*]|\\d+\\.)\\s+)(?:\\*\\*)?(${REQUIREMENT_ID.source})(?:\\*\\*)?:?(?:\\*\\*)?\\s*(.+)$`)
+    );
+    if (explicit) {
+      add(index, explicit[2], explicit[1]);
+      return;
+    }
+
+    const feature = text.match(/^#{3,5}\s+Feature\s+\d+:\s*(.+)$/) ?? text.match(/^\s*\d+\.\s+\*\*Feature\s+\d+:\*\*\s*(.+)$/);
+    if (feature) add(index, feature[1]);
+  });
+
+  return found;
+}
+
+/**
+ * Stories declared as "#### US-AUTH-001: Title" headings, falling back to bare
+ * "As a ..." lines when a document has no story IDs
+ */
+function parseStories({ doc, lines }: { doc: SuiteDocument; lines: ScannedLine[] }): Parsed<TracedStory>[] {
+  const found: Parsed<TracedStory>[] = [];
+  const story = (id: string, title: string, index: number, end: number): Parsed<TracedStory> => ({
+    item: { id, kind: 'story', title, file: doc.filename, line: lines[index].line, requirements: [], criteria: [], tests: [] },
+    text: blockText(lines, index, end),
+    start: index,
+    end,
+  });
+
+  lines.forEach((line, index) => {
+    const match = line.heading > 0 && line.text.match(new RegExp(`^#{2,6}\\s+(${STORY_ID.source}):\\s*(.+)$`));
+    if (match) found.push(story(match[1], cleanText(match[2]), index, blockEnd(lines, index)));
+  });
+
+  if (found.length === 0) {
+    lines.forEach((line, index) => {
+      const match = !line.fenced && line.text.match(/^\s*(?:[-*]\s*)?(?:\*\*)?(As an?\s+.+)$/i);
+      if (match && !isPlaceholder(match[1])) {
+        const title = cleanText(match[1]);
+        found.push(story(stableId('US', title), title, index, index + 1));
+      }
+    });
+  }
+
+  return found;
+}
+
+/**
+ * Gherkin scenarios and explicit AC- items, attached to the story whose block
+ * contains them or whose ID the enclosing section cites
+ */
+function parseCriteria(
+  { doc, lines }: { doc: SuiteDocument; lines: ScannedLine[] },
+  stories: Parsed<TracedStory>[]
+): Parsed<TracedCriterion>[] {
+  const found: Parsed<TracedCriterion>[] = [];
+  let sectionStory: string | undefined;
+
+  lines.forEach((line, index) => {
+    if (line.heading > 0) sectionStory = line.text.match(STORY_ID)?.[0];
+
+    const scenario = line.text.match(/^\s*Scenario(?: Outline)?:\s*(.+)$/);
+    const explicit = line.text.match(
+      new RegExp(`^(?:#{2,6}\\s+|\\s*[-*]\\s+)(?:\\*\\*)?(${CRITERION_ID.source})(?:\\*\\*)?:?(?:\\*\\*)?\\s*(.+)$`)
+    );
+    const raw = explicit?.[2] ?? scenario?.[1];
+    if (!raw || isPlaceholder(raw)) return;
+
+    const owner = stories.find(s => s.item.file === doc.filename && index > s.start && index < s.end)?.item.id
+      ?? line.text.match(STORY_ID)?.[0]
+      ?? sectionStory;
+    const title = cleanText(raw);
+
+    found.push({
+      item: {
+        id: explicit?.[1] ?? line.text.match(CRITERION_ID)?.[0] ?? stableId('AC', owner ?? doc.filename, title),
+        kind: 'criterion',
+        title,
+        file: doc.filename,
+        line: line.line,
+        story: owner,
+        tests: [],
+      },
+      text: line.text,
+      start: index,
+      end: index + 1,
+    });
+  });
+
+  return found;
+}
+
+/**
+ * Test cases in the test plan: TC- items (headings, list items, table rows),
+ * "Test Case:" entries and numbered critical journeys
+ */
+function parseTests({ doc, lines }: { doc: SuiteDocument; lines: ScannedLine[] }): Parsed<TracedTest>[] {
+  const found: Parsed<TracedTest>[] = [];
+
+  const add = (index: number, raw: string, declared?: string, text?: string) => {
+    if (isPlaceholder(raw)) return;
+    const title = cleanText(raw);
+    const end = text ? index + 1 : blockEnd(lines, index);
+    found.push({
+      item: {
+        id: declared ?? stableId('TEST', title),
+        kind: 'test',
+        title,
+        file: doc.filename,
+        line: lines[index].line,
+        stories: [],
+        criteria: [],
+      },
+      text: text ?? blockText(lines, index, end),
+      start: index,
+      end,
+    });
+  };
+
+  lines.forEach((line, index) => {
+    const text = line.text;
+
+    if (text.trim().startsWith('|')) {
+      const cells = text.split('|').slice(1, -1).map(c => c.trim());
+      const id = cells.find(c => new RegExp(`^${TEST_ID.source}$`).test(c));
+      if (id) {
+        const title = [...cells].reverse().find(c => c && c !== id && !isReference(c));
+        add(index, title ?? id, id, text);
+      }
+      return;
+    }
+
+    const explicit = text.match(
+      new RegExp(`^(?:#{2,6}\\s+|\\s*(?:[-*]|\\d+\\.)\\s+)(?:\\*\\*)?(${TEST_ID.source})(?:\\*\\*)?:?(?:\\*\\*)?\\s*(.+)$`)
+    );
+    if (explicit) {
+      add(index, explicit[2], explicit[1]);
+      return;
+    }
+
+    const testCase = text.match(/^\s*Test Case:\s*(.+)$/);
+    if (testCase) {
+      add(index, testCase[1]);
+      return;
+    }
+
+    const journey = !line.fenced && text.match(/^\d+\.\s+\*\*([^*]+)\*\*\s*$/);
+    if (journey) add(index, journey[1]);
+  });
+
+  return found;
+}
+
+function isReference(cell: string): boolean {
+  return [REQUIREMENT_ID, STORY_ID, CRITERION_ID, TEST_ID].some(p => new RegExp(`^${p.source}$`).test(cell));
+}
+
+/**
+ * Suffix repeated IDs so every item stays addressable
+ */
+function uniquifyIds(items: Parsed<TraceItem>[]): void {
+  const counts = new Map<string, number>();
+  for (const { item } of items) {
+    const count = (counts.get(item.id) ?? 0) + 1;
+    counts.set(item.id, count);
+    if (count > 1) item.id = `${item.id}-${count}`;
+  }
+}
+
+function mentions(text: string, item: TraceItem): boolean {
+  if (new RegExp(`\\b${item.id}\\b`).test(text)) return true;
+  const title = normalizeTerm(item.title);
+  return title.length >= MIN_TITLE_MATCH && normalizeTerm(text).includes(title);
+}
+
+function link(
+  requirements: Parsed<TracedRequirement>[],
+  stories: Parsed<TracedStory>[],
+  criteria: Parsed<TracedCriterion>[],
+  tests: Parsed<TracedTest>[]
+): void {
+  for (const story of stories) {
+    for (const requirement of requirements) {
+      if (mentions(story.text, requirement.item) || new RegExp(`\\b${story.item.id}\\b`).test(requirement.text)) {
+        story.item.requirements.push(requirement.item.id);
+        requirement.item.stories.push(story.item.id);
+      }
+    }
+  }
+
+  for (const criterion of criteria) {
+    const story = stories.find(s => s.item.id === criterion.item.story);
+    if (story) story.item.criteria.push(criterion.item.id);
+    else criterion.item.story = undefined;
+  }
+
+  for (const test of tests) {
+    for (const story of stories) {
+      if (!new RegExp(`\\b${story.item.id}\\b`).test(test.text)) continue;
+      test.item.stories.push(story.item.id);
+      story.item.tests.push(test.item.id);
+    }
+    for (const criterion of criteria) {
+      const viaStory = criterion.item.story !== undefined && test.item.stories.includes(criterion.item.story);
+      if (!viaStory && !mentions(test.text, criterion.item)) continue;
+      test.item.criteria.push(criterion.item.id);
+      criterion.item.tests.push(test.item.id);
+    }
+  }
+}
+
+function buildRows(
+  requirements: Parsed<TracedRequirement>[],
+  stories: Parsed<TracedStory>[],
+  criteria: Parsed<TracedCriterion>[]
+): TraceRow[] {
+  const rows: TraceRow[] = [];
+
+  for (const { item } of requirements) {
+    if (item.stories.length === 0) {
+      rows.push({ requirements: [item.id], tests: [], status: 'no-stories' });
+    }
+  }
+
+  for (const { item: story } of stories) {
+    if (story.criteria.length === 0) {
+      rows.push({ requirements: story.requirements, story: story.id, tests: story.tests, status: 'no-criteria' });
+      continue;
+    }
+    for (const id of story.criteria) {
+      const criterion = criteria.find(c => c.item.id === id)!.item;
+      rows.push({
+        requirements: story.requirements,
+        story: story.id,
+        criterion: criterion.id,
+        tests: criterion.tests,
+        status: criterion.tests.length > 0 ? 'covered' : 'untested',
+      });
+    }
+  }
+
+  for (const { item } of criteria) {
+    if (item.story) continue;
+    rows.push({
+      requirements: [],
+      criterion: item.id,
+      tests: item.tests,
+      status: item.tests.length > 0 ? 'covered' : 'untested',
+    });
+  }
+
+  return rows;
+}
+
+function findGaps(
+  requirements: Parsed<TracedRequirement>[],
+  stories: Parsed<TracedStory>[],
+  criteria: Parsed<TracedCriterion>[]
+): TraceGap[] {
+  const gap = (type: TraceGapType, item: TraceItem): TraceGap =>
+    ({ type, id: item.id, title: item.title, file: item.file, line: item.line });
+
+  return [
+    ...requirements.filter(r => r.item.stories.length === 0).map(r => gap('requirement-without-stories', r.item)),
+    // Only meaningful once the PRD names its requirements
+    ...(requirements.length > 0
+      ? stories.filter(s => s.item.requirements.length === 0).map(s => gap('story-without-requirement', s.item))
+      : []),
+    ...stories.filter(s => s.item.criteria.length === 0).map(s => gap('story-without-criteria', s.item)),
+    ...criteria.filter(c => c.item.tests.length === 0).map(c => gap('criterion-without-tests', c.item)),
+  ];
+}
+
+function coverage(links: string[][]): CoverageStat {
+  return { covered: links.filter(l => l.length > 0).length, total: links.length };
+}
+
+function percent(stat: CoverageStat): string {
+  return stat.total === 0 ? 'n/a' : `${Math.round((stat.covered / stat.total) * 100)}%`;
+}
+
+function lookup(matrix: TraceabilityMatrix): Map<string, TraceItem> {
+  return new Map(
+    [...matrix.requirements, ...matrix.stories, ...matrix.criteria, ...matrix.tests].map(item => [item.id, item])
+  );
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * Render the matrix as a markdown document
+ */
+export function renderTraceabilityMarkdown(matrix: TraceabilityMatrix): string {
+  const items = lookup(matrix);
+  const label = (id?: string) => {
+    const item = id ? items.get(id) : undefined;
+    return item ? `**${item.id}** ${cell(item.title)}` : '—';
+  };
+
+  const lines = [
+    '# Requirements Traceability Matrix',
+    '',
+    'This document maps business requirements to user stories, acceptance criteria and test cases, ' +
+      'so every requirement can be verified and coverage gaps are visible.',
+    '',
+    `- Source: ${basename(matrix.dir)}`,
+    `- Requirements: ${matrix.requirements.length} | Stories: ${matrix.stories.length} | ` +
+      `Acceptance Criteria: ${matrix.criteria.length} | Tests: ${matrix.tests.length}`,
+    '',
+    '## Coverage',
+    '',
+    '| Link | Covered | Total | Coverage |',
+    '|------|---------|-------|----------|',
+    `| Requirements → User Stories | ${matrix.coverage.requirements.covered} | ${matrix.coverage.requirements.total} | ${percent(matrix.coverage.requirements)} |`,
+    `| User Stories → Acceptance Criteria | ${matrix.coverage.stories.covered} | ${matrix.coverage.stories.total} | ${percent(matrix.coverage.stories)} |`,
+    `| Acceptance Criteria → Tests | ${matrix.coverage.criteria.covered} | ${matrix.coverage.criteria.total} | ${percent(matrix.coverage.criteria)} |`,
+    '',
+    '## Matrix',
+    '',
+    '| Requirement | User Story | Acceptance Criterion | Tests | Status |',
+    '|-------------|------------|----------------------|-------|--------|',
+    ...matrix.rows.map(row =>
+      `| ${row.requirements.length ? row.requirements.map(label).join('<br>') : '—'} ` +
+      `| ${label(row.story)} | ${label(row.criterion)} ` +
+      `| ${row.tests.length ? row.tests.join(', ') : '—'} | ${row.status} |`
+    ),
+    '',
+    '## Gaps',
+    '',
+  ];
+
+  if (matrix.gaps.length === 0) {
+    lines.push('No coverage gaps found.', '');
+  }
+
+  for (const [type, heading] of Object.entries(GAP_LABELS)) {
+    const gaps = matrix.gaps.filter(g => g.type === type);
+    if (gaps.length === 0) continue;
+    lines.push(`### ${heading} (${gaps.length})`, '');
+    lines.push(...gaps.map(g => `- **${g.id}** ${g.title} — ${g.file}:${g.line}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render the matrix as CSV, one row per story/criterion pair
+ */
+export function renderTraceabilityCsv(matrix: TraceabilityMatrix): string {
+  const items = lookup(matrix);
+  const title = (id?: string) => (id ? items.get(id)?.title ?? '' : '');
+  const header = [
+    'requirement_ids', 'requirements', 'story_id', 'story',
+    'criterion_id', 'criterion', 'test_ids', 'status',
+  ];
+
+  const rows = matrix.rows.map(row => [
+    row.requirements.join('; '),
+    row.requirements.map(title).join('; '),
+    row.story ?? '',
+    title(row.story),
+    row.criterion ?? '',
+    title(row.criterion),
+    row.tests.join('; '),
+    row.status,
+  ]);
+
+  return [header, ...rows].map(r => r.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export function renderTraceabilityJson(matrix: TraceabilityMatrix): string {
+  return JSON.stringify(matrix, null, 2) + '\n';
+}
+
+/**
+ * Write the matrix next to the suite (or to outputDir), returning the paths written
+ */
+export function writeTraceability(
+  matrix: TraceabilityMatrix,
+  outputDir: string = matrix.dir,
+  formats: TraceabilityFormat[] = TRACEABILITY_FORMATS
+): string[] {
+  const renderers: Record<TraceabilityFormat, (m: TraceabilityMatrix) => string> = {
+    md: renderTraceabilityMarkdown,
+    csv: renderTraceabilityCsv,
+    json: renderTraceabilityJson,
+  };
+
+  mkdirSync(outputDir, { recursive: true });
+
+  return formats.map(format => {
+    const path = join(outputDir, `${TRACEABILITY_BASENAME}.${format}`);
+    writeFileSync(path, renderers[format](matrix));
+    return path;
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * Document Suite Types
+ */
+
+/**
+ * Core template a generated document came from, e.g. '01_prd'
+ */
+export type DocumentKind =
+  | '01_prd'
+  | '02_adr'
+  | '03_generate_tasks'
+  | '04_process_task_list'
+  | '05_market_research'
+  | '06_architecture'
+  | '07_competitor_analysis'
+  | '08_personas'
+  | '09_user_journeys'
+  | '10_user_stories'
+  | '11_acceptance_criteria'
+  | '12_qa_gate'
+  | '13_risk_register'
+  | '14_project_brief'
+  | '15_brainstorming'
+  | '16_frontend_spec'
+  | '17_test_plan'
+  | '18_release_plan'
+  | '19_operational_readiness'
+  | '20_metrics_dashboard'
+  | '21_postmortem'
+  | '22_playtest_usability';
+
+export interface SuiteDocument {
+  /** File name relative to the suite directory */
+  filename: string;
+  /** Absolute path */
+  path: string;
+  /** Template the document was generated from, when recognisable */
+  kind: DocumentKind | null;
+  content: string;
+}
+
+export interface DocumentSuite {
+  dir: string;
+  documents: SuiteDocument[];
+}
+
+export type CheckId = 'personas' | 'risks' | 'adrs' | 'features';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface CheckIssue {
+  check: CheckId;
+  severity: IssueSeverity;
+  message: string;
+  /** Document the issue was found in */
+  file: string;
+  /** 1-based line number */
+  line?: number;
+  /** The ID, persona or term the issue is about */
+  ref?: string;
+}
+
+export interface CheckSummary {
+  id: CheckId;
+  name: string;
+  /** Why the check did not run (missing documents) */
+  skipped?: string;
+  issues: number;
+}
+
+export interface CheckReport {
+  dir: string;
+  documents: string[];
+  checks: CheckSummary[];
+  issues: CheckIssue[];
+  /** True when no errors were found (warnings allowed) */
+  passed: boolean;
+}
+
+export type TraceKind = 'requirement' | 'story' | 'criterion' | 'test';
+
+export interface TraceItem {
+  /** Declared ID (US-AUTH-001, TC-001) or a stable hash-derived one (REQ-1A2B3C) */
+  id: string;
+  kind: TraceKind;
+  title: string;
+  file: string;
+  line: number;
+}
+
+export interface TracedRequirement extends TraceItem {
+  stories: string[];
+}
+
+export interface TracedStory extends TraceItem {
+  requirements: string[];
+  criteria: string[];
+  /** Tests that cite the story directly */
+  tests: string[];
+}
+
+export interface TracedCriterion extends TraceItem {
+  story?: string;
+  tests: string[];
+}
+
+export interface TracedTest extends TraceItem {
+  stories: string[];
+  criteria: string[];
+}
+
+export type TraceStatus = 'covered' | 'untested' | 'no-criteria' | 'no-stories';
+
+export interface TraceRow {
+  requirements: string[];
+  story?: string;
+  criterion?: string;
+  tests: string[];
+  status: TraceStatus;
+}
+
+export type TraceGapType =
+  | 'requirement-without-stories'
+  | 'story-without-requirement'
+  | 'story-without-criteria'
+  | 'criterion-without-tests';
+
+export interface TraceGap {
+  type: TraceGapType;
+  id: string;
+  title: string;
+  file: string;
+  line: number;
+}
+
+export interface CoverageStat {
+  covered: number;
+  total: number;
+}
+
+export interface TraceabilityMatrix {
+  dir: string;
+  requirements: TracedRequirement[];
+  stories: TracedStory[];
+  criteria: TracedCriterion[];
+  tests: TracedTest[];
+  rows: TraceRow[];
+  gaps: TraceGap[];
+  coverage: {
+    /** Requirements with at least one story */
+    requirements: CoverageStat;
+    /** Stories with at least one acceptance criterion */
+    stories: CoverageStat;
+    /** Acceptance criteria with at least one test */
+    criteria: CoverageStat;
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Model-backed generation tests. A stub registry stands in for the model
+ * providers and records every request it is sent.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  compileTemplate,
+  type TemplateContext,
+} from '../packages/cli/src/core/index.js';
+import {
+  findPrompt,
+  generateCustomTemplateWithModel,
+  generateDocumentWithModel,
+  resolvePromptModel,
+  splitSections,
+  streamDocumentWithModel,
+  DEFAULT_SECTION_PROMPT,
+  type GenerationEvent,
+} from '../packages/cli/src/core/ai.js';
+import { Blueprint } from '../packages/cli/src/client/index.js';
+import { ApiServer } from '../packages/cli/src/enterprise/api/index.js';
+import { TemplateEngine } from '../packages/cli/src/enterprise/templates/index.js';
+import type { ModelRegistry } from '../packages/cli/src/enterprise/models/registry.js';
+import type { CompletionRequest, StreamChunk } from '../packages/cli/src/enterprise/models/types.js';
+import type { CustomTemplate } from '../packages/cli/src/enterprise/templates/types.js';
+
+const PROJECT: TemplateContext = {
+  projectName: 'Acme',
+  projectDescription: 'A task tracker for distributed teams',
+  scope: 'mvp',
+  audience: 'startup',
+};
+
+interface SentRequest {
+  model: string;
+  request: CompletionRequest;
+}
+
+/**
+ * Registry whose providers answer with the section heading they were asked to
+ * write, or fail with `error`
+ */
+function stubRegistry(sent: SentRequest[], error?: Error): ModelRegistry {
+  const answer = (model: string, request: CompletionRequest) => {
+    sent.push({ model, request });
+    if (error) throw error;
+    const heading = request.messages[0].content.match(/^## .*$/m)?.[0] ?? '## Section';
+    return `${heading}\n\nWritten by ${model}.\n`;
+  };
+
+  return {
+    completeWithAlias: async (model: string, request: CompletionRequest) => ({ content: answer(model, request) }),
+    async *streamWithAlias(model: string, request: CompletionRequest) {
+      yield { content: answer(model, request), done: true };
+    },
+  } as unknown as ModelRegistry;
+}
+
+describe('Model-authored generation', () => {
+  it('sends each section of a core template the prompt meant for it', async () => {
+    const sent: SentRequest[] = [];
+    const skeleton = splitSections(compileTemplate('01_prd.md')(PROJECT));
+    const [vision, ...rest] = skeleton.sections;
+
+    const document = await generateDocumentWithModel('01_prd.md', PROJECT, {
+      model: 'claude',
+      registry: stubRegistry(sent),
+      temperature: 0.3,
+      prompts: [{
+        id: 'vision',
+        section: vision.id,
+        system: 'You write visions for {{projectName}}.',
+        user: '## {{section.title}}\n\nFor {{projectName}}: {{projectDescription}}',
+        model: 'gemini',
+        temperature: 0.9,
+      }],
+    });
+
+    expect(vision.id).toBe('1-product-vision-problem-statement');
+    expect(sent.length).toBe(skeleton.sections.length);
+    expect(sent[0]).toEqual({
+      model: 'gemini',
+      request: {
+        system: 'You write visions for Acme.',
+        messages: [{ role: 'user', content: `## ${vision.title}\n\nFor Acme: A task tracker for distributed teams` }],
+        temperature: 0.9,
+        maxTokens: undefined,
+      },
+    });
+
+    // Every other section gets the default prompt with its own skeleton and the project context
+    rest.forEach((section, i) => {
+      const { model, request } = sent[i + 1];
+      expect(model).toBe('claude');
+      expect(request.temperature).toBe(DEFAULT_SECTION_PROMPT.temperature);
+      expect(request.system).toContain(`"${document.name}" for Acme`);
+      expect(request.messages[0].content).toContain('- projectName: Acme');
+      expect(request.messages[0].content.endsWith(section.content)).toBe(true);
+    });
+
+    expect(document.filename).toBe('acme-01_prd.md');
+    expect(document.content.startsWith(skeleton.preamble.trimEnd())).toBe(true);
+    expect(splitSections(document.content).sections.map(s => s.title)).toEqual(skeleton.sections.map(s => s.title));
+    expect(document.content).toContain('Written by gemini.');
+  });
+
+  it('falls back to the run model and the default prompt', async () => {
+    expect(resolvePromptModel({ ...DEFAULT_SECTION_PROMPT, model: 'auto' }, 'gpt-4o')).toBe('gpt-4o');
+    expect(resolvePromptModel({ ...DEFAULT_SECTION_PROMPT, model: undefined }, 'gpt-4o')).toBe('gpt-4o');
+    expect(resolvePromptModel(undefined, 'gpt-4o')).toBe('gpt-4o');
+    expect(resolvePromptModel({ ...DEFAULT_SECTION_PROMPT, model: 'ollama' }, 'gpt-4o')).toBe('llama');
+    expect(findPrompt([{ id: 'x', section: 'risks', user: 'x' }, DEFAULT_SECTION_PROMPT], 'goals')).toBe(DEFAULT_SECTION_PROMPT);
+    expect(findPrompt([{ id: 'x', section: 'risks', user: 'x' }], 'goals')).toBeUndefined();
+
+    // Without a model, templates are rendered and the registry is never asked
+    const sent: SentRequest[] = [];
+    const result = await new Blueprint({ registry: stubRegistry(sent) }).generate({ ...PROJECT, scope: 'mvp' });
+    expect(result.documents.length).toBeGreaterThan(0);
+    expect(sent).toEqual([]);
+  });
+
+  it('authors only the prompted sections of a custom template', async () => {
+    const sent: SentRequest[] = [];
+    const template: CustomTemplate = {
+      meta: { id: 'launch', name: 'Launch Plan', description: 'x', version: '1.0.0', category: 'custom', scope: 'mvp' },
+      variables: [{ name: 'product', type: 'string', label: 'Product', default: 'Acme' }],
+      sections: [
+        { id: 'summary', title: 'Summary', content: '## Summary\n\nTBD for {{product}}' },
+        { id: 'channels', title: 'Channels', content: '## Channels\n\nTBD', prompt: 'List launch channels for {{product}}.' },
+        { id: 'owners', title: 'Owners', content: 'Marketing team' },
+      ],
+      prompts: [{ id: 'summary', section: 'summary', user: 'Summarise the launch of {{product}}.', model: 'auto' }],
+    };
+
+    const content = await generateCustomTemplateWithModel(new TemplateEngine(), template, { product: 'Acme' }, {
+      model: 'claude',
+      registry: stubRegistry(sent),
+    });
+
+    expect(sent.map(s => [s.model, s.request.messages[0].content.split('\n')[0]])).toEqual([
+      ['claude', 'Summarise the launch of Acme.'],
+      ['claude', 'List launch channels for Acme.'],
+    ]);
+    expect(sent[1].request.messages[0].content).toContain('## Channels\n\nTBD');
+    expect(content).toContain('Written by claude.');
+    expect(content).toContain('Marketing team');
+  });
+
+  it('passes provider errors back to the caller', async () => {
+    const failure = new Error('Provider claude is not configured');
+    const sent: SentRequest[] = [];
+
+    await expect(generateDocumentWithModel('01_prd.md', PROJECT, { model: 'claude', registry: stubRegistry(sent, failure) }))
+      .rejects.toBe(failure);
+    expect(sent.length).toBe(1);
+
+    await expect(new Blueprint({ model: 'claude', registry: stubRegistry([], failure) }).generate(PROJECT))
+      .rejects.toThrow('Provider claude is not configured');
+  });
+});
+
+describe('Streaming generation', () => {
+  /**
+   * Registry that streams each section as its heading and two sentences, and
+   * fails once `failAt` sections have been started
+   */
+  function streamingRegistry(failAt = Infinity): ModelRegistry {
+    let started = 0;
+    return {
+      async *streamWithAlias(_model: string, request: CompletionRequest): AsyncGenerator<StreamChunk> {
+        if (++started > failAt) throw new Error('Rate limited by provider');
+        const heading = request.messages[0].content.match(/^## .*$/m)?.[0] ?? '## Section';
+        yield { content: `${heading}\n\n`, done: false };
+        yield { content: '', done: false };
+        yield { content: 'First sentence. ', done: false };
+        yield { content: 'Second sentence.', done: true };
+        yield { content: 'Sent after done.', done: false };
+      },
+    } as unknown as ModelRegistry;
+  }
+
+  it('streams sections in order and ends with the assembled document', async () => {
+    const events: GenerationEvent[] = [];
+    for await (const event of streamDocumentWithModel('01_prd.md', PROJECT, { model: 'claude', registry: streamingRegistry() })) {
+      events.push(event);
+    }
+
+    const sections = splitSections(compileTemplate('01_prd.md')(PROJECT)).sections;
+    expect(events[0]).toMatchObject({ type: 'document-start', filename: 'acme-01_prd.md', sections: sections.length });
+    expect(events.slice(1, 6).map(e => e.type === 'chunk' ? e.content : e.type)).toEqual([
+      'section-start',
+      `## ${sections[0].title}\n\n`,
+      'First sentence. ',
+      'Second sentence.',
+      'section-end',
+    ]);
+    expect(events.filter(e => e.type === 'section-start').map(e => e.type === 'section-start' && e.section))
+      .toEqual(sections.map(s => s.title));
+
+    const last = events[events.length - 1];
+    expect(last.type).toBe('document-end');
+    const content = last.type === 'document-end' ? last.document.content : '';
+    expect(content).toContain(`## ${sections[1].title}\n\nFirst sentence. Second sentence.`);
+    expect(content).not.toContain('Sent after done.');
+  });
+
+  describe('over the API', () => {
+    async function streamFrom(registry: ModelRegistry, port: number) {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-stream-'));
+      const server = new ApiServer({ port, logging: false, sessionsDir: dir, auditDir: dir, registry });
+      await server.start();
+      try {
+        const response = await fetch(`http://localhost:${port}/api/generate/stream`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...PROJECT, model: 'claude' }),
+        });
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        // Resolves only once the server ends the stream
+        const text = await response.text();
+        return text.split('\n\n').filter(block => block.startsWith('event: ')).map(block => {
+          const [event, data] = block.split('\n');
+          return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+        });
+      } finally {
+        await server.stop();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    }
+
+    it('sends generation events as server-sent events and a final done', async () => {
+      const events = await streamFrom(streamingRegistry(), 34611);
+      const names = events.map(e => e.event);
+
+      expect(names[0]).toBe('document-start');
+      expect(names.slice(1, 6)).toEqual(['section-start', 'chunk', 'chunk', 'chunk', 'section-end']);
+      expect(names[names.length - 1]).toBe('done');
+      expect(names.filter(n => n === 'document-end').length).toBe(names.filter(n => n === 'document-start').length);
+      expect(events[names.length - 1].data.duration).toEqual(expect.any(Number));
+    });
+
+    it('reports a provider error and closes the stream', async () => {
+      const events = await streamFrom(streamingRegistry(2), 34612);
+      const names = events.map(e => e.event);
+
+      expect(names.filter(n => n === 'section-end').length).toBe(2);
+      expect(events[events.length - 1]).toEqual({
+        event: 'error',
+        data: { code: 'GENERATION_FAILED', message: 'Rate limited by provider' },
+      });
+      expect(names).not.toContain('done');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * API server tests: the browser interview, its answer, skip, download and
+ * delete routes, and how long generated suites are kept.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiServer } from '../packages/cli/src/enterprise/api/index.js';
+
+describe('Interview web UI', () => {
+  it('serves the page, runs the interview over the API and downloads the suite as a zip', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-web-'));
+    const server = new ApiServer({ port: 34599, logging: false, apiKey: 'secret', sessionsDir: dir, auditDir: dir });
+    await server.start();
+    const base = 'http://localhost:34599';
+    const call = async (method: string, route: string, body?: unknown) => {
+      const response = await fetch(base + route, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': 'secret' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return response.json();
+    };
+
+    try {
+      // The page is public; the API behind it is not
+      const page = await fetch(`${base}/`);
+      expect(page.headers.get('content-type')).toContain('text/html');
+      expect(await page.text()).toContain('/api/interview/answer');
+      expect((await fetch(`${base}/api/interview`)).status).toBe(401);
+
+      let state = (await call('POST', '/api/interview', { prefill: { projectName: 'Crafted' } })).data;
+      const types = new Set<string>();
+      while (!state.complete) {
+        const question = state.currentQuestion;
+        types.add(question.type);
+        const answer = {
+          select: question.options?.[0].value,
+          multiselect: question.options?.slice(0, 1).map((o: { value: string }) => o.value),
+          boolean: false,
+          number: 1,
+          editor: 'An online store with cart and checkout for handmade goods.',
+          text: 'n/a',
+        }[question.type as string];
+        const result = await call('POST', '/api/interview/answer', { sessionId: state.sessionId, answer });
+        expect(result.success).toBe(true);
+        state = result.data;
+      }
+      expect([...types]).toEqual(expect.arrayContaining(['editor', 'select', 'multiselect', 'boolean']));
+
+      expect((await call('GET', `/api/interview/${state.sessionId}/download`)).error.code).toBe('NOT_GENERATED');
+      const generated = await call('POST', `/api/interview/${state.sessionId}/generate`, {});
+      expect(generated.data.documents.length).toBeGreaterThan(0);
+      expect(generated.data.filename).toBe('crafted.zip');
+
+      const download = await fetch(base + generated.data.download, { headers: { 'X-API-Key': 'secret' } });
+      expect(download.headers.get('content-disposition')).toContain('crafted.zip');
+      const zip = Buffer.from(await download.arrayBuffer());
+      expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+      for (const name of [generated.data.documents[0].filename, 'intake.yaml', 'intake-report.md']) {
+        expect(zip.includes(Buffer.from(name))).toBe(true);
+      }
+
+      expect((await call('DELETE', '/api/interview/not_a_session')).error.code).toBe('NOT_FOUND');
+      expect((await call('DELETE', `/api/interview/${state.sessionId}`)).data.deleted).toBe(state.sessionId);
+      expect((await call('DELETE', `/api/interview/${state.sessionId}`)).error.code).toBe('NOT_FOUND');
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it('expires downloads and keeps only the newest generations', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-web-'));
+    const server = new ApiServer({ port: 34598, logging: false, sessionsDir: dir, auditDir: dir, downloadTtl: 10, maxDownloads: 2 });
+    await server.start();
+    const call = async (method: string, route: string, body?: unknown) => {
+      const response = await fetch(`http://localhost:34598${route}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return response.json();
+    };
+    const generate = async (projectName: string) => {
+      let state = (await call('POST', '/api/interview', { prefill: { projectName } })).data;
+      while (!state.complete) {
+        const question = state.currentQuestion;
+        const answer = {
+          select: question.options?.[0].value,
+          multiselect: [],
+          boolean: false,
+          number: 1,
+        }[question.type as string] ?? 'An online store for handmade goods.';
+        state = (await call('POST', '/api/interview/answer', { sessionId: state.sessionId, answer })).data;
+      }
+      await call('POST', `/api/interview/${state.sessionId}/generate`, {});
+      return state.sessionId as string;
+    };
+    const downloadable = async (id: string) => (await fetch(`http://localhost:34598/api/interview/${id}/download`)).status === 200;
+
+    try {
+      const first = await generate('First');
+      const second = await generate('Second');
+      const third = await generate('Third');
+      expect([await downloadable(first), await downloadable(second), await downloadable(third)]).toEqual([false, true, true]);
+
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now + 11 * 60_000);
+      expect(await downloadable(third)).toBe(false);
+      expect((await call('GET', `/api/interview/${third}/download`)).error.code).toBe('NOT_GENERATED');
+    } finally {
+      vi.restoreAllMocks();
+      await server.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('skips optional questions and refuses to skip required ones', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-web-'));
+    const server = new ApiServer({ port: 34597, logging: false, sessionsDir: dir, auditDir: dir });
+    await server.start();
+    const answer = async (body: Record<string, unknown>) => (await fetch('http://localhost:34597/api/interview/answer', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })).json();
+
+    try {
+      const page = await (await fetch('http://localhost:34597/')).text();
+      expect(page).toContain("text: 'Skip'");
+      expect(page).toContain("text: 'Back'");
+
+      let state = (await (await fetch('http://localhost:34597/api/interview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}',
+      })).json()).data;
+      expect(state.currentQuestion.required).toBe(true);
+      const refused = await answer({ sessionId: state.sessionId, skip: true });
+      expect(refused.error.message).toContain('is required and cannot be skipped');
+
+      while (state.currentQuestion.required) {
+        const question = state.currentQuestion;
+        const value = { select: question.options?.[0].value, boolean: false, number: 1 }[question.type as string] ?? 'An online store with cart and checkout for handmade goods.';
+        state = (await answer({ sessionId: state.sessionId, answer: value })).data;
+      }
+      const optional = state.currentQuestion.id;
+      state = (await answer({ sessionId: state.sessionId, skip: true, answer: 'ignored' })).data;
+      expect(state.answers[optional]).toBeNull();
+      expect(state.currentQuestion?.id).not.toBe(optional);
+    } finally {
+      await server.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Project classifier tests against a labeled corpus of project descriptions
+ * in test/fixtures/project-descriptions.json.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  analyzeDescription,
+  classifyProject,
+  detectContext,
+} from '../packages/cli/src/interview/index.js';
+
+describe('Project classifier', () => {
+  const corpus: Array<{ description: string; types: string[] }> = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'fixtures', 'project-descriptions.json'), 'utf-8')
+  );
+
+  it('picks the labeled primary type for at least 90% of the corpus', () => {
+    const correct = corpus.filter(c => classifyProject(c.description).projectType === c.types[0]);
+    expect(correct.length / corpus.length).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('reports secondary types alongside the primary one', () => {
+    const multiLabel = corpus.filter(c => c.types.length > 1);
+    const found = multiLabel.filter(c => {
+      const labels = classifyProject(c.description).labels.map(l => l.label);
+      return c.types.every(t => labels.includes(t as never));
+    });
+    expect(multiLabel.length).toBeGreaterThan(3);
+    expect(found.length / multiLabel.length).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('matches whole words and explains each signal', () => {
+    const analysis = analyzeDescription('We maintain the tools our stats team uses.');
+    expect(analysis.projectType).toBe('other');
+    expect(analysis.technologies).not.toContain('TypeScript');
+
+    const detected = detectContext({
+      projectDescription: 'A marketplace app for iOS and Android where sellers list handmade goods. Mobile friendly web too.',
+    });
+    expect(detected.projectTypes).toEqual(['marketplace', 'mobile-app']);
+    expect(detected.reasoning.join('\n')).toContain('"seller" +2');
+    expect(detected.reasoning.join('\n')).toContain('"mobile friendly" -3');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Blueprint client tests: generating through the programmatic entry point,
+ * cancellation, and the paths plugins are started with.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ModelRegistry } from '../packages/cli/src/enterprise/models/registry.js';
+import { Blueprint } from '../packages/cli/src/client/index.js';
+
+describe('Blueprint client', () => {
+  const project = {
+    projectName: 'Acme',
+    projectDescription: 'A task tracker for distributed teams',
+    scope: 'mvp',
+  };
+
+  it('generates a suite in memory and reports each document', async () => {
+    const seen: string[] = [];
+    const blueprint = new Blueprint({ hooks: { document: doc => seen.push(doc.filename) } });
+    const result = await blueprint.generate(project);
+
+    expect(result.files).toEqual([]);
+    expect(result.context.audience).toBe('business');
+    expect(result.documents.map(d => d.filename)).toEqual(seen);
+    expect(result.documents.length).toBe(blueprint.templates('mvp').length);
+  });
+
+  it('stops streaming generation once the signal is aborted', async () => {
+    let calls = 0;
+    const registry = {
+      async *streamWithAlias() {
+        calls++;
+        yield { content: 'Authored section.', done: true };
+      },
+    } as unknown as ModelRegistry;
+    const controller = new AbortController();
+    const blueprint = new Blueprint({ model: 'claude', registry });
+    blueprint.on('event', event => {
+      if (event.type === 'section-end') controller.abort();
+    });
+
+    await expect(blueprint.generate({ ...project, signal: controller.signal })).rejects.toThrow();
+    expect(calls).toBe(1);
+  });
+
+  it('starts plugins against the project and the directory a call writes to', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-client-'));
+    const root = path.join(dir, 'project');
+    try {
+      fs.mkdirSync(path.join(root, '.intent', 'plugins'), { recursive: true });
+      fs.writeFileSync(path.join(root, '.intent', 'plugins', 'paths.mjs'), [
+        "import { appendFileSync } from 'fs';",
+        "import { join } from 'path';",
+        "export default {",
+        "  meta: { id: 'paths', name: 'Paths', description: 'x', version: '1.0.0', author: { name: 'x' }, type: 'processor' },",
+        "  init(context) { appendFileSync(join(context.projectPath, 'paths.log'), context.outputPath + '\\n'); },",
+        "  async process(content) { return content; },",
+        "};",
+      ].join('\n'));
+
+      const blueprint = new Blueprint({ projectPath: root });
+      await blueprint.generate({ ...project, outputDir: path.join(dir, 'first') });
+      await blueprint.generate({ ...project, outputDir: path.join(dir, 'second') });
+      await blueprint.generate(project);
+
+      expect(fs.readFileSync(path.join(root, 'paths.log'), 'utf8').trim().split('\n'))
+        .toEqual([path.join(dir, 'first'), path.join(dir, 'second'), root]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -11,9 +11,29 @@
 import { describe, it, expect } from 'vitest';
 import fs from 'fs';
 import path from 'path';
+import {
+  buildDocumentGraph,
+  compileTemplateSource,
+  renderMermaid,
+  summarizeDocument,
+  upstreamOf,
+  type GeneratedDocument,
+  type TemplateContext,
+} from '../packages/cli/src/core/index.js';
+import { translateDocumentWithModel } from '../packages/cli/src/core/ai.js';
+import type { ModelRegistry } from '../packages/cli/src/enterprise/models/registry.js';
+import { InterviewEngine } from '../packages/cli/src/interview/index.js';
+import {
+  buildTraceabilityMatrix,
+  checkSuite,
+  detectKind,
+  renderTraceabilityCsv,
+  type DocumentSuite,
+} from '../packages/cli/src/suite/index.js';
 
 const PROJECT_ROOT = path.resolve(__dirname, '..');
 const TEMPLATES_DIR = path.join(PROJECT_ROOT, 'professional-templates', 'core');
+const PACKAGED_TEMPLATES_DIR = path.join(PROJECT_ROOT, 'packages', 'cli', 'templates', 'core');
 
 function getTemplates(): Array<{ name: string; content: string }> {
   if (!fs.existsSync(TEMPLATES_DIR)) return [];
@@ -26,6 +46,50 @@ function getTemplates(): Array<{ name: string; content: string }> {
     }));
 }
 
+// Representative projects - rendered output must differ where the project does
+const FIXTURES: Record<string, TemplateContext> = {
+  'cli tool': {
+    projectName: 'Logtail CLI',
+    projectDescription: 'A command-line tool for tailing and filtering structured logs',
+    scope: 'mvp',
+    audience: 'startup',
+    projectType: 'cli-tool',
+    techStack: ['Go'],
+    features: [],
+  },
+  'mobile payments app': {
+    projectName: 'PocketPay',
+    projectDescription: 'A mobile app for splitting bills and sending payments between friends',
+    scope: 'comprehensive',
+    audience: 'business',
+    projectType: 'mobile-app',
+    techStack: ['React Native', 'Node.js', 'PostgreSQL'],
+    features: ['authentication', 'payments', 'notifications'],
+    mvpFeatures: ['Split a bill', 'Send money to a contact'],
+    timeline: '3-6 months',
+    team: 'Small (2-5)',
+    hasPayments: true,
+    needsCompliance: true,
+    complianceTypes: ['PCI-DSS', 'GDPR'],
+    competitors: ['Venmo', 'Splitwise'],
+  },
+  'enterprise saas': {
+    projectName: 'Ledgerly',
+    projectDescription: 'A multi-tenant SaaS platform for enterprise finance teams to close the books',
+    scope: 'comprehensive',
+    audience: 'enterprise',
+    projectType: 'saas-web',
+    techStack: ['TypeScript', 'React', 'PostgreSQL'],
+    features: ['authentication', 'analytics'],
+    needsCompliance: true,
+    complianceTypes: ['SOC 2'],
+  },
+};
+
+function render(content: string, context: TemplateContext): string {
+  return compileTemplateSource(content)(context);
+}
+
 describe('Template static validation (free tier)', () => {
   const templates = getTemplates();
 
@@ -33,37 +97,322 @@ describe('Template static validation (free tier)', () => {
     expect(templates.length).toBe(22);
   });
 
+  it('keeps the packaged template copy in sync', () => {
+    for (const tmpl of templates) {
+      const packaged = fs.readFileSync(path.join(PACKAGED_TEMPLATES_DIR, tmpl.name), 'utf8');
+      expect(packaged, tmpl.name).toBe(tmpl.content);
+    }
+  });
+
   for (const tmpl of templates) {
     describe(`template: ${tmpl.name}`, () => {
       it('is not empty', () => {
         expect(tmpl.content.trim().length).toBeGreaterThan(0);
       });
 
-      it('has a title (H1 header)', () => {
-        expect(tmpl.content).toMatch(/^# .+/m);
-      });
-
-      it('has multiple sections (H2 headers)', () => {
-        const h2Count = (tmpl.content.match(/^## .+/gm) || []).length;
-        expect(h2Count).toBeGreaterThanOrEqual(2);
-      });
-
       it('uses {{DATE}} placeholder (not hardcoded dates)', () => {
         const hasDatePlaceholder = tmpl.content.includes('{{DATE}}');
         expect(hasDatePlaceholder).toBe(true);
       });
 
-      it('has no unresolved non-DATE placeholders', () => {
-        // {{DATE}} is expected, but other {{PLACEHOLDER}} tokens should not be present
-        const otherPlaceholders = tmpl.content.match(/\{\{(?!DATE\}\})[A-Z_]+\}\}/g);
-        expect(otherPlaceholders).toBeNull();
+      it('binds the project name', () => {
+        expect(tmpl.content).toContain('{{projectName}}');
       });
 
       it('follows naming convention (NN_description.md)', () => {
         expect(tmpl.name).toMatch(/^\d{2}_[a-z_]+\.md$/);
       });
+
+      for (const [fixture, context] of Object.entries(FIXTURES)) {
+        describe(`rendered for ${fixture}`, () => {
+          const output = render(tmpl.content, context);
+
+          it('has a title (H1 header)', () => {
+            expect(output).toMatch(/^# .+/m);
+          });
+
+          it('has multiple sections (H2 headers)', () => {
+            const h2Count = (output.match(/^## .+/gm) || []).length;
+            expect(h2Count).toBeGreaterThanOrEqual(2);
+          });
+
+          it('resolves every binding', () => {
+            expect(output).not.toMatch(/\{\{[^}]*\}\}/);
+            expect(output).toMatch(/Last Updated: \d{4}-\d{2}-\d{2}/);
+          });
+
+          it('names the project', () => {
+            expect(output).toContain(context.projectName);
+          });
+
+          it('does not HTML-escape project values', () => {
+            const escaped = render(tmpl.content, { ...context, projectName: 'R&D <Tools>' });
+            expect(escaped).toContain('R&D <Tools>');
+            expect(escaped).not.toContain('&amp;');
+          });
+        });
+      }
+    });
+  }
+});
+
+describe('Template conditionals', () => {
+  const byName = Object.fromEntries(getTemplates().map(t => [t.name, t.content]));
+  const cli = FIXTURES['cli tool'];
+  const payments = FIXTURES['mobile payments app'];
+  const saas = FIXTURES['enterprise saas'];
+
+  it('renders a different PRD for a mobile payments app than for a CLI tool', () => {
+    const cliPrd = render(byName['01_prd.md'], cli);
+    const paymentsPrd = render(byName['01_prd.md'], payments);
+
+    expect(paymentsPrd).not.toBe(cliPrd.replace(/Logtail CLI/g, 'PocketPay'));
+    expect(paymentsPrd).toContain('Payment Requirements');
+    expect(paymentsPrd).toContain('PCI-DSS, GDPR');
+    expect(paymentsPrd).toContain('Native iOS and Android');
+    expect(paymentsPrd).toContain('Split a bill');
+    expect(cliPrd).not.toContain('Payment Requirements');
+    expect(cliPrd).not.toContain('Regulatory Compliance');
+  });
+
+  it('drops payment stories when the project has no payments', () => {
+    expect(render(byName['10_user_stories.md'], cli)).toContain('has no payment flows in scope');
+    expect(render(byName['10_user_stories.md'], payments)).toContain('Epic: Subscription Management');
+  });
+
+  it('adds a risk per compliance framework', () => {
+    const risks = render(byName['13_risk_register.md'], payments);
+    expect(risks).toContain('PCI-DSS Non-Compliance');
+    expect(risks).toContain('GDPR Non-Compliance');
+    expect(risks).toContain('RISK-PAY');
+    expect(render(byName['13_risk_register.md'], cli)).not.toContain('RISK-PAY');
+  });
+
+  it('derives SaaS and enterprise flags from project type and audience', () => {
+    const architecture = render(byName['06_architecture.md'], saas);
+    expect(architecture).toContain('Tenant Isolation');
+    expect(architecture).toContain('Enterprise SSO');
+    expect(render(byName['06_architecture.md'], cli)).not.toContain('Tenant Isolation');
+  });
+
+  it('lists named competitors', () => {
+    expect(render(byName['07_competitor_analysis.md'], payments)).toContain('Venmo, Splitwise');
+  });
+});
+
+function renderSuite(context: TemplateContext): DocumentSuite {
+  return {
+    dir: TEMPLATES_DIR,
+    documents: getTemplates().map(t => ({
+      filename: t.name,
+      path: path.join(TEMPLATES_DIR, t.name),
+      kind: detectKind(t.name),
+      content: render(t.content, context),
+    })),
+  };
+}
+
+describe('Suite consistency', () => {
+  for (const [fixture, context] of Object.entries(FIXTURES)) {
+    it(`passes blueprint check when rendered for ${fixture}`, () => {
+      const report = checkSuite(renderSuite(context));
+      expect(report.issues).toEqual([]);
+      // Feature names can stay placeholders until a project fills in the PRD
+      expect(report.checks.filter(c => c.skipped && c.id !== 'features')).toEqual([]);
+    });
+  }
+
+  it('reports risks the release plan does not mitigate', () => {
+    const suite = renderSuite(FIXTURES['mobile payments app']);
+    const plan = suite.documents.find(d => d.kind === '18_release_plan')!;
+    plan.content = plan.content.replace(/^\| RISK-PAY \|.*$/m, '');
+
+    const report = checkSuite(suite, ['risks']);
+    expect(report.passed).toBe(false);
+    expect(report.issues.map(i => i.ref)).toEqual(['RISK-PAY']);
+  });
+
+  it('reports story personas the personas document does not define', () => {
+    const suite = renderSuite(FIXTURES['mobile payments app']);
+    const stories = suite.documents.find(d => d.kind === '10_user_stories')!;
+    stories.content += '\n- As a procurement officer, I want to approve invoices so that spend stays on budget\n';
+
+    const report = checkSuite(suite, ['personas']);
+    expect(report.passed).toBe(false);
+    expect(report.issues).toEqual([expect.objectContaining({
+      severity: 'error',
+      ref: 'procurement officer',
+      file: stories.filename,
+      line: stories.content.split('\n').length - 1,
+    })]);
+  });
+
+  it('reports ADRs the architecture cites without a record', () => {
+    const suite = renderSuite(FIXTURES['mobile payments app']);
+    const architecture = suite.documents.find(d => d.kind === '06_architecture')!;
+    architecture.content += '\nThe settlement queue follows ADR-999.\n';
+
+    const report = checkSuite(suite, ['adrs']);
+    expect(report.passed).toBe(false);
+    expect(report.issues.map(i => [i.ref, i.message])).toEqual([['ADR-999', 'ADR-999 is referenced but not defined in any ADR']]);
+  });
+
+  it('warns when a feature name is spelled differently elsewhere', () => {
+    const suite = renderSuite(FIXTURES['mobile payments app']);
+    suite.documents.find(d => d.kind === '01_prd')!.content += '\n#### Feature 9: Instant Payout\n';
+    const architecture = suite.documents.find(d => d.kind === '06_architecture')!;
+    architecture.content += '\nMerchants can request an instant-payout once a day.\n';
+
+    const report = checkSuite(suite, ['features']);
+    expect(report.passed).toBe(true);
+    expect(report.issues).toEqual([expect.objectContaining({
+      severity: 'warning',
+      ref: 'Instant Payout',
+      file: architecture.filename,
+      message: expect.stringContaining('"instant-payout" is spelled differently from feature "Instant Payout"'),
+    })]);
+  });
+});
+
+describe('Requirements traceability', () => {
+  const payments = FIXTURES['mobile payments app'];
+
+  it('traces every user story scenario to a test case', () => {
+    const matrix = buildTraceabilityMatrix(renderSuite(payments));
+    const storyCriteria = matrix.criteria.filter(c => c.story);
+
+    expect(matrix.stories.map(s => s.id)).toContain('US-PAY-001');
+    expect(matrix.gaps.filter(g => g.type === 'story-without-criteria')).toEqual([]);
+    expect(storyCriteria.length).toBeGreaterThan(0);
+    expect(storyCriteria.filter(c => c.tests.length === 0)).toEqual([]);
+  });
+
+  it('assigns IDs that survive regeneration', () => {
+    const first = buildTraceabilityMatrix(renderSuite(payments));
+    const second = buildTraceabilityMatrix(renderSuite({ ...payments, projectName: 'PocketPay 2' }));
+    expect(second.criteria.map(c => c.id)).toEqual(first.criteria.map(c => c.id));
+  });
+
+  it('reports MVP features no story covers', () => {
+    const matrix = buildTraceabilityMatrix(renderSuite(payments));
+    const gaps = matrix.gaps.filter(g => g.type === 'requirement-without-stories').map(g => g.title);
+    expect(gaps).toEqual(['Split a bill', 'Send money to a contact']);
+    expect(renderTraceabilityCsv(matrix).split('\n')[0]).toBe(
+      'requirement_ids,requirements,story_id,story,criterion_id,criterion,test_ids,status'
+    );
+  });
+});
+
+describe('Document dependency graph', () => {
+  const sources = Object.fromEntries(getTemplates().map(t => [t.name, t.content]));
+  const graph = buildDocumentGraph(sources);
+  const position = (template: string) => graph.order.indexOf(template);
+
+  it('orders every template after the documents it consumes', () => {
+    expect(graph.order).toHaveLength(Object.keys(sources).length);
+    expect(graph.unresolved).toEqual({});
+    for (const node of Object.values(graph.nodes)) {
+      for (const upstream of node.dependsOn) {
+        expect(position(upstream), `${upstream} before ${node.template}`).toBeLessThan(position(node.template));
+      }
+    }
+    expect(graph.nodes['03_generate_tasks.md'].dependsOn).toEqual(['01_prd.md', '06_architecture.md', '10_user_stories.md']);
+  });
+
+  it('links across templates a scope leaves out', () => {
+    const mvp = new Set(['01_prd.md', '03_generate_tasks.md', '14_project_brief.md', '15_brainstorming.md']);
+    expect(upstreamOf(graph, '03_generate_tasks.md', mvp)).toEqual(['01_prd.md']);
+    expect(renderMermaid(graph, { templates: [...mvp] })).toContain('doc01_prd --> doc03_generate_tasks');
+  });
+
+  it('derives the task breakdown from upstream summaries', () => {
+    const context = FIXTURES['mobile payments app'];
+    const prd = summarizeDocument({
+      name: 'PRD',
+      filename: 'pocketpay-01_prd.md',
+      content: render(sources['01_prd.md'], context),
     });
+    const tasks = render(sources['03_generate_tasks.md'], { ...context, upstream: [prd] });
+
+    expect(prd.summary).not.toContain('**');
+    expect(tasks).toContain('[PRD](pocketpay-01_prd.md)');
+    expect(tasks).toContain('Product Vision: PocketPay');
+    expect(render(sources['03_generate_tasks.md'], context)).toContain('**Source Document:**');
+  });
+});
+
+describe('Localized output', () => {
+  const document: GeneratedDocument = {
+    name: 'Architecture',
+    filename: 'acme-06_architecture.md',
+    category: 'Technical Architecture',
+    content: [
+      '# System Architecture',
+      '',
+      '## 1. Overview',
+      '',
+      '| Component | Owner |',
+      '|-----------|-------|',
+      '| API | Platform |',
+      '',
+      '- [ ] Review the design',
+      '',
+      '```mermaid',
+      'graph TD',
+      '  Client --> API',
+      '```',
+    ].join('\n'),
+  };
+
+  // Stands in for a model: "translates" by swapping known words in the section it is sent
+  function fakeRegistry(translate: (text: string) => string, seen: string[] = []): ModelRegistry {
+    return {
+      completeWithAlias: async (_model: string, request: { messages: Array<{ content: string }> }) => {
+        const section = request.messages[0].content.split('Return only the translated markdown.\n\n')[1];
+        seen.push(section);
+        return { content: translate(section) };
+      },
+    } as unknown as ModelRegistry;
   }
+
+  it('translates section by section without sending code blocks to the model', async () => {
+    const seen: string[] = [];
+    const registry = fakeRegistry(text => text.replace('Overview', 'Überblick').replace('Review the design', 'Entwurf prüfen'), seen);
+    const translated = await translateDocumentWithModel(document, 'de-DE', { model: 'claude', registry });
+
+    expect(seen).toHaveLength(2);
+    expect(seen.join('\n')).not.toContain('Client --> API');
+    expect(translated.locale).toBe('de');
+    expect(translated.content).toContain('## 1. Überblick');
+    expect(translated.content).toContain('- [ ] Entwurf prüfen');
+    expect(translated.content).toContain('  Client --> API');
+  });
+
+  it('keeps a section whose table does not survive translation', async () => {
+    const warnings: string[] = [];
+    const registry = fakeRegistry(text => text.replace('| API | Platform |\n', ''));
+    const translated = await translateDocumentWithModel(document, 'fr', {
+      model: 'claude',
+      registry,
+      onWarning: message => warnings.push(message),
+    });
+
+    expect(translated.content).toContain('| API | Platform |');
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('asks interview questions in the chosen locale but stores the English option values', () => {
+    const engine = new InterviewEngine({ locale: 'de' });
+    engine.setAnswers({ projectName: 'Acme', projectDescription: 'A task tracker for distributed teams' });
+
+    const question = engine.getState().currentQuestion!;
+    expect(question.text).toBe('Um welche Art von Projekt handelt es sich?');
+    expect(question.optionLabels?.[0]).toBe('SaaS-Webanwendung');
+
+    engine.answer(question.id, question.options![0]);
+    expect(engine.toTemplateContext()).toMatchObject({ projectType: 'saas-web', locale: 'de' });
+    expect(() => new InterviewEngine({ locale: 'xx' })).toThrow('Unsupported locale');
+  });
 });
 
 // LLM-judge tests — only run when ANTHROPIC_API_KEY is set
@@ -81,7 +430,7 @@ describe.skipIf(!HAS_API_KEY)('Template LLM-judge evaluation (paid tier)', () =>
     it(`${tmpl.name} scores >= 3 on all dimensions`, async () => {
       // Dynamic import to avoid loading SDK when not needed
       const { judge } = await import('./helpers/llm-judge.js');
-      const score = await judge(tmpl.name, tmpl.content);
+      const score = await judge(tmpl.name, render(tmpl.content, FIXTURES['mobile payments app']));
 
       expect(score.clarity).toBeGreaterThanOrEqual(3);
       expect(score.completeness).toBeGreaterThanOrEqual(3);
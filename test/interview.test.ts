@@ -0,0 +1,317 @@
+/**
+ * Interview tests: saved sessions, where questions come from, moving through
+ * the interview, and the records it leaves behind.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  generateAllDocuments,
+  type TemplateContext,
+} from '../packages/cli/src/core/index.js';
+import type { ModelRegistry } from '../packages/cli/src/enterprise/models/registry.js';
+import {
+  InterviewEngine,
+  QUESTION_GROUPS,
+  answersTemplate,
+  applyAnswers,
+  createSessionStore,
+  createIntake,
+  loadQuestionBank,
+  parseAnswers,
+  parseIntake,
+  readIntake,
+  writeIntake,
+} from '../packages/cli/src/interview/index.js';
+import { qualityValidator } from '../packages/cli/src/plugins/builtin/index.js';
+
+describe('Interview sessions', () => {
+  it('saves every answer and resumes where the interview left off', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-sessions-'));
+    try {
+      const { session, engine } = createSessionStore({ dir }).start({
+        locale: 'fr',
+        answers: { projectName: 'Acme', projectDescription: 'A task tracker for distributed teams' },
+      });
+      const question = engine.getState().currentQuestion!;
+      engine.answer(question.id, question.options![0]);
+
+      // A separate store sees the saved progress, as a later CLI run or MCP call would
+      const store = createSessionStore({ dir });
+      const resumed = store.resume(session.id);
+      expect(resumed.session.locale).toBe('fr');
+      expect(resumed.engine.getState().answers.projectType).toBe('saas-web');
+      expect(resumed.engine.getState().currentQuestion!.id).not.toBe(question.id);
+      expect(store.list().map(s => s.projectName)).toEqual(['Acme']);
+
+      expect(store.delete(session.id)).toBe(true);
+      expect(() => store.resume(session.id)).toThrow('Interview session not found');
+      expect(() => store.resume('../config')).toThrow('Invalid interview session ID');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Interview follow-ups', () => {
+  it('asks model-proposed questions at the end of their group and carries the answers into the context', async () => {
+    const prompts: string[] = [];
+    const registry = {
+      completeWithAlias: async (_model: string, request: { messages: Array<{ content: string }> }) => {
+        prompts.push(request.messages[0].content);
+        return {
+          content: 'Here you go:\n[{"id": "peak_rps", "text": "What is your expected peak RPS?", "hint": "e.g. 500"},' +
+            ' {"id": "techStack", "text": "Which stack?"}]',
+        };
+      },
+    } as unknown as ModelRegistry;
+
+    const engine = new InterviewEngine();
+    engine.setAnswers({
+      projectName: 'Acme',
+      projectDescription: 'A public REST API for shipment tracking',
+      projectType: 'api-backend',
+      techStack: ['Go'],
+    });
+
+    const added = await engine.proposeFollowUps('technical', { model: 'claude', registry, max: 2 });
+    expect(prompts[0]).toContain('projectType: api-backend');
+    // A proposal that would overwrite a built-in answer is dropped
+    expect(added.map(q => q.id)).toEqual(['peakRps']);
+
+    engine.setAnswers({ hasBackend: true, hasDatabase: true, hasAuth: true, deploymentTarget: 'Serverless' });
+    expect(engine.getState().currentQuestion!.id).toBe('peakRps');
+
+    engine.answer('peakRps', '2000');
+    expect(engine.toTemplateContext()).toMatchObject({
+      peakRps: '2000',
+      followUps: [{ question: 'What is your expected peak RPS?', answer: '2000' }],
+    });
+  });
+});
+
+describe('Question banks', () => {
+  it('merges YAML questions with conditions, validation and transforms into the interview', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-bank-'));
+    try {
+      fs.mkdirSync(path.join(dir, '.intent'));
+      fs.writeFileSync(path.join(dir, '.intent', 'questions.yaml'), `groups:
+  - id: core
+    questions:
+      - id: repoUrl
+        text: Where is the code hosted?
+        validate: { rule: "matches(value, '^https://')", message: Use an https URL }
+  - id: operations
+    name: Operations
+    after: technical
+    condition: hasBackend && projectType != 'cli-tool'
+    questions:
+      - id: regions
+        text: Which regions do you deploy to?
+        transform: split(lower(value))
+      - id: tier
+        text: Support tier?
+        type: select
+        options: [{ label: Business hours, value: standard }, { label: 24/7, value: premium }]
+`);
+
+      const groups = loadQuestionBank({ projectDir: dir, packs: false });
+      expect(groups.map(g => g.id)).toEqual(['core', 'technical', 'operations', 'business', 'scope', 'compliance']);
+
+      const engine = new InterviewEngine({ questions: groups });
+      engine.setAnswers({ projectName: 'Acme', projectDescription: 'Shipment tracking API', projectType: 'api-backend' });
+      expect(() => engine.answer('repoUrl', 'git@example.com:acme')).toThrow('Use an https URL');
+      engine.answer('repoUrl', 'https://example.com/acme');
+
+      engine.setAnswers({ techStack: ['Go'], hasFrontend: false, hasBackend: true, hasDatabase: true, hasAuth: true, hasPayments: false, deploymentTarget: 'Serverless' });
+      expect(engine.getState().currentQuestion!.id).toBe('regions');
+      engine.answer('regions', 'EU-West, US-East');
+      engine.answer('tier', '24/7');
+
+      expect(engine.toTemplateContext()).toMatchObject({
+        repoUrl: 'https://example.com/acme',
+        regions: ['eu-west', 'us-east'],
+        tier: 'premium',
+      });
+
+      engine.setAnswers({ projectType: 'cli-tool' });
+      expect(engine.getQuestionGroups().find(g => g.id === 'operations')!.isActive).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('asks questions from installed packs', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-packs-'));
+    const installDir = path.join(dir, '.blueprint', 'packs');
+    const install = (id: string) => {
+      fs.mkdirSync(path.join(installDir, id), { recursive: true });
+      return { id, version: '1.0.0', path: path.join(installDir, id), installedAt: new Date().toISOString() };
+    };
+
+    try {
+      const packs = [install('blueprint-hipaa'), install('acme-sre')];
+      fs.writeFileSync(path.join(installDir, 'installed.json'), JSON.stringify(packs));
+      fs.mkdirSync(path.join(installDir, 'acme-sre', 'questions'));
+      fs.writeFileSync(path.join(installDir, 'acme-sre', 'questions', 'slo.yaml'),
+        '- id: slo\n  questions:\n    - id: availabilityTarget\n      text: What availability do you target?\n');
+
+      const groups = loadQuestionBank({ projectDir: dir });
+      expect(groups.map(g => g.id)).toEqual(['core', 'technical', 'business', 'scope', 'compliance', 'hipaa', 'slo']);
+
+      const engine = new InterviewEngine({ questions: groups });
+      expect(() => engine.answer('breachNotificationDays', 90)).toThrow('within 60 days');
+      engine.answer('organizationType', 'Business Associate');
+      expect(engine.getState().answers.organizationType).toBe('ba');
+
+      // Without the packs installed, the interview is unchanged
+      expect(loadQuestionBank({ projectDir: dir, packs: false }).map(g => g.id))
+        .toEqual(['core', 'technical', 'business', 'scope', 'compliance']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Answers files', () => {
+  it('answers in interview order and reports invalid, missing and ignored answers', () => {
+    const engine = new InterviewEngine({ questions: QUESTION_GROUPS });
+    const report = applyAnswers(engine, parseAnswers(JSON.stringify({
+      projectName: 'Shiptrack',
+      projectDescription: 'A public REST API that lets carriers track parcels in real time.',
+      projectType: 'api-backend',
+      techStack: ['Go', 'Cobol'],
+      hasDatabase: 'no',
+      audience: 'enterprise',
+      hasFrontend: true,
+    })));
+
+    expect(report.valid).toBe(false);
+    expect(report.answers).toMatchObject({ projectType: 'api-backend', hasDatabase: false, audience: 'enterprise', hasBackend: true });
+    expect(report.errors).toEqual([{ questionId: 'techStack', message: expect.stringContaining('got "Cobol"') }]);
+    expect(report.missingRequired).toEqual(['scope']);
+    // An API backend is never asked about a user interface
+    expect(report.ignored).toEqual(['hasFrontend']);
+    expect(report.gaps.completenessScore).toBeGreaterThan(0);
+  });
+
+  it('writes a blank answers file for a project type that reads back as answers', () => {
+    const template = answersTemplate({ projectType: 'cli-tool', questions: QUESTION_GROUPS });
+    expect(template).toContain('projectType: cli-tool');
+    expect(template).toContain('# hasFrontend:');
+    expect(template).toContain('# One of: mvp, standard, comprehensive');
+
+    const filled = template
+      .replace(/^projectName:$/m, 'projectName: Shipctl')
+      .replace(/^projectDescription:$/m, 'projectDescription: A command line client for the Shiptrack parcel API.')
+      .replace(/^audience:$/m, 'audience: startup')
+      .replace(/^scope:$/m, 'scope: mvp');
+    const report = applyAnswers(new InterviewEngine({ questions: QUESTION_GROUPS }), parseAnswers(filled));
+    expect(report).toMatchObject({ valid: true, errors: [], ignored: [] });
+    expect(report.answers).toMatchObject({ projectType: 'cli-tool', scope: 'mvp', hasBackend: true });
+  });
+});
+
+describe('Interview editing', () => {
+  it('drops answers an edit makes irrelevant, skips optional questions and reviews in order', () => {
+    const engine = new InterviewEngine({ questions: QUESTION_GROUPS });
+    engine.setAnswers({
+      projectName: 'Ledger',
+      projectDescription: 'Invoicing and payouts for freelance designers.',
+      projectType: 'saas-web',
+      techStack: ['TypeScript'],
+      hasFrontend: true,
+      hasBackend: true,
+      hasDatabase: true,
+      hasAuth: true,
+      hasPayments: false,
+      deploymentTarget: 'Serverless',
+    });
+    engine.answer('audience', 'Enterprise - Thorough, compliance-ready');
+    engine.answer('needsCompliance', true);
+    engine.answer('complianceTypes', ['SOC 2']);
+
+    expect(() => engine.skip('scope')).toThrow('required');
+    engine.skip('teamSize');
+    expect(engine.getState().answers.teamSize).toBeNull();
+    expect(engine.getState().currentQuestion!.id).toBe('timeline');
+
+    // Compliance only applies to enterprise audiences or payments, so moving to startup clears it
+    const state = engine.answer('audience', 'Startup - Move fast, iterate quickly');
+    expect(state.invalidated).toEqual(['needsCompliance', 'complianceTypes']);
+    expect(state.answers).not.toHaveProperty('complianceTypes');
+
+    expect(engine.getPreviousQuestion('timeline')!.id).toBe('teamSize');
+    engine.clearAnswer('teamSize');
+    expect(engine.getState().currentQuestion!.id).toBe('teamSize');
+
+    const review = engine.getReview();
+    expect(review[0]).toMatchObject({ groupId: 'core', questionId: 'projectName', answer: 'Ledger' });
+    expect(review.find(r => r.questionId === 'audience')!.answer).toBe('startup');
+  });
+});
+
+describe('Intake records', () => {
+  it('records answers, detection and assumptions, and regenerates the same suite', () => {
+    const engine = new InterviewEngine({ questions: QUESTION_GROUPS });
+    engine.setAnswers({
+      projectName: 'Crafted',
+      projectDescription: 'An online store with cart and checkout for handmade goods.',
+      projectType: 'ecommerce',
+      hasFrontend: true,
+      audience: 'startup',
+      scope: 'mvp',
+    });
+    engine.skip('teamSize');
+
+    const context = engine.toTemplateContext();
+    const intake = createIntake(engine, context);
+    expect(intake.transcript.find(t => t.questionId === 'teamSize')?.answer).toBeNull();
+    expect(intake.assumptions).toContainEqual(expect.objectContaining({ field: 'hasAuth', confidence: 85, applied: true }));
+    expect(intake.context.hasAuth).toBe(true);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intake-'));
+    const [intakePath, reportPath] = writeIntake(intake, dir);
+    const report = fs.readFileSync(reportPath, 'utf-8');
+    expect(report).toContain('| Project Basics | What type of project is this? | ecommerce |');
+    expect(report).toContain('| hasAuth | Project requires user authentication | 85% | Yes |');
+
+    const restored = readIntake(intakePath);
+    expect(restored).toEqual(JSON.parse(JSON.stringify(intake)));
+    const render = (c: TemplateContext) => generateAllDocuments(c).map(d => d.content);
+    expect(render(restored.context)).toEqual(render(context));
+
+    expect(() => parseIntake('version: 2\ncontext: {}', 'old.yaml')).toThrow('Unsupported intake version 2 in old.yaml');
+  });
+});
+
+describe('Assumption register', () => {
+  it('lists assumed and defaulted values in the PRD until they are confirmed', async () => {
+    const engine = new InterviewEngine({ questions: QUESTION_GROUPS });
+    engine.setAnswers({
+      projectName: 'Crafted',
+      projectDescription: 'An online store with cart and checkout for handmade goods.',
+      projectType: 'ecommerce',
+      scope: 'mvp',
+      hasFrontend: true,
+      deploymentTarget: 'Vercel',
+    });
+
+    const { assumedValues } = engine.complete();
+    expect(assumedValues.map(a => a.field)).not.toContain('deploymentTarget');
+    expect(assumedValues).toContainEqual(expect.objectContaining({ field: 'hasAuth', value: true, source: 'inferred', confidence: 85 }));
+    expect(assumedValues).toContainEqual(expect.objectContaining({ field: 'teamSize', value: 'Small (2-5)', source: 'default' }));
+    expect(assumedValues).toContainEqual(expect.objectContaining({ field: 'audience', source: 'detected', question: 'Who is your target audience?' }));
+
+    const prd = generateAllDocuments(engine.toTemplateContext()).find(d => d.filename.endsWith('01_prd.md'))!.content;
+    expect(prd).toContain('### 12.4 Assumptions & Open Questions');
+    expect(prd).toContain('| Does your project need user authentication? | Yes | inferred | 85% | ⚠️ Unconfirmed |');
+
+    const unconfirmed = async (content: string) =>
+      (await qualityValidator.validate(content)).warnings.filter(w => w.rule === 'unconfirmed-assumptions');
+    expect(await unconfirmed(prd)).toHaveLength(assumedValues.length);
+    expect(await unconfirmed(prd.replace(/⚠️ Unconfirmed/g, '✅ Confirmed'))).toHaveLength(0);
+  });
+});
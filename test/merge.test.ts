@@ -0,0 +1,146 @@
+/**
+ * Incremental regeneration tests: the section-level three-way merge that
+ * keeps hand edits when documents are regenerated with --merge.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { GeneratedDocument } from '../packages/cli/src/core/index.js';
+import {
+  MANIFEST_FILENAME,
+  mergeDocuments,
+  writeManifest,
+} from '../packages/cli/src/core/merge.js';
+import { sectionId, splitSections } from '../packages/cli/src/core/sections.js';
+
+const FILENAME = 'acme-prd.md';
+
+function prd(sections: Record<string, string>): GeneratedDocument {
+  const content = ['# Acme PRD', '', ...Object.entries(sections).map(([title, body]) => `## ${title}\n\n${body}\n`)].join('\n');
+  return { name: 'PRD', filename: FILENAME, content, category: 'Product' };
+}
+
+const V1 = { Overview: 'Acme tracks tasks.', Goals: 'Ship the MVP.', Risks: 'Scope creep.' };
+
+describe('Incremental regeneration', () => {
+  function withOutput(run: (dir: string, file: string) => void) {
+    return () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-merge-'));
+      try {
+        // The first run writes the documents and records what was generated
+        const first = prd(V1);
+        expect(mergeDocuments([first], dir)).toEqual([{ filename: FILENAME, status: 'created', preserved: [], conflicts: [] }]);
+        writeManifest(dir, [first]);
+        run(dir, path.join(dir, FILENAME));
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    };
+  }
+
+  function edit(file: string, from: string | RegExp, to: string) {
+    fs.writeFileSync(file, fs.readFileSync(file, 'utf8').replace(from, to));
+  }
+
+  it('refreshes sections nobody edited', withOutput((dir, file) => {
+    const next = prd({ ...V1, Goals: 'Ship the MVP by June.' });
+    expect(mergeDocuments([next], dir)).toEqual([{ filename: FILENAME, status: 'updated', preserved: [], conflicts: [] }]);
+    expect(fs.readFileSync(file, 'utf8')).toBe(next.content);
+
+    expect(mergeDocuments([next], dir)[0].status).toBe('unchanged');
+  }));
+
+  it('keeps sections edited by hand when the generator did not change them', withOutput((dir, file) => {
+    edit(file, 'Scope creep.', 'Scope creep, and the vendor API.');
+    const next = prd({ ...V1, Goals: 'Ship the MVP by June.' });
+
+    expect(mergeDocuments([next], dir)).toEqual([{ filename: FILENAME, status: 'merged', preserved: ['Risks'], conflicts: [] }]);
+    const merged = fs.readFileSync(file, 'utf8');
+    expect(merged).toContain('Ship the MVP by June.');
+    expect(merged).toContain('Scope creep, and the vendor API.');
+  }));
+
+  it('marks sections both sides changed as conflicts', withOutput((dir, file) => {
+    edit(file, 'Ship the MVP.', 'Ship the MVP to beta customers.');
+    const next = prd({ ...V1, Goals: 'Ship the MVP by June.' });
+
+    expect(mergeDocuments([next], dir)).toEqual([{ filename: FILENAME, status: 'conflict', preserved: [], conflicts: ['Goals'] }]);
+    expect(fs.readFileSync(file, 'utf8')).toContain([
+      '## Goals',
+      '',
+      '<<<<<<< edited',
+      'Ship the MVP to beta customers.',
+      '=======',
+      'Ship the MVP by June.',
+      '>>>>>>> generated',
+    ].join('\n'));
+  }));
+
+  it('keeps reporting a conflict nobody resolved', withOutput((dir, file) => {
+    edit(file, 'Ship the MVP.', 'Ship the MVP to beta customers.');
+    const next = prd({ ...V1, Goals: 'Ship the MVP by June.' });
+    mergeDocuments([next], dir);
+    writeManifest(dir, [next]);
+
+    // A second run finds the markers under the Goals heading, not a new section
+    expect(mergeDocuments([next], dir)).toEqual([{ filename: FILENAME, status: 'conflict', preserved: [], conflicts: ['Goals'] }]);
+    let merged = fs.readFileSync(file, 'utf8');
+    expect(splitSections(merged).sections.map(s => s.title)).toEqual(['Overview', 'Goals', 'Risks']);
+    expect(merged.match(/^<<<<<<< edited$/gm)).toHaveLength(1);
+
+    // Newer generated content replaces the generated side; the edit is kept
+    const later = prd({ ...V1, Goals: 'Ship the MVP by July.' });
+    expect(mergeDocuments([later], dir)[0].conflicts).toEqual(['Goals']);
+    merged = fs.readFileSync(file, 'utf8');
+    expect(merged).toContain('<<<<<<< edited\nShip the MVP to beta customers.\n=======\nShip the MVP by July.\n>>>>>>> generated');
+    expect(merged).not.toContain('by June');
+    writeManifest(dir, [later]);
+
+    // Once resolved by hand, the edit is an ordinary preserved section
+    edit(file, /<<<<<<< edited\n(.*)\n=======\n.*\n>>>>>>> generated/, '$1');
+    expect(mergeDocuments([later], dir)).toEqual([{ filename: FILENAME, status: 'merged', preserved: ['Goals'], conflicts: [] }]);
+  }));
+
+  it('respects a section removed by hand', withOutput((dir, file) => {
+    edit(file, '## Risks\n\nScope creep.\n', '');
+    const next = prd({ ...V1, Overview: 'Acme tracks tasks for remote teams.', Risks: 'Scope creep and churn.' });
+
+    mergeDocuments([next], dir);
+    const merged = fs.readFileSync(file, 'utf8');
+    expect(merged).toContain('Acme tracks tasks for remote teams.');
+    expect(splitSections(merged).sections.map(s => s.title)).toEqual(['Overview', 'Goals']);
+  }));
+
+  for (const [problem, damage] of [
+    ['missing', (dir: string) => fs.rmSync(path.join(dir, MANIFEST_FILENAME))],
+    ['corrupt', (dir: string) => fs.writeFileSync(path.join(dir, MANIFEST_FILENAME), '{ "version": 1, "documents": ')],
+  ] as const) {
+    it(`treats every difference as a conflict when the manifest is ${problem}`, withOutput((dir, file) => {
+      damage(dir);
+      const next = prd({ ...V1, Goals: 'Ship the MVP by June.' });
+
+      // Without a record of what was generated, a changed section may hold edits
+      expect(mergeDocuments([next], dir)).toEqual([{ filename: FILENAME, status: 'conflict', preserved: [], conflicts: ['Goals'] }]);
+      expect(fs.readFileSync(file, 'utf8')).toContain('Acme tracks tasks.');
+    }));
+  }
+
+  it('keys localized headings by their letters', withOutput((dir, file) => {
+    expect(sectionId('Größe & Grenzen')).toBe('größe-grenzen');
+    expect(sectionId('Größe')).not.toBe(sectionId('Grüße'));
+    expect(sectionId('Sécurité')).toBe('sécurité');
+
+    const first = prd({ Größe: 'Klein.', Grüße: 'Hallo.' });
+    fs.writeFileSync(file, first.content);
+    writeManifest(dir, [first]);
+    edit(file, 'Hallo.', 'Hallo zusammen.');
+
+    const next = prd({ Größe: 'Mittel.', Grüße: 'Hallo.' });
+    expect(mergeDocuments([next], dir)).toEqual([{ filename: FILENAME, status: 'merged', preserved: ['Grüße'], conflicts: [] }]);
+    const merged = fs.readFileSync(file, 'utf8');
+    expect(merged).toContain('Mittel.');
+    expect(merged).toContain('Hallo zusammen.');
+  }));
+});
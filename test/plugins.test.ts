@@ -0,0 +1,572 @@
+/**
+ * Plugin system tests: the generate/export lifecycle, installing and
+ * configuring plugins, dependency order, the sandbox and plugin services.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { generateAllDocuments } from '../packages/cli/src/core/index.js';
+import { Blueprint } from '../packages/cli/src/client/index.js';
+import { TemplateEngine } from '../packages/cli/src/enterprise/templates/index.js';
+import { qualityValidator } from '../packages/cli/src/plugins/builtin/index.js';
+import {
+  createHttpService,
+  createPluginLogger,
+  createPluginPipeline,
+  createPluginServices,
+  createPluginSystem,
+  createTemplateService,
+  installPlugin,
+  loadSandboxedPlugin,
+  resolvePluginOrder,
+  satisfies,
+  scaffoldPlugin,
+  updatePluginSettings,
+  validatePluginConfig,
+  type FormatterPlugin,
+  type HookPlugin,
+  type PluginContext,
+  type PluginEvent,
+  type PluginMetadata,
+  type ProcessorPlugin,
+} from '../packages/cli/src/plugins/index.js';
+
+describe('Plugin pipeline', () => {
+  const project = {
+    projectName: 'Acme',
+    projectDescription: 'A task tracker for distributed teams',
+    scope: 'mvp',
+  };
+  const meta = { description: 'Test plugin', version: '1.0.0', author: { name: 'Test' } };
+
+  function recorder(events: PluginEvent[]): HookPlugin {
+    return {
+      meta: { ...meta, id: 'recorder', name: 'Recorder', type: 'hook', events: ['beforeGenerate', 'afterGenerate', 'beforeExport', 'afterExport', 'onError'] },
+      async onEvent(event, data) {
+        events.push(event);
+        if (event === 'beforeGenerate') return { ...data, variables: { ...data.variables, audience: 'enterprise' } };
+        if (event === 'afterGenerate') return { ...data, content: `${data.content}\n<!-- ${data.output} -->\n` };
+        return data;
+      },
+    };
+  }
+
+  const footer: ProcessorPlugin = {
+    meta: { ...meta, id: 'footer', name: 'Footer', type: 'processor' },
+    async process(content) {
+      return `${content}\n_Reviewed by the docs team_\n`;
+    },
+  };
+
+  it('runs generation through hooks, processors, validators and formatters', async () => {
+    const events: PluginEvent[] = [];
+    const plugins = createPluginSystem({ autoDiscover: false });
+    plugins.register(recorder(events));
+    plugins.register(footer);
+
+    const result = await new Blueprint({ plugins }).generate({ ...project, format: 'html' });
+
+    expect(result.context.audience).toBe('enterprise');
+    for (const document of result.documents) {
+      expect(document.content).toContain('_Reviewed by the docs team_');
+      expect(document.content).toContain(`<!-- ${document.filename} -->`);
+    }
+    expect(events.filter(e => e === 'afterGenerate').length).toBe(result.documents.length);
+    expect(result.validations.map(v => v.filename)).toEqual(result.documents.map(d => d.filename));
+    expect(result.validations.every(v => v.validator === qualityValidator.meta.id)).toBe(true);
+    expect(result.formatted.map(d => d.filename)).toEqual(result.documents.map(d => d.filename.replace(/\.md$/, '.html')));
+    expect(result.formatted[0].content).toContain('<html');
+  });
+
+  it('wraps exports in hooks and reports failures to onError', async () => {
+    const events: PluginEvent[] = [];
+    const plugins = createPluginSystem({ autoDiscover: false });
+    plugins.register(recorder(events));
+    await plugins.init(os.tmpdir(), os.tmpdir());
+    const pipeline = createPluginPipeline(plugins);
+
+    const documents = generateAllDocuments(project);
+    await expect(pipeline.export('test', documents, async docs => docs.length)).resolves.toBe(documents.length);
+    expect(events).toEqual(['beforeExport', 'afterExport']);
+
+    await expect(pipeline.generate(project, () => {
+      throw new Error('template missing');
+    })).rejects.toThrow('template missing');
+    expect(events.slice(-2)).toEqual(['beforeGenerate', 'onError']);
+  });
+
+  it('loads plugins dropped into .intent/plugins', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-plugins-'));
+    try {
+      fs.mkdirSync(path.join(dir, '.intent', 'plugins'), { recursive: true });
+      fs.writeFileSync(path.join(dir, '.intent', 'plugins', 'upper.mjs'), [
+        "export default {",
+        "  meta: { id: 'upper', name: 'Upper', description: 'x', version: '1.0.0', author: { name: 'x' }, type: 'processor' },",
+        "  async process(content) { return content.toUpperCase(); },",
+        "};",
+      ].join('\n'));
+
+      const plugins = createPluginSystem();
+      await plugins.init(dir, dir);
+      const [document] = generateAllDocuments(project);
+      const processed = await createPluginPipeline(plugins).processDocument(document, project);
+      expect(processed.content).toBe(document.content.toUpperCase());
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Plugin management', () => {
+  const schema = {
+    type: 'object' as const,
+    properties: {
+      level: { type: 'string' as const, enum: ['strict', 'relaxed'], default: 'relaxed' },
+      max: { type: 'number' as const },
+    },
+    required: ['max'],
+  };
+
+  function withProject(run: (dir: string) => Promise<void>) {
+    return async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-plugin-cmd-'));
+      try {
+        await run(dir);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    };
+  }
+
+  it('installs a plugin folder and applies saved enabled state and settings', withProject(async (dir) => {
+    const source = path.join(dir, 'tone');
+    fs.mkdirSync(source);
+    fs.writeFileSync(path.join(source, 'package.json'), JSON.stringify({
+      name: '@acme/tone', type: 'module', main: 'index.js', intent: { plugin: true, config: { level: 'strict' } },
+    }));
+    fs.writeFileSync(path.join(source, 'index.js'), [
+      'export default {',
+      "  meta: { id: 'tone', name: 'Tone', description: 'x', version: '1.0.0', author: { name: 'x' }, type: 'validator' },",
+      '  async init(context) { this.seen = context.config; },',
+      '  async validate() { return { valid: true, errors: [], warnings: [] }; },',
+      '};',
+    ].join('\n'));
+
+    const pluginDir = path.join(dir, '.intent', 'plugins');
+    const installed = await installPlugin(source, pluginDir);
+    expect(installed.meta.id).toBe('tone');
+    expect(installed.path).toBe(path.join(pluginDir, 'tone'));
+    await expect(installPlugin(source, pluginDir)).rejects.toThrow('--force');
+
+    const settingsFile = path.join(dir, '.intent', 'plugins.json');
+    updatePluginSettings(settingsFile, 'tone', { config: { max: 3 } });
+    const configured = createPluginSystem();
+    await configured.init(dir, dir);
+    const entry = configured.getManager().getEntry('tone');
+    expect(entry?.path).toBe(installed.path);
+    expect(entry?.config).toEqual({ level: 'strict', max: 3 });
+    expect((entry?.plugin as unknown as { seen: unknown }).seen).toEqual({ level: 'strict', max: 3 });
+
+    updatePluginSettings(settingsFile, 'tone', { enabled: false });
+    const disabled = createPluginSystem();
+    await disabled.init(dir, dir);
+    expect(disabled.getValidators().map(v => v.meta.id)).not.toContain('tone');
+  }));
+
+  it('checks settings against the plugin config schema', () => {
+    expect(validatePluginConfig(schema, { max: 3 })).toEqual([]);
+    expect(validatePluginConfig(schema, { level: 'loud', max: '3', colour: 'red' })).toEqual([
+      '"level" must be one of "strict", "relaxed", got "loud"',
+      '"max" must be a number, got string',
+      '"colour" is not a setting of this plugin (known: level, max)',
+    ]);
+    expect(validatePluginConfig(schema, {})).toEqual(['"max" is required']);
+  });
+
+  it('scaffolds a typed plugin project', withProject(async (dir) => {
+    const files = scaffoldPlugin('@acme/word-count', 'validator', path.join(dir, 'word-count'));
+    expect(files.map(f => path.relative(dir, f)).sort()).toEqual([
+      'word-count/README.md', 'word-count/package.json', 'word-count/src/index.ts', 'word-count/tsconfig.json',
+    ].map(f => f.split('/').join(path.sep)));
+
+    const pkg = JSON.parse(fs.readFileSync(path.join(dir, 'word-count', 'package.json'), 'utf8'));
+    expect(pkg.intent).toEqual({ plugin: true });
+    const source = fs.readFileSync(path.join(dir, 'word-count', 'src', 'index.ts'), 'utf8');
+    expect(source).toContain("import type { ValidatorPlugin } from '@intentsolutions/blueprint';");
+    expect(source).toContain("id: 'word-count'");
+    expect(() => scaffoldPlugin('x', 'widget' as never, path.join(dir, 'x'))).toThrow('Unknown plugin type');
+  }));
+});
+
+describe('Plugin dependencies', () => {
+  const meta = (id: string, version: string, dependencies?: string[]): PluginMetadata => ({
+    id, name: id, description: id, version, author: { name: 'x' }, type: 'processor', dependencies,
+  });
+
+  it('matches semver ranges', () => {
+    expect(satisfies('1.4.2', '^1.2.0')).toBe(true);
+    expect(satisfies('2.0.0', '^1.2.0')).toBe(false);
+    expect(satisfies('0.2.9', '^0.2.1')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.1')).toBe(false);
+    expect(satisfies('1.2.9', '~1.2.0')).toBe(true);
+    expect(satisfies('1.5.0', '>=1.0.0 <2.0.0')).toBe(true);
+    expect(satisfies('3.1.0', '1.x || 2.x')).toBe(false);
+    expect(satisfies('2.0.0-beta.1', '^2.0.0')).toBe(false);
+  });
+
+  it('orders plugins after their dependencies and explains the ones that cannot load', () => {
+    const { order, errors } = resolvePluginOrder([
+      meta('report', '1.0.0', ['lint@^1.0.0']),
+      meta('lint', '1.3.0', ['base']),
+      meta('base', '2.0.0'),
+      meta('legacy', '1.0.0', ['lint@^2.0.0']),
+      meta('ping', '1.0.0', ['pong']),
+      meta('pong', '1.0.0', ['ping']),
+      meta('echo', '1.0.0', ['ping']),
+      meta('cloud', '1.0.0', ['sync']),
+      meta('offline', '1.0.0', ['spell']),
+    ], ['spell']);
+
+    expect(order).toEqual(['base', 'lint', 'report']);
+    expect(Object.fromEntries(errors)).toEqual({
+      legacy: 'legacy depends on lint@^2.0.0, but lint 1.3.0 is installed',
+      ping: 'Dependency cycle: ping -> pong -> ping',
+      pong: 'Dependency cycle: ping -> pong -> ping',
+      echo: 'echo depends on ping, which cannot be loaded: Dependency cycle: ping -> pong -> ping',
+      cloud: 'cloud depends on sync, which is not installed',
+      offline: 'offline depends on spell, which is disabled',
+    });
+  });
+
+  it('initializes plugins in dependency order and disables ones with unmet dependencies or bad config', async () => {
+    const initialized: string[] = [];
+    const plugin = (m: PluginMetadata): ProcessorPlugin => ({
+      meta: m as ProcessorPlugin['meta'],
+      async init() { initialized.push(m.id); },
+      async process(content) { return `${content}[${m.id}]`; },
+    });
+
+    const plugins = createPluginSystem({ enableBuiltin: false, autoDiscover: false });
+    plugins.register(plugin(meta('toc', '1.0.0', ['slugs@^1.0.0'])));
+    plugins.register(plugin(meta('slugs', '1.1.0')));
+    plugins.register(plugin(meta('orphan', '1.0.0', ['missing'])));
+    plugins.register(plugin({
+      ...meta('stamp', '1.0.0'),
+      config: { type: 'object', properties: { label: { type: 'string', default: 'Draft' }, width: { type: 'number' } } },
+    }), { width: 'wide' });
+    plugins.register(plugin({
+      ...meta('tag', '1.0.0'),
+      config: { type: 'object', properties: { label: { type: 'string', default: 'Draft' } } },
+    }));
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-plugin-deps-'));
+    try {
+      await plugins.init(dir, dir);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    const manager = plugins.getManager();
+    expect(initialized).toEqual(['slugs', 'toc', 'tag']);
+    expect(await plugins.process('x')).toBe('x[slugs][toc][tag]');
+    expect(manager.getEntry('tag')?.config).toEqual({ label: 'Draft' });
+    expect(manager.getEntry('orphan')?.error).toBe('orphan depends on missing, which is not installed');
+    expect(manager.getEntry('stamp')?.error).toBe('Invalid config for stamp: "width" must be a number, got string');
+    expect(() => plugins.register(plugin(meta('late', '1.0.0', ['slugs@^2.0.0']))))
+      .toThrow('late depends on slugs@^2.0.0, but slugs 1.1.0 is installed');
+  });
+});
+
+describe('Plugin sandbox', () => {
+  const source = `
+let context;
+export default {
+  meta: { id: 'boxed', name: 'Boxed', description: 'x', version: '1.0.0', author: { name: 'x' }, type: 'formatter' },
+  async init(pluginContext) { context = pluginContext; },
+  getExtension() { return 'box'; },
+  getMimeType() { return 'text/plain'; },
+  async format(content) {
+    if (content === 'loop') while (true) {}
+    if (content === 'hog') { const chunks = []; while (true) chunks.push(new Array(1e5).fill(content)); }
+    const seen = [typeof require, typeof process];
+    for (const attempt of [
+      () => context.services.storage.read('notes.md'),
+      () => context.services.storage.read('../secrets.txt'),
+      () => context.services.http.get('https://api.example.com/words'),
+      () => context.services.http.get('https://evil.example.org/'),
+      () => context.logger.info.constructor('return process')(),
+    ]) {
+      try { seen.push(await attempt()); } catch (error) { seen.push(error.message); }
+    }
+    seen.push(context.services.templates.compile('Hi {{name}}').render({ name: content }));
+    return seen.join('|');
+  },
+};`;
+
+  function withPlugin(run: (dir: string, file: string) => Promise<void>) {
+    return async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-sandbox-'));
+      const file = path.join(dir, 'boxed.mjs');
+      fs.writeFileSync(file, source);
+      try {
+        await run(dir, file);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    };
+  }
+
+  function contextFor(dir: string): PluginContext {
+    const quiet = { debug() {}, info() {}, warn() {}, error() {} };
+    return {
+      projectPath: dir,
+      outputPath: path.join(dir, 'out'),
+      config: {},
+      logger: quiet,
+      services: {
+        templates: { render: async (t) => t, compile: () => ({ render: () => '' }) },
+        storage: { read: async (p) => `read ${path.relative(dir, p)}`, write: async () => {}, exists: async () => true, list: async () => [] },
+        http: { get: async <T>(url: string) => `got ${url}` as T, post: async <T>() => ({}) as T, put: async <T>() => ({}) as T, delete: async <T>() => ({}) as T },
+      },
+    };
+  }
+
+  it('only lets the plugin reach scoped services', withPlugin(async (dir, file) => {
+    const loaded = await loadSandboxedPlugin(file, { allowedHosts: ['api.example.com'] });
+    const plugin = loaded!.plugin as FormatterPlugin;
+    await plugin.init!(contextFor(dir));
+
+    expect(plugin.getExtension()).toBe('box');
+    expect((await plugin.format('Ann')).split('|')).toEqual([
+      'undefined',
+      'undefined',
+      'read notes.md',
+      'boxed may only use files in the project or output folder, not ../secrets.txt',
+      'got https://api.example.com/words',
+      "boxed may not contact evil.example.org; add it to allowedHosts in the plugin's sandbox settings",
+      'Code generation from strings disallowed for this context',
+      'Hi Ann',
+    ]);
+    await plugin.destroy!();
+  }));
+
+  it('stops a plugin that runs too long or uses too much memory', withPlugin(async (dir, file) => {
+    const slow = (await loadSandboxedPlugin(file, { timeLimitMs: 300 }))!.plugin as FormatterPlugin;
+    await slow.init!(contextFor(dir));
+    await expect(slow.format('loop')).rejects.toThrow('boxed exceeded its 300 ms time limit in format()');
+    await expect(slow.format('Ann')).rejects.toThrow('time limit');
+
+    const greedy = (await loadSandboxedPlugin(file, { memoryLimitMb: 16 }))!.plugin as FormatterPlugin;
+    await greedy.init!(contextFor(dir));
+    await expect(greedy.format('hog')).rejects.toThrow('boxed exceeded its 16 MB memory limit');
+  }));
+
+  it('sandboxes discovered plugins the settings ask for and refuses unbundled ones', withPlugin(async (dir, file) => {
+    const pluginDir = path.join(dir, '.intent', 'plugins');
+    fs.mkdirSync(pluginDir, { recursive: true });
+    fs.renameSync(file, path.join(pluginDir, 'boxed.mjs'));
+    updatePluginSettings(path.join(dir, '.intent', 'plugins.json'), 'boxed', { sandbox: { timeLimitMs: 2000 } });
+
+    const plugins = createPluginSystem();
+    await plugins.init(dir, dir);
+    expect(plugins.getManager().getEntry('boxed')?.sandbox).toEqual({ allowedHosts: [], timeLimitMs: 2000, memoryLimitMb: 64 });
+    expect(plugins.getFormatter('box')).toBeDefined();
+    await plugins.destroy();
+
+    const unbundled = path.join(dir, 'unbundled.mjs');
+    fs.writeFileSync(unbundled, `import fs from 'fs';\n${source}`);
+    await expect(installPlugin(unbundled, pluginDir, { sandbox: true })).rejects.toThrow('imports other modules');
+  }));
+
+  it('refuses a sandboxed plugin it cannot sandbox without running it', withPlugin(async (dir) => {
+    const pluginDir = path.join(dir, '.intent', 'plugins');
+    const settingsFile = path.join(dir, '.intent', 'plugins.json');
+    const marker = path.join(dir, 'escaped.txt');
+    fs.mkdirSync(pluginDir, { recursive: true });
+    fs.writeFileSync(path.join(pluginDir, 'escape.mjs'), [
+      "import fs from 'fs';",
+      `fs.writeFileSync(${JSON.stringify(marker)}, 'ran in the host');`,
+      "export default { meta: { id: 'escape', name: 'Escape', description: 'x', version: '1.0.0', author: { name: 'x' }, type: 'processor' }, async process(c) { return c; } };",
+    ].join('\n'));
+
+    // Keyed by file name, and by an ID that names no file: either way it must not be imported
+    for (const settings of [{ path: 'escape.mjs', sandbox: true }, { sandbox: true }]) {
+      fs.rmSync(settingsFile, { force: true });
+      updatePluginSettings(settingsFile, settings.path ? 'renamed' : 'word-cloud', settings);
+
+      const plugins = createPluginSystem();
+      await plugins.init(dir, dir);
+      expect(plugins.getManager().getEntry('escape')).toBeUndefined();
+      expect(fs.existsSync(marker)).toBe(false);
+      await plugins.destroy();
+    }
+  }));
+
+  it('imports trusted plugins once when others are sandboxed', withPlugin(async (dir, file) => {
+    const pluginDir = path.join(dir, '.intent', 'plugins');
+    const counter = path.join(dir, 'loads.txt');
+    fs.mkdirSync(pluginDir, { recursive: true });
+    fs.renameSync(file, path.join(pluginDir, 'boxed.mjs'));
+    fs.writeFileSync(path.join(pluginDir, 'native.mjs'), [
+      "import fs from 'fs';",
+      `fs.appendFileSync(${JSON.stringify(counter)}, 'load\\n');`,
+      "export default { meta: { id: 'native', name: 'Native', description: 'x', version: '1.0.0', author: { name: 'x' }, type: 'processor' }, async process(c) { return c; } };",
+    ].join('\n'));
+    updatePluginSettings(path.join(dir, '.intent', 'plugins.json'), 'boxed', { sandbox: true });
+
+    const plugins = createPluginSystem();
+    await plugins.init(dir, dir);
+    expect(plugins.getManager().getEntry('boxed')?.sandbox).toBeDefined();
+    expect(plugins.getManager().getEntry('native')?.sandbox).toBeUndefined();
+    expect(fs.readFileSync(counter, 'utf8')).toBe('load\n');
+    await plugins.destroy();
+  }));
+});
+
+describe('Plugin services', () => {
+  function withProject(run: (dir: string) => Promise<void>) {
+    return async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-services-'));
+      try {
+        await run(dir);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    };
+  }
+
+  it('keeps storage inside the project and holds writes back in a dry run', withProject(async (dir) => {
+    fs.mkdirSync(path.join(dir, 'docs', 'api'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'docs', 'prd.md'), '# PRD');
+    fs.writeFileSync(path.join(dir, 'docs', 'api', 'spec.md'), '# Spec');
+    fs.writeFileSync(path.join(dir, 'docs', 'notes.txt'), 'notes');
+    fs.symlinkSync(os.tmpdir(), path.join(dir, 'tmp-link'));
+    const writes: string[] = [];
+    const logger = createPluginLogger('plugins', { write: (entry) => writes.push(entry.message) });
+    const { storage } = createPluginServices(dir, path.join(dir, 'out'), { dryRun: true, logger });
+
+    expect(await storage.list('docs/**/*.md')).toEqual(['docs/api/spec.md', 'docs/prd.md']);
+    expect(await storage.list('docs/*.{md,txt}')).toEqual(['docs/notes.txt', 'docs/prd.md']);
+    await expect(storage.read('../secrets.txt')).rejects.toThrow('Path is outside the project: ../secrets.txt');
+    await expect(storage.read('tmp-link/secrets.txt')).rejects.toThrow('Path is outside the project');
+
+    await storage.write('out/summary.md', '# Summary');
+    expect(fs.existsSync(path.join(dir, 'out', 'summary.md'))).toBe(false);
+    expect(await storage.read('out/summary.md')).toBe('# Summary');
+    expect(await storage.list('out/*.md')).toEqual(['out/summary.md']);
+    expect(writes).toEqual(['Would write out/summary.md (9 bytes)']);
+  }));
+
+  it('retries failed reads, leaves writes alone, times out slow requests and goes through a proxy', async () => {
+    let attempts = 0;
+    let writes = 0;
+    const server = http.createServer((req, res) => {
+      if (req.url === '/flaky-write') {
+        res.statusCode = ++writes < 3 ? 503 : 201;
+        res.end();
+      } else if (req.url === '/flaky' && ++attempts < 3) {
+        res.statusCode = 503;
+        res.end();
+      } else if (req.url === '/slow') {
+        setTimeout(() => res.end('late'), 500);
+      } else if (req.url === '/missing') {
+        res.statusCode = 404;
+        res.end();
+      } else {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          res.setHeader('content-type', 'application/json');
+          res.end(JSON.stringify({ method: req.method, url: req.url, body }));
+        });
+      }
+    });
+    const proxied: string[] = [];
+    const proxy = http.createServer((req, res) => {
+      proxied.push(req.url!);
+      const upstream = http.request(req.url!, { method: req.method, headers: req.headers }, (response) => {
+        res.writeHead(response.statusCode!, response.headers);
+        response.pipe(res);
+      });
+      req.pipe(upstream);
+    });
+    const listen = (target: http.Server) => new Promise<string>((resolve) => {
+      target.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(target.address() as AddressInfo).port}`));
+    });
+    const base = await listen(server);
+    const proxyUrl = await listen(proxy);
+
+    try {
+      const direct = createHttpService({ proxy: false });
+      expect(await direct.get(`${base}/flaky`)).toEqual({ method: 'GET', url: '/flaky', body: '' });
+      expect(attempts).toBe(3);
+      expect(await direct.post(`${base}/items`, { name: 'x' })).toEqual({ method: 'POST', url: '/items', body: '{"name":"x"}' });
+      await expect(direct.post(`${base}/flaky-write`, {})).rejects.toMatchObject({ status: 503 });
+      expect(writes).toBe(1);
+      await expect(direct.post(`${base}/flaky-write`, {}, { retries: 1 })).resolves.toBeUndefined();
+      expect(writes).toBe(3);
+      await expect(direct.get(`${base}/slow`, { timeout: 100, retries: 0 })).rejects.toThrow(`GET ${base}/slow timed out after 100 ms`);
+      await expect(direct.get(`${base}/missing`)).rejects.toMatchObject({ status: 404 });
+
+      const viaProxy = createHttpService({ proxy: proxyUrl });
+      expect(await viaProxy.delete(`${base}/items/1`)).toEqual({ method: 'DELETE', url: '/items/1', body: '' });
+      expect(proxied).toEqual([`${base}/items/1`]);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+      proxy.close();
+    }
+  });
+
+  it('renders Handlebars, enterprise templates and YAML template files', withProject(async (dir) => {
+    const engine = new TemplateEngine();
+    engine.registerTemplate({
+      meta: { id: 'release-notes', name: 'Release {{version}}', description: 'Release notes', version: '1.0.0', category: 'custom', scope: 'mvp' },
+      variables: [{ name: 'version', type: 'string', label: 'Version' }],
+      sections: [{ id: 'summary', title: 'Summary', content: 'Ships {{version}}.' }],
+    });
+    fs.writeFileSync(path.join(dir, 'brief.yaml'), [
+      'meta: { id: brief, name: "Brief for {{project}}", description: Brief, version: 1.0.0, category: custom, scope: mvp }',
+      'variables: [{ name: project, type: string, label: Project }]',
+      'sections: [{ id: goal, title: Goal, content: "Launch {{project}}." }]',
+    ].join('\n'));
+    const templates = createTemplateService({ engine, root: dir });
+
+    expect(await templates.render('{{projectName}} & {{#if isSaaS}}SaaS{{/if}}', { projectName: 'Acme <App>', projectType: 'saas-web' }))
+      .toBe('Acme <App> & SaaS');
+    expect(templates.compile('v{{version}}').render({ version: 2 })).toBe('v2');
+    expect(await templates.render('release-notes', { version: '2.0' })).toBe('# Release 2.0\n\n## Summary\n\nShips 2.0.\n');
+    expect(await templates.render('brief.yaml', { project: 'Acme' })).toContain('## Goal\n\nLaunch Acme.');
+  }));
+
+  it('logs structured entries at the configured level', () => {
+    const entries: Array<{ level: string; scope: string; message: string; data?: unknown }> = [];
+    const logger = createPluginLogger('plugins', { level: 'warn', write: (entry) => entries.push(entry) });
+    logger.info('hidden');
+    logger.warn('Slow response', { ms: 900 });
+    logger.child('word-count').error('Failed', new Error('boom'));
+
+    expect(entries.map(({ level, scope, message, data }) => ({ level, scope, message, data }))).toEqual([
+      { level: 'warn', scope: 'plugins', message: 'Slow response', data: { ms: 900 } },
+      { level: 'error', scope: 'plugins:word-count', message: 'Failed', data: { name: 'Error', message: 'boom' } },
+    ]);
+
+    const saved = process.env.BLUEPRINT_LOG_LEVEL;
+    const seen: string[] = [];
+    const fromEnv = createPluginLogger('plugins', { write: (entry) => seen.push(entry.level) });
+    try {
+      process.env.BLUEPRINT_LOG_LEVEL = 'debug';
+      fromEnv.debug('shown with --verbose');
+      process.env.BLUEPRINT_LOG_LEVEL = 'error';
+      fromEnv.warn('hidden with --quiet');
+    } finally {
+      if (saved === undefined) delete process.env.BLUEPRINT_LOG_LEVEL;
+      else process.env.BLUEPRINT_LOG_LEVEL = saved;
+    }
+    expect(seen).toEqual(['debug']);
+  });
+});
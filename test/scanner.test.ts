@@ -0,0 +1,58 @@
+/**
+ * Repository scanner tests: what a codebase reveals about the project and
+ * how it pre-fills interview answers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InterviewEngine,
+  answersFromScan,
+  scanRepository,
+} from '../packages/cli/src/interview/index.js';
+
+describe('Repository scanner', () => {
+  it('infers stack, persistence, auth, deployment and compliance from a codebase', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-scan-'));
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), content);
+    };
+
+    try {
+      write('package.json', JSON.stringify({
+        name: 'task-hub',
+        dependencies: { next: '14.0.0', '@prisma/client': '5.0.0', 'next-auth': '4.0.0' },
+        devDependencies: { typescript: '5.0.0' },
+      }));
+      write('Dockerfile', 'FROM node:20\n');
+      write('k8s/app.yaml', 'apiVersion: apps/v1\nkind: Deployment\n');
+      write('README.md', '# Task Hub\n\nTask Hub helps distributed clinics plan shifts. Patient data is handled per HIPAA.\n');
+
+      const scan = scanRepository(dir);
+      const projectType = scan.findings.find(f => f.field === 'projectType')!;
+      expect(projectType.evidence.join(' ')).toContain('package.json: next');
+
+      const answers = answersFromScan(scan);
+      expect(answers).toMatchObject({
+        projectName: 'Task Hub',
+        projectType: 'saas-web',
+        hasDatabase: true,
+        hasAuth: true,
+        deploymentTarget: 'Cloud (AWS/GCP/Azure)',
+        complianceTypes: ['HIPAA'],
+        needsCompliance: true,
+      });
+      expect(answers.techStack).toEqual(expect.arrayContaining(['TypeScript', 'Next.js', 'Docker', 'Kubernetes']));
+
+      // Only what the repository could not answer is still asked
+      const engine = new InterviewEngine();
+      engine.setAnswers(answers);
+      expect(engine.getState().currentQuestion!.id).toBe('hasFrontend');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
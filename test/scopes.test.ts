@@ -0,0 +1,137 @@
+/**
+ * Scope profile tests: how `extends`, `templates`, `add`, `remove` and `packs`
+ * resolve across built-in scopes, team profiles and project profiles.
+ */
+
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadScopeProfiles,
+  resolveScope,
+  PROJECT_CONFIG_PATH,
+  type ScopeProfiles,
+  type ScopeResolverInput,
+} from '../packages/cli/src/core/scopes.js';
+
+const CORE = ['01_prd.md', '02_adr.md', '03_api_spec.md', '04_security.md', '05_runbook.md'];
+
+const PACKS = [
+  { packId: 'fintech', templateId: 'kyc', path: '/packs/fintech/kyc.md' },
+  { packId: 'fintech', templateId: 'pci', path: '/packs/fintech/pci.md' },
+  { packId: 'health', templateId: 'hipaa', path: '/packs/health/hipaa.md' },
+];
+
+function input(profiles: Partial<ScopeProfiles>): ScopeResolverInput {
+  return {
+    builtins: { mvp: ['01_prd.md', '02_adr.md'], standard: ['01_prd.md', '02_adr.md', '03_api_spec.md'] },
+    coreTemplates: CORE,
+    profiles: { team: {}, project: {}, ...profiles },
+    packTemplates: PACKS,
+  };
+}
+
+describe('Scope profiles', () => {
+  it('builds on the parent and keeps templates in numbered order', () => {
+    const scope = resolveScope('backend', input({
+      team: { backend: { description: 'Service work', extends: 'mvp', add: ['runbook', '03_api_spec'] } },
+    }));
+
+    expect(scope).toEqual({
+      name: 'backend',
+      source: 'team',
+      description: 'Service work',
+      templates: ['01_prd.md', '02_adr.md', '03_api_spec.md', '05_runbook.md'],
+      packTemplates: [],
+    });
+  });
+
+  it('lets project profiles shadow team profiles, which shadow built-ins', () => {
+    const profiles = {
+      team: {
+        mvp: { extends: 'mvp', add: ['security'] },
+        backend: { extends: 'mvp', add: ['runbook'] },
+      },
+      project: {
+        backend: { extends: 'backend', remove: ['adr'] },
+      },
+    };
+
+    // Each level that extends its own name starts from the one below it
+    expect(resolveScope('mvp', input(profiles))).toMatchObject({
+      source: 'team',
+      templates: ['01_prd.md', '02_adr.md', '04_security.md'],
+    });
+    expect(resolveScope('backend', input(profiles))).toMatchObject({
+      source: 'project',
+      templates: ['01_prd.md', '04_security.md', '05_runbook.md'],
+    });
+    expect(resolveScope('standard', input(profiles)).source).toBe('builtin');
+  });
+
+  it('removes templates the parent added, and replaces them with an explicit list', () => {
+    const profiles = {
+      team: { backend: { extends: 'standard', add: ['runbook', 'fintech/kyc'] } },
+      project: {
+        lean: { extends: 'backend', remove: ['runbook', '03_api_spec.md', 'fintech/kyc'] },
+        fresh: { extends: 'backend', templates: ['security'] },
+      },
+    };
+
+    expect(resolveScope('lean', input(profiles))).toMatchObject({ templates: ['01_prd.md', '02_adr.md'], packTemplates: [] });
+    expect(resolveScope('fresh', input(profiles))).toMatchObject({ templates: ['04_security.md'], packTemplates: [] });
+  });
+
+  it('includes every template of a pack and single pack templates', () => {
+    const scope = resolveScope('regulated', input({
+      project: { regulated: { extends: 'mvp', packs: ['fintech'], add: ['health/hipaa'], remove: ['fintech/pci'] } },
+    }));
+
+    expect(scope.templates).toEqual(['01_prd.md', '02_adr.md']);
+    expect(scope.packTemplates).toEqual([PACKS[2], PACKS[0]]);
+  });
+
+  it('names what is missing when a scope, template or pack is unknown', () => {
+    expect(() => resolveScope('enterprise', input({ team: { backend: {} } })))
+      .toThrow('Unknown scope: enterprise. Available scopes: mvp, standard, backend');
+    expect(() => resolveScope('backend', input({ team: { backend: { extends: 'frontend' } } })))
+      .toThrow('Unknown scope: frontend');
+    expect(() => resolveScope('backend', input({ team: { backend: { add: ['roadmap'] } } })))
+      .toThrow('Unknown template "roadmap" in scope "backend"');
+    expect(() => resolveScope('backend', input({ team: { backend: { packs: ['legal'] } } })))
+      .toThrow('Scope "backend" uses pack legal, which is not installed');
+    expect(() => resolveScope('backend', input({ team: { backend: { add: ['legal/nda'] } } })))
+      .toThrow('Template legal/nda not found. Is pack legal installed?');
+  });
+
+  it('rejects cyclic extends', () => {
+    expect(() => resolveScope('a', input({
+      team: { a: { extends: 'b' }, b: { extends: 'c' } },
+      project: { c: { extends: 'a' } },
+    }))).toThrow('Scope "a" extends itself: a -> b -> c -> a');
+
+    expect(() => resolveScope('loop', input({ project: { loop: { extends: 'loop' } } })))
+      .toThrow('Unknown scope: loop');
+  });
+
+  it('reads profiles and the default scope from the project config', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blueprint-scopes-'));
+    try {
+      fs.mkdirSync(path.join(dir, '.intent'));
+      fs.writeFileSync(path.join(dir, PROJECT_CONFIG_PATH), 'scope: backend\nscopes:\n  backend:\n    extends: mvp\n    add: [runbook]\n');
+
+      const profiles = loadScopeProfiles(dir, { id: 'team', name: 'Team', defaults: { scope: 'standard', scopes: { mvp: { add: ['security'] } } } });
+      expect(profiles).toEqual({
+        team: { mvp: { add: ['security'] } },
+        project: { backend: { extends: 'mvp', add: ['runbook'] } },
+        defaultScope: 'backend',
+      });
+
+      fs.writeFileSync(path.join(dir, PROJECT_CONFIG_PATH), 'scopes: [unclosed');
+      expect(() => loadScopeProfiles(dir, null)).toThrow('Invalid project config');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});